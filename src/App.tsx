@@ -1,31 +1,74 @@
 
-import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
+import { BrowserRouter as Router, Routes, Route, Outlet } from "react-router-dom";
 import DashboardNav from "./components/nav/DashboardNav";
+import RequireAuth from "./components/auth/RequireAuth";
+import { AuthProvider } from "./components/providers/AuthProvider";
+import { DataModeProvider } from "./components/providers/DataModeProvider";
+import { FundProvider } from "./components/providers/FundProvider";
+import { SettingsProvider } from "./components/providers/SettingsProvider";
+import { useDataMode } from "./hooks/use-data-mode";
+import { useFund } from "./hooks/use-fund";
 import Index from "./pages/Index";
 import InvestorsPage from "./pages/Investors";
 import InvestorDetail from "./pages/InvestorDetail";
 import Performance from "./pages/Performance";
+import AuditPage from "./pages/Audit";
+import SettingsPage from "./pages/Settings";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 import { Toaster } from "./components/ui/toaster";
 import "./App.css";
 
-function App() {
+const DashboardLayout = () => {
+  const { mode } = useDataMode();
+  const { currentFund } = useFund();
+
   return (
-    <Router>
+    <RequireAuth>
       <div className="flex min-h-screen">
         <DashboardNav />
-        <main className="flex-1 ml-64">
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/investors" element={<InvestorsPage />} />
-            <Route path="/investors/:id" element={<InvestorDetail />} />
-            <Route path="/performance" element={<Performance />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+        {/* Remount the page when switching data mode or fund, or once the
+            fund's ledger is rebuilt, so it reloads what it shows */}
+        <main key={`${mode}-${currentFund?.id}-${currentFund?.ledger_built_at}`} className="flex-1 ml-64">
+          {currentFund && <Outlet />}
         </main>
       </div>
-      <Toaster />
-    </Router>
+    </RequireAuth>
+  );
+};
+
+function App() {
+  return (
+    <AuthProvider>
+      <DataModeProvider>
+        <FundProvider>
+          <SettingsProvider>
+            <Router>
+              <Routes>
+                <Route path="/login" element={<Login />} />
+                <Route element={<DashboardLayout />}>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/investors" element={<InvestorsPage />} />
+                  <Route path="/investors/:id" element={<InvestorDetail />} />
+                  <Route path="/performance" element={<Performance />} />
+                  <Route path="/audit" element={<AuditPage />} />
+                  <Route
+                    path="/settings"
+                    element={
+                      <RequireAuth permission="manageSettings">
+                        <SettingsPage />
+                      </RequireAuth>
+                    }
+                  />
+                  <Route path="*" element={<NotFound />} />
+                </Route>
+              </Routes>
+              <Toaster />
+            </Router>
+          </SettingsProvider>
+        </FundProvider>
+      </DataModeProvider>
+    </AuthProvider>
   );
 }
 
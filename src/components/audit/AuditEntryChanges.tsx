@@ -0,0 +1,44 @@
+import React from "react";
+import { Json } from "@/integrations/supabase/types";
+import { AuditLogEntry, describeChanges } from "@/services/auditService";
+
+interface AuditEntryChangesProps {
+  entry: AuditLogEntry;
+}
+
+const formatValue = (value: Json | undefined) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * The before and after values of the fields an audit entry touched
+ */
+const AuditEntryChanges: React.FC<AuditEntryChangesProps> = ({ entry }) => {
+  const changes = describeChanges(entry);
+
+  if (!changes.length) {
+    return <p className="text-xs text-muted-foreground">No field changes recorded</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {changes.map(({ field, before, after }) => (
+        <div key={field} className="grid grid-cols-[140px_1fr] gap-2">
+          <span className="text-muted-foreground font-mono">{field}</span>
+          <span className="break-all">
+            {entry.action !== "insert" && (
+              <span className="line-through text-danger-DEFAULT mr-2">{formatValue(before)}</span>
+            )}
+            {entry.action !== "delete" && (
+              <span className="text-success-DEFAULT">{formatValue(after)}</span>
+            )}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AuditEntryChanges;
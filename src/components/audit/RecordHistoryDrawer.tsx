@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import AuditEntryChanges from "@/components/audit/AuditEntryChanges";
+import { AuditedTable, AuditLogEntry, getRecordHistory } from "@/services/auditService";
+
+interface RecordHistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tableName: AuditedTable;
+  recordId: string | number | null;
+  title: string;
+}
+
+/**
+ * Slide-out history of every change made to a single record
+ */
+const RecordHistoryDrawer: React.FC<RecordHistoryDrawerProps> = ({
+  open,
+  onOpenChange,
+  tableName,
+  recordId,
+  title,
+}) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || recordId === null) return;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      setEntries(await getRecordHistory(tableName, recordId));
+      setLoading(false);
+    };
+
+    fetchHistory();
+  }, [open, tableName, recordId]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-[480px] sm:max-w-[480px] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{title}</SheetTitle>
+          <SheetDescription>Every change recorded for this record, newest first.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          {loading ? (
+            [...Array(3)].map((_, i) => <Skeleton key={i} className="h-20 w-full" />)
+          ) : entries.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No changes recorded</p>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline" className="capitalize">{entry.action}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(entry.occurred_at), "d MMM yyyy HH:mm")}
+                  </span>
+                </div>
+                <p className="text-sm">
+                  <span className="text-muted-foreground">By </span>
+                  {entry.actor_email ?? "Unknown user"}
+                </p>
+                {entry.reason && (
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Reason: </span>
+                    {entry.reason}
+                  </p>
+                )}
+                <AuditEntryChanges entry={entry} />
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default RecordHistoryDrawer;
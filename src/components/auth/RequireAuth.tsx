@@ -0,0 +1,63 @@
+import React from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Permission, signOut } from "@/services/authService";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+  // Additionally require a permission; any role can view by default
+  permission?: Permission;
+}
+
+/**
+ * Only render children for a signed-in user with a role, sending everyone
+ * else to the sign in page
+ */
+const RequireAuth = ({ children, permission }: RequireAuthProps) => {
+  const { session, role, loading, can } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="p-8 space-y-4">
+        <Skeleton className="h-10 w-[240px]" />
+        <Skeleton className="h-[400px] w-full" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!role || (permission && !can(permission))) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="items-center text-center">
+            <ShieldAlert className="h-10 w-10 text-muted-foreground mb-2" />
+            <CardTitle>Access denied</CardTitle>
+            <CardDescription>
+              {role
+                ? "Your role does not allow access to this page."
+                : `${session.user.email} has not been granted access to the dashboard. Ask an admin to assign you a role.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex justify-center">
+            <Button variant="outline" onClick={() => signOut()}>
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
@@ -0,0 +1,273 @@
+import React from "react";
+import { FileUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import ColumnMappingFields from "@/components/import/ColumnMappingFields";
+import ImportFileInput from "@/components/import/ImportFileInput";
+import { Benchmark } from "@/repositories";
+import {
+  BENCHMARK_IMPORT_FIELDS,
+  BenchmarkColumnMapping,
+  buildBenchmarkImportPreview,
+  importBenchmark,
+} from "@/services/benchmarkImportService";
+import { BENCHMARK_KINDS, BenchmarkKind } from "@/services/benchmarkService";
+import { formatDate, formatNumber, formatPercentage } from "@/utils/formatters";
+import { guessColumnMapping, ImportDateFormat, ImportTable } from "@/utils/importUtils";
+
+type Step = "upload" | "map" | "preview";
+
+interface BenchmarkImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  benchmarks: Benchmark[];
+  onSuccess: () => void;
+}
+
+export default function BenchmarkImportWizard({ open, onOpenChange, benchmarks, onSuccess }: BenchmarkImportWizardProps) {
+  const { toast } = useToast();
+  const [step, setStep] = React.useState<Step>("upload");
+  const [fileName, setFileName] = React.useState("");
+  const [table, setTable] = React.useState<ImportTable | null>(null);
+  const [name, setName] = React.useState("");
+  const [kind, setKind] = React.useState<BenchmarkKind>("return");
+  const [mapping, setMapping] = React.useState<BenchmarkColumnMapping>({});
+  const [dateFormat, setDateFormat] = React.useState<ImportDateFormat>("yyyy-MM-dd");
+  const [returnsAsFractions, setReturnsAsFractions] = React.useState(false);
+  const [isImporting, setIsImporting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setTable(null);
+    setFileName("");
+    setName("");
+  }, [open]);
+
+  // Importing under an existing name adds to that benchmark, in its own kind
+  const existing = benchmarks.find(
+    benchmark => benchmark.name.trim().toLowerCase() === name.trim().toLowerCase()
+  ) ?? null;
+  const effectiveKind = (existing?.kind as BenchmarkKind | undefined) ?? kind;
+
+  const preview = React.useMemo(
+    () =>
+      table
+        ? buildBenchmarkImportPreview(table, mapping, { dateFormat, kind: effectiveKind, returnsAsFractions })
+        : { rows: [], months: [] },
+    [table, mapping, dateFormat, effectiveKind, returnsAsFractions]
+  );
+  const invalidRows = preview.rows.filter(row => row.errors.length);
+  const missingRequired = BENCHMARK_IMPORT_FIELDS.some(({ field, required }) => required && mapping[field] === undefined);
+
+  function handleLoaded(parsed: ImportTable, loadedName: string) {
+    setFileName(loadedName);
+    setTable(parsed);
+    setMapping(guessColumnMapping(BENCHMARK_IMPORT_FIELDS, parsed.headers));
+    setName(current => current || loadedName.replace(/\.(csv|xlsx)$/i, ""));
+    setStep("map");
+  }
+
+  async function handleImport() {
+    setIsImporting(true);
+    const result = await importBenchmark(
+      { name: existing?.name ?? name.trim(), kind: effectiveKind, existing },
+      preview.months,
+      fileName
+    );
+    setIsImporting(false);
+
+    if (result.success) {
+      toast({
+        title: "Benchmark imported",
+        description: `Imported ${result.imported} months of ${existing?.name ?? name.trim()} from ${fileName}`,
+      });
+      onOpenChange(false);
+      onSuccess();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: `No values were imported. ${result.error?.message || ""}`.trim(),
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Benchmark</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or XLSX file with a date column and a return or index level column."}
+            {step === "map" && `Name the benchmark and match the columns of ${fileName}.`}
+            {step === "preview" &&
+              "Check the monthly series. Months already recorded for this benchmark are replaced."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <ImportFileInput
+            onLoaded={handleLoaded}
+            hint="Daily or weekly values are reduced to one value per month."
+          />
+        )}
+
+        {step === "map" && table && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="benchmark-name">Name</Label>
+                <Input id="benchmark-name" value={name} onChange={event => setName(event.target.value)} />
+                {existing && (
+                  <p className="text-xs text-muted-foreground">Adds to the existing benchmark {existing.name}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Series</Label>
+                <Select
+                  value={effectiveKind}
+                  onValueChange={value => setKind(value as BenchmarkKind)}
+                  disabled={existing !== null}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BENCHMARK_KINDS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <ColumnMappingFields
+              fields={BENCHMARK_IMPORT_FIELDS}
+              headers={table.headers}
+              mapping={mapping}
+              onMappingChange={setMapping}
+              dateFormat={dateFormat}
+              onDateFormatChange={setDateFormat}
+            />
+            {effectiveKind === "return" && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="benchmark-returns-as-fractions"
+                  checked={returnsAsFractions}
+                  onCheckedChange={checked => setReturnsAsFractions(checked === true)}
+                />
+                <Label htmlFor="benchmark-returns-as-fractions">Returns are fractions (0.012 means 1.2%)</Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{preview.months.length} months</Badge>
+              {invalidRows.length > 0 && (
+                <Badge variant="outline" className="text-danger-DEFAULT border-danger-DEFAULT/50">
+                  {invalidRows.length} rows with errors
+                </Badge>
+              )}
+            </div>
+            {invalidRows.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto text-sm text-danger-DEFAULT">
+                {invalidRows.map(row => (
+                  <li key={row.rowNumber}>
+                    Row {row.rowNumber}: {row.errors.join("; ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month End</TableHead>
+                    <TableHead className="text-right">{effectiveKind === "return" ? "Return" : "Level"}</TableHead>
+                    <TableHead className="text-right">Observations</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.months.map(month => (
+                    <TableRow key={month.month_end_date}>
+                      <TableCell>{formatDate(month.month_end_date)}</TableCell>
+                      <TableCell className="text-right">
+                        {effectiveKind === "return" ? formatPercentage(month.value) : formatNumber(month.value)}
+                      </TableCell>
+                      <TableCell className="text-right">{month.observations}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {invalidRows.length > 0 && (
+              <p className="text-sm text-danger-DEFAULT">
+                Fix the rows with errors in the file, or change the column mapping, before importing.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button onClick={() => setStep("preview")} disabled={missingRequired || !name.trim()}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || invalidRows.length > 0 || preview.months.length === 0}
+                className="flex items-center gap-2"
+              >
+                <FileUp size={16} />
+                {isImporting ? "Importing..." : `Import ${preview.months.length} months`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+import React from "react";
+import { FileUp, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import BenchmarkImportWizard from "@/components/benchmarks/BenchmarkImportWizard";
+import { Benchmark, getAllBenchmarks } from "@/repositories";
+import {
+  BENCHMARK_KINDS,
+  getSelectedBenchmarkIds,
+  removeBenchmark,
+  setBenchmarkSelected,
+} from "@/services/benchmarkService";
+
+interface BenchmarksCardProps {
+  // Called whenever the benchmarks or the choice of benchmarks changes
+  onChanged: () => void;
+}
+
+/**
+ * The benchmarks: which are overlaid on the current fund's charts, and
+ * importing or deleting them
+ */
+const BenchmarksCard = ({ onChanged }: BenchmarksCardProps) => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const [benchmarks, setBenchmarks] = React.useState<Benchmark[]>([]);
+  const [selectedIds, setSelectedIds] = React.useState<number[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [showImport, setShowImport] = React.useState(false);
+  const [toDelete, setToDelete] = React.useState<Benchmark | null>(null);
+  const canManage = can("manageBenchmarks");
+
+  const fetchBenchmarks = React.useCallback(async () => {
+    const [all, selected] = await Promise.all([getAllBenchmarks(), getSelectedBenchmarkIds()]);
+    setBenchmarks(all);
+    setSelectedIds(selected);
+    setLoading(false);
+  }, []);
+
+  React.useEffect(() => {
+    fetchBenchmarks();
+  }, [fetchBenchmarks]);
+
+  async function handleChanged() {
+    await fetchBenchmarks();
+    onChanged();
+  }
+
+  async function handleSelect(benchmark: Benchmark, selected: boolean) {
+    const result = await setBenchmarkSelected(benchmark.id, selected);
+    if (result.success) {
+      handleChanged();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Could not update benchmark",
+        description: result.error?.message,
+      });
+    }
+  }
+
+  async function handleDelete() {
+    if (!toDelete) return;
+    const result = await removeBenchmark(toDelete);
+    setToDelete(null);
+    if (result.success) {
+      toast({ title: "Benchmark deleted", description: `${toDelete.name} and its values were deleted` });
+      handleChanged();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Could not delete benchmark",
+        description: result.error?.message,
+      });
+    }
+  }
+
+  return (
+    <Card className="p-6 metric-card">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Benchmarks</h2>
+          <p className="text-sm text-gray-400">Benchmarks shown on charts are rebased to the fund's NAV</p>
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={() => setShowImport(true)} className="flex items-center gap-2">
+            <FileUp size={16} />
+            Import Benchmark
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <Skeleton className="h-[120px] w-full" />
+      ) : benchmarks.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Series</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Show on Charts</TableHead>
+              {canManage && <TableHead className="w-[60px]" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {benchmarks.map(benchmark => (
+              <TableRow key={benchmark.id}>
+                <TableCell className="font-medium">{benchmark.name}</TableCell>
+                <TableCell>{BENCHMARK_KINDS.find(kind => kind.value === benchmark.kind)?.label ?? benchmark.kind}</TableCell>
+                <TableCell className="text-muted-foreground">{benchmark.source_file ?? "-"}</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={selectedIds.includes(benchmark.id)}
+                    onCheckedChange={checked => handleSelect(benchmark, checked)}
+                    disabled={!canManage}
+                  />
+                </TableCell>
+                {canManage && (
+                  <TableCell>
+                    <Button variant="ghost" size="icon" title="Delete benchmark" onClick={() => setToDelete(benchmark)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="h-[80px] flex items-center justify-center text-gray-400">
+          No benchmarks have been imported
+        </div>
+      )}
+
+      <BenchmarkImportWizard
+        open={showImport}
+        onOpenChange={setShowImport}
+        benchmarks={benchmarks}
+        onSuccess={handleChanged}
+      />
+
+      <AlertDialog open={toDelete !== null} onOpenChange={open => !open && setToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {toDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its values are deleted too. Hurdles tied to this benchmark grow by their hurdle rate alone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default BenchmarksCard;
@@ -0,0 +1,56 @@
+import React from "react";
+import { History, MoreHorizontal, Pencil, Undo2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CapitalFlowStatus } from "@/services/capitalFlowService";
+import { CorrectionMode } from "./CapitalFlowCorrectionDialog";
+
+interface CapitalFlowActionsProps {
+  status: CapitalFlowStatus | undefined;
+  onSelect: (mode: CorrectionMode) => void;
+}
+
+/**
+ * Edit, reverse or trace a flow. Reversals and flows already reversed can
+ * only be viewed.
+ */
+const CapitalFlowActions = ({ status, onSelect }: CapitalFlowActionsProps) => {
+  const { can } = useAuth();
+  const correctable = can("enterFlows") && (status === "posted" || status === "correction");
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" title="Transaction actions">
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {correctable && (
+          <>
+            <DropdownMenuItem onClick={() => onSelect("edit")}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onSelect("reverse")}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              Reverse
+            </DropdownMenuItem>
+          </>
+        )}
+        <DropdownMenuItem onClick={() => onSelect("history")}>
+          <History className="mr-2 h-4 w-4" />
+          Correction history
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default CapitalFlowActions;
@@ -0,0 +1,26 @@
+import React from "react";
+import { CapitalFlow } from "@/repositories";
+import { signedFlowAmount } from "@/services/capitalFlowService";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+
+interface CapitalFlowAmountProps {
+  flow: Pick<CapitalFlow, "type" | "amount">;
+  className?: string;
+}
+
+/**
+ * A flow's amount signed by its effect on the investor's capital, so that
+ * reversals show as the opposite of the flow they cancel
+ */
+const CapitalFlowAmount = ({ flow, className = "" }: CapitalFlowAmountProps) => {
+  const { formatCurrency } = useCurrencyFormat();
+  const signed = signedFlowAmount(flow);
+
+  return (
+    <span className={`font-medium ${signed >= 0 ? "text-success-DEFAULT" : "text-danger-DEFAULT"} ${className}`}>
+      {signed >= 0 ? "+" : "-"}{formatCurrency(Math.abs(signed))}
+    </span>
+  );
+};
+
+export default CapitalFlowAmount;
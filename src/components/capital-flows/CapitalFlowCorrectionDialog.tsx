@@ -0,0 +1,290 @@
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CapitalFlow } from "@/repositories";
+import {
+  correctCapitalFlow,
+  getCorrectionChain,
+  reverseCapitalFlow,
+} from "@/services/capitalFlowService";
+import CapitalFlowAmount from "./CapitalFlowAmount";
+import { formatDate } from "@/utils/formatters";
+
+export type CorrectionMode = "edit" | "reverse" | "history";
+
+const formSchema = z.object({
+  type: z.enum(["contribution", "withdrawal"], {
+    required_error: "Transaction type is required",
+  }),
+  amount: z.coerce
+    .number({
+      required_error: "Amount is required",
+      invalid_type_error: "Amount must be a number",
+    })
+    .positive("Amount must be a positive number"),
+  date: z.date({
+    required_error: "Date is required",
+  }),
+  reason: z.string().trim().min(1, "Give a reason for the correction"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface CapitalFlowCorrectionDialogProps {
+  flow: CapitalFlow | null;
+  mode: CorrectionMode;
+  // Every flow for the investor, to trace the correction history
+  flows: CapitalFlow[];
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+const TITLES: Record<CorrectionMode, string> = {
+  edit: "Edit Transaction",
+  reverse: "Reverse Transaction",
+  history: "Correction History",
+};
+
+export default function CapitalFlowCorrectionDialog({
+  flow,
+  mode,
+  flows,
+  onOpenChange,
+  onSuccess,
+}: CapitalFlowCorrectionDialogProps) {
+  const { formatCurrency } = useCurrencyFormat();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+  });
+
+  React.useEffect(() => {
+    if (!flow) return;
+    form.reset({
+      type: flow.type as "contribution" | "withdrawal",
+      amount: Math.abs(Number(flow.amount)),
+      date: parseISO(flow.date),
+      reason: "",
+    });
+  }, [flow, form]);
+
+  const chain = flow ? getCorrectionChain(flow.id, flows) : [];
+
+  async function onSubmit(data: FormValues) {
+    if (!flow) return;
+
+    const date = format(data.date, "yyyy-MM-dd");
+    if (
+      mode === "edit" &&
+      data.type === flow.type &&
+      data.amount === Number(flow.amount) &&
+      date === flow.date
+    ) {
+      form.setError("amount", { message: "Change the type, amount or date to post a correction" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = mode === "edit"
+        ? await correctCapitalFlow(flow, { type: data.type, amount: data.amount, date }, data.reason)
+        : await reverseCapitalFlow(flow, data.reason);
+
+      if (result.success) {
+        toast({
+          title: mode === "edit" ? "Transaction Corrected" : "Transaction Reversed",
+          description: mode === "edit"
+            ? `Posted a reversal and the corrected ${data.type} of ${formatCurrency(data.amount)} for ${flow.investor_name}`
+            : `Posted a reversal of the ${flow.type} of ${formatCurrency(Number(flow.amount))} for ${flow.investor_name}`,
+        });
+        onOpenChange(false);
+        onSuccess();
+      } else {
+        toast({
+          variant: "destructive",
+          title: mode === "edit" ? "Failed to correct transaction" : "Failed to reverse transaction",
+          description: result.error?.message || "An unknown error occurred",
+        });
+      }
+    } catch (error) {
+      console.error("Error correcting transaction:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to correct the transaction. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={flow !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{TITLES[mode]}</DialogTitle>
+          <DialogDescription>
+            {mode === "edit" &&
+              "The original transaction is kept and cancelled by a reversing entry, and the corrected transaction is posted alongside it."}
+            {mode === "reverse" &&
+              "A reversing entry is posted against this transaction so that it no longer affects the investor's units."}
+            {mode === "history" && flow && `Every version of this ${flow.type} for ${flow.investor_name}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {chain.length > 0 && (
+          <div className="space-y-2">
+            {chain.map((version, index) => (
+              <div
+                key={version.id}
+                className={`flex justify-between items-center rounded-md border p-2 text-sm ${
+                  version.id === flow?.id || version.id === flow?.reverses_flow_id ? "border-accent" : ""
+                }`}
+              >
+                <div>
+                  <p className="font-medium capitalize">
+                    {index === 0 ? "Original" : `Correction ${index}`} · {version.type}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {formatDate(version.date)}
+                    {flows.some(other => other.reverses_flow_id === version.id) && " · reversed"}
+                  </p>
+                </div>
+                <CapitalFlowAmount flow={version} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {mode !== "history" && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {mode === "edit" && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Transaction Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select transaction type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="contribution">Contribution</SelectItem>
+                            <SelectItem value="withdrawal">Withdrawal</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Amount ($)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            {...field}
+                            onChange={(e) => {
+                              field.onChange(e.target.value === "" ? undefined : e.target.value);
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="date"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Transaction Date</FormLabel>
+                        <FormControl>
+                          <DatePicker
+                            date={field.value}
+                            onSelect={field.onChange}
+                            placeholder="Select transaction date"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="e.g. Amount mistyped, confirmed against bank statement" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  variant={mode === "reverse" ? "destructive" : "default"}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting
+                    ? "Posting..."
+                    : mode === "edit" ? "Post Correction" : "Post Reversal"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
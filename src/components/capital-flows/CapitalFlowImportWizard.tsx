@@ -0,0 +1,322 @@
+import React from "react";
+import { FileUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import ColumnMappingFields from "@/components/import/ColumnMappingFields";
+import ImportFileInput from "@/components/import/ImportFileInput";
+import { CapitalFlow, getAllCapitalFlows, getAllInvestors, Investor } from "@/repositories";
+import {
+  buildFlowImportPreview,
+  FLOW_IMPORT_FIELDS,
+  FlowColumnMapping,
+  importableFlowRows,
+  importCapitalFlows,
+  manualMatchKey,
+} from "@/services/capitalFlowImportService";
+import { formatDate } from "@/utils/formatters";
+import { guessColumnMapping, ImportDateFormat, ImportTable } from "@/utils/importUtils";
+
+type Step = "upload" | "map" | "match" | "preview";
+
+interface CapitalFlowImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export default function CapitalFlowImportWizard({ open, onOpenChange, onSuccess }: CapitalFlowImportWizardProps) {
+  const { formatCurrency } = useCurrencyFormat();
+  const { toast } = useToast();
+  const [step, setStep] = React.useState<Step>("upload");
+  const [fileName, setFileName] = React.useState("");
+  const [table, setTable] = React.useState<ImportTable | null>(null);
+  const [mapping, setMapping] = React.useState<FlowColumnMapping>({});
+  const [dateFormat, setDateFormat] = React.useState<ImportDateFormat>("yyyy-MM-dd");
+  const [manualMatches, setManualMatches] = React.useState<Record<string, string>>({});
+  const [investors, setInvestors] = React.useState<Investor[]>([]);
+  const [existing, setExisting] = React.useState<CapitalFlow[]>([]);
+  const [isImporting, setIsImporting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setTable(null);
+    setFileName("");
+    setManualMatches({});
+    getAllInvestors().then(setInvestors);
+    getAllCapitalFlows().then(setExisting);
+  }, [open]);
+
+  const preview = React.useMemo(
+    () => (table ? buildFlowImportPreview(table, mapping, dateFormat, investors, existing, manualMatches) : []),
+    [table, mapping, dateFormat, investors, existing, manualMatches]
+  );
+
+  // Each distinct investor name the file uses that needs a manual match,
+  // whether or not one has been chosen yet
+  const toMatch = React.useMemo(() => {
+    const unresolved = new Map<string, { label: string; candidates: Investor[] }>();
+    if (!table) return [];
+    buildFlowImportPreview(table, mapping, dateFormat, investors, existing).forEach(row => {
+      if (!row.investorLabel || row.match.status === "matched") return;
+      unresolved.set(manualMatchKey(row.investorLabel), {
+        label: row.investorLabel,
+        candidates: row.match.status === "ambiguous" ? row.match.candidates : [],
+      });
+    });
+    return [...unresolved.entries()];
+  }, [table, mapping, dateFormat, investors, existing]);
+
+  const importable = importableFlowRows(preview);
+  const invalidCount = preview.filter(row => row.errors.length).length;
+  const existingCount = preview.filter(row => row.duplicateOf === "existing").length;
+  const repeatedCount = preview.filter(row => row.duplicateOf === "file").length;
+  const missingRequired = FLOW_IMPORT_FIELDS.some(({ field, required }) => required && mapping[field] === undefined);
+
+  function handleLoaded(parsed: ImportTable, name: string) {
+    setFileName(name);
+    setTable(parsed);
+    setMapping(guessColumnMapping(FLOW_IMPORT_FIELDS, parsed.headers));
+    setStep("map");
+  }
+
+  async function handleImport() {
+    setIsImporting(true);
+    const result = await importCapitalFlows(importable, fileName);
+    setIsImporting(false);
+
+    if (result.success) {
+      toast({
+        title: "Capital flows imported",
+        description: `Imported ${result.imported} flows from ${fileName}`,
+      });
+      onOpenChange(false);
+      onSuccess();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: `No flows were imported. ${result.error?.message || ""}`.trim(),
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Capital Flows</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload the administrator's subscriptions and redemptions report as CSV or XLSX."}
+            {step === "map" && `Match the columns of ${fileName} to the capital flow fields.`}
+            {step === "match" && "Choose the investor for each name that does not match exactly one investor."}
+            {step === "preview" &&
+              "Check the parsed flows. Flows already recorded are skipped; the rest are posted together or not at all."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <ImportFileInput
+            onLoaded={handleLoaded}
+            hint="Investors are matched by administrator ID where the report has one, otherwise by name."
+          />
+        )}
+
+        {step === "map" && table && (
+          <ColumnMappingFields
+            fields={FLOW_IMPORT_FIELDS}
+            headers={table.headers}
+            mapping={mapping}
+            onMappingChange={setMapping}
+            dateFormat={dateFormat}
+            onDateFormatChange={setDateFormat}
+          />
+        )}
+
+        {step === "match" && (
+          <div className="space-y-4">
+            {toMatch.map(([key, { label, candidates }]) => (
+              <div key={key} className="grid grid-cols-2 items-center gap-4">
+                <Label>
+                  {label}
+                  <span className="block text-xs text-muted-foreground">
+                    {candidates.length ? `${candidates.length} investors with this name` : "No investor with this name"}
+                  </span>
+                </Label>
+                <Select
+                  value={manualMatches[key] ?? ""}
+                  onValueChange={value => setManualMatches(current => ({ ...current, [key]: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose an investor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Same name</SelectLabel>
+                        {candidates.map(investor => (
+                          <SelectItem key={investor.id} value={investor.id}>
+                            {investor.name}
+                            {investor.external_id ? ` (${investor.external_id})` : ` (since ${formatDate(investor.start_date)})`}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    <SelectGroup>
+                      <SelectLabel>All investors</SelectLabel>
+                      {investors
+                        .filter(investor => !candidates.includes(investor))
+                        .map(investor => (
+                          <SelectItem key={investor.id} value={investor.id}>
+                            {investor.name}
+                          </SelectItem>
+                        ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{importable.length} to import</Badge>
+              {existingCount > 0 && (
+                <Badge variant="outline" className="text-amber-400 border-amber-400/50">
+                  {existingCount} already recorded
+                </Badge>
+              )}
+              {repeatedCount > 0 && (
+                <Badge variant="outline" className="text-amber-400 border-amber-400/50">
+                  {repeatedCount} repeated in file
+                </Badge>
+              )}
+              {invalidCount > 0 && (
+                <Badge variant="outline" className="text-danger-DEFAULT border-danger-DEFAULT/50">
+                  {invalidCount} with errors
+                </Badge>
+              )}
+            </div>
+            <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Investor</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                      {row.values ? (
+                        <>
+                          <TableCell>{formatDate(row.values.date)}</TableCell>
+                          <TableCell>
+                            {row.values.investor_name}
+                            {row.match.status === "matched" && row.match.by !== "name" && (
+                              <span className="block text-xs text-muted-foreground">
+                                {row.match.by === "manual" ? `Matched manually to "${row.investorLabel}"` : "Matched by administrator ID"}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="capitalize">{row.values.type}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.values.amount)}</TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={4} className="text-danger-DEFAULT">
+                          {row.errors.join("; ")}
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        {row.errors.length > 0 && <span className="text-danger-DEFAULT">Invalid</span>}
+                        {row.duplicateOf === "existing" && <span className="text-amber-400">Already recorded</span>}
+                        {row.duplicateOf === "file" && <span className="text-amber-400">Repeated in file</span>}
+                        {!row.errors.length && !row.duplicateOf && "Ready"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {invalidCount > 0 && (
+              <p className="text-sm text-danger-DEFAULT">
+                Fix the rows with errors in the file, or change the column mapping, before importing.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button onClick={() => setStep(toMatch.length ? "match" : "preview")} disabled={missingRequired}>
+                Next
+              </Button>
+            </>
+          )}
+          {step === "match" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button onClick={() => setStep("preview")}>Preview</Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep(toMatch.length ? "match" : "map")}>
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || invalidCount > 0 || importable.length === 0}
+                className="flex items-center gap-2"
+              >
+                <FileUp size={16} />
+                {isImporting ? "Importing..." : `Import ${importable.length} flows`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,24 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { CapitalFlowStatus } from "@/services/capitalFlowService";
+
+const LABELS: Record<Exclude<CapitalFlowStatus, "posted">, { label: string; title: string }> = {
+  reversed: { label: "Reversed", title: "Cancelled by a reversing entry" },
+  reversal: { label: "Reversal", title: "Cancels an earlier transaction" },
+  correction: { label: "Correction", title: "Replaces a reversed transaction" },
+};
+
+/**
+ * Mark flows that are part of a correction; posted flows show nothing
+ */
+const CapitalFlowStatusBadge = ({ status }: { status: CapitalFlowStatus | undefined }) => {
+  if (!status || status === "posted") return null;
+
+  return (
+    <Badge variant="outline" title={LABELS[status].title} className="ml-2 text-muted-foreground">
+      {LABELS[status].label}
+    </Badge>
+  );
+};
+
+export default CapitalFlowStatusBadge;
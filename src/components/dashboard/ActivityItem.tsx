@@ -7,15 +7,18 @@ interface ActivityItemProps {
   amount: number; 
   investor: string; 
   date: string;
+  // Reversals carry a negative amount and undo a flow of the same type
+  isReversal?: boolean;
 }
 
 const ActivityItem = ({ 
   type, 
   amount, 
   investor, 
-  date 
+  date,
+  isReversal = false,
 }: ActivityItemProps) => {
-  const isContribution = type === 'contribution';
+  const isContribution = (type === 'contribution') !== amount < 0;
   
   return (
     <div className="flex items-center justify-between p-4 rounded-lg activity-item">
@@ -40,9 +43,9 @@ const ActivityItem = ({
         <p className={`font-medium ${
           isContribution ? 'text-success-DEFAULT' : 'text-danger-DEFAULT'
         }`}>
-          {isContribution ? '+' : '-'}${(amount / 1000).toFixed(1)}k
+          {isContribution ? '+' : '-'}${(Math.abs(amount) / 1000).toFixed(1)}k
         </p>
-        <p className="text-sm text-gray-400">{type}</p>
+        <p className="text-sm text-gray-400">{isReversal ? `${type} reversal` : type}</p>
       </div>
     </div>
   );
@@ -9,30 +9,25 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer
 } from "recharts";
-import { format } from "date-fns";
-import { MonthlyNav } from "@/services/navService";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+import { MonthlyNav } from "@/repositories";
+import { BenchmarkSeries } from "@/services/benchmarkService";
+import { prepareChartData } from "@/services/performanceService";
+import { getBenchmarkColor } from "@/utils/formatters";
 
 interface NavChartProps {
-  navData: MonthlyNav[];
+  navData: Pick<MonthlyNav, "month_end_date" | "total_nav" | "monthly_return">[];
+  // Drawn on a second axis against the fund's growth of 100
+  benchmarks?: BenchmarkSeries[];
   loading: boolean;
 }
 
-const formatCurrency = (value: number) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-};
-
-const NavChart = ({ navData, loading }: NavChartProps) => {
-  const chartData = navData.map(item => ({
-    date: format(new Date(item.month_end_date), 'MMM yyyy'),
-    value: item.total_nav
-  }));
+const NavChart = ({ navData, benchmarks = [], loading }: NavChartProps) => {
+  const { formatCurrency } = useCurrencyFormat();
+  const chartData = prepareChartData(navData, benchmarks);
 
   return (
     <Card className="p-6 metric-card">
@@ -60,12 +55,22 @@ const NavChart = ({ navData, loading }: NavChartProps) => {
                 tick={{ fill: 'rgba(255,255,255,0.7)' }}
               />
               <YAxis 
+                yAxisId="nav"
                 stroke="rgba(255,255,255,0.5)"
                 tick={{ fill: 'rgba(255,255,255,0.7)' }}
                 tickFormatter={(value) => `$${(value / 1000000).toFixed(1)}M`}
               />
+              {benchmarks.length > 0 && (
+                <YAxis
+                  yAxisId="index"
+                  orientation="right"
+                  stroke="rgba(255,255,255,0.5)"
+                  tick={{ fill: 'rgba(255,255,255,0.7)' }}
+                  domain={["auto", "auto"]}
+                />
+              )}
               <Tooltip
-                formatter={(value: number) => [formatCurrency(value), "NAV"]}
+                formatter={(value: number, name: string) => [name === "NAV" ? formatCurrency(value) : value.toFixed(1), name]}
                 labelFormatter={(label) => `Date: ${label}`}
                 contentStyle={{ 
                   backgroundColor: 'rgba(39, 20, 69, 0.9)',
@@ -74,13 +79,41 @@ const NavChart = ({ navData, loading }: NavChartProps) => {
                 }}
               />
               <Line
+                yAxisId="nav"
                 type="monotone"
-                dataKey="value"
+                dataKey="nav"
+                name="NAV"
                 stroke="rgb(151, 222, 244)"
                 strokeWidth={2}
                 dot={{ fill: 'rgb(151, 222, 244)', strokeWidth: 1, r: 4 }}
                 activeDot={{ r: 6, fill: 'rgb(178, 247, 245)' }}
               />
+              {benchmarks.length > 0 && (
+                <Line
+                  yAxisId="index"
+                  type="monotone"
+                  dataKey="growth"
+                  name="Fund (growth of 100)"
+                  stroke="rgb(178, 247, 245)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              )}
+              {benchmarks.map((series, index) => (
+                <Line
+                  key={series.benchmark.id}
+                  yAxisId="index"
+                  type="monotone"
+                  dataKey={(point: (typeof chartData)[number]) => point.benchmarks[series.benchmark.id]}
+                  name={series.benchmark.name}
+                  stroke={getBenchmarkColor(index)}
+                  strokeWidth={2}
+                  strokeDasharray="5 3"
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+              {benchmarks.length > 0 && <Legend wrapperStyle={{ color: 'rgba(255,255,255,0.7)' }} />}
             </LineChart>
           </ResponsiveContainer>
         </div>
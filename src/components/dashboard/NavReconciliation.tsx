@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { CheckCircle, AlertTriangle } from "lucide-react";
 import { verifyNavReconciliation } from "@/services/investorCalculationService";
-import { formatCurrency } from "@/utils/formatters";
+import { useCurrencyFormat } from "@/hooks/use-settings";
 
 interface NavReconciliationProps {
   onReconciliationComplete?: (isReconciled: boolean) => void;
@@ -13,10 +13,12 @@ interface NavReconciliationProps {
 const NavReconciliation: React.FC<NavReconciliationProps> = ({
   onReconciliationComplete
 }) => {
+  const { formatCurrency } = useCurrencyFormat();
   const [data, setData] = useState<{
     totalNav: number;
     sumInvestorValues: number;
     discrepancy: number;
+    tolerance: number;
     isReconciled: boolean;
   } | null>(null);
   const [loading, setLoading] = useState(true);
@@ -96,7 +98,7 @@ const NavReconciliation: React.FC<NavReconciliationProps> = ({
           </div>
           
           <div>
-            <p className="text-sm text-muted-foreground">Discrepancy</p>
+            <p className="text-sm text-muted-foreground">Discrepancy (tolerance {data.tolerance}%)</p>
             <p className={`text-lg font-semibold ${data.isReconciled ? 'text-success-DEFAULT' : 'text-danger-DEFAULT'}`}>
               {formatCurrency(data.discrepancy)} 
               {data.totalNav > 0 && ` (${((data.discrepancy / data.totalNav) * 100).toFixed(4)}%)`}
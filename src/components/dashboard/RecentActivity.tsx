@@ -3,7 +3,7 @@ import React from "react";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import ActivityItem from "./ActivityItem";
-import { CapitalFlow } from "@/services/navService";
+import { CapitalFlow } from "@/repositories";
 
 interface RecentActivityProps {
   activities: CapitalFlow[];
@@ -27,6 +27,7 @@ const RecentActivity = ({ activities, loading }: RecentActivityProps) => {
               key={activity.id}
               type={activity.type as 'contribution' | 'withdrawal'}
               amount={activity.amount}
+              isReversal={activity.reverses_flow_id !== null}
               investor={activity.investor_name}
               date={activity.date}
             />
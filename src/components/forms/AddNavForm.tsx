@@ -1,6 +1,6 @@
 
 import { useState } from "react";
-import { addMonthlyNav } from "@/services/navService";
+import { addMonthlyNav } from "@/services/dataService";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -5,7 +5,7 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { DatePicker } from "@/components/ui/date-picker";
-import { addMonthlyNav } from "@/services/navService";
+import { addMonthlyNav } from "@/services/dataService";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -40,11 +40,6 @@ const formSchema = z.object({
       invalid_type_error: "Return must be a number",
     })
     .optional(),
-  management_fees: z.coerce
-    .number({
-      invalid_type_error: "Fees must be a number",
-    })
-    .optional(),
   aum_change: z.coerce
     .number({
       invalid_type_error: "AUM change must be a number",
@@ -69,7 +64,6 @@ export default function NavForm({ open, onOpenChange, onSuccess }: NavFormProps)
     defaultValues: {
       total_nav: undefined,
       monthly_return: undefined,
-      management_fees: undefined,
       aum_change: undefined,
     },
   });
@@ -85,7 +79,6 @@ export default function NavForm({ open, onOpenChange, onSuccess }: NavFormProps)
         month_end_date: formatDate(data.month_end_date),
         total_nav: data.total_nav,
         monthly_return: data.monthly_return,
-        management_fees: data.management_fees,
         aum_change: data.aum_change,
       });
 
@@ -122,7 +115,8 @@ export default function NavForm({ open, onOpenChange, onSuccess }: NavFormProps)
         <DialogHeader>
           <DialogTitle>Add Monthly NAV</DialogTitle>
           <DialogDescription>
-            Enter the month-end NAV values to update the fund performance data.
+            Enter the month-end NAV (net of fees) to update the fund performance data.
+            Management fees are accrued from each investor's fee rate.
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
@@ -188,27 +182,6 @@ export default function NavForm({ open, onOpenChange, onSuccess }: NavFormProps)
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="management_fees"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Management Fees ($) - Optional</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      placeholder="Enter management fees"
-                      {...field}
-                      onChange={(e) => {
-                        field.onChange(e.target.value === "" ? undefined : e.target.value);
-                      }}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             <FormField
               control={form.control}
               name="aum_change"
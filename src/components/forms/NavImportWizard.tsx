@@ -0,0 +1,276 @@
+import React from "react";
+import { FileUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import ColumnMappingFields from "@/components/import/ColumnMappingFields";
+import ImportFileInput from "@/components/import/ImportFileInput";
+import { getAllNavData, MonthlyNav } from "@/repositories";
+import {
+  buildNavImportPreview,
+  importableNavRows,
+  importMonthlyNav,
+  ManagementFeeDifference,
+  NAV_IMPORT_FIELDS,
+  NavColumnMapping,
+} from "@/services/navImportService";
+import { formatDate, formatPercentage } from "@/utils/formatters";
+import { guessColumnMapping, ImportDateFormat, ImportTable } from "@/utils/importUtils";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+interface NavImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export default function NavImportWizard({ open, onOpenChange, onSuccess }: NavImportWizardProps) {
+  const { formatCurrency } = useCurrencyFormat();
+  const { toast } = useToast();
+  const [step, setStep] = React.useState<Step>("upload");
+  const [fileName, setFileName] = React.useState("");
+  const [table, setTable] = React.useState<ImportTable | null>(null);
+  const [mapping, setMapping] = React.useState<NavColumnMapping>({});
+  const [dateFormat, setDateFormat] = React.useState<ImportDateFormat>("yyyy-MM-dd");
+  const [returnsAsFractions, setReturnsAsFractions] = React.useState(false);
+  const [existing, setExisting] = React.useState<MonthlyNav[]>([]);
+  const [feeDifferences, setFeeDifferences] = React.useState<ManagementFeeDifference[]>([]);
+  const [isImporting, setIsImporting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setTable(null);
+    setFileName("");
+    setFeeDifferences([]);
+    getAllNavData().then(setExisting);
+  }, [open]);
+
+  const preview = React.useMemo(
+    () => (table ? buildNavImportPreview(table, mapping, { dateFormat, returnsAsFractions }, existing) : []),
+    [table, mapping, dateFormat, returnsAsFractions, existing]
+  );
+  const importable = importableNavRows(preview);
+  const invalidCount = preview.filter(row => row.errors.length || row.duplicateOf === "file").length;
+  const existingCount = preview.filter(row => row.duplicateOf === "existing").length;
+  const missingRequired = NAV_IMPORT_FIELDS.some(({ field, required }) => required && mapping[field] === undefined);
+
+  function handleLoaded(parsed: ImportTable, name: string) {
+    setFileName(name);
+    setTable(parsed);
+    setMapping(guessColumnMapping(NAV_IMPORT_FIELDS, parsed.headers));
+    setStep("map");
+  }
+
+  async function handleImport() {
+    setIsImporting(true);
+    const result = await importMonthlyNav(importable, fileName);
+    setIsImporting(false);
+
+    if (!result.success) {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: `No months were imported. ${result.error?.message || ""}`.trim(),
+      });
+      return;
+    }
+
+    toast({
+      title: "NAV history imported",
+      description: `Imported ${result.imported} months from ${fileName}`,
+    });
+    onSuccess();
+
+    if (result.feeDifferences?.length) {
+      setFeeDifferences(result.feeDifferences);
+      setStep("done");
+    } else {
+      onOpenChange(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import NAV History</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or XLSX file with one row per month end."}
+            {step === "map" && `Match the columns of ${fileName} to the NAV fields.`}
+            {step === "preview" &&
+              "Check the parsed rows. Months already recorded are skipped; the rest are imported together or not at all."}
+            {step === "done" &&
+              "Management fees are accrued from each investor's fee rate. These imported figures differ from the accrued fees, which were kept."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <ImportFileInput
+            onLoaded={handleLoaded}
+            hint="Returns are read as percentages unless you say otherwise."
+          />
+        )}
+
+        {step === "map" && table && (
+          <div className="space-y-4">
+            <ColumnMappingFields
+              fields={NAV_IMPORT_FIELDS}
+              headers={table.headers}
+              mapping={mapping}
+              onMappingChange={setMapping}
+              dateFormat={dateFormat}
+              onDateFormatChange={setDateFormat}
+            />
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="returns-as-fractions"
+                checked={returnsAsFractions}
+                onCheckedChange={checked => setReturnsAsFractions(checked === true)}
+              />
+              <Label htmlFor="returns-as-fractions">Returns are fractions (0.012 means 1.2%)</Label>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{importable.length} to import</Badge>
+              {existingCount > 0 && (
+                <Badge variant="outline" className="text-amber-400 border-amber-400/50">
+                  {existingCount} already recorded
+                </Badge>
+              )}
+              {invalidCount > 0 && (
+                <Badge variant="outline" className="text-danger-DEFAULT border-danger-DEFAULT/50">
+                  {invalidCount} with errors
+                </Badge>
+              )}
+            </div>
+            <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Month End</TableHead>
+                    <TableHead className="text-right">NAV</TableHead>
+                    <TableHead className="text-right">Return</TableHead>
+                    <TableHead className="text-right">AUM Change</TableHead>
+                    <TableHead className="text-right">Mgmt Fees</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                      {row.values ? (
+                        <>
+                          <TableCell>{formatDate(row.values.month_end_date)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.values.total_nav)}</TableCell>
+                          <TableCell className="text-right">{formatPercentage(row.values.monthly_return ?? null)}</TableCell>
+                          <TableCell className="text-right">
+                            {row.values.aum_change == null ? "-" : formatCurrency(row.values.aum_change)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.values.management_fees == null ? "-" : formatCurrency(row.values.management_fees)}
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5} className="text-danger-DEFAULT">
+                          {row.errors.join("; ")}
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        {row.errors.length > 0 && <span className="text-danger-DEFAULT">Invalid</span>}
+                        {row.duplicateOf === "existing" && <span className="text-amber-400">Already recorded</span>}
+                        {row.duplicateOf === "file" && <span className="text-danger-DEFAULT">Repeated month</span>}
+                        {!row.errors.length && !row.duplicateOf && "Ready"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {invalidCount > 0 && (
+              <p className="text-sm text-danger-DEFAULT">
+                Fix the rows with errors in the file, or change the column mapping, before importing.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "done" && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month End</TableHead>
+                <TableHead className="text-right">Imported</TableHead>
+                <TableHead className="text-right">Accrued</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {feeDifferences.map(difference => (
+                <TableRow key={difference.month_end_date}>
+                  <TableCell>{formatDate(difference.month_end_date)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(difference.imported)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(difference.accrued)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button onClick={() => setStep("preview")} disabled={missingRequired}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || invalidCount > 0 || importable.length === 0}
+                className="flex items-center gap-2"
+              >
+                <FileUp size={16} />
+                {isImporting ? "Importing..." : `Import ${importable.length} months`}
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={() => onOpenChange(false)}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ColumnMapping, IMPORT_DATE_FORMATS, ImportDateFormat, ImportField } from "@/utils/importUtils";
+
+const NOT_MAPPED = "none";
+
+interface ColumnMappingFieldsProps<F extends string> {
+  fields: ImportField<F>[];
+  headers: string[];
+  mapping: ColumnMapping<F>;
+  onMappingChange: (mapping: ColumnMapping<F>) => void;
+  dateFormat: ImportDateFormat;
+  onDateFormatChange: (dateFormat: ImportDateFormat) => void;
+}
+
+/**
+ * Pick the file column for each import field, and how dates are written
+ */
+export default function ColumnMappingFields<F extends string>({
+  fields,
+  headers,
+  mapping,
+  onMappingChange,
+  dateFormat,
+  onDateFormatChange,
+}: ColumnMappingFieldsProps<F>) {
+  function setColumn(field: F, value: string) {
+    onMappingChange({ ...mapping, [field]: value === NOT_MAPPED ? undefined : Number(value) });
+  }
+
+  return (
+    <div className="space-y-4">
+      {fields.map(({ field, label, required }) => (
+        <div key={field} className="grid grid-cols-2 items-center gap-4">
+          <Label>
+            {label}
+            {required && " *"}
+          </Label>
+          <Select
+            value={mapping[field] !== undefined ? String(mapping[field]) : required ? "" : NOT_MAPPED}
+            onValueChange={value => setColumn(field, value)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a column" />
+            </SelectTrigger>
+            <SelectContent>
+              {!required && <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>}
+              {headers.map((header, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {header}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+      <div className="grid grid-cols-2 items-center gap-4">
+        <Label>Date format</Label>
+        <Select value={dateFormat} onValueChange={value => onDateFormatChange(value as ImportDateFormat)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IMPORT_DATE_FORMATS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ImportTable, readImportFile } from "@/utils/importUtils";
+
+interface ImportFileInputProps {
+  onLoaded: (table: ImportTable, fileName: string) => void;
+  hint?: string;
+}
+
+/**
+ * File picker for a CSV or XLSX import, read into a header and data rows
+ */
+const ImportFileInput = ({ onLoaded, hint }: ImportFileInputProps) => {
+  const { toast } = useToast();
+  const [isReading, setIsReading] = React.useState(false);
+
+  async function handleFile(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const table = await readImportFile(file);
+      if (!table.rows.length) {
+        toast({ variant: "destructive", title: "Empty file", description: "The file has no rows below its header" });
+        return;
+      }
+      onLoaded(table, file.name);
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast({
+        variant: "destructive",
+        title: "Could not read file",
+        description: "Upload a CSV file or an XLSX workbook",
+      });
+    } finally {
+      setIsReading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="import-file">File</Label>
+      <Input id="import-file" type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} disabled={isReading} />
+      <p className="text-sm text-muted-foreground">
+        The first row must hold column headers.{hint && ` ${hint}`}
+      </p>
+    </div>
+  );
+};
+
+export default ImportFileInput;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  CapitalAccountPeriod,
+  getCapitalAccount,
+  rollUpCapitalAccount,
+  RollforwardFrequency,
+  summarizeCapitalAccount,
+} from "@/services/capitalAccountService";
+import { exportToCSV } from "@/utils/exportUtils";
+import { useCurrencyFormat, useSettings } from "@/hooks/use-settings";
+
+interface CapitalAccountStatementProps {
+  investorId: string;
+  investorName: string;
+}
+
+const CapitalAccountStatement: React.FC<CapitalAccountStatementProps> = ({
+  investorId,
+  investorName,
+}) => {
+  const { formatCurrency } = useCurrencyFormat();
+  const { settings } = useSettings();
+  const [months, setMonths] = useState<CapitalAccountPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [frequency, setFrequency] = useState<RollforwardFrequency>("quarter");
+  const [fromDate, setFromDate] = useState<Date | undefined>();
+  const [toDate, setToDate] = useState<Date | undefined>();
+
+  useEffect(() => {
+    const fetchCapitalAccount = async () => {
+      setLoading(true);
+      setMonths(await getCapitalAccount(investorId));
+      setLoading(false);
+    };
+
+    fetchCapitalAccount();
+  }, [investorId]);
+
+  // Keep whole months that fall inside the selected range
+  const monthsInRange = months.filter(month => {
+    const monthEnd = new Date(month.endDate);
+    return (!fromDate || monthEnd >= fromDate) && (!toDate || monthEnd <= toDate);
+  });
+
+  const periods = rollUpCapitalAccount(monthsInRange, frequency, settings.fiscal_year_end_month);
+  const total = summarizeCapitalAccount(monthsInRange);
+
+  const handleExportCSV = () => {
+    const rows = total ? [...periods, { ...total, period: "Total" }] : periods;
+    exportToCSV(
+      rows.map(period => ({
+        period: period.period,
+        start_month_end: period.startDate,
+        end_month_end: period.endDate,
+        beginning_balance: period.beginningBalance.toFixed(2),
+        contributions: period.contributions.toFixed(2),
+        withdrawals: period.withdrawals.toFixed(2),
+        gross_pnl: period.grossPnl.toFixed(2),
+        management_fees: period.managementFees.toFixed(2),
+        performance_fees: period.performanceFees.toFixed(2),
+        ending_balance: period.endingBalance.toFixed(2),
+        beginning_units: period.beginningUnits.toFixed(6),
+        ending_units: period.endingUnits.toFixed(6),
+        capital_flow_ids: period.capitalFlowIds.join(" "),
+        monthly_nav_ids: period.monthlyNavIds.join(" "),
+      })),
+      `capital-account-${investorName.toLowerCase().replace(/\s+/g, "-")}-${frequency}`
+    );
+  };
+
+  const renderRow = (period: CapitalAccountPeriod, className = "") => (
+    <TableRow key={period.period} className={className}>
+      <TableCell
+        className="whitespace-nowrap"
+        title={`NAV rows: ${period.monthlyNavIds.join(", ") || "none"}\nCapital flows: ${period.capitalFlowIds.join(", ") || "none"}`}
+      >
+        {period.period}
+      </TableCell>
+      <TableCell className="text-right">{formatCurrency(period.beginningBalance)}</TableCell>
+      <TableCell className="text-right">{formatCurrency(period.contributions)}</TableCell>
+      <TableCell className="text-right">{period.withdrawals ? `(${formatCurrency(period.withdrawals)})` : formatCurrency(0)}</TableCell>
+      <TableCell className={`text-right ${period.grossPnl >= 0 ? "text-success-DEFAULT" : "text-danger-DEFAULT"}`}>
+        {formatCurrency(period.grossPnl)}
+      </TableCell>
+      <TableCell className="text-right">{period.managementFees ? `(${formatCurrency(period.managementFees)})` : formatCurrency(0)}</TableCell>
+      <TableCell className="text-right">
+        {period.performanceFees >= 0
+          ? period.performanceFees ? `(${formatCurrency(period.performanceFees)})` : formatCurrency(0)
+          : formatCurrency(-period.performanceFees)}
+      </TableCell>
+      <TableCell className="text-right font-medium">{formatCurrency(period.endingBalance)}</TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <span>Capital Account</span>
+          <div className="flex flex-wrap items-center gap-2">
+            <DatePicker date={fromDate} onSelect={setFromDate} placeholder="From" className="w-[160px]" />
+            <DatePicker date={toDate} onSelect={setToDate} placeholder="To" className="w-[160px]" />
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as RollforwardFrequency)}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Monthly</SelectItem>
+                <SelectItem value="quarter">Quarterly</SelectItem>
+                <SelectItem value="year">Annual</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExportCSV}
+              disabled={periods.length === 0}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : periods.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No capital account activity in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Beginning Balance</TableHead>
+                  <TableHead className="text-right">Contributions</TableHead>
+                  <TableHead className="text-right">Withdrawals</TableHead>
+                  <TableHead className="text-right">Gross P&amp;L</TableHead>
+                  <TableHead className="text-right">Management Fees</TableHead>
+                  <TableHead className="text-right">Performance Fees</TableHead>
+                  <TableHead className="text-right">Ending Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.map(period => renderRow(period))}
+                {total && periods.length > 1 && renderRow({ ...total, period: "Total" }, "border-t-2 font-medium")}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CapitalAccountStatement;
@@ -3,8 +3,11 @@ import React from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
+import { useSettings } from "@/hooks/use-settings";
 import { useToast } from "@/hooks/use-toast";
-import { createInvestor } from "@/services/navService";
+import { createInvestor } from "@/services/dataService";
+import { FundSettings } from "@/services/settingsService";
+import { Benchmark, getAllBenchmarks } from "@/repositories";
 import { DatePicker } from "@/components/ui/date-picker";
 import { Button } from "@/components/ui/button";
 import {
@@ -56,6 +59,26 @@ const formSchema = z.object({
     })
     .min(0, "Fee rate cannot be negative")
     .max(50, "Fee rate is too high"),
+  crystallization_frequency: z.enum(["monthly", "quarterly", "annual"], {
+    required_error: "Crystallization frequency is required",
+  }),
+  hurdle_type: z.enum(["none", "hard", "soft"], {
+    required_error: "Hurdle type is required",
+  }),
+  hurdle_rate: z.coerce
+    .number({
+      invalid_type_error: "Hurdle rate must be a number",
+    })
+    .min(-100, "Hurdle rate is too low")
+    .max(100, "Hurdle rate is too high"),
+  hurdle_benchmark: z.string().optional(),
+  external_id: z.string().optional(),
+  catch_up_rate: z.coerce
+    .number({
+      invalid_type_error: "Catch-up must be a number",
+    })
+    .gt(0, "Catch-up must be above 0%")
+    .max(100, "Catch-up cannot exceed 100%"),
   start_date: z.date({
     required_error: "Start date is required",
   }),
@@ -66,6 +89,24 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+// Select value for a hurdle that grows at the hurdle rate alone
+const FIXED_HURDLE = "fixed";
+
+// A new investor starts on the fund's default terms
+const defaultValuesFrom = (settings: FundSettings): Partial<FormValues> => ({
+  name: "",
+  external_id: "",
+  initial_investment: undefined,
+  mgmt_fee_rate: Number(settings.default_mgmt_fee_rate),
+  performance_fee_rate: Number(settings.default_performance_fee_rate),
+  crystallization_frequency: settings.default_crystallization_frequency as FormValues["crystallization_frequency"],
+  hurdle_type: settings.default_hurdle_type as FormValues["hurdle_type"],
+  hurdle_rate: Number(settings.default_hurdle_rate),
+  hurdle_benchmark: "",
+  catch_up_rate: Number(settings.default_catch_up_rate),
+  status: "active",
+});
+
 interface InvestorFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -74,19 +115,24 @@ interface InvestorFormProps {
 
 export default function InvestorForm({ open, onOpenChange, onSuccess }: InvestorFormProps) {
   const { toast } = useToast();
+  const { settings } = useSettings();
   const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [benchmarks, setBenchmarks] = React.useState<Benchmark[]>([]);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      name: "",
-      initial_investment: undefined,
-      mgmt_fee_rate: 2, // Default management fee
-      performance_fee_rate: 20, // Default performance fee
-      status: "active",
-    },
+    defaultValues: defaultValuesFrom(settings),
   });
 
+  React.useEffect(() => {
+    if (!open) return;
+    getAllBenchmarks().then(setBenchmarks);
+    // Pick up default terms changed since the form was created
+    if (!form.formState.isDirty) form.reset(defaultValuesFrom(settings));
+  }, [open, settings, form]);
+
+  const hurdleType = form.watch("hurdle_type");
+
   async function onSubmit(data: FormValues) {
     setIsSubmitting(true);
     try {
@@ -96,9 +142,15 @@ export default function InvestorForm({ open, onOpenChange, onSuccess }: Investor
 
       const result = await createInvestor({
         name: data.name,
+        external_id: data.external_id?.trim() || null,
         initial_investment: data.initial_investment,
         mgmt_fee_rate: data.mgmt_fee_rate,
         performance_fee_rate: data.performance_fee_rate,
+        crystallization_frequency: data.crystallization_frequency,
+        hurdle_type: data.hurdle_type,
+        hurdle_rate: data.hurdle_type === "none" ? 0 : data.hurdle_rate,
+        hurdle_benchmark: data.hurdle_type === "none" ? null : data.hurdle_benchmark?.trim() || null,
+        catch_up_rate: data.catch_up_rate,
         start_date: formatDate(data.start_date),
         status: data.status,
       });
@@ -132,7 +184,7 @@ export default function InvestorForm({ open, onOpenChange, onSuccess }: Investor
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add New Investor</DialogTitle>
           <DialogDescription>
@@ -155,6 +207,20 @@ export default function InvestorForm({ open, onOpenChange, onSuccess }: Investor
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="external_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Administrator ID</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Optional, as on administrator reports" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="initial_investment"
@@ -222,6 +288,131 @@ export default function InvestorForm({ open, onOpenChange, onSuccess }: Investor
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="crystallization_frequency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Performance Fee Crystallization</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select crystallization frequency" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                      <SelectItem value="quarterly">Quarterly</SelectItem>
+                      <SelectItem value="annual">Annual</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="hurdle_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Hurdle</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select hurdle type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No hurdle</SelectItem>
+                      <SelectItem value="hard">Hard hurdle</SelectItem>
+                      <SelectItem value="soft">Soft hurdle</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {hurdleType !== "none" && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="hurdle_rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hurdle Rate (% p.a.)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          placeholder="0"
+                          {...field}
+                          onChange={(e) => {
+                            field.onChange(e.target.value === "" ? undefined : e.target.value);
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="hurdle_benchmark"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Benchmark (optional)</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === FIXED_HURDLE ? "" : value)}
+                        value={field.value || FIXED_HURDLE}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={FIXED_HURDLE}>None (fixed rate)</SelectItem>
+                          {benchmarks.map((benchmark) => (
+                            <SelectItem key={benchmark.id} value={benchmark.name}>
+                              {benchmark.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {hurdleType === "soft" && (
+                  <FormField
+                    control={form.control}
+                    name="catch_up_rate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Catch-up (%)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="1"
+                            placeholder="100"
+                            {...field}
+                            onChange={(e) => {
+                              field.onChange(e.target.value === "" ? undefined : e.target.value);
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="start_date"
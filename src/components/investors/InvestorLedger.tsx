@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from "react";
+import { Download, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import CapitalFlowActions from "@/components/capital-flows/CapitalFlowActions";
+import CapitalFlowStatusBadge from "@/components/capital-flows/CapitalFlowStatusBadge";
+import { CorrectionMode } from "@/components/capital-flows/CapitalFlowCorrectionDialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+import { CapitalFlow } from "@/repositories";
+import { getInvestorLedger, InvestorLedgerRow } from "@/services/capitalAccountService";
+import { exportToCSV } from "@/utils/exportUtils";
+import { formatDate } from "@/utils/formatters";
+
+type LedgerFilter = "all" | "contribution" | "withdrawal" | "fee" | "adjustment";
+
+const FILTERS: { value: LedgerFilter; label: string }[] = [
+  { value: "all", label: "All transactions" },
+  { value: "contribution", label: "Contributions" },
+  { value: "withdrawal", label: "Withdrawals" },
+  { value: "fee", label: "Fees" },
+  { value: "adjustment", label: "Reversals & corrections" },
+];
+
+const matchesFilter = (row: InvestorLedgerRow, filter: LedgerFilter) => {
+  switch (filter) {
+    case "fee":
+      return row.type === "management_fee" || row.type === "performance_fee";
+    case "adjustment":
+      return row.status !== null && row.status !== "posted";
+    case "all":
+      return true;
+    default:
+      return row.type === filter;
+  }
+};
+
+interface InvestorLedgerProps {
+  investorId: string;
+  investorName: string;
+  // The investor's capital flows; the ledger is rebuilt whenever they change
+  transactions: CapitalFlow[];
+  onAddTransaction: () => void;
+  onCorrect: (flow: CapitalFlow, mode: CorrectionMode) => void;
+}
+
+/**
+ * Every capital flow and fee charged to an investor, with their running net
+ * contributions and unit balance
+ */
+const InvestorLedger: React.FC<InvestorLedgerProps> = ({
+  investorId,
+  investorName,
+  transactions,
+  onAddTransaction,
+  onCorrect,
+}) => {
+  const { formatCurrency } = useCurrencyFormat();
+  const { can } = useAuth();
+  const [rows, setRows] = useState<InvestorLedgerRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<LedgerFilter>("all");
+  const [fromDate, setFromDate] = useState<Date | undefined>();
+  const [toDate, setToDate] = useState<Date | undefined>();
+
+  useEffect(() => {
+    const fetchLedger = async () => {
+      setLoading(true);
+      setRows(await getInvestorLedger(investorId, transactions));
+      setLoading(false);
+    };
+
+    fetchLedger();
+  }, [investorId, transactions]);
+
+  // Running totals cover the whole ledger, so they stay true when filtered
+  const visibleRows = rows.filter(row => {
+    const date = new Date(row.date);
+    return matchesFilter(row, filter) && (!fromDate || date >= fromDate) && (!toDate || date <= toDate);
+  });
+
+  const handleExportCSV = () => {
+    exportToCSV(
+      visibleRows.map(row => ({
+        date: row.date,
+        dealing_date: row.dealingDate ?? "pending",
+        type: row.type,
+        description: row.description,
+        status: row.status ?? "",
+        amount: row.amount.toFixed(2),
+        units: row.units?.toFixed(6) ?? "",
+        nav_per_unit: row.navPerUnit?.toFixed(6) ?? "",
+        net_contributions: row.netContributions.toFixed(2),
+        running_units: row.unitBalance.toFixed(6),
+        capital_flow_id: row.flow?.id ?? "",
+      })),
+      `ledger-${investorName.toLowerCase().replace(/\s+/g, "-")}`
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <span>Transaction Ledger</span>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={filter} onValueChange={(value) => setFilter(value as LedgerFilter)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FILTERS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <DatePicker date={fromDate} onSelect={setFromDate} placeholder="From" className="w-[160px]" />
+            <DatePicker date={toDate} onSelect={setToDate} placeholder="To" className="w-[160px]" />
+            <Button variant="outline" size="sm" onClick={handleExportCSV} disabled={visibleRows.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+            {can("enterFlows") && (
+              <Button size="sm" onClick={onAddTransaction}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Transaction
+              </Button>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : visibleRows.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No transactions match these filters</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Transaction</TableHead>
+                  <TableHead>Dealt</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead className="text-right">NAV per Unit</TableHead>
+                  <TableHead className="text-right">Net Contributions</TableHead>
+                  <TableHead className="text-right">Units Held</TableHead>
+                  <TableHead className="w-[50px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell className="whitespace-nowrap">{formatDate(row.date)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {row.description}
+                      <CapitalFlowStatusBadge status={row.status ?? undefined} />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {row.dealingDate ? (
+                        formatDate(row.dealingDate)
+                      ) : (
+                        <Badge variant="outline" title="Dealt once this month's NAV is published">
+                          Pending
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right ${row.amount >= 0 ? "text-success-DEFAULT" : "text-danger-DEFAULT"}`}>
+                      {row.amount >= 0 ? formatCurrency(row.amount) : `(${formatCurrency(-row.amount)})`}
+                    </TableCell>
+                    <TableCell className="text-right">{row.units !== null ? row.units.toFixed(4) : "—"}</TableCell>
+                    <TableCell className="text-right">{row.navPerUnit !== null ? row.navPerUnit.toFixed(2) : "—"}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(row.netContributions)}</TableCell>
+                    <TableCell className="text-right">{row.unitBalance.toFixed(4)}</TableCell>
+                    <TableCell>
+                      {row.flow && (
+                        <CapitalFlowActions
+                          status={row.status ?? undefined}
+                          onSelect={(mode) => onCorrect(row.flow!, mode)}
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvestorLedger;
@@ -0,0 +1,204 @@
+import React from "react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import ReturnHeatMap from "@/components/performance/ReturnHeatMap";
+import { useCurrencyFormat, useSettings } from "@/hooks/use-settings";
+import { InvestorReturns } from "@/services/investorCalculationService";
+import { annualizeVolatility } from "@/services/metricsEngine";
+import { calculateDrawdowns, calculatePeriodReturns } from "@/services/performanceService";
+import { formatDate, formatPercentage } from "@/utils/formatters";
+
+interface InvestorPerformanceProps {
+  returns: InvestorReturns | null;
+  // The latest month end the fund has been valued at
+  asOf: string | null;
+}
+
+const returnClass = (value: number | null) =>
+  value === null ? "" : value >= 0 ? "text-success-DEFAULT" : "text-danger-DEFAULT";
+
+/**
+ * An investor's own performance: their account value with the money they put
+ * in and took out, period returns, monthly returns while invested, and the
+ * drawdowns and volatility of those returns
+ */
+const InvestorPerformance = ({ returns, asOf }: InvestorPerformanceProps) => {
+  const { formatCurrency } = useCurrencyFormat();
+  const { settings } = useSettings();
+  const valueHistory = React.useMemo(() => returns?.valueHistory ?? [], [returns]);
+
+  const chartData = valueHistory.map(point => ({
+    ...point,
+    label: formatDate(point.date),
+    // Markers sit on the value line in the months money moved
+    subscriptionMarker: point.subscriptions > 0 ? point.value : null,
+    redemptionMarker: point.redemptions > 0 ? point.value : null,
+  }));
+
+  const periodReturns = returns && asOf
+    ? calculatePeriodReturns(returns.monthlyReturns, asOf, settings.fiscal_year_end_month)
+    : null;
+
+  const risk = React.useMemo(() => {
+    if (!returns) return null;
+    const { episodes, underwater } = calculateDrawdowns(valueHistory);
+    return {
+      volatility: annualizeVolatility(returns.monthlyReturns),
+      maxDrawdown: episodes.length ? Math.max(...episodes.map(episode => episode.depth)) : 0,
+      currentDrawdown: underwater.length ? underwater[underwater.length - 1].drawdown : 0,
+      bestMonth: returns.monthlyReturns.returns.length ? Math.max(...returns.monthlyReturns.returns) : null,
+      worstMonth: returns.monthlyReturns.returns.length ? Math.min(...returns.monthlyReturns.returns) : null,
+    };
+  }, [returns, valueHistory]);
+
+  if (!valueHistory.length) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Performance History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">
+            Performance appears once the investor's first subscription has been dealt at a month-end NAV.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const periods: { label: string; value: number | null }[] = periodReturns
+    ? [
+        { label: "MTD", value: periodReturns.mtd },
+        { label: "QTD", value: periodReturns.qtd },
+        { label: "YTD", value: periodReturns.ytd },
+        { label: "ITD", value: periodReturns.itd },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {periods.map(period => (
+          <Card key={period.label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{period.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${returnClass(period.value)}`}>
+                {formatPercentage(period.value)}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Account Value</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[350px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <defs>
+                  <linearGradient id="investorValueGradient" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#97DEF4" stopOpacity={0.8} />
+                    <stop offset="95%" stopColor="#97DEF4" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                <XAxis dataKey="label" tick={{ fill: "#E8F1F8" }} axisLine={{ stroke: "#E8F1F8" }} />
+                <YAxis
+                  tick={{ fill: "#E8F1F8" }}
+                  axisLine={{ stroke: "#E8F1F8" }}
+                  tickFormatter={(value: number) => `$${(value / 1000000).toFixed(1)}M`}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (!active || !payload?.length) return null;
+                    const point = payload[0].payload as (typeof chartData)[number];
+                    return (
+                      <div className="rounded-lg border bg-background p-2 shadow-md text-sm space-y-1">
+                        <div className="font-medium">{point.label}</div>
+                        <div>Value: {formatCurrency(point.value)}</div>
+                        {point.subscriptions > 0 && (
+                          <div className="text-success-DEFAULT">Subscribed: {formatCurrency(point.subscriptions)}</div>
+                        )}
+                        {point.redemptions > 0 && (
+                          <div className="text-danger-DEFAULT">Redeemed: {formatCurrency(point.redemptions)}</div>
+                        )}
+                        {point.return !== null && <div>Return: {formatPercentage(point.return)}</div>}
+                      </div>
+                    );
+                  }}
+                />
+                <Legend wrapperStyle={{ color: "#E8F1F8" }} />
+                <Area
+                  type="monotone"
+                  dataKey="value"
+                  stroke="#97DEF4"
+                  fillOpacity={1}
+                  fill="url(#investorValueGradient)"
+                  name="Account value"
+                />
+                <Scatter dataKey="subscriptionMarker" name="Contribution" fill="#4ADE80" />
+                <Scatter dataKey="redemptionMarker" name="Withdrawal" fill="#F87171" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      {risk && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Risk</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Volatility (p.a.)</p>
+                <p className="text-lg font-semibold">{formatPercentage(risk.volatility)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Max Drawdown</p>
+                <p className="text-lg font-semibold text-danger-DEFAULT">-{formatPercentage(risk.maxDrawdown)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Current Drawdown</p>
+                <p className={`text-lg font-semibold ${risk.currentDrawdown < 0 ? "text-danger-DEFAULT" : ""}`}>
+                  {formatPercentage(risk.currentDrawdown)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Best Month</p>
+                <p className={`text-lg font-semibold ${returnClass(risk.bestMonth)}`}>{formatPercentage(risk.bestMonth)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Worst Month</p>
+                <p className={`text-lg font-semibold ${returnClass(risk.worstMonth)}`}>{formatPercentage(risk.worstMonth)}</p>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-4">
+              From the investor's monthly returns net of fees, unaffected by the timing of their contributions and withdrawals
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <ReturnHeatMap returnSeries={returns?.monthlyReturns} loading={false} />
+    </div>
+  );
+};
+
+export default InvestorPerformance;
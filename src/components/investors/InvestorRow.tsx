@@ -1,10 +1,14 @@
 
 import React, { useState } from "react";
-import { ChevronDown, ChevronUp, DollarSign, Calendar, Percent } from "lucide-react";
+import { ChevronDown, ChevronUp, DollarSign, Calendar, Percent, Layers } from "lucide-react";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { TableRow, TableCell } from "@/components/ui/table";
-import { CapitalFlow } from "@/services/navService";
+import { CapitalFlow } from "@/repositories";
+import { getFlowStatuses, signedFlowAmount } from "@/services/capitalFlowService";
+import CapitalFlowStatusBadge from "@/components/capital-flows/CapitalFlowStatusBadge";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+import { formatPercentage } from "@/utils/formatters";
 
 interface InvestorRowProps {
   investor: {
@@ -12,28 +16,27 @@ interface InvestorRowProps {
     name: string;
     initialInvestment: number;
     currentValue: number;
-    return: number;
+    timeWeightedReturn: number | null;
+    moneyWeightedReturn: number | null;
     status: string;
     mgmtFeeRate: number;
     perfFeeRate: number;
     startDate: string;
+    units: number;
+    navPerUnit: number;
   };
   transactions: CapitalFlow[];
   onSelectInvestor: (id: string) => void;
 }
 
-const formatCurrency = (value: number) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-};
+const returnClass = (value: number | null) =>
+  value === null ? "" : value >= 0 ? "text-success-DEFAULT" : "text-danger-DEFAULT";
 
 export function InvestorRow({ investor, transactions, onSelectInvestor }: InvestorRowProps) {
   console.log(`Rendering InvestorRow for investor: ${investor.name}, startDate: ${investor.startDate}`);
   const [expanded, setExpanded] = useState(false);
+  const { formatCurrency } = useCurrencyFormat();
+  const flowStatuses = getFlowStatuses(transactions);
 
   return (
     <>
@@ -51,8 +54,11 @@ export function InvestorRow({ investor, transactions, onSelectInvestor }: Invest
         </TableCell>
         <TableCell>{formatCurrency(investor.initialInvestment)}</TableCell>
         <TableCell>{formatCurrency(investor.currentValue)}</TableCell>
-        <TableCell className={investor.return >= 0 ? "text-success-DEFAULT" : "text-danger-DEFAULT"}>
-          {investor.return.toFixed(2)}%
+        <TableCell className={returnClass(investor.timeWeightedReturn)}>
+          {formatPercentage(investor.timeWeightedReturn)}
+        </TableCell>
+        <TableCell className={returnClass(investor.moneyWeightedReturn)}>
+          {formatPercentage(investor.moneyWeightedReturn)}
         </TableCell>
         <TableCell>
           <span className={`px-2 py-1 rounded-full text-xs ${
@@ -71,8 +77,8 @@ export function InvestorRow({ investor, transactions, onSelectInvestor }: Invest
       
       {expanded && (
         <TableRow className="bg-white/5">
-          <TableCell colSpan={6} className="p-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <TableCell colSpan={7} className="p-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
               <div className="flex items-center space-x-2">
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
                 <span className="text-muted-foreground">Management Fee:</span>
@@ -88,6 +94,11 @@ export function InvestorRow({ investor, transactions, onSelectInvestor }: Invest
                 <span className="text-muted-foreground">Start Date:</span>
                 <span>{format(new Date(investor.startDate), "MMM d, yyyy")}</span>
               </div>
+              <div className="flex items-center space-x-2">
+                <Layers className="h-4 w-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Units:</span>
+                <span>{investor.units.toFixed(4)} @ {investor.navPerUnit.toFixed(2)}</span>
+              </div>
             </div>
             
             <div>
@@ -101,11 +112,14 @@ export function InvestorRow({ investor, transactions, onSelectInvestor }: Invest
                       </div>
                       <div className="text-right">
                         <span className={`font-medium ${
-                          transaction.type === 'contribution' ? 'text-success-DEFAULT' : 'text-danger-DEFAULT'
+                          signedFlowAmount(transaction) >= 0 ? 'text-success-DEFAULT' : 'text-danger-DEFAULT'
                         }`}>
-                          {transaction.type === 'contribution' ? '+' : '-'}{formatCurrency(transaction.amount)}
+                          {signedFlowAmount(transaction) >= 0 ? '+' : '-'}{formatCurrency(Math.abs(transaction.amount))}
                         </span>
-                        <p className="text-xs text-muted-foreground">{transaction.type}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {transaction.type}
+                          <CapitalFlowStatusBadge status={flowStatuses[transaction.id]} />
+                        </p>
                       </div>
                     </div>
                   ))}
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import { FileText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getAllNavData, Investor } from "@/repositories";
+import { generateInvestorStatement, generateStatementBatch } from "@/services/statementService";
+import { downloadBlob } from "@/utils/exportUtils";
+import { formatDate } from "@/utils/formatters";
+
+interface StatementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Generate a single investor's statement; without one, every active investor's
+  investor?: Investor;
+}
+
+export default function StatementDialog({ open, onOpenChange, investor }: StatementDialogProps) {
+  const { toast } = useToast();
+  const [monthEnds, setMonthEnds] = useState<string[]>([]);
+  const [monthEndDate, setMonthEndDate] = useState<string>("");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchMonthEnds = async () => {
+      const navData = await getAllNavData();
+      const dates = navData.map(nav => nav.month_end_date).sort().reverse();
+      setMonthEnds(dates);
+      setMonthEndDate(current => current || dates[0] || "");
+    };
+
+    fetchMonthEnds();
+  }, [open]);
+
+  const handleGenerate = async () => {
+    if (!monthEndDate) return;
+
+    setIsGenerating(true);
+    setProgress(null);
+    try {
+      if (investor) {
+        const { blob, filename } = await generateInvestorStatement(investor, monthEndDate);
+        downloadBlob(blob, filename);
+        toast({
+          title: "Statement Generated",
+          description: `${investor.name}'s statement for ${formatDate(monthEndDate)} has been downloaded`,
+        });
+      } else {
+        const { blob, filename, count } = await generateStatementBatch(
+          monthEndDate,
+          (completed, total) => setProgress({ completed, total })
+        );
+        if (count === 0) {
+          toast({
+            variant: "destructive",
+            title: "No statements generated",
+            description: `There were no active investors at ${formatDate(monthEndDate)}`,
+          });
+          return;
+        }
+        downloadBlob(blob, filename);
+        toast({
+          title: "Statements Generated",
+          description: `${count} statements for ${formatDate(monthEndDate)} have been downloaded`,
+        });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error generating statements:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to generate statements. Please try again.",
+      });
+    } finally {
+      setIsGenerating(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{investor ? "Download Statement" : "Generate Statements"}</DialogTitle>
+          <DialogDescription>
+            {investor
+              ? `Generate a PDF statement for ${investor.name}.`
+              : "Generate a PDF statement for every active investor, bundled as a zip."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Month End</label>
+          <Select value={monthEndDate} onValueChange={setMonthEndDate} disabled={isGenerating}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select month end" />
+            </SelectTrigger>
+            <SelectContent>
+              {monthEnds.map(date => (
+                <SelectItem key={date} value={date}>
+                  {formatDate(date)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {progress && (
+            <p className="text-xs text-muted-foreground">
+              Generated {progress.completed} of {progress.total} statements...
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleGenerate} disabled={isGenerating || !monthEndDate}>
+            <FileText className="mr-2 h-4 w-4" />
+            {isGenerating ? "Generating..." : investor ? "Download PDF" : "Download Zip"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
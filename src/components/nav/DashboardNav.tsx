@@ -7,25 +7,62 @@ import {
   DollarSign,
   Settings,
   LineChart,
+  History,
+  LogOut,
 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useFund } from "@/hooks/use-fund";
+import { useSettings } from "@/hooks/use-settings";
+import { ROLE_LABELS, signOut } from "@/services/authService";
+import { DEFAULT_LOGO_URL } from "@/services/settingsService";
+import DataModeControl from "./DataModeControl";
+import FundSwitcher from "./FundSwitcher";
+import LedgerStatus from "./LedgerStatus";
 
 const DashboardNav = () => {
+  const { session, role, can } = useAuth();
+  const { settings } = useSettings();
+  const { currentFund } = useFund();
+
   return (
     <div className="fixed top-0 left-0 h-full w-64 dasein-gradient p-4 space-y-6 animate-fade-in">
       <div className="flex items-center justify-center px-2 py-8">
         <img 
-          src="/lovable-uploads/89bff80d-5482-4dde-9dcf-f38b43a488b6.png" 
-          alt="Dasein" 
+          src={settings.logo_url || DEFAULT_LOGO_URL} 
+          alt={currentFund?.name} 
           className="h-12"
         />
       </div>
+
+      <FundSwitcher />
       
       <nav className="space-y-1">
         <NavItem icon={<BarChart3 />} label="Overview" to="/" active />
         <NavItem icon={<Users />} label="Investors" to="/investors" />
         <NavItem icon={<LineChart />} label="Performance" to="/performance" />
-        <NavItem icon={<Settings />} label="Settings" to="/settings" />
+        <NavItem icon={<History />} label="Audit" to="/audit" />
+        {can("manageSettings") && <NavItem icon={<Settings />} label="Settings" to="/settings" />}
       </nav>
+
+      {session && (
+        <div className="absolute bottom-4 left-4 right-4 space-y-2">
+          <LedgerStatus />
+          <DataModeControl />
+          <div className="flex items-center justify-between px-4 py-3 rounded-lg bg-white/5">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-white truncate">{session.user.email}</p>
+              {role && <p className="text-xs text-gray-400">{ROLE_LABELS[role]}</p>}
+            </div>
+            <button
+              onClick={() => signOut()}
+              title="Sign out"
+              className="text-gray-300 hover:text-white transition-colors"
+            >
+              <LogOut className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,88 @@
+import React from "react";
+import { Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { useDataMode } from "@/hooks/use-data-mode";
+import { useToast } from "@/hooks/use-toast";
+import SyncConflictsDialog from "./SyncConflictsDialog";
+
+const DataModeControl = () => {
+  const { toast } = useToast();
+  const { mode, pendingChanges, switching, workOffline, syncAndGoOnline } = useDataMode();
+  const [conflictsOpen, setConflictsOpen] = React.useState(false);
+
+  const conflicts = pendingChanges.filter(change => change.conflict).length;
+  const offline = mode === "offline";
+
+  async function handleWorkOffline() {
+    const { success, error } = await workOffline();
+
+    if (success) {
+      toast({ title: "Working offline", description: "Changes are saved in this browser until you sync" });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Could not download data for offline use",
+        description: error?.message || "An unknown error occurred",
+      });
+    }
+  }
+
+  async function handleGoOnline() {
+    const { success, error, result } = await syncAndGoOnline();
+
+    if (!success) {
+      toast({
+        variant: "destructive",
+        title: "Could not reach Supabase",
+        description: error?.message || "Your changes are still saved offline",
+      });
+    } else if (result && result.conflicts > 0) {
+      toast({
+        variant: "destructive",
+        title: "Some changes could not be synced",
+        description: `${result.synced} synced, ${result.conflicts} in conflict`,
+      });
+      setConflictsOpen(true);
+    } else if (result && result.synced > 0) {
+      toast({ title: "Offline changes synced", description: `${result.synced} changes sent to Supabase` });
+    }
+  }
+
+  return (
+    <div className="px-4 py-3 rounded-lg bg-white/5 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm">
+          {offline ? (
+            <CloudOff className="w-4 h-4 text-amber-400" />
+          ) : (
+            <Cloud className="w-4 h-4 text-success-DEFAULT" />
+          )}
+          <span className="text-white">{offline ? "Offline" : "Online"}</span>
+        </div>
+        <button
+          onClick={offline || pendingChanges.length ? handleGoOnline : handleWorkOffline}
+          disabled={switching}
+          className="flex items-center space-x-1 text-xs text-gray-300 hover:text-white transition-colors disabled:opacity-50"
+        >
+          {switching && <RefreshCw className="w-3 h-3 animate-spin" />}
+          <span>{offline || pendingChanges.length ? "Sync" : "Work offline"}</span>
+        </button>
+      </div>
+      {pendingChanges.length > 0 && (
+        <p className="text-xs text-gray-400">
+          {pendingChanges.length} {pendingChanges.length === 1 ? "change" : "changes"} to sync
+          {conflicts > 0 && (
+            <>
+              {" · "}
+              <button onClick={() => setConflictsOpen(true)} className="text-danger-DEFAULT hover:underline">
+                {conflicts} in conflict
+              </button>
+            </>
+          )}
+        </p>
+      )}
+      <SyncConflictsDialog open={conflictsOpen} onOpenChange={setConflictsOpen} />
+    </div>
+  );
+};
+
+export default DataModeControl;
@@ -0,0 +1,48 @@
+import React from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Briefcase } from "lucide-react";
+import { useFund } from "@/hooks/use-fund";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const FundSwitcher = () => {
+  const { funds, currentFund, selectFund } = useFund();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  if (!currentFund) return null;
+
+  function handleChange(value: string) {
+    selectFund(Number(value));
+    // An investor belongs to one fund, so leave their page for the fund's list
+    if (location.pathname.startsWith("/investors/")) navigate("/investors");
+  }
+
+  return (
+    <div className="px-2">
+      <p className="flex items-center gap-2 px-2 mb-1 text-xs text-gray-400">
+        <Briefcase className="w-3 h-3" />
+        Fund
+      </p>
+      <Select value={String(currentFund.id)} onValueChange={handleChange} disabled={funds.length < 2}>
+        <SelectTrigger className="bg-white/5 border-white/10 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {funds.map(fund => (
+            <SelectItem key={fund.id} value={String(fund.id)}>
+              {fund.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default FundSwitcher;
@@ -0,0 +1,96 @@
+import React from "react";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useFund } from "@/hooks/use-fund";
+import { useToast } from "@/hooks/use-toast";
+import { BackendError } from "@/repositories";
+import {
+  getLedgerStatus,
+  LedgerStatus as Status,
+  rebuildUnitLedger,
+  subscribeToLedgerRebuilds,
+} from "@/services/unitLedgerService";
+
+/**
+ * Warns when the current fund's unit ledger is behind its NAV, investors or
+ * capital flows, e.g. after a rebuild failed, and offers to rebuild it
+ */
+const LedgerStatus = () => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const { currentFund, refresh } = useFund();
+  const [status, setStatus] = React.useState<Status | null>(null);
+  const [lastError, setLastError] = React.useState<BackendError | null>(null);
+  const [rebuilding, setRebuilding] = React.useState(false);
+
+  const fundId = currentFund?.id;
+
+  React.useEffect(() => {
+    if (fundId === undefined) return;
+
+    let cancelled = false;
+    const check = () => getLedgerStatus().then(next => {
+      if (!cancelled) setStatus(next);
+    });
+
+    setLastError(null);
+    check();
+    const unsubscribe = subscribeToLedgerRebuilds(error => {
+      setLastError(error);
+      check();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [fundId]);
+
+  if (!status?.stale) return null;
+
+  async function handleRebuild() {
+    setRebuilding(true);
+    const { success, error } = await rebuildUnitLedger();
+    setRebuilding(false);
+
+    if (success) {
+      toast({ title: "Unit ledger rebuilt", description: "Units, fees and balances are up to date" });
+      // Reloads the fund, whose new build time remounts the page
+      await refresh();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Could not rebuild the unit ledger",
+        description: error?.message || "An unknown error occurred",
+      });
+    }
+  }
+
+  return (
+    <div className="px-4 py-3 rounded-lg bg-amber-400/10 space-y-1">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm">
+          <AlertTriangle className="w-4 h-4 text-amber-400" />
+          <span className="text-white">Ledger out of date</span>
+        </div>
+        {can("rebuildLedger") && (
+          <button
+            onClick={handleRebuild}
+            disabled={rebuilding}
+            className="flex items-center space-x-1 text-xs text-gray-300 hover:text-white transition-colors disabled:opacity-50"
+          >
+            {rebuilding && <RefreshCw className="w-3 h-3 animate-spin" />}
+            <span>Rebuild</span>
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400">
+        {lastError
+          ? `The last rebuild failed: ${lastError.message}`
+          : "Units, fees and balances don't reflect the latest changes yet"}
+      </p>
+    </div>
+  );
+};
+
+export default LedgerStatus;
@@ -0,0 +1,108 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useDataMode } from "@/hooks/use-data-mode";
+import { useToast } from "@/hooks/use-toast";
+import { discardPendingChange, overwriteOnSync, PendingChange } from "@/services/syncService";
+
+const TABLE_LABELS: Record<PendingChange["table"], string> = {
+  monthly_nav: "Monthly NAV",
+  investors: "Investor",
+  capital_flows: "Capital flow",
+  performance_fee_crystallizations: "Crystallization",
+};
+
+const ACTION_LABELS: Record<PendingChange["action"], string> = {
+  insert: "added",
+  update: "edited",
+  upsert: "recorded",
+};
+
+interface SyncConflictsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SyncConflictsDialog = ({ open, onOpenChange }: SyncConflictsDialogProps) => {
+  const { toast } = useToast();
+  const { pendingChanges, switching, syncAndGoOnline } = useDataMode();
+  const conflicts = pendingChanges.filter(change => change.conflict);
+
+  async function retry() {
+    const { success, error, result } = await syncAndGoOnline();
+
+    if (!success) {
+      toast({
+        variant: "destructive",
+        title: "Could not reach Supabase",
+        description: error?.message || "Your changes are still saved offline",
+      });
+    } else if (result && result.conflicts === 0) {
+      toast({ title: "Offline changes synced", description: `${result.synced} changes sent to Supabase` });
+      onOpenChange(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync conflicts</DialogTitle>
+          <DialogDescription>
+            These offline changes could not be applied to Supabase. Discard them, or for edits, overwrite the
+            changes made there, then sync again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No conflicts left to resolve.</p>
+        ) : (
+          <div className="space-y-2">
+            {conflicts.map(change => (
+              <div key={change.id} className="rounded-md border p-3 text-sm space-y-2">
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <p className="font-medium">
+                      {TABLE_LABELS[change.table]} {ACTION_LABELS[change.action]}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {format(parseISO(change.recordedAt), "d MMM yyyy HH:mm")}
+                      {change.reason && ` · ${change.reason}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {change.action === "update" && (
+                      <Button size="sm" variant="outline" onClick={() => overwriteOnSync(change)}>
+                        Overwrite
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={() => discardPendingChange(change)}>
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-danger-DEFAULT">{change.conflict}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={retry} disabled={switching}>
+            {switching ? "Syncing..." : "Sync again"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncConflictsDialog;
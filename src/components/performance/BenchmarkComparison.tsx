@@ -0,0 +1,151 @@
+import React from "react";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { MonthlyNav } from "@/repositories";
+import { BenchmarkSeries } from "@/services/benchmarkService";
+import { RiskFreeRate } from "@/services/metricsEngine";
+import { alignWithBenchmark, calculateRelativeStatistics } from "@/services/performanceService";
+import { formatPercentage } from "@/utils/formatters";
+
+interface BenchmarkComparisonProps {
+  navData: MonthlyNav[];
+  benchmarks: BenchmarkSeries[];
+  // The same rate the Sharpe ratio is measured against
+  riskFreeRate: RiskFreeRate;
+  loading: boolean;
+}
+
+const ratio = (value: number | null) => (value === null ? "N/A" : value.toFixed(2));
+
+/**
+ * The fund's returns against a benchmark: alpha, beta, correlation, tracking
+ * error and capture ratios
+ */
+const BenchmarkComparison = ({ navData, benchmarks, riskFreeRate, loading }: BenchmarkComparisonProps) => {
+  const [benchmarkId, setBenchmarkId] = React.useState<string>("");
+  const series = benchmarks.find(item => String(item.benchmark.id) === benchmarkId) ?? benchmarks[0] ?? null;
+
+  const statistics = React.useMemo(() => {
+    if (!series) return null;
+    return calculateRelativeStatistics(alignWithBenchmark(navData, series), riskFreeRate);
+  }, [navData, series, riskFreeRate]);
+
+  if (loading) {
+    return <Skeleton className="h-[220px] w-full" />;
+  }
+
+  const rows: { label: string; value: string; tooltip: string }[] = statistics
+    ? [
+        {
+          label: "Alpha",
+          value: formatPercentage(statistics.alpha),
+          tooltip: "Annualized return not explained by the benchmark (Jensen's alpha): (mean fund return over the risk-free rate − beta × mean benchmark return over it) × 12",
+        },
+        {
+          label: "Beta",
+          value: ratio(statistics.beta),
+          tooltip: "Sensitivity of the fund's monthly returns to the benchmark's: covariance ÷ benchmark variance",
+        },
+        {
+          label: "Correlation",
+          value: ratio(statistics.correlation),
+          tooltip: "How closely the fund's monthly returns move with the benchmark's, from −1 to 1",
+        },
+        {
+          label: "R²",
+          value: ratio(statistics.rSquared),
+          tooltip: "Share of the fund's return variance explained by the benchmark",
+        },
+        {
+          label: "Tracking Error",
+          value: formatPercentage(statistics.trackingError),
+          tooltip: "Annualized standard deviation of the monthly return over the benchmark",
+        },
+        {
+          label: "Information Ratio",
+          value: ratio(statistics.informationRatio),
+          tooltip: "Annualized return over the benchmark ÷ tracking error",
+        },
+        {
+          label: "Up Capture",
+          value: formatPercentage(statistics.upCapture),
+          tooltip: "Fund's average return in months the benchmark rose, as a share of the benchmark's",
+        },
+        {
+          label: "Down Capture",
+          value: formatPercentage(statistics.downCapture),
+          tooltip: "Fund's average return in months the benchmark fell, as a share of the benchmark's (lower is better)",
+        },
+      ]
+    : [];
+
+  return (
+    <Card className="p-6 metric-card">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Relative Performance</h2>
+          {statistics && (
+            <p className="text-sm text-gray-400">From {statistics.months} months with returns for both</p>
+          )}
+        </div>
+        {benchmarks.length > 1 && series && (
+          <Select value={String(series.benchmark.id)} onValueChange={setBenchmarkId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {benchmarks.map(item => (
+                <SelectItem key={item.benchmark.id} value={String(item.benchmark.id)}>
+                  vs {item.benchmark.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {!series ? (
+        <div className="h-[80px] flex items-center justify-center text-gray-400">
+          Show a benchmark on the charts to compare the fund against it
+        </div>
+      ) : !statistics ? (
+        <div className="h-[80px] flex items-center justify-center text-gray-400">
+          The fund and {series.benchmark.name} need at least two months of returns in common
+        </div>
+      ) : (
+        <TooltipProvider>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {rows.map(row => (
+              <Tooltip key={row.label}>
+                <TooltipTrigger asChild>
+                  <div className="rounded-md border border-white/10 p-3 hover:bg-white/5 transition-colors">
+                    <p className="text-sm text-gray-400">{row.label}</p>
+                    <p className="text-lg font-semibold text-white">{row.value}</p>
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{row.tooltip}</p>
+                </TooltipContent>
+              </Tooltip>
+            ))}
+          </div>
+        </TooltipProvider>
+      )}
+    </Card>
+  );
+};
+
+export default BenchmarkComparison;
@@ -0,0 +1,141 @@
+import React from "react";
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MonthlyNav } from "@/repositories";
+import { calculateDrawdowns, navReturnIndex } from "@/services/performanceService";
+import { formatDate, formatPercentage } from "@/utils/formatters";
+
+interface DrawdownAnalysisProps {
+  navData: MonthlyNav[];
+  loading: boolean;
+}
+
+const monthsLabel = (months: number | null) => (months === null ? "-" : `${months} mo`);
+
+/**
+ * The underwater curve of the fund's return index and every drawdown episode,
+ * from peak through trough to recovery. Measured on returns rather than total
+ * NAV, so redemptions don't show up as losses.
+ */
+const DrawdownAnalysis = ({ navData, loading }: DrawdownAnalysisProps) => {
+  const { episodes, underwater } = React.useMemo(() => calculateDrawdowns(navReturnIndex(navData)), [navData]);
+  const chartData = underwater.map(point => ({ ...point, label: formatDate(point.date) }));
+
+  if (loading) {
+    return (
+      <Card className="p-6 metric-card">
+        <h2 className="text-lg font-semibold text-white mb-4">Drawdowns</h2>
+        <Skeleton className="h-[250px] w-full mb-4" />
+        <Skeleton className="h-[120px] w-full" />
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6 metric-card">
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-white">Drawdowns</h2>
+        <p className="text-sm text-gray-400">How far the fund's return index stood below its previous high each month</p>
+      </div>
+
+      {chartData.length > 1 ? (
+        <>
+          <div className="h-[250px] mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <defs>
+                  <linearGradient id="underwaterGradient" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#F87171" stopOpacity={0} />
+                    <stop offset="95%" stopColor="#F87171" stopOpacity={0.8} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                <XAxis dataKey="label" tick={{ fill: "#E8F1F8" }} axisLine={{ stroke: "#E8F1F8" }} />
+                <YAxis
+                  tick={{ fill: "#E8F1F8" }}
+                  axisLine={{ stroke: "#E8F1F8" }}
+                  tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+                  domain={["dataMin", 0]}
+                />
+                <Tooltip
+                  formatter={(value: number) => [formatPercentage(value), "Drawdown"]}
+                  contentStyle={{
+                    backgroundColor: "rgba(39, 20, 69, 0.9)",
+                    borderColor: "rgba(151, 222, 244, 0.2)",
+                    color: "white",
+                  }}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="drawdown"
+                  stroke="#F87171"
+                  fillOpacity={1}
+                  fill="url(#underwaterGradient)"
+                  name="Drawdown"
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          {episodes.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Peak</TableHead>
+                  <TableHead>Trough</TableHead>
+                  <TableHead>Recovery</TableHead>
+                  <TableHead className="text-right">Depth</TableHead>
+                  <TableHead className="text-right">Peak to Trough</TableHead>
+                  <TableHead className="text-right">Time to Recover</TableHead>
+                  <TableHead className="text-right">Length</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {episodes.map(episode => (
+                  <TableRow key={episode.peakDate}>
+                    <TableCell>{formatDate(episode.peakDate)}</TableCell>
+                    <TableCell>{formatDate(episode.troughDate)}</TableCell>
+                    <TableCell>
+                      {episode.open ? (
+                        <Badge variant="outline">Open</Badge>
+                      ) : (
+                        formatDate(episode.recoveryDate!)
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-red-400">-{formatPercentage(episode.depth)}</TableCell>
+                    <TableCell className="text-right">{monthsLabel(episode.timeToTrough)}</TableCell>
+                    <TableCell className="text-right">{monthsLabel(episode.timeToRecover)}</TableCell>
+                    <TableCell className="text-right">
+                      {monthsLabel(episode.length)}
+                      {episode.open && " so far"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="h-[80px] flex items-center justify-center text-gray-400">
+              The fund has not fallen below a previous high
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="h-[250px] flex items-center justify-center text-gray-400">
+          At least two months of NAV are needed to measure drawdowns
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default DrawdownAnalysis;
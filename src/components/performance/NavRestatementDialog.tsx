@@ -0,0 +1,224 @@
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { MonthlyNav } from "@/repositories";
+import { restateMonthlyNav } from "@/services/navRestatementService";
+
+const formSchema = z.object({
+  total_nav: z.coerce
+    .number({
+      required_error: "NAV value is required",
+      invalid_type_error: "NAV must be a number",
+    })
+    .positive("NAV must be a positive number"),
+  monthly_return: z.coerce
+    .number({
+      invalid_type_error: "Return must be a number",
+    })
+    .optional(),
+  aum_change: z.coerce
+    .number({
+      invalid_type_error: "AUM change must be a number",
+    })
+    .optional(),
+  reason: z.string().trim().min(1, "Give a reason for the restatement"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface NavRestatementDialogProps {
+  nav: MonthlyNav | null;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export default function NavRestatementDialog({ nav, onOpenChange, onSuccess }: NavRestatementDialogProps) {
+  const { formatCurrency } = useCurrencyFormat();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+  });
+
+  React.useEffect(() => {
+    if (!nav) return;
+    form.reset({
+      total_nav: Number(nav.total_nav),
+      monthly_return: undefined,
+      aum_change: nav.aum_change ?? undefined,
+      reason: "",
+    });
+  }, [nav, form]);
+
+  const month = nav ? format(new Date(nav.month_end_date), "MMMM yyyy") : "";
+
+  async function onSubmit(data: FormValues) {
+    if (!nav) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await restateMonthlyNav(
+        nav,
+        {
+          total_nav: data.total_nav,
+          monthly_return: data.monthly_return,
+          aum_change: data.aum_change ?? null,
+        },
+        data.reason
+      );
+
+      if (result.success) {
+        toast({
+          title: "NAV Restated",
+          description: `Restated ${month} NAV to ${formatCurrency(data.total_nav)}`,
+        });
+        onOpenChange(false);
+        onSuccess();
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Failed to restate NAV",
+          description: result.error?.message || "An unknown error occurred",
+        });
+      }
+    } catch (error) {
+      console.error("Error restating NAV:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to restate NAV. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={nav !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Restate {month} NAV</DialogTitle>
+          <DialogDescription>
+            The current figures are kept as version {nav?.version ?? 1}. This month's and the
+            following month's returns are recomputed, and investor values are repriced.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="total_nav"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Total NAV ($)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e.target.value === "" ? undefined : e.target.value);
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="monthly_return"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Monthly Return (%) - Optional</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder={nav?.monthly_return !== null && nav?.monthly_return !== undefined
+                        ? `Currently ${Number(nav.monthly_return).toFixed(2)}%`
+                        : "Enter monthly return percentage"}
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => {
+                        field.onChange(e.target.value === "" ? undefined : e.target.value);
+                      }}
+                    />
+                  </FormControl>
+                  <FormDescription>Leave blank to recompute it from the restated NAV.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="aum_change"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>AUM Change ($) - Optional</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => {
+                        field.onChange(e.target.value === "" ? undefined : e.target.value);
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g. Administrator restated for late-priced positions" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Restating..." : "Restate NAV"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
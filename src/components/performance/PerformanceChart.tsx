@@ -3,14 +3,19 @@ import React, { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { MonthlyNav } from "@/services/dataService";
+import { MonthlyNav } from "@/repositories";
+import { BenchmarkSeries } from "@/services/benchmarkService";
 import { prepareChartData } from "@/services/performanceService";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts";
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+import { getBenchmarkColor } from "@/utils/formatters";
 
 interface PerformanceChartProps {
   navData: MonthlyNav[];
+  // Drawn on a second axis against the fund's growth of 100 over the period shown
+  benchmarks?: BenchmarkSeries[];
   loading: boolean;
 }
 
@@ -18,8 +23,10 @@ type TimePeriod = "ytd" | "1y" | "3y" | "all";
 
 const PerformanceChart: React.FC<PerformanceChartProps> = ({
   navData,
+  benchmarks = [],
   loading,
 }) => {
+  const { formatCurrency } = useCurrencyFormat();
   const [timePeriod, setTimePeriod] = useState<TimePeriod>("all");
 
   // Filter data based on selected time period
@@ -55,7 +62,7 @@ const PerformanceChart: React.FC<PerformanceChartProps> = ({
     }
   }, [navData, timePeriod]);
 
-  const chartData = prepareChartData(filteredData);
+  const chartData = prepareChartData(filteredData, benchmarks);
 
   if (loading) {
     return (
@@ -98,7 +105,7 @@ const PerformanceChart: React.FC<PerformanceChartProps> = ({
             }}
           >
             <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={chartData}>
+              <ComposedChart data={chartData}>
                 <defs>
                   <linearGradient id="navGradient" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="5%" stopColor="#97DEF4" stopOpacity={0.8} />
@@ -113,11 +120,22 @@ const PerformanceChart: React.FC<PerformanceChartProps> = ({
                   axisLine={{ stroke: '#E8F1F8' }}
                 />
                 <YAxis 
+                  yAxisId="nav"
                   tick={{ fill: '#E8F1F8' }} 
                   tickLine={{ stroke: '#E8F1F8' }}
                   axisLine={{ stroke: '#E8F1F8' }}
                   tickFormatter={(value) => `$${(value / 1000000).toFixed(1)}M`}
                 />
+                {benchmarks.length > 0 && (
+                  <YAxis
+                    yAxisId="index"
+                    orientation="right"
+                    tick={{ fill: '#E8F1F8' }}
+                    tickLine={{ stroke: '#E8F1F8' }}
+                    axisLine={{ stroke: '#E8F1F8' }}
+                    domain={["auto", "auto"]}
+                  />
+                )}
                 <ChartTooltip
                   content={({ active, payload }) => {
                     if (active && payload && payload.length) {
@@ -130,14 +148,18 @@ const PerformanceChart: React.FC<PerformanceChartProps> = ({
                                 {payload[0].payload.date}
                               </span>
                             </div>
-                            <div className="flex items-center gap-2">
-                              <span className="text-sm text-muted-foreground">
-                                NAV:
-                              </span>
-                              <span className="font-medium text-white">
-                                ${(payload[0].value as number).toLocaleString()}
-                              </span>
-                            </div>
+                            {payload.map(item => (
+                              <div key={String(item.name)} className="flex items-center gap-2">
+                                <span className="text-sm text-muted-foreground">
+                                  {item.name}:
+                                </span>
+                                <span className="font-medium text-white">
+                                  {item.dataKey === "nav"
+                                    ? formatCurrency(item.value as number)
+                                    : (item.value as number).toFixed(1)}
+                                </span>
+                              </div>
+                            ))}
                           </div>
                         </div>
                       );
@@ -146,13 +168,41 @@ const PerformanceChart: React.FC<PerformanceChartProps> = ({
                   }}
                 />
                 <Area
+                  yAxisId="nav"
                   type="monotone"
                   dataKey="nav"
                   stroke="#97DEF4"
                   fillOpacity={1}
                   fill="url(#navGradient)"
+                  name="NAV"
                 />
-              </AreaChart>
+                {benchmarks.length > 0 && <ChartLegend wrapperStyle={{ color: '#E8F1F8' }} />}
+                {benchmarks.length > 0 && (
+                  <Line
+                    yAxisId="index"
+                    type="monotone"
+                    dataKey="growth"
+                    name="Fund (growth of 100)"
+                    stroke="#B2F7F5"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                )}
+                {benchmarks.map((series, index) => (
+                  <Line
+                    key={series.benchmark.id}
+                    yAxisId="index"
+                    type="monotone"
+                    dataKey={(point: (typeof chartData)[number]) => point.benchmarks[series.benchmark.id]}
+                    name={series.benchmark.name}
+                    stroke={getBenchmarkColor(index)}
+                    strokeWidth={2}
+                    strokeDasharray="5 3"
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </ComposedChart>
             </ResponsiveContainer>
           </ChartContainer>
         ) : (
@@ -3,7 +3,8 @@ import React from "react";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatPercentage } from "@/utils/formatters";
-import { TrendingUp, TrendingDown, BarChart } from "lucide-react";
+import { RiskStatistics } from "@/services/performanceService";
+import { TrendingUp, TrendingDown, BarChart, ShieldAlert } from "lucide-react";
 import { 
   Tooltip,
   TooltipContent,
@@ -18,9 +19,13 @@ interface PerformanceMetricsProps {
   bestMonth: { month: string; return: number } | null;
   worstMonth: { month: string; return: number } | null;
   maxDrawdown: { percentage: number; startDate: string; endDate: string } | null;
+  riskStatistics: RiskStatistics | null;
   loading: boolean;
 }
 
+const ratio = (value: number | null | undefined) =>
+  value !== null && value !== undefined ? value.toFixed(2) : "N/A";
+
 const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
   annualizedReturn,
   volatility,
@@ -28,12 +33,16 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
   bestMonth,
   worstMonth,
   maxDrawdown,
+  riskStatistics,
   loading,
 }) => {
+  const var95 = riskStatistics?.valueAtRisk.find(item => item.confidence === 95);
+  const var99 = riskStatistics?.valueAtRisk.find(item => item.confidence === 99);
+
   if (loading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
-        {[...Array(6)].map((_, i) => (
+        {[...Array(15)].map((_, i) => (
           <Skeleton key={i} className="h-[120px] w-full" />
         ))}
       </div>
@@ -48,21 +57,21 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
           value={annualizedReturn !== null ? formatPercentage(annualizedReturn) : "N/A"}
           icon={<TrendingUp size={20} />}
           positive={annualizedReturn !== null && annualizedReturn > 0}
-          tooltip="The average annual return of the fund over its lifetime"
+          tooltip="The compound annual return of the fund over its lifetime"
         />
         <MetricCard
           title="Volatility"
           value={volatility !== null ? formatPercentage(volatility) : "N/A"}
           icon={<BarChart size={20} />}
           positive={false}
-          tooltip="The standard deviation of the fund's monthly returns, a measure of risk"
+          tooltip="The annualized standard deviation of the fund's monthly returns (sample standard deviation × √12), a measure of risk"
         />
         <MetricCard
           title="Sharpe Ratio"
           value={sharpeRatio !== null ? sharpeRatio.toFixed(2) : "N/A"}
           icon={<BarChart size={20} />}
           positive={sharpeRatio !== null && sharpeRatio > 1}
-          tooltip="A measure of risk-adjusted return (higher is better)"
+          tooltip="Risk-adjusted return over the risk-free rate: mean monthly excess return ÷ its sample standard deviation × √12 (higher is better)"
         />
         <MetricCard
           title="Best Month"
@@ -89,6 +98,69 @@ const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
           positive={false}
           tooltip="The largest peak-to-trough decline in fund value"
         />
+        <MetricCard
+          title="Sortino Ratio"
+          value={ratio(riskStatistics?.sortinoRatio)}
+          icon={<BarChart size={20} />}
+          positive={(riskStatistics?.sortinoRatio ?? 0) > 1}
+          tooltip="Annualized return ÷ annualized downside deviation, where downside deviation is √(mean of min(0, monthly return)²) × √12"
+        />
+        <MetricCard
+          title="Calmar Ratio"
+          value={ratio(riskStatistics?.calmarRatio)}
+          icon={<BarChart size={20} />}
+          positive={(riskStatistics?.calmarRatio ?? 0) > 1}
+          tooltip="Annualized return ÷ maximum drawdown"
+        />
+        <MetricCard
+          title="Omega Ratio"
+          value={ratio(riskStatistics?.omegaRatio)}
+          icon={<BarChart size={20} />}
+          positive={(riskStatistics?.omegaRatio ?? 0) > 1}
+          tooltip="Sum of monthly gains above 0% ÷ sum of monthly losses below 0%"
+        />
+        <MetricCard
+          title="VaR (95%)"
+          value={var95 ? `${formatPercentage(var95.historical)} hist. / ${formatPercentage(var95.parametric)} param.` : "N/A"}
+          icon={<ShieldAlert size={20} />}
+          positive={false}
+          tooltip="One-month loss not exceeded in 95% of months. Historical: the 5th percentile of monthly returns. Parametric: mean − 1.645 × standard deviation"
+        />
+        <MetricCard
+          title="VaR (99%)"
+          value={var99 ? `${formatPercentage(var99.historical)} hist. / ${formatPercentage(var99.parametric)} param.` : "N/A"}
+          icon={<ShieldAlert size={20} />}
+          positive={false}
+          tooltip="One-month loss not exceeded in 99% of months. Historical: the 1st percentile of monthly returns. Parametric: mean − 2.326 × standard deviation"
+        />
+        <MetricCard
+          title="CVaR (95%)"
+          value={var95 ? `${formatPercentage(var95.historicalCvar)} hist. / ${formatPercentage(var95.parametricCvar)} param.` : "N/A"}
+          icon={<ShieldAlert size={20} />}
+          positive={false}
+          tooltip="Average loss in the worst 5% of months. Historical: mean of the returns at or below the 95% VaR. Parametric: mean − standard deviation × φ(1.645) ÷ 5%"
+        />
+        <MetricCard
+          title="CVaR (99%)"
+          value={var99 ? `${formatPercentage(var99.historicalCvar)} hist. / ${formatPercentage(var99.parametricCvar)} param.` : "N/A"}
+          icon={<ShieldAlert size={20} />}
+          positive={false}
+          tooltip="Average loss in the worst 1% of months. Historical: mean of the returns at or below the 99% VaR. Parametric: mean − standard deviation × φ(2.326) ÷ 1%"
+        />
+        <MetricCard
+          title="Skewness"
+          value={ratio(riskStatistics?.skewness)}
+          icon={<BarChart size={20} />}
+          positive={(riskStatistics?.skewness ?? 0) >= 0}
+          tooltip="Asymmetry of monthly returns: n ÷ ((n − 1)(n − 2)) × Σ((r − mean) ÷ s)³. Negative means large losses are more likely than large gains"
+        />
+        <MetricCard
+          title="Excess Kurtosis"
+          value={ratio(riskStatistics?.excessKurtosis)}
+          icon={<BarChart size={20} />}
+          positive={(riskStatistics?.excessKurtosis ?? 0) <= 0}
+          tooltip="Fatness of the tails of monthly returns compared with a normal distribution (0): the bias-adjusted sample kurtosis less 3"
+        />
       </TooltipProvider>
     </div>
   );
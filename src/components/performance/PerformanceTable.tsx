@@ -1,11 +1,18 @@
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { MonthlyNav } from "@/services/dataService";
+import { MonthlyNav } from "@/repositories";
 import { formatNavDataForTable } from "@/services/performanceService";
 import { exportToCSV } from "@/utils/exportUtils";
-import { Download } from "lucide-react";
+import { Download, History, Pencil } from "lucide-react";
+import { format } from "date-fns";
+import RecordHistoryDrawer from "@/components/audit/RecordHistoryDrawer";
+import NavRestatementDialog from "./NavRestatementDialog";
+import RestatedBadge from "./RestatedBadge";
+import { getNavVersions, NavVersion } from "@/services/navRestatementService";
+import { useAuth } from "@/hooks/use-auth";
+import { useCurrencyFormat } from "@/hooks/use-settings";
 import {
   Table,
   TableBody,
@@ -19,6 +26,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 interface PerformanceTableProps {
   navData: MonthlyNav[];
   loading: boolean;
+  // Called after a month is restated
+  onNavChanged?: () => void;
 }
 
 interface FormattedNavData {
@@ -31,9 +40,22 @@ interface FormattedNavData {
 const PerformanceTable: React.FC<PerformanceTableProps> = ({
   navData,
   loading,
+  onNavChanged,
 }) => {
+  const { can } = useAuth();
+  const { currency } = useCurrencyFormat();
   const [sortColumn, setSortColumn] = useState<string>("month");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+  const [historyNav, setHistoryNav] = useState<MonthlyNav | null>(null);
+  const [restatingNav, setRestatingNav] = useState<MonthlyNav | null>(null);
+  const [versions, setVersions] = useState<NavVersion[]>([]);
+
+  useEffect(() => {
+    if (navData.length === 0) return;
+    getNavVersions().then(setVersions);
+  }, [navData]);
+
+  const versionsFor = (navId: number) => versions.filter(version => version.monthly_nav_id === navId);
 
   const handleSort = (column: string) => {
     if (sortColumn === column) {
@@ -45,11 +67,17 @@ const PerformanceTable: React.FC<PerformanceTableProps> = ({
   };
 
   const handleExportCSV = () => {
-    const formattedData = formatNavDataForTable(navData);
+    const formattedData = formatNavDataForTable(navData, currency);
     exportToCSV(formattedData, "performance-data");
   };
 
-  const formattedData = formatNavDataForTable(navData);
+  const formattedData = formatNavDataForTable(navData, currency);
+  
+  // Look up the NAV row behind each formatted month
+  const navByMonth: Record<string, MonthlyNav> = {};
+  navData.forEach(nav => {
+    navByMonth[format(new Date(nav.month_end_date), 'MMM yyyy')] = nav;
+  });
   
   // Sort data based on current sort settings
   const sortedData = [...formattedData].sort((a, b) => {
@@ -139,6 +167,7 @@ const PerformanceTable: React.FC<PerformanceTableProps> = ({
                   <span>{sortDirection === "asc" ? " ▲" : " ▼"}</span>
                 )}
               </TableHead>
+              <TableHead className="w-24" />
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -146,7 +175,15 @@ const PerformanceTable: React.FC<PerformanceTableProps> = ({
               sortedData.map((item, index) => (
                 <TableRow key={index}>
                   <TableCell className="text-white">{item.month}</TableCell>
-                  <TableCell className="text-white">{item.navValue}</TableCell>
+                  <TableCell className="text-white">
+                    {item.navValue}
+                    {navByMonth[item.month] && (
+                      <RestatedBadge
+                        nav={navByMonth[item.month]}
+                        versions={versionsFor(navByMonth[item.month].id)}
+                      />
+                    )}
+                  </TableCell>
                   <TableCell 
                     className={
                       item.monthlyReturn !== 'N/A' && !item.monthlyReturn.startsWith('-')
@@ -167,11 +204,33 @@ const PerformanceTable: React.FC<PerformanceTableProps> = ({
                   >
                     {item.ytdReturn}
                   </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {navByMonth[item.month] && can("publishNav") && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Restate NAV"
+                        onClick={() => setRestatingNav(navByMonth[item.month])}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {navByMonth[item.month] && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Change history"
+                        onClick={() => setHistoryNav(navByMonth[item.month])}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
                 </TableRow>
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={4} className="text-center text-white">
+                <TableCell colSpan={5} className="text-center text-white">
                   No performance data available
                 </TableCell>
               </TableRow>
@@ -179,6 +238,18 @@ const PerformanceTable: React.FC<PerformanceTableProps> = ({
           </TableBody>
         </Table>
       </div>
+      <RecordHistoryDrawer
+        open={historyNav !== null}
+        onOpenChange={(open) => !open && setHistoryNav(null)}
+        tableName="monthly_nav"
+        recordId={historyNav?.id ?? null}
+        title={historyNav ? `NAV ${format(new Date(historyNav.month_end_date), 'MMM yyyy')} — Change History` : ""}
+      />
+      <NavRestatementDialog
+        nav={restatingNav}
+        onOpenChange={(open) => !open && setRestatingNav(null)}
+        onSuccess={() => onNavChanged?.()}
+      />
     </Card>
   );
 };
@@ -0,0 +1,73 @@
+import React from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { MonthlyNav } from "@/repositories";
+import { diffNavVersions, NavVersion, NavVersionChange } from "@/services/navRestatementService";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+
+const FIELD_LABELS: Record<NavVersionChange["field"], string> = {
+  total_nav: "NAV",
+  monthly_return: "Monthly return",
+  aum_change: "AUM change",
+};
+
+interface RestatedBadgeProps {
+  nav: MonthlyNav;
+  // The month's superseded versions, newest first
+  versions: NavVersion[];
+}
+
+/**
+ * Flag a restated month, with each restatement's old and new figures on click
+ */
+const RestatedBadge = ({ nav, versions }: RestatedBadgeProps) => {
+  const { formatCurrency } = useCurrencyFormat();
+
+  const formatValue = (field: NavVersionChange["field"], value: number | null) => {
+    if (value === null) return "—";
+    return field === "monthly_return" ? `${value.toFixed(2)}%` : formatCurrency(value);
+  };
+
+  if (versions.length === 0) return null;
+
+  // Pair each superseded version with the version that replaced it
+  const restatements = versions.map((version, index) => ({
+    version,
+    replacement: index === 0 ? nav : versions[index - 1],
+  }));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="ml-2" onClick={(e) => e.stopPropagation()}>
+          <Badge variant="outline" className="text-amber-400 border-amber-400/50">
+            Restated
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4">
+        {restatements.map(({ version, replacement }) => (
+          <div key={version.id} className="space-y-1 text-sm">
+            <p className="font-medium">
+              Version {version.version} → {version.version + 1}
+              <span className="text-muted-foreground font-normal">
+                {" "}· {format(new Date(version.superseded_at), "d MMM yyyy")}
+              </span>
+            </p>
+            {version.reason && <p className="text-muted-foreground">{version.reason}</p>}
+            {diffNavVersions(version, replacement).map(change => (
+              <div key={change.field} className="grid grid-cols-3 gap-2">
+                <span className="text-muted-foreground">{FIELD_LABELS[change.field]}</span>
+                <span className="line-through text-muted-foreground">{formatValue(change.field, change.before)}</span>
+                <span>{formatValue(change.field, change.after)}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RestatedBadge;
@@ -1,42 +1,81 @@
 
 import React from "react";
 import { Card } from "@/components/ui/card";
-import { MonthlyNav } from "@/services/dataService";
-import { formatNavDataForHeatMap } from "@/services/performanceService";
+import { MonthlyNav } from "@/repositories";
+import { BenchmarkSeries } from "@/services/benchmarkService";
+import { ReturnSeries } from "@/services/metricsEngine";
+import { formatNavDataForHeatMap, formatReturnSeriesForHeatMap } from "@/services/performanceService";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { getValueColorClass } from "@/utils/formatters";
 
 interface ReturnHeatMapProps {
-  navData: MonthlyNav[];
+  navData?: MonthlyNav[];
+  // Returns to show instead of the fund's, such as an investor's own
+  returnSeries?: ReturnSeries;
+  // Benchmarks the returns can be shown in excess of
+  benchmarks?: BenchmarkSeries[];
   loading: boolean;
 }
 
 interface HeatMapData {
   years: number[];
   data: Record<number, Record<number, number | null>>;
+  ytd: Record<number, number | null>;
 }
 
-const ReturnHeatMap: React.FC<ReturnHeatMapProps> = ({ navData, loading }) => {
+const FUND_RETURNS = "fund";
+
+// Compound monthly percentage returns, skipping missing months
+const compound = (returns: (number | null | undefined)[]) =>
+  (returns.reduce<number>((factor, r) => (r === null || r === undefined ? factor : factor * (1 + r / 100)), 1) - 1) * 100;
+
+const ReturnHeatMap: React.FC<ReturnHeatMapProps> = ({ navData = [], returnSeries, benchmarks = [], loading }) => {
+  const [view, setView] = React.useState(FUND_RETURNS);
+  const series = benchmarks.find(item => String(item.benchmark.id) === view) ?? null;
+
   const heatMapData = React.useMemo(() => {
-    if (!navData.length) return { years: [], data: {} } as HeatMapData;
-    
-    const data = formatNavDataForHeatMap(navData);
+    const data: ReturnType<typeof formatNavDataForHeatMap> = returnSeries
+      ? formatReturnSeriesForHeatMap(returnSeries)
+      : formatNavDataForHeatMap(navData, series);
+    if (!data.length) return { years: [], data: {}, ytd: {} } as HeatMapData;
     
     // Group by year and month
     const grouped: Record<number, Record<number, number | null>> = {};
+    const fundByYear: Record<number, (number | null)[]> = {};
+    const benchmarkByYear: Record<number, (number | null)[]> = {};
     
     data.forEach(item => {
       if (!grouped[item.year]) {
         grouped[item.year] = {};
+        fundByYear[item.year] = [];
+        benchmarkByYear[item.year] = [];
       }
-      grouped[item.year][item.month] = item.return;
+      grouped[item.year][item.month] = item.excessReturn === undefined ? item.return : item.excessReturn;
+      fundByYear[item.year].push(item.benchmarkReturn === null ? null : item.return);
+      benchmarkByYear[item.year].push(item.benchmarkReturn ?? null);
     });
     
     // Get unique years and sort them
     const years = Object.keys(grouped).map(Number).sort((a, b) => b - a);
+
+    // YTD is the fund's compounded return, less the benchmark's over the
+    // same months when showing excess returns
+    const ytd = Object.fromEntries(
+      years.map(year => [
+        year,
+        series ? compound(fundByYear[year]) - compound(benchmarkByYear[year]) : compound(fundByYear[year]),
+      ])
+    );
     
-    return { years, data: grouped } as HeatMapData;
-  }, [navData]);
+    return { years, data: grouped, ytd } as HeatMapData;
+  }, [navData, returnSeries, series]);
 
   const getColorClass = (value: number | null) => {
     if (value === null || value === undefined) return 'bg-gray-700';
@@ -70,9 +109,26 @@ const ReturnHeatMap: React.FC<ReturnHeatMapProps> = ({ navData, loading }) => {
 
   return (
     <Card className="p-6 metric-card mb-6">
-      <h2 className="text-lg font-semibold mb-4 text-white">
-        Monthly Returns Heat Map
-      </h2>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-white">
+          {series ? `Excess Returns vs ${series.benchmark.name}` : "Monthly Returns Heat Map"}
+        </h2>
+        {benchmarks.length > 0 && (
+          <Select value={series ? view : FUND_RETURNS} onValueChange={setView}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FUND_RETURNS}>Fund returns</SelectItem>
+              {benchmarks.map(item => (
+                <SelectItem key={item.benchmark.id} value={String(item.benchmark.id)}>
+                  Excess vs {item.benchmark.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
       
       {heatMapData.years.length > 0 ? (
         <div className="overflow-x-auto">
@@ -91,23 +147,7 @@ const ReturnHeatMap: React.FC<ReturnHeatMapProps> = ({ navData, loading }) => {
             <tbody>
               {heatMapData.years.map((year) => {
                 const yearData = heatMapData.data[year];
-                
-                // Calculate YTD return
-                let ytdReturn = null;
-                let lastMonth = null;
-                for (let i = 0; i <= 11; i++) {
-                  if (yearData[i] !== undefined) lastMonth = i;
-                }
-                
-                if (lastMonth !== null) {
-                  let compoundReturn = 1;
-                  for (let i = 0; i <= lastMonth; i++) {
-                    if (yearData[i] !== null && yearData[i] !== undefined) {
-                      compoundReturn *= (1 + yearData[i] / 100);
-                    }
-                  }
-                  ytdReturn = (compoundReturn - 1) * 100;
-                }
+                const ytdReturn = heatMapData.ytd[year];
                 
                 return (
                   <tr key={year}>
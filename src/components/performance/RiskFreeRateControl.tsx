@@ -0,0 +1,95 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BenchmarkSeries } from "@/services/benchmarkService";
+import { RiskFreeRate } from "@/services/metricsEngine";
+
+const CONSTANT = "constant";
+
+interface RiskFreeRateControlProps {
+  // Any of them can serve as the risk-free rate, e.g. a T-bill index
+  benchmarks: BenchmarkSeries[];
+  value: RiskFreeRate;
+  onChange: (value: RiskFreeRate) => void;
+}
+
+/**
+ * Choose the risk-free rate the Sharpe ratio is measured over: a constant
+ * annual rate or a benchmark's returns
+ */
+const RiskFreeRateControl = ({ benchmarks, value, onChange }: RiskFreeRateControlProps) => {
+  const [constantRate, setConstantRate] = React.useState(
+    value.type === "constant" ? String(value.annualRate) : "2"
+  );
+
+  // Follow a rate set from outside, e.g. the fund's default once loaded
+  React.useEffect(() => {
+    if (value.type === "constant") {
+      setConstantRate(current => (Number(current) === value.annualRate ? current : String(value.annualRate)));
+    }
+  }, [value]);
+
+  function handleSourceChange(source: string) {
+    const series = benchmarks.find(item => String(item.benchmark.id) === source);
+    onChange(
+      series
+        ? { type: "series", name: series.benchmark.name, returns: series.returns }
+        : { type: "constant", annualRate: Number(constantRate) || 0 }
+    );
+  }
+
+  function handleRateChange(event: React.ChangeEvent<HTMLInputElement>) {
+    setConstantRate(event.target.value);
+    const rate = Number(event.target.value);
+    if (event.target.value !== "" && !isNaN(rate)) {
+      onChange({ type: "constant", annualRate: rate });
+    }
+  }
+
+  const selected = value.type === "series"
+    ? String(benchmarks.find(item => item.benchmark.name === value.name)?.benchmark.id ?? CONSTANT)
+    : CONSTANT;
+
+  return (
+    <div className="flex items-end gap-2">
+      <div className="space-y-1">
+        <Label className="text-gray-400">Risk-free rate</Label>
+        <Select value={selected} onValueChange={handleSourceChange}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CONSTANT}>Constant rate</SelectItem>
+            {benchmarks.map(series => (
+              <SelectItem key={series.benchmark.id} value={String(series.benchmark.id)}>
+                {series.benchmark.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.type === "constant" && (
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            step="0.1"
+            value={constantRate}
+            onChange={handleRateChange}
+            className="w-[90px]"
+            aria-label="Annual risk-free rate"
+          />
+          <span className="text-gray-400">% p.a.</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskFreeRateControl;
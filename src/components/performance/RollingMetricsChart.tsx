@@ -0,0 +1,146 @@
+import React from "react";
+import { format } from "date-fns";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BenchmarkSeries } from "@/services/benchmarkService";
+import { ReturnSeries, RiskFreeRate } from "@/services/metricsEngine";
+import { calculateRollingMetrics, RollingMetricsPoint } from "@/services/performanceService";
+import { getBenchmarkColor } from "@/utils/formatters";
+
+type RollingMetric = "return" | "volatility" | "sharpe" | "beta";
+
+const WINDOWS = [12, 24, 36];
+
+const METRICS: { value: RollingMetric; label: string; percentage: boolean }[] = [
+  { value: "return", label: "Return", percentage: true },
+  { value: "volatility", label: "Volatility", percentage: true },
+  { value: "sharpe", label: "Sharpe", percentage: false },
+  { value: "beta", label: "Beta", percentage: false },
+];
+
+interface RollingMetricsChartProps {
+  returnSeries: ReturnSeries;
+  benchmarks: BenchmarkSeries[];
+  riskFreeRate: RiskFreeRate;
+  loading: boolean;
+}
+
+/**
+ * Annualized return, volatility, Sharpe ratio and beta over trailing 12, 24
+ * or 36 month windows
+ */
+const RollingMetricsChart = ({ returnSeries, benchmarks, riskFreeRate, loading }: RollingMetricsChartProps) => {
+  const [windowMonths, setWindowMonths] = React.useState(12);
+  const [metric, setMetric] = React.useState<RollingMetric>("return");
+  const metrics = benchmarks.length ? METRICS : METRICS.filter(item => item.value !== "beta");
+  const current = metrics.find(item => item.value === metric) ?? metrics[0];
+
+  const points = React.useMemo(
+    () => calculateRollingMetrics(returnSeries, windowMonths, riskFreeRate, benchmarks),
+    [returnSeries, windowMonths, riskFreeRate, benchmarks]
+  );
+  const chartData = points.map(point => ({
+    ...point,
+    label: format(new Date(point.date), "MMM yyyy"),
+  }));
+
+  const formatValue = (value: number) => (current.percentage ? `${value.toFixed(2)}%` : value.toFixed(2));
+
+  return (
+    <Card className="p-6 metric-card">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white">Rolling {windowMonths}-Month {current.label}</h2>
+        <div className="flex flex-wrap gap-2">
+          <Tabs value={current.value} onValueChange={value => setMetric(value as RollingMetric)}>
+            <TabsList>
+              {metrics.map(item => (
+                <TabsTrigger key={item.value} value={item.value}>
+                  {item.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <Tabs value={String(windowMonths)} onValueChange={value => setWindowMonths(Number(value))}>
+            <TabsList>
+              {WINDOWS.map(months => (
+                <TabsTrigger key={months} value={String(months)}>
+                  {months}M
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      {loading ? (
+        <Skeleton className="h-[300px] w-full" />
+      ) : chartData.length > 0 ? (
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+              <XAxis dataKey="label" stroke="rgba(255,255,255,0.5)" tick={{ fill: "rgba(255,255,255,0.7)" }} />
+              <YAxis
+                stroke="rgba(255,255,255,0.5)"
+                tick={{ fill: "rgba(255,255,255,0.7)" }}
+                tickFormatter={formatValue}
+              />
+              <ReferenceLine y={current.value === "beta" ? 1 : 0} stroke="rgba(255,255,255,0.3)" />
+              <Tooltip
+                formatter={(value: number, name: string) => [formatValue(value), name]}
+                contentStyle={{
+                  backgroundColor: "rgba(39, 20, 69, 0.9)",
+                  borderColor: "rgba(151, 222, 244, 0.2)",
+                  color: "white",
+                }}
+              />
+              {current.value === "beta" ? (
+                benchmarks.map((series, index) => (
+                  <Line
+                    key={series.benchmark.id}
+                    type="monotone"
+                    dataKey={(point: RollingMetricsPoint) => point.betas[series.benchmark.id]}
+                    name={`Beta vs ${series.benchmark.name}`}
+                    stroke={getBenchmarkColor(index)}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))
+              ) : (
+                <Line
+                  type="monotone"
+                  dataKey={current.value}
+                  name={current.label}
+                  stroke="rgb(151, 222, 244)"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              )}
+              {current.value === "beta" && <Legend wrapperStyle={{ color: "rgba(255,255,255,0.7)" }} />}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-[300px] flex items-center justify-center text-gray-400">
+          At least {windowMonths} months of returns are needed for a rolling {windowMonths}-month window
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default RollingMetricsChart;
@@ -27,7 +27,7 @@ import { Input } from "@/components/ui/input";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { useToast } from "@/hooks/use-toast";
-import { Investor } from "@/services/dataService";
+import { Investor } from "@/repositories";
 import { addCapitalFlow } from "@/services/dataService";
 
 // Define the form schema
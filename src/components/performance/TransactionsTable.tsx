@@ -4,9 +4,13 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Download, Filter } from "lucide-react";
-import { CapitalFlow } from "@/services/dataService";
+import { CapitalFlow } from "@/repositories";
+import { getFlowStatuses, signedFlowAmount } from "@/services/capitalFlowService";
+import CapitalFlowActions from "@/components/capital-flows/CapitalFlowActions";
+import CapitalFlowStatusBadge from "@/components/capital-flows/CapitalFlowStatusBadge";
+import CapitalFlowCorrectionDialog, { CorrectionMode } from "@/components/capital-flows/CapitalFlowCorrectionDialog";
 import { exportToCSV } from "@/utils/exportUtils";
-import { formatCurrency, formatDate } from "@/utils/formatters";
+import { formatDate } from "@/utils/formatters";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Pagination,
@@ -25,21 +29,28 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { useCurrencyFormat } from "@/hooks/use-settings";
 
 interface TransactionsTableProps {
   transactions: CapitalFlow[];
   loading: boolean;
+  // Called after a transaction is corrected or reversed
+  onTransactionsChanged?: () => void;
 }
 
 const TransactionsTable: React.FC<TransactionsTableProps> = ({
   transactions,
   loading,
+  onTransactionsChanged,
 }) => {
+  const { formatCurrency } = useCurrencyFormat();
   const [searchTerm, setSearchTerm] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [sortColumn, setSortColumn] = useState<keyof CapitalFlow>("date");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+  const [correction, setCorrection] = useState<{ flow: CapitalFlow; mode: CorrectionMode } | null>(null);
   const itemsPerPage = 10;
+  const statuses = getFlowStatuses(transactions);
 
   const handleSort = (column: keyof CapitalFlow) => {
     if (sortColumn === column) {
@@ -87,6 +98,7 @@ const TransactionsTable: React.FC<TransactionsTableProps> = ({
       investor: transaction.investor_name,
       type: transaction.type,
       amount: Number(transaction.amount),
+      status: statuses[transaction.id],
     }));
     exportToCSV(formattedData, "transactions-data");
   };
@@ -175,6 +187,7 @@ const TransactionsTable: React.FC<TransactionsTableProps> = ({
                   <span>{sortDirection === "asc" ? " ▲" : " ▼"}</span>
                 )}
               </TableHead>
+              <TableHead className="w-12" />
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -189,22 +202,29 @@ const TransactionsTable: React.FC<TransactionsTableProps> = ({
                   </TableCell>
                   <TableCell className="text-white capitalize">
                     {transaction.type}
+                    <CapitalFlowStatusBadge status={statuses[transaction.id]} />
                   </TableCell>
                   <TableCell 
                     className={`text-right ${
-                      transaction.type === "contribution" 
+                      signedFlowAmount(transaction) >= 0
                         ? "text-green-500" 
                         : "text-red-500"
                     }`}
                   >
-                    {transaction.type === "contribution" ? "+" : "-"}
-                    {formatCurrency(Number(transaction.amount))}
+                    {signedFlowAmount(transaction) >= 0 ? "+" : "-"}
+                    {formatCurrency(Math.abs(Number(transaction.amount)))}
+                  </TableCell>
+                  <TableCell>
+                    <CapitalFlowActions
+                      status={statuses[transaction.id]}
+                      onSelect={(mode) => setCorrection({ flow: transaction, mode })}
+                    />
                   </TableCell>
                 </TableRow>
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={4} className="text-center text-white">
+                <TableCell colSpan={5} className="text-center text-white">
                   No transactions found
                 </TableCell>
               </TableRow>
@@ -310,6 +330,14 @@ const TransactionsTable: React.FC<TransactionsTableProps> = ({
           </Pagination>
         </div>
       )}
+
+      <CapitalFlowCorrectionDialog
+        flow={correction?.flow ?? null}
+        mode={correction?.mode ?? "history"}
+        flows={transactions.filter(flow => flow.investor_id === correction?.flow.investor_id)}
+        onOpenChange={(open) => !open && setCorrection(null)}
+        onSuccess={() => onTransactionsChanged?.()}
+      />
     </Card>
   );
 };
@@ -0,0 +1,64 @@
+import * as React from "react"
+import { Session } from "@supabase/supabase-js"
+import { supabase } from "@/integrations/supabase/client"
+import { AuthContext, AuthContextValue } from "@/hooks/use-auth"
+import {
+  AppRole,
+  Permission,
+  getSession,
+  getUserRole,
+  hasPermission,
+} from "@/services/authService"
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = React.useState<Session | null>(null)
+  const [role, setRole] = React.useState<AppRole | null>(null)
+  const [sessionLoading, setSessionLoading] = React.useState(true)
+  const [roleLoading, setRoleLoading] = React.useState(false)
+
+  React.useEffect(() => {
+    getSession().then((current) => {
+      setSession(current)
+      setSessionLoading(false)
+    })
+
+    const { data } = supabase.auth.onAuthStateChange((_event, current) => {
+      setSession(current)
+    })
+
+    return () => data.subscription.unsubscribe()
+  }, [])
+
+  const userId = session?.user.id
+
+  React.useEffect(() => {
+    if (!userId) {
+      setRole(null)
+      return
+    }
+
+    let cancelled = false
+    setRoleLoading(true)
+    getUserRole(userId).then((current) => {
+      if (cancelled) return
+      setRole(current)
+      setRoleLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const value = React.useMemo<AuthContextValue>(
+    () => ({
+      session,
+      role,
+      loading: sessionLoading || roleLoading,
+      can: (permission: Permission) => hasPermission(role, permission),
+    }),
+    [session, role, sessionLoading, roleLoading]
+  )
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
@@ -0,0 +1,50 @@
+import * as React from "react"
+import { DataModeContext, DataModeContextValue } from "@/hooks/use-data-mode"
+import { DataMode, getDataMode } from "@/repositories"
+import {
+  PendingChange,
+  getPendingChanges,
+  goOffline,
+  goOnline,
+  subscribeToPendingChanges,
+} from "@/services/syncService"
+
+export function DataModeProvider({ children }: { children: React.ReactNode }) {
+  const [mode, setMode] = React.useState<DataMode>(getDataMode)
+  const [pendingChanges, setPendingChanges] = React.useState<PendingChange[]>([])
+  const [switching, setSwitching] = React.useState(false)
+
+  React.useEffect(() => {
+    const refresh = () => {
+      getPendingChanges()
+        .then(setPendingChanges)
+        .catch((error) => console.error("Error fetching offline changes:", error))
+    }
+
+    refresh()
+    return subscribeToPendingChanges(refresh)
+  }, [])
+
+  const workOffline = React.useCallback(async () => {
+    setSwitching(true)
+    const result = await goOffline()
+    setMode(getDataMode())
+    setSwitching(false)
+    return result
+  }, [])
+
+  const syncAndGoOnline = React.useCallback(async () => {
+    setSwitching(true)
+    const result = await goOnline()
+    setMode(getDataMode())
+    setSwitching(false)
+    return result
+  }, [])
+
+  const value = React.useMemo<DataModeContextValue>(
+    () => ({ mode, pendingChanges, switching, workOffline, syncAndGoOnline }),
+    [mode, pendingChanges, switching, workOffline, syncAndGoOnline]
+  )
+
+  return <DataModeContext.Provider value={value}>{children}</DataModeContext.Provider>
+}
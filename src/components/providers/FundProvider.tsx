@@ -0,0 +1,61 @@
+import * as React from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { useDataMode } from "@/hooks/use-data-mode"
+import { FundContext, FundContextValue } from "@/hooks/use-fund"
+import { Fund, getAllFunds, getCurrentFundId, setCurrentFundId } from "@/repositories"
+
+// Keep the remembered fund when it still exists, otherwise fall back to the first
+function chooseFund(funds: Fund[], id: number | null): Fund | null {
+  return funds.find((fund) => fund.id === id) ?? funds[0] ?? null
+}
+
+export function FundProvider({ children }: { children: React.ReactNode }) {
+  const { session } = useAuth()
+  const { mode } = useDataMode()
+  const [funds, setFunds] = React.useState<Fund[]>([])
+  const [currentFund, setCurrentFund] = React.useState<Fund | null>(null)
+
+  const userId = session?.user.id
+
+  const apply = React.useCallback((loaded: Fund[]) => {
+    const chosen = chooseFund(loaded, getCurrentFundId())
+    // Repositories are plain functions, so the fund is set for them here
+    if (chosen) setCurrentFundId(chosen.id)
+    setFunds(loaded)
+    setCurrentFund(chosen)
+  }, [])
+
+  const refresh = React.useCallback(async () => {
+    apply(await getAllFunds())
+  }, [apply])
+
+  React.useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    getAllFunds().then((loaded) => {
+      if (!cancelled) apply(loaded)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, mode, apply])
+
+  const selectFund = React.useCallback(
+    (id: number) => {
+      const fund = funds.find((item) => item.id === id)
+      if (!fund) return
+      setCurrentFundId(fund.id)
+      setCurrentFund(fund)
+    },
+    [funds]
+  )
+
+  const value = React.useMemo<FundContextValue>(
+    () => ({ funds, currentFund, selectFund, refresh }),
+    [funds, currentFund, selectFund, refresh]
+  )
+
+  return <FundContext.Provider value={value}>{children}</FundContext.Provider>
+}
@@ -0,0 +1,44 @@
+import * as React from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { useDataMode } from "@/hooks/use-data-mode"
+import { useFund } from "@/hooks/use-fund"
+import { SettingsContext, SettingsContextValue } from "@/hooks/use-settings"
+import { DEFAULT_FUND_SETTINGS, FundSettings, getFundSettings } from "@/services/settingsService"
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const { session } = useAuth()
+  const { mode } = useDataMode()
+  const { currentFund } = useFund()
+  const [settings, setSettings] = React.useState<FundSettings>(DEFAULT_FUND_SETTINGS)
+  const [loading, setLoading] = React.useState(true)
+
+  const userId = session?.user.id
+  const fundId = currentFund?.id
+
+  const refresh = React.useCallback(async () => {
+    setSettings(await getFundSettings())
+  }, [])
+
+  React.useEffect(() => {
+    if (!userId || fundId === undefined) return
+
+    let cancelled = false
+    setLoading(true)
+    getFundSettings().then((current) => {
+      if (cancelled) return
+      setSettings(current)
+      setLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, mode, fundId])
+
+  const value = React.useMemo<SettingsContextValue>(
+    () => ({ settings, loading, refresh }),
+    [settings, loading, refresh]
+  )
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>
+}
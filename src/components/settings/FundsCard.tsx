@@ -0,0 +1,152 @@
+import React from "react";
+import { Check, Pencil, Plus, X } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useFund } from "@/hooks/use-fund";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { createFund, renameFund } from "@/services/fundService";
+
+/**
+ * The funds managed in the app: adding a new vehicle or renaming one
+ */
+const FundsCard = () => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const { funds, currentFund, refresh } = useFund();
+  const [newName, setNewName] = React.useState("");
+  const [editing, setEditing] = React.useState<{ id: number; name: string } | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const canManage = can("manageSettings");
+
+  async function handleCreate(event: React.FormEvent) {
+    event.preventDefault();
+    if (!newName.trim()) return;
+
+    setIsSaving(true);
+    const result = await createFund(newName);
+    setIsSaving(false);
+
+    if (result.success) {
+      toast({ title: "Fund created", description: `Switch to ${newName.trim()} in the navigation to start entering its data` });
+      setNewName("");
+      await refresh();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Could not create fund",
+        description: result.error?.message || "An unknown error occurred",
+      });
+    }
+  }
+
+  async function handleRename() {
+    if (!editing || !editing.name.trim()) return;
+
+    setIsSaving(true);
+    const result = await renameFund(editing.id, editing.name);
+    setIsSaving(false);
+
+    if (result.success) {
+      setEditing(null);
+      await refresh();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Could not rename fund",
+        description: result.error?.message || "An unknown error occurred",
+      });
+    }
+  }
+
+  return (
+    <Card className="max-w-4xl">
+      <CardHeader>
+        <CardTitle>Funds</CardTitle>
+        <CardDescription>
+          Each fund has its own NAV, investors and capital flows. Switch between them in the navigation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              {canManage && <TableHead className="w-[100px]" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {funds.map(fund => (
+              <TableRow key={fund.id}>
+                <TableCell className="font-medium">
+                  {editing?.id === fund.id ? (
+                    <Input
+                      value={editing.name}
+                      onChange={event => setEditing({ id: fund.id, name: event.target.value })}
+                      disabled={isSaving}
+                      autoFocus
+                    />
+                  ) : (
+                    <>
+                      {fund.name}
+                      {fund.id === currentFund?.id && <span className="ml-2 text-xs text-muted-foreground">(current)</span>}
+                    </>
+                  )}
+                </TableCell>
+                {canManage && (
+                  <TableCell className="text-right">
+                    {editing?.id === fund.id ? (
+                      <>
+                        <Button variant="ghost" size="icon" title="Save name" onClick={handleRename} disabled={isSaving}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" title="Cancel" onClick={() => setEditing(null)} disabled={isSaving}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Rename fund"
+                        onClick={() => setEditing({ id: fund.id, name: fund.name })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {canManage && (
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <Input
+              placeholder="New fund name"
+              value={newName}
+              onChange={event => setNewName(event.target.value)}
+              disabled={isSaving}
+            />
+            <Button type="submit" disabled={isSaving || !newName.trim()} className="flex items-center gap-2">
+              <Plus size={16} />
+              Add Fund
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FundsCard;
@@ -0,0 +1,21 @@
+import * as React from "react"
+import { Session } from "@supabase/supabase-js"
+import { AppRole, Permission } from "@/services/authService"
+
+export interface AuthContextValue {
+  session: Session | null
+  role: AppRole | null
+  // True until the session and role have been resolved
+  loading: boolean
+  can: (permission: Permission) => boolean
+}
+
+export const AuthContext = React.createContext<AuthContextValue | undefined>(undefined)
+
+export function useAuth() {
+  const context = React.useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider")
+  }
+  return context
+}
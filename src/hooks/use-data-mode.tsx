@@ -0,0 +1,22 @@
+import * as React from "react"
+import { BackendError, DataMode } from "@/repositories"
+import { PendingChange, SyncResult } from "@/services/syncService"
+
+export interface DataModeContextValue {
+  mode: DataMode
+  // Offline changes not yet in Supabase, including those that conflicted
+  pendingChanges: PendingChange[]
+  switching: boolean
+  workOffline: () => Promise<{ success: boolean; error?: BackendError }>
+  syncAndGoOnline: () => Promise<{ success: boolean; error?: BackendError; result?: SyncResult }>
+}
+
+export const DataModeContext = React.createContext<DataModeContextValue | undefined>(undefined)
+
+export function useDataMode() {
+  const context = React.useContext(DataModeContext)
+  if (!context) {
+    throw new Error("useDataMode must be used within a DataModeProvider")
+  }
+  return context
+}
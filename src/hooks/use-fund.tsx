@@ -0,0 +1,20 @@
+import * as React from "react"
+import { Fund } from "@/repositories"
+
+export interface FundContextValue {
+  funds: Fund[]
+  // The fund the pages read and write; null until the funds have been fetched
+  currentFund: Fund | null
+  selectFund: (id: number) => void
+  refresh: () => Promise<void>
+}
+
+export const FundContext = React.createContext<FundContextValue | undefined>(undefined)
+
+export function useFund() {
+  const context = React.useContext(FundContext)
+  if (!context) {
+    throw new Error("useFund must be used within a FundProvider")
+  }
+  return context
+}
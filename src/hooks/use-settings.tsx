@@ -0,0 +1,38 @@
+import * as React from "react"
+import { FundSettings } from "@/services/settingsService"
+import { formatCurrency, formatToMillion } from "@/utils/formatters"
+
+export interface SettingsContextValue {
+  settings: FundSettings
+  // True until the settings have been fetched for the current user, backend and fund
+  loading: boolean
+  refresh: () => Promise<void>
+}
+
+export const SettingsContext = React.createContext<SettingsContextValue | undefined>(undefined)
+
+export function useSettings() {
+  const context = React.useContext(SettingsContext)
+  if (!context) {
+    throw new Error("useSettings must be used within a SettingsProvider")
+  }
+  return context
+}
+
+/**
+ * Amount formatters in the current fund's base currency, so components show
+ * the right currency once a switched-to fund's settings load
+ */
+export function useCurrencyFormat() {
+  const { settings } = useSettings()
+  const currency = settings.base_currency
+
+  return React.useMemo(
+    () => ({
+      currency,
+      formatCurrency: (value: number) => formatCurrency(value, currency),
+      formatToMillion: (value: number) => formatToMillion(value, currency),
+    }),
+    [currency]
+  )
+}
@@ -11,7 +11,8 @@ const SUPABASE_PUBLISHABLE_KEY = "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJpc3MiO
 
 export const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_PUBLISHABLE_KEY, {
   auth: {
-    persistSession: false // Disable session persistence to prevent caching
+    persistSession: true, // Keep users signed in across reloads
+    autoRefreshToken: true
   },
   db: {
     schema: 'public'
@@ -9,35 +9,160 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          changed_fields: string[]
+          id: number
+          new_data: Json | null
+          occurred_at: string
+          old_data: Json | null
+          reason: string | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_fields?: string[]
+          id?: number
+          new_data?: Json | null
+          occurred_at?: string
+          old_data?: Json | null
+          reason?: string | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_fields?: string[]
+          id?: number
+          new_data?: Json | null
+          occurred_at?: string
+          old_data?: Json | null
+          reason?: string | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      benchmark_values: {
+        Row: {
+          benchmark_id: number
+          id: number
+          month_end_date: string
+          value: number
+        }
+        Insert: {
+          benchmark_id: number
+          id?: number
+          month_end_date: string
+          value: number
+        }
+        Update: {
+          benchmark_id?: number
+          id?: number
+          month_end_date?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "benchmark_values_benchmark_id_fkey"
+            columns: ["benchmark_id"]
+            isOneToOne: false
+            referencedRelation: "benchmarks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      benchmarks: {
+        Row: {
+          created_at: string | null
+          id: number
+          kind: string
+          name: string
+          source_file: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: number
+          kind: string
+          name: string
+          source_file?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: number
+          kind?: string
+          name?: string
+          source_file?: string | null
+        }
+        Relationships: []
+      }
       capital_flows: {
         Row: {
           amount: number
+          corrects_flow_id: number | null
           created_at: string | null
           date: string
+          fund_id: number
           id: number
           investor_id: string
           investor_name: string
+          reverses_flow_id: number | null
           type: string
         }
         Insert: {
           amount: number
+          corrects_flow_id?: number | null
           created_at?: string | null
           date: string
+          fund_id: number
           id?: number
           investor_id: string
           investor_name: string
+          reverses_flow_id?: number | null
           type: string
         }
         Update: {
           amount?: number
+          corrects_flow_id?: number | null
           created_at?: string | null
           date?: string
+          fund_id?: number
           id?: number
           investor_id?: string
           investor_name?: string
+          reverses_flow_id?: number | null
           type?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "capital_flows_corrects_flow_id_fkey"
+            columns: ["corrects_flow_id"]
+            isOneToOne: false
+            referencedRelation: "capital_flows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "capital_flows_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: false
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "capital_flows_investor_fund_fkey"
+            columns: ["investor_id", "fund_id"]
+            isOneToOne: false
+            referencedRelation: "investors"
+            referencedColumns: ["id", "fund_id"]
+          },
           {
             foreignKeyName: "capital_flows_investor_id_fkey"
             columns: ["investor_id"]
@@ -45,11 +170,276 @@ export type Database = {
             referencedRelation: "investors"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "capital_flows_reverses_flow_id_fkey"
+            columns: ["reverses_flow_id"]
+            isOneToOne: true
+            referencedRelation: "capital_flows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_transactions: {
+        Row: {
+          amount: number
+          created_at: string | null
+          days: number
+          fee_basis: number
+          fee_type: string
+          fund_id: number
+          id: number
+          investor_id: string
+          nav_per_unit: number | null
+          period_end: string
+          period_start: string
+          rate: number
+          units: number | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          days: number
+          fee_basis: number
+          fee_type: string
+          fund_id: number
+          id?: number
+          investor_id: string
+          nav_per_unit?: number | null
+          period_end: string
+          period_start: string
+          rate: number
+          units?: number | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          days?: number
+          fee_basis?: number
+          fee_type?: string
+          fund_id?: number
+          id?: number
+          investor_id?: string
+          nav_per_unit?: number | null
+          period_end?: string
+          period_start?: string
+          rate?: number
+          units?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_transactions_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: false
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_transactions_investor_id_fkey"
+            columns: ["investor_id"]
+            isOneToOne: false
+            referencedRelation: "investors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fund_benchmarks: {
+        Row: {
+          benchmark_id: number
+          fund_id: number
+          id: number
+        }
+        Insert: {
+          benchmark_id: number
+          fund_id: number
+          id?: number
+        }
+        Update: {
+          benchmark_id?: number
+          fund_id?: number
+          id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fund_benchmarks_benchmark_id_fkey"
+            columns: ["benchmark_id"]
+            isOneToOne: false
+            referencedRelation: "benchmarks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fund_benchmarks_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: false
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fund_settings: {
+        Row: {
+          base_currency: string
+          default_catch_up_rate: number
+          default_crystallization_frequency: string
+          default_hurdle_rate: number
+          default_hurdle_type: string
+          default_mgmt_fee_rate: number
+          default_performance_fee_rate: number
+          dealing_cutoff_days: number
+          fiscal_year_end_month: number
+          fund_id: number
+          id: number
+          logo_url: string | null
+          reconciliation_tolerance: number
+          risk_free_benchmark: string | null
+          risk_free_rate: number
+          updated_at: string | null
+        }
+        Insert: {
+          base_currency?: string
+          default_catch_up_rate?: number
+          default_crystallization_frequency?: string
+          default_hurdle_rate?: number
+          default_hurdle_type?: string
+          default_mgmt_fee_rate?: number
+          default_performance_fee_rate?: number
+          dealing_cutoff_days?: number
+          fiscal_year_end_month?: number
+          fund_id: number
+          id?: number
+          logo_url?: string | null
+          reconciliation_tolerance?: number
+          risk_free_benchmark?: string | null
+          risk_free_rate?: number
+          updated_at?: string | null
+        }
+        Update: {
+          base_currency?: string
+          default_catch_up_rate?: number
+          default_crystallization_frequency?: string
+          default_hurdle_rate?: number
+          default_hurdle_type?: string
+          default_mgmt_fee_rate?: number
+          default_performance_fee_rate?: number
+          dealing_cutoff_days?: number
+          fiscal_year_end_month?: number
+          fund_id?: number
+          id?: number
+          logo_url?: string | null
+          reconciliation_tolerance?: number
+          risk_free_benchmark?: string | null
+          risk_free_rate?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fund_settings_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: true
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      funds: {
+        Row: {
+          created_at: string | null
+          id: number
+          ledger_built_at: string | null
+          ledger_built_version: number | null
+          ledger_source_version: number
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: number
+          ledger_built_at?: string | null
+          ledger_built_version?: number | null
+          ledger_source_version?: number
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: number
+          ledger_built_at?: string | null
+          ledger_built_version?: number | null
+          ledger_source_version?: number
+          name?: string
+        }
+        Relationships: []
+      }
+      high_water_marks: {
+        Row: {
+          accrued_fee: number
+          created_at: string | null
+          crystallized_fee: number
+          fund_id: number
+          gross_gain: number
+          high_water_mark: number
+          hurdle_amount: number
+          hurdle_nav_per_unit: number | null
+          id: number
+          investor_id: string
+          month_end_date: string
+          nav_per_unit: number
+          units: number
+        }
+        Insert: {
+          accrued_fee?: number
+          created_at?: string | null
+          crystallized_fee?: number
+          fund_id: number
+          gross_gain?: number
+          high_water_mark: number
+          hurdle_amount?: number
+          hurdle_nav_per_unit?: number | null
+          id?: number
+          investor_id: string
+          month_end_date: string
+          nav_per_unit: number
+          units: number
+        }
+        Update: {
+          accrued_fee?: number
+          created_at?: string | null
+          crystallized_fee?: number
+          fund_id?: number
+          gross_gain?: number
+          high_water_mark?: number
+          hurdle_amount?: number
+          hurdle_nav_per_unit?: number | null
+          id?: number
+          investor_id?: string
+          month_end_date?: string
+          nav_per_unit?: number
+          units?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "high_water_marks_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: false
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "high_water_marks_investor_id_fkey"
+            columns: ["investor_id"]
+            isOneToOne: false
+            referencedRelation: "investors"
+            referencedColumns: ["id"]
+          },
         ]
       }
       investors: {
         Row: {
+          catch_up_rate: number
           created_at: string | null
+          crystallization_frequency: string
+          external_id: string | null
+          fund_id: number
+          hurdle_benchmark: string | null
+          hurdle_rate: number
+          hurdle_type: string
           id: string
           initial_investment: number
           mgmt_fee_rate: number
@@ -59,7 +449,14 @@ export type Database = {
           status: string
         }
         Insert: {
+          catch_up_rate?: number
           created_at?: string | null
+          crystallization_frequency?: string
+          external_id?: string | null
+          fund_id: number
+          hurdle_benchmark?: string | null
+          hurdle_rate?: number
+          hurdle_type?: string
           id?: string
           initial_investment: number
           mgmt_fee_rate: number
@@ -69,7 +466,14 @@ export type Database = {
           status: string
         }
         Update: {
+          catch_up_rate?: number
           created_at?: string | null
+          crystallization_frequency?: string
+          external_id?: string | null
+          fund_id?: number
+          hurdle_benchmark?: string | null
+          hurdle_rate?: number
+          hurdle_type?: string
           id?: string
           initial_investment?: number
           mgmt_fee_rate?: number
@@ -78,41 +482,278 @@ export type Database = {
           start_date?: string
           status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "investors_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: false
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       monthly_nav: {
         Row: {
           aum_change: number | null
           created_at: string | null
+          fund_id: number
           id: number
           management_fees: number | null
           month_end_date: string
           month_start_date: string | null
           monthly_return: number | null
+          restated_at: string | null
           start_nav: number | null
           total_nav: number
+          version: number
         }
         Insert: {
           aum_change?: number | null
           created_at?: string | null
+          fund_id: number
           id?: number
           management_fees?: number | null
           month_end_date: string
           month_start_date?: string | null
           monthly_return?: number | null
+          restated_at?: string | null
           start_nav?: number | null
           total_nav: number
+          version?: number
         }
         Update: {
           aum_change?: number | null
           created_at?: string | null
+          fund_id?: number
           id?: number
           management_fees?: number | null
           month_end_date?: string
           month_start_date?: string | null
           monthly_return?: number | null
+          restated_at?: string | null
           start_nav?: number | null
           total_nav?: number
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "monthly_nav_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: false
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      monthly_nav_versions: {
+        Row: {
+          aum_change: number | null
+          id: number
+          month_end_date: string
+          monthly_nav_id: number
+          monthly_return: number | null
+          reason: string | null
+          recorded_at: string | null
+          superseded_at: string
+          superseded_by: string | null
+          total_nav: number
+          version: number
+        }
+        Insert: {
+          aum_change?: number | null
+          id?: number
+          month_end_date: string
+          monthly_nav_id: number
+          monthly_return?: number | null
+          reason?: string | null
+          recorded_at?: string | null
+          superseded_at?: string
+          superseded_by?: string | null
+          total_nav: number
+          version: number
+        }
+        Update: {
+          aum_change?: number | null
+          id?: number
+          month_end_date?: string
+          monthly_nav_id?: number
+          monthly_return?: number | null
+          reason?: string | null
+          recorded_at?: string | null
+          superseded_at?: string
+          superseded_by?: string | null
+          total_nav?: number
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "monthly_nav_versions_monthly_nav_id_fkey"
+            columns: ["monthly_nav_id"]
+            isOneToOne: false
+            referencedRelation: "monthly_nav"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      nav_per_unit: {
+        Row: {
+          created_at: string | null
+          fund_id: number
+          id: number
+          month_end_date: string
+          monthly_nav_id: number | null
+          nav_per_unit: number
+          units_issued: number
+          units_outstanding: number
+          units_redeemed: number
+        }
+        Insert: {
+          created_at?: string | null
+          fund_id: number
+          id?: number
+          month_end_date: string
+          monthly_nav_id?: number | null
+          nav_per_unit: number
+          units_issued?: number
+          units_outstanding: number
+          units_redeemed?: number
+        }
+        Update: {
+          created_at?: string | null
+          fund_id?: number
+          id?: number
+          month_end_date?: string
+          monthly_nav_id?: number | null
+          nav_per_unit?: number
+          units_issued?: number
+          units_outstanding?: number
+          units_redeemed?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "nav_per_unit_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: false
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "nav_per_unit_monthly_nav_id_fkey"
+            columns: ["monthly_nav_id"]
+            isOneToOne: false
+            referencedRelation: "monthly_nav"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      performance_fee_crystallizations: {
+        Row: {
+          created_at: string | null
+          crystallization_date: string
+          fund_id: number
+          id: number
+        }
+        Insert: {
+          created_at?: string | null
+          crystallization_date: string
+          fund_id: number
+          id?: number
+        }
+        Update: {
+          created_at?: string | null
+          crystallization_date?: string
+          fund_id?: number
+          id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "performance_fee_crystallizations_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: false
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      unit_ledger: {
+        Row: {
+          amount: number
+          capital_flow_id: number | null
+          created_at: string | null
+          dealing_date: string
+          flow_date: string
+          fund_id: number
+          id: number
+          investor_id: string
+          nav_per_unit: number
+          type: string
+          units: number
+        }
+        Insert: {
+          amount: number
+          capital_flow_id?: number | null
+          created_at?: string | null
+          dealing_date: string
+          flow_date: string
+          fund_id: number
+          id?: number
+          investor_id: string
+          nav_per_unit: number
+          type: string
+          units: number
+        }
+        Update: {
+          amount?: number
+          capital_flow_id?: number | null
+          created_at?: string | null
+          dealing_date?: string
+          flow_date?: string
+          fund_id?: number
+          id?: number
+          investor_id?: string
+          nav_per_unit?: number
+          type?: string
+          units?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "unit_ledger_capital_flow_id_fkey"
+            columns: ["capital_flow_id"]
+            isOneToOne: false
+            referencedRelation: "capital_flows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "unit_ledger_fund_id_fkey"
+            columns: ["fund_id"]
+            isOneToOne: false
+            referencedRelation: "funds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "unit_ledger_investor_id_fkey"
+            columns: ["investor_id"]
+            isOneToOne: false
+            referencedRelation: "investors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          role?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -121,7 +762,28 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      current_app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_app_role: {
+        Args: {
+          roles: string[]
+        }
+        Returns: boolean
+      }
+      replace_fund_ledger: {
+        Args: {
+          p_fee_transactions: Json
+          p_fund_id: number
+          p_high_water_marks: Json
+          p_management_fees: Json
+          p_nav_per_unit: Json
+          p_source_version: number
+          p_unit_ledger: Json
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
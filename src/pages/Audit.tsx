@@ -0,0 +1,178 @@
+
+import React, { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DatePicker } from "@/components/ui/date-picker";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight, History, RefreshCw } from "lucide-react";
+import AuditEntryChanges from "@/components/audit/AuditEntryChanges";
+import {
+  AUDITED_TABLES,
+  AuditedTable,
+  AuditLogEntry,
+  getAuditLog,
+} from "@/services/auditService";
+
+const tableLabel = (tableName: string) =>
+  AUDITED_TABLES.find(table => table.value === tableName)?.label ?? tableName;
+
+const AuditPage = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tableName, setTableName] = useState<AuditedTable | "all">("all");
+  const [recordId, setRecordId] = useState("");
+  const [recordIdFilter, setRecordIdFilter] = useState("");
+  const [fromDate, setFromDate] = useState<Date | undefined>();
+  const [toDate, setToDate] = useState<Date | undefined>();
+  const [expandedEntries, setExpandedEntries] = useState<Record<number, boolean>>({});
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+
+    // Include the whole of the "to" day
+    const endOfDay = toDate ? new Date(toDate.getTime() + 24 * 60 * 60 * 1000 - 1) : undefined;
+
+    const auditEntries = await getAuditLog({
+      tableName: tableName === "all" ? undefined : tableName,
+      recordId: recordIdFilter || undefined,
+      from: fromDate?.toISOString(),
+      to: endOfDay?.toISOString(),
+    });
+    setEntries(auditEntries);
+    setIsLoading(false);
+  }, [tableName, recordIdFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const toggleEntry = (id: number) => {
+    setExpandedEntries(prev => ({ ...prev, [id]: !prev[id] }));
+  };
+
+  return (
+    <div className="p-8 space-y-6 animate-fade-up">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <History className="w-6 h-6 text-accent" />
+          <h1 className="text-2xl font-semibold">Audit Trail</h1>
+        </div>
+        <Button variant="outline" onClick={fetchEntries} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+            <span>Changes</span>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={tableName} onValueChange={(value) => setTableName(value as AuditedTable | "all")}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {AUDITED_TABLES.map(table => (
+                    <SelectItem key={table.value} value={table.value}>{table.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Record ID"
+                className="w-[180px]"
+                value={recordId}
+                onChange={(e) => setRecordId(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") setRecordIdFilter(recordId.trim());
+                }}
+                onBlur={() => setRecordIdFilter(recordId.trim())}
+              />
+              <DatePicker date={fromDate} onSelect={setFromDate} placeholder="From" className="w-[160px]" />
+              <DatePicker date={toDate} onSelect={setToDate} placeholder="To" className="w-[160px]" />
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center">No changes match these filters</div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>When</TableHead>
+                    <TableHead>Who</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <React.Fragment key={entry.id}>
+                      <TableRow className="cursor-pointer" onClick={() => toggleEntry(entry.id)}>
+                        <TableCell>
+                          {expandedEntries[entry.id]
+                            ? <ChevronDown className="h-4 w-4" />
+                            : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(entry.occurred_at), "d MMM yyyy HH:mm:ss")}
+                        </TableCell>
+                        <TableCell>{entry.actor_email ?? "Unknown user"}</TableCell>
+                        <TableCell>{tableLabel(entry.table_name)}</TableCell>
+                        <TableCell className="font-mono text-xs">{entry.record_id}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="capitalize">{entry.action}</Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{entry.reason ?? "—"}</TableCell>
+                      </TableRow>
+                      {expandedEntries[entry.id] && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={6}>
+                            <AuditEntryChanges entry={entry} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditPage;
@@ -1,36 +1,52 @@
 
 import { useState, useEffect } from "react";
+import { format } from "date-fns";
 import { Card } from "@/components/ui/card";
 import { 
   BarChart3, 
   Users, 
   TrendingUp, 
-  Plus
+  Plus,
+  FileUp
 } from "lucide-react";
-import { 
-  getLatestNav, 
-  getYearStartNav, 
-  getAllNavData, 
-  getRecentActivity, 
+import {
+  getLatestNav,
+  getYearStartNav,
+  getAllNavData,
+  getRecentActivity,
   getActiveInvestorsCount,
-  MonthlyNav,
-  CapitalFlow
-} from "@/services/navService";
+  CapitalFlow,
+  FundScope,
+} from "@/repositories";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import NavForm from "@/components/forms/NavForm";
+import NavImportWizard from "@/components/forms/NavImportWizard";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useFund } from "@/hooks/use-fund";
+import { useCurrencyFormat } from "@/hooks/use-settings";
 import MetricCard from "@/components/dashboard/MetricCard";
 import NavChart from "@/components/dashboard/NavChart";
 import RecentActivity from "@/components/dashboard/RecentActivity";
-import { formatToMillion } from "@/utils/formatters";
+import { BenchmarkSeries, getBenchmarkSeries } from "@/services/benchmarkService";
+import { fiscalYearStart, getFundSettings } from "@/services/settingsService";
+import { ConsolidatedNav, consolidateNav, getSharedBaseCurrency } from "@/services/fundService";
+
+type DashboardScope = 'fund' | 'all';
 
 const Index = () => {
+  const { formatToMillion } = useCurrencyFormat();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const { funds, currentFund } = useFund();
+  const [scope, setScope] = useState<DashboardScope>('fund');
   const [currentNav, setCurrentNav] = useState<number | null>(null);
   const [monthlyReturn, setMonthlyReturn] = useState<number | null>(null);
   const [ytdReturn, setYtdReturn] = useState<number | null>(null);
   const [investorCount, setInvestorCount] = useState<number | null>(null);
-  const [navData, setNavData] = useState<MonthlyNav[]>([]);
+  const [navData, setNavData] = useState<ConsolidatedNav[]>([]);
+  const [benchmarks, setBenchmarks] = useState<BenchmarkSeries[]>([]);
   const [recentActivity, setRecentActivity] = useState<CapitalFlow[]>([]);
   const [loading, setLoading] = useState({
     nav: true,
@@ -40,12 +56,23 @@ const Index = () => {
     chart: true
   });
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  const fetchData = async (dashboardScope: DashboardScope = scope) => {
+    // The consolidated view covers every fund; otherwise the current one
+    const fundScope: FundScope | undefined = dashboardScope === 'all' ? 'all' : undefined;
 
-  const fetchData = async () => {
     try {
+      // Every fund's NAV, summed month by month, for the consolidated view
+      const consolidated = dashboardScope === 'all' ? consolidateNav(await getAllNavData('all')) : null;
+
+      setCurrentNav(null);
+      setMonthlyReturn(null);
+      setYtdReturn(null);
+
       // Fetch latest NAV
       setLoading(prev => ({ ...prev, nav: true }));
-      const latestNav = await getLatestNav();
+      const latestNav = consolidated ? consolidated[consolidated.length - 1] ?? null : await getLatestNav();
       if (latestNav) {
         setCurrentNav(latestNav.total_nav);
         setMonthlyReturn(latestNav.monthly_return);
@@ -54,8 +81,11 @@ const Index = () => {
 
       // Fetch YTD return
       setLoading(prev => ({ ...prev, ytdReturn: true }));
-      const currentYear = new Date().getFullYear();
-      const yearStartNav = await getYearStartNav(currentYear);
+      const settings = await getFundSettings();
+      const yearStart = format(fiscalYearStart(new Date(), settings.fiscal_year_end_month), "yyyy-MM-dd");
+      const yearStartNav = consolidated
+        ? [...consolidated].reverse().find(nav => nav.month_end_date < yearStart) ?? null
+        : await getYearStartNav(yearStart);
       
       if (yearStartNav && latestNav) {
         const ytdReturnValue = ((latestNav.total_nav - yearStartNav.total_nav) / yearStartNav.total_nav) * 100;
@@ -65,19 +95,23 @@ const Index = () => {
 
       // Fetch investor count
       setLoading(prev => ({ ...prev, investors: true }));
-      const count = await getActiveInvestorsCount();
+      const count = await getActiveInvestorsCount(fundScope);
       setInvestorCount(count);
       setLoading(prev => ({ ...prev, investors: false }));
 
       // Fetch NAV history for chart
       setLoading(prev => ({ ...prev, chart: true }));
-      const allNavData = await getAllNavData();
+      const [allNavData, selectedBenchmarks] = await Promise.all([
+        consolidated ?? getAllNavData(),
+        getBenchmarkSeries(true),
+      ]);
       setNavData(allNavData);
+      setBenchmarks(selectedBenchmarks);
       setLoading(prev => ({ ...prev, chart: false }));
 
       // Fetch recent activity
       setLoading(prev => ({ ...prev, activities: true }));
-      const activities = await getRecentActivity();
+      const activities = await getRecentActivity(5, fundScope);
       setRecentActivity(activities);
       setLoading(prev => ({ ...prev, activities: false }));
     } catch (error) {
@@ -101,27 +135,71 @@ const Index = () => {
     fetchData();
   }, []);
 
+  const handleScopeChange = async (value: string) => {
+    const next = value as DashboardScope;
+    if (next === 'all' && !(await getSharedBaseCurrency(funds))) {
+      toast({
+        title: "Funds can't be consolidated",
+        description: "The funds have different base currencies, so their NAVs can't be added up",
+        variant: "destructive",
+      });
+      return;
+    }
+    setScope(next);
+    fetchData(next);
+  };
+
   return (
     <div className="p-8 space-y-6 animate-fade-up">
       <div className="max-w-7xl mx-auto">
         <header className="mb-8 flex justify-between items-center">
           <div>
             <h1 className="text-3xl font-bold text-white">Dashboard</h1>
-            <p className="text-gray-400 mt-2">Fund performance and metrics overview</p>
+            <p className="text-gray-400 mt-2">
+              {scope === 'all'
+                ? `Consolidated performance and metrics across ${funds.length} funds`
+                : `${currentFund?.name ?? "Fund"} performance and metrics overview`}
+            </p>
+            {funds.length > 1 && (
+              <Tabs value={scope} onValueChange={handleScopeChange} className="mt-4">
+                <TabsList>
+                  <TabsTrigger value="fund">This fund</TabsTrigger>
+                  <TabsTrigger value="all">All funds</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
           </div>
-          <Button 
-            onClick={() => setShowAddForm(true)}
-            className="flex items-center gap-2"
-          >
-            <Plus size={16} />
-            Add Monthly NAV
-          </Button>
+          {can('publishNav') && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowImport(true)}
+                className="flex items-center gap-2"
+              >
+                <FileUp size={16} />
+                Import NAV History
+              </Button>
+              <Button 
+                onClick={() => setShowAddForm(true)}
+                className="flex items-center gap-2"
+              >
+                <Plus size={16} />
+                Add Monthly NAV
+              </Button>
+            </div>
+          )}
         </header>
 
         <NavForm 
           open={showAddForm} 
           onOpenChange={setShowAddForm} 
-          onSuccess={fetchData} 
+          onSuccess={() => fetchData()} 
+        />
+
+        <NavImportWizard
+          open={showImport}
+          onOpenChange={setShowImport}
+          onSuccess={() => fetchData()}
         />
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
@@ -154,6 +232,7 @@ const Index = () => {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <NavChart 
             navData={navData} 
+            benchmarks={benchmarks}
             loading={loading.chart} 
           />
           
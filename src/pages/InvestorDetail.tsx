@@ -3,26 +3,53 @@ import { useParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Plus, RefreshCw } from "lucide-react";
+import { ArrowLeft, FileText, History, Plus, RefreshCw } from "lucide-react";
 import { Link } from "react-router-dom";
 import { Skeleton } from "@/components/ui/skeleton";
-import { formatCurrency, formatDate, formatPercentage } from "@/utils/formatters";
-import { getInvestorById, getInvestorTransactions, getLatestNav, getAllNavData } from "@/services/dataService";
-import { calculateInvestorValue } from "@/services/investorCalculationService";
-import { Investor, CapitalFlow, MonthlyNav } from "@/services/dataService";
+import { formatDate, formatPercentage } from "@/utils/formatters";
+import { getInvestorById, getInvestorTransactions, Investor, CapitalFlow } from "@/repositories";
+import { getInvestorReturns, InvestorReturns } from "@/services/investorCalculationService";
+import { getInvestorUnitPosition, InvestorUnitPosition } from "@/services/unitLedgerService";
+import {
+  getFeeTransactions,
+  getHighWaterMarks,
+  summarizeFees,
+  FeeTransaction,
+  HighWaterMark,
+} from "@/services/feeService";
+import { getFlowStatuses } from "@/services/capitalFlowService";
+import CapitalAccountStatement from "@/components/investors/CapitalAccountStatement";
+import InvestorPerformance from "@/components/investors/InvestorPerformance";
+import InvestorLedger from "@/components/investors/InvestorLedger";
+import CapitalFlowForm from "@/components/investors/CapitalFlowForm";
+import StatementDialog from "@/components/investors/StatementDialog";
+import RecordHistoryDrawer from "@/components/audit/RecordHistoryDrawer";
+import CapitalFlowActions from "@/components/capital-flows/CapitalFlowActions";
+import CapitalFlowAmount from "@/components/capital-flows/CapitalFlowAmount";
+import CapitalFlowStatusBadge from "@/components/capital-flows/CapitalFlowStatusBadge";
+import CapitalFlowCorrectionDialog, { CorrectionMode } from "@/components/capital-flows/CapitalFlowCorrectionDialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCurrencyFormat } from "@/hooks/use-settings";
 
 const InvestorDetail = () => {
+  const { formatCurrency } = useCurrencyFormat();
   const { id } = useParams<{ id: string }>();
   const [investor, setInvestor] = useState<Investor | null>(null);
   const [transactions, setTransactions] = useState<CapitalFlow[]>([]);
-  const [latestNav, setLatestNav] = useState<MonthlyNav | null>(null);
-  const [allNavHistory, setAllNavHistory] = useState<MonthlyNav[]>([]);
+  const [position, setPosition] = useState<InvestorUnitPosition | null>(null);
+  const [returns, setReturns] = useState<InvestorReturns | null>(null);
+  const [fees, setFees] = useState<FeeTransaction[]>([]);
+  const [incentiveFee, setIncentiveFee] = useState<HighWaterMark | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [showAddTransaction, setShowAddTransaction] = useState(false);
+  const [showStatement, setShowStatement] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [activeTab, setActiveTab] = useState("overview");
+  const [correction, setCorrection] = useState<{ flow: CapitalFlow; mode: CorrectionMode } | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const fetchData = async (forceRefresh = false) => {
     setLoading(true);
@@ -41,13 +68,22 @@ const InvestorDetail = () => {
       const transactionData = await getInvestorTransactions(id);
       setTransactions(transactionData);
       
-      // Fetch latest NAV
-      const navData = await getLatestNav();
-      setLatestNav(navData);
+      // Fetch units held and the latest NAV per unit
+      const unitPosition = await getInvestorUnitPosition(id);
+      setPosition(unitPosition);
       
-      // Fetch all NAV history
-      const navHistory = await getAllNavData();
-      setAllNavHistory(navHistory);
+      // Work out time- and money-weighted returns from the investor's dealings
+      if (investorData) {
+        setReturns(await getInvestorReturns(investorData, transactionData, unitPosition.accruedIncentiveFee));
+      }
+      
+      // Fetch fees charged against those units
+      const feeData = await getFeeTransactions(id);
+      setFees(feeData);
+      
+      // Fetch how the latest performance fee was worked out
+      const marks = unitPosition.asOf ? await getHighWaterMarks(unitPosition.asOf, id) : [];
+      setIncentiveFee(marks[0] ?? null);
 
       if (forceRefresh) {
         toast({
@@ -78,27 +114,18 @@ const InvestorDetail = () => {
     fetchData(true);
   };
   
-  const calculateResult = (investorData: Investor, transactionData: CapitalFlow[]) => {
-    if (!investorData || !latestNav || !allNavHistory) {
-      return { currentValue: 0, returnPercentage: 0 };
-    }
-    
-    const result = calculateInvestorValue(
-      investorData,
-      transactionData,
-      latestNav,
-      allNavHistory
-    );
-    
-    return result;
-  };
-  
   const handleTransactionAdded = async () => {
     if (!id) return;
     
-    // Refresh transactions
+    // Refresh transactions and the units they issued or redeemed
     const transactionData = await getInvestorTransactions(id);
     setTransactions(transactionData);
+    const unitPosition = await getInvestorUnitPosition(id);
+    setPosition(unitPosition);
+    if (investor) {
+      setReturns(await getInvestorReturns(investor, transactionData, unitPosition.accruedIncentiveFee));
+    }
+    setFees(await getFeeTransactions(id));
     
     // Close dialog
     setShowAddTransaction(false);
@@ -146,7 +173,9 @@ const InvestorDetail = () => {
     );
   }
   
-  const { currentValue, returnPercentage } = calculateResult(investor, transactions);
+  const currentValue = position?.value ?? 0;
+  const returnClass = (value: number | null | undefined) =>
+    value === null || value === undefined ? '' : value >= 0 ? 'text-success-DEFAULT' : 'text-danger-DEFAULT';
   
   const totalContributions = transactions
     .filter(t => t.type === 'contribution')
@@ -156,6 +185,21 @@ const InvestorDetail = () => {
     .filter(t => t.type === 'withdrawal')
     .reduce((sum, t) => sum + Number(t.amount), 0);
   
+  const feeTotals = summarizeFees(fees);
+  const flowStatuses = getFlowStatuses(transactions);
+  const hurdleDescription = investor.hurdle_type === 'none'
+    ? 'No hurdle'
+    : `${investor.hurdle_type === 'hard' ? 'Hard' : 'Soft'} hurdle of ${
+        investor.hurdle_benchmark ? `${investor.hurdle_benchmark} + ` : ''
+      }${formatPercentage(Number(investor.hurdle_rate))} p.a.${
+        investor.hurdle_type === 'soft' ? `, ${formatPercentage(Number(investor.catch_up_rate))} catch-up` : ''
+      }`;
+  
+  // How far the NAV per unit is above (or below) the investor's high-water mark
+  const distanceToHighWaterMark = position?.highWaterMark
+    ? (position.navPerUnit / position.highWaterMark - 1) * 100
+    : null;
+  
   return (
     <div className="container mx-auto py-6 space-y-8">
       <div className="flex items-center justify-between">
@@ -183,13 +227,46 @@ const InvestorDetail = () => {
             <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
             {refreshing ? 'Refreshing...' : 'Refresh Data'}
           </Button>
-          <Button onClick={() => setShowAddTransaction(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Transaction
+          <Button variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+            <History className="h-4 w-4 mr-2" />
+            History
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowStatement(true)}>
+            <FileText className="h-4 w-4 mr-2" />
+            Statement
           </Button>
+          {can('enterFlows') && (
+            <Button onClick={() => setShowAddTransaction(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Transaction
+            </Button>
+          )}
         </div>
       </div>
       
+      <StatementDialog open={showStatement} onOpenChange={setShowStatement} investor={investor} />
+      <CapitalFlowForm
+        open={showAddTransaction}
+        onOpenChange={setShowAddTransaction}
+        onSuccess={handleTransactionAdded}
+        investorId={investor.id}
+        investorName={investor.name}
+      />
+      <CapitalFlowCorrectionDialog
+        flow={correction?.flow ?? null}
+        mode={correction?.mode ?? "history"}
+        flows={transactions}
+        onOpenChange={(open) => !open && setCorrection(null)}
+        onSuccess={() => fetchData()}
+      />
+      <RecordHistoryDrawer
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        tableName="investors"
+        recordId={investor.id}
+        title={`${investor.name} — Change History`}
+      />
+      
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="pb-2">
@@ -200,7 +277,7 @@ const InvestorDetail = () => {
           <CardContent>
             <div className="text-2xl font-bold">{formatCurrency(currentValue)}</div>
             <p className="text-xs text-muted-foreground mt-1">
-              Started {formatDate(investor.start_date)}
+              Net of fees · Started {formatDate(investor.start_date)}
             </p>
           </CardContent>
         </Card>
@@ -208,16 +285,28 @@ const InvestorDetail = () => {
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
-              Total Return
+              Returns
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className={`text-2xl font-bold ${returnPercentage >= 0 ? 'text-success-DEFAULT' : 'text-danger-DEFAULT'}`}>
-              {formatPercentage(returnPercentage / 100)}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <div className={`text-2xl font-bold ${returnClass(returns?.timeWeightedReturn)}`}>
+                  {formatPercentage(returns?.timeWeightedReturn ?? null)}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Time-weighted · {formatPercentage(returns?.annualizedTimeWeightedReturn ?? null)} p.a.
+                </p>
+              </div>
+              <div>
+                <div className={`text-2xl font-bold ${returnClass(returns?.moneyWeightedReturn)}`}>
+                  {formatPercentage(returns?.moneyWeightedReturn ?? null)}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Money-weighted (XIRR) p.a.
+                </p>
+              </div>
             </div>
-            <p className="text-xs text-muted-foreground mt-1">
-              Initial Investment: {formatCurrency(Number(investor.initial_investment))}
-            </p>
           </CardContent>
         </Card>
         
@@ -232,7 +321,7 @@ const InvestorDetail = () => {
               {formatPercentage(Number(investor.mgmt_fee_rate) / 100)} / {formatPercentage(Number(investor.performance_fee_rate) / 100)}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              Management / Performance
+              Management / Performance · {investor.crystallization_frequency.charAt(0).toUpperCase() + investor.crystallization_frequency.slice(1)} crystallization
             </p>
           </CardContent>
         </Card>
@@ -241,6 +330,7 @@ const InvestorDetail = () => {
       <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="capital-account">Capital Account</TabsTrigger>
           <TabsTrigger value="transactions">Transactions</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
         </TabsList>
@@ -270,19 +360,109 @@ const InvestorDetail = () => {
                     <span className="font-medium">{formatCurrency(totalContributions - totalWithdrawals)}</span>
                   </div>
                   <div className="flex justify-between border-t pt-2">
-                    <span className="font-medium">Current Value</span>
+                    <span className="text-muted-foreground">Management Fees Charged</span>
+                    <span className="font-medium">{formatCurrency(feeTotals.management)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Performance Fees Crystallized</span>
+                    <span className="font-medium">{formatCurrency(feeTotals.performance)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Performance Fee Accrued</span>
+                    <span className="font-medium">{formatCurrency(position?.accruedIncentiveFee ?? 0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">High-Water Mark</span>
+                    <span className="font-medium">
+                      {position?.highWaterMark != null ? position.highWaterMark.toFixed(2) : '—'}
+                      {distanceToHighWaterMark !== null && (
+                        <span className={`ml-2 text-xs ${distanceToHighWaterMark >= 0 ? 'text-success-DEFAULT' : 'text-danger-DEFAULT'}`}>
+                          ({distanceToHighWaterMark >= 0 ? '+' : ''}{formatPercentage(distanceToHighWaterMark)})
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                  <div className="flex justify-between border-t pt-2">
+                    <span className="text-muted-foreground">Units Held</span>
+                    <span className="font-medium">{(position?.units ?? 0).toFixed(4)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">NAV per Unit</span>
+                    <span className="font-medium">
+                      {(position?.navPerUnit ?? 0).toFixed(2)}
+                      {position?.asOf && ` (${formatDate(position.asOf)})`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between border-t pt-2">
+                    <span className="font-medium">Current Value (net of fees)</span>
                     <span className="font-medium">{formatCurrency(currentValue)}</span>
                   </div>
                   <div className="flex justify-between border-t pt-2">
-                    <span className="font-medium">Total Return</span>
-                    <span className={`font-medium ${returnPercentage >= 0 ? 'text-success-DEFAULT' : 'text-danger-DEFAULT'}`}>
-                      {formatPercentage(returnPercentage / 100)}
+                    <span className="font-medium">Time-Weighted Return</span>
+                    <span className={`font-medium ${returnClass(returns?.timeWeightedReturn)}`}>
+                      {formatPercentage(returns?.timeWeightedReturn ?? null)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="font-medium">Money-Weighted Return (XIRR)</span>
+                    <span className={`font-medium ${returnClass(returns?.moneyWeightedReturn)}`}>
+                      {formatPercentage(returns?.moneyWeightedReturn ?? null)} p.a.
                     </span>
                   </div>
                 </div>
               </CardContent>
             </Card>
             
+            <Card>
+              <CardHeader>
+                <CardTitle>Performance Fee Breakdown</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!incentiveFee ? (
+                  <p className="text-muted-foreground text-center py-4">No performance fee calculated yet</p>
+                ) : (
+                  <div className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      {formatPercentage(Number(investor.performance_fee_rate))} performance fee · {hurdleDescription} · as of {formatDate(incentiveFee.month_end_date)}
+                    </p>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">High-Water Mark per Unit</span>
+                      <span className="font-medium">{Number(incentiveFee.high_water_mark).toFixed(2)}</span>
+                    </div>
+                    {incentiveFee.hurdle_nav_per_unit !== null && investor.hurdle_type !== 'none' && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Hurdle per Unit</span>
+                        <span className="font-medium">{Number(incentiveFee.hurdle_nav_per_unit).toFixed(2)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between border-t pt-2">
+                      <span className="text-muted-foreground">Gross Gain above High-Water Mark</span>
+                      <span className="font-medium">{formatCurrency(Number(incentiveFee.gross_gain))}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Hurdle Amount</span>
+                      <span className="font-medium">{formatCurrency(Number(incentiveFee.hurdle_amount))}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Gain above Hurdle</span>
+                      <span className="font-medium">
+                        {formatCurrency(Math.max(0, Number(incentiveFee.gross_gain) - Number(incentiveFee.hurdle_amount)))}
+                      </span>
+                    </div>
+                    <div className="flex justify-between border-t pt-2">
+                      <span className="font-medium">Fee Charged</span>
+                      <span className="font-medium">
+                        {formatCurrency(Number(incentiveFee.accrued_fee) + Number(incentiveFee.crystallized_fee))}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(Number(incentiveFee.crystallized_fee))} crystallized, {formatCurrency(Number(incentiveFee.accrued_fee))} accrued
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            
             <Card>
               <CardHeader>
                 <CardTitle>Recent Transactions</CardTitle>
@@ -295,14 +475,19 @@ const InvestorDetail = () => {
                     {transactions.slice(0, 5).map((transaction) => (
                       <div key={transaction.id} className="flex justify-between items-center">
                         <div>
-                          <p className="font-medium">{transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1)}</p>
+                          <p className="font-medium">
+                            {transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1)}
+                            <CapitalFlowStatusBadge status={flowStatuses[transaction.id]} />
+                          </p>
                           <p className="text-sm text-muted-foreground">{formatDate(transaction.date)}</p>
                         </div>
-                        <span className={`font-medium ${
-                          transaction.type === 'contribution' ? 'text-success-DEFAULT' : 'text-danger-DEFAULT'
-                        }`}>
-                          {transaction.type === 'contribution' ? '+' : '-'}{formatCurrency(Number(transaction.amount))}
-                        </span>
+                        <div className="flex items-center gap-1">
+                          <CapitalFlowAmount flow={transaction} />
+                          <CapitalFlowActions
+                            status={flowStatuses[transaction.id]}
+                            onSelect={(mode) => setCorrection({ flow: transaction, mode })}
+                          />
+                        </div>
                       </div>
                     ))}
                     
@@ -318,26 +503,22 @@ const InvestorDetail = () => {
           </div>
         </TabsContent>
         
+        <TabsContent value="capital-account">
+          <CapitalAccountStatement investorId={investor.id} investorName={investor.name} />
+        </TabsContent>
+        
         <TabsContent value="transactions">
-          <Card>
-            <CardHeader>
-              <CardTitle>Transaction History</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p>Transactions will appear here once the component is implemented.</p>
-            </CardContent>
-          </Card>
+          <InvestorLedger
+            investorId={investor.id}
+            investorName={investor.name}
+            transactions={transactions}
+            onAddTransaction={() => setShowAddTransaction(true)}
+            onCorrect={(flow, mode) => setCorrection({ flow, mode })}
+          />
         </TabsContent>
         
         <TabsContent value="performance">
-          <Card>
-            <CardHeader>
-              <CardTitle>Performance History</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p>Performance chart will appear here once the component is implemented.</p>
-            </CardContent>
-          </Card>
+          <InvestorPerformance returns={returns} asOf={position?.asOf ?? null} />
         </TabsContent>
       </Tabs>
     </div>
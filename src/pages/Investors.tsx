@@ -12,35 +12,34 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Users, Plus, Search, ArrowUpDown } from "lucide-react";
+import { Users, Plus, Search, ArrowUpDown, Gem, FileText, FileUp } from "lucide-react";
 import { InvestorRow } from "@/components/investors/InvestorRow";
 import InvestorForm from "@/components/investors/InvestorForm";
-import { getInvestorTransactions } from "@/services/dataService";
-import { calculateInvestorValues } from "@/services/investorCalculationService";
+import StatementDialog from "@/components/investors/StatementDialog";
+import CapitalFlowImportWizard from "@/components/capital-flows/CapitalFlowImportWizard";
+import { getInvestorTransactions } from "@/repositories";
+import { calculateInvestorValues, InvestorValue } from "@/services/investorCalculationService";
+import { runCrystallization } from "@/services/feeService";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCurrencyFormat } from "@/hooks/use-settings";
+import { formatDate } from "@/utils/formatters";
 import NavReconciliation from "@/components/dashboard/NavReconciliation";
 
-type SortKey = 'name' | 'initialInvestment' | 'currentValue' | 'return' | 'status';
+type SortKey = 'name' | 'initialInvestment' | 'currentValue' | 'timeWeightedReturn' | 'moneyWeightedReturn' | 'status';
 type SortDirection = 'asc' | 'desc';
 
 const InvestorsPage = () => {
+  const { formatCurrency } = useCurrencyFormat();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [investors, setInvestors] = useState<{
-    id: string;
-    name: string;
-    initialInvestment: number;
-    currentValue: number;
-    return: number;
-    status: string;
-    mgmtFeeRate: number;
-    perfFeeRate: number;
-    startDate: string;
-    transactions?: any[];
-  }[]>([]);
+  const { can } = useAuth();
+  const [investors, setInvestors] = useState<InvestorValue[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
+  const [showFlowImport, setShowFlowImport] = useState(false);
+  const [showStatements, setShowStatements] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [sort, setSort] = useState<{key: SortKey; direction: SortDirection}>({
     key: 'name',
@@ -49,6 +48,7 @@ const InvestorsPage = () => {
   const [expandedInvestors, setExpandedInvestors] = useState<Record<string, boolean>>({});
   const [investorTransactions, setInvestorTransactions] = useState<Record<string, any[]>>({});
   const [isReconciled, setIsReconciled] = useState<boolean | null>(null);
+  const [isCrystallizing, setIsCrystallizing] = useState(false);
 
   const fetchInvestors = async () => {
     setIsLoading(true);
@@ -89,6 +89,9 @@ const InvestorsPage = () => {
       return a.name.localeCompare(b.name) * factor;
     } else if (key === 'status') {
       return a.status.localeCompare(b.status) * factor;
+    } else if (a[key] === null || b[key] === null) {
+      // Investors without a return go last either way
+      return (a[key] === null ? 1 : 0) - (b[key] === null ? 1 : 0);
     } else {
       return ((a[key] as number) - (b[key] as number)) * factor;
     }
@@ -102,6 +105,28 @@ const InvestorsPage = () => {
     navigate(`/investors/${id}`);
   };
 
+  const handleRunCrystallization = async () => {
+    setIsCrystallizing(true);
+    try {
+      const result = await runCrystallization();
+      if (result.success) {
+        toast({
+          title: "Performance Fees Crystallized",
+          description: `Crystallized ${formatCurrency(result.totalFees ?? 0)} at ${formatDate(result.date!)}`,
+        });
+        fetchInvestors();
+      } else {
+        toast({
+          title: "Crystallization failed",
+          description: result.error?.message || "An unknown error occurred",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setIsCrystallizing(false);
+    }
+  };
+
   const handleReconciliationComplete = (isReconciled: boolean) => {
     setIsReconciled(isReconciled);
     
@@ -133,10 +158,30 @@ const InvestorsPage = () => {
           <Users className="w-6 h-6 text-accent" />
           <h1 className="text-2xl font-semibold">Investors</h1>
         </div>
-        <Button onClick={() => setShowAddForm(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Investor
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowStatements(true)}>
+            <FileText className="mr-2 h-4 w-4" />
+            Statements
+          </Button>
+          {can('enterFlows') && (
+            <Button variant="outline" onClick={() => setShowFlowImport(true)}>
+              <FileUp className="mr-2 h-4 w-4" />
+              Import Flows
+            </Button>
+          )}
+          {can('runCrystallization') && (
+            <Button variant="outline" onClick={handleRunCrystallization} disabled={isCrystallizing}>
+              <Gem className="mr-2 h-4 w-4" />
+              {isCrystallizing ? "Crystallizing..." : "Run Crystallization"}
+            </Button>
+          )}
+          {can('manageInvestors') && (
+            <Button onClick={() => setShowAddForm(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Investor
+            </Button>
+          )}
+        </div>
       </div>
 
       <InvestorForm 
@@ -144,6 +189,14 @@ const InvestorsPage = () => {
         onOpenChange={setShowAddForm} 
         onSuccess={fetchInvestors} 
       />
+
+      <StatementDialog open={showStatements} onOpenChange={setShowStatements} />
+
+      <CapitalFlowImportWizard
+        open={showFlowImport}
+        onOpenChange={setShowFlowImport}
+        onSuccess={fetchInvestors}
+      />
       
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
         <div className="xl:col-span-2">
@@ -182,8 +235,9 @@ const InvestorsPage = () => {
                       <TableRow>
                         <TableHead><SortButton label="Investor Name" sortKey="name" /></TableHead>
                         <TableHead><SortButton label="Initial Investment" sortKey="initialInvestment" /></TableHead>
-                        <TableHead><SortButton label="Current Value" sortKey="currentValue" /></TableHead>
-                        <TableHead><SortButton label="Return %" sortKey="return" /></TableHead>
+                        <TableHead><SortButton label="Current Value (Net)" sortKey="currentValue" /></TableHead>
+                        <TableHead><SortButton label="TWR" sortKey="timeWeightedReturn" /></TableHead>
+                        <TableHead><SortButton label="XIRR (p.a.)" sortKey="moneyWeightedReturn" /></TableHead>
                         <TableHead><SortButton label="Status" sortKey="status" /></TableHead>
                         <TableHead>Actions</TableHead>
                       </TableRow>
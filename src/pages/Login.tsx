@@ -0,0 +1,120 @@
+import React from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { LogIn } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { signIn } from "@/services/authService";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+const formSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+  password: z.string().min(1, "Password is required"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const Login = () => {
+  const { toast } = useToast();
+  const { session, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  // Where the user was headed before being sent to sign in
+  const from = (location.state as { from?: string } | null)?.from ?? "/";
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: "",
+      password: "",
+    },
+  });
+
+  async function onSubmit(data: FormValues) {
+    setIsSubmitting(true);
+    const result = await signIn(data.email, data.password);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      navigate(from, { replace: true });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Sign in failed",
+        description: result.error?.message || "An unknown error occurred",
+      });
+    }
+  }
+
+  if (!loading && session) {
+    return <Navigate to={from} replace />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 animate-fade-up">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="items-center text-center">
+          <img
+            src="/lovable-uploads/89bff80d-5482-4dde-9dcf-f38b43a488b6.png"
+            alt="Dasein"
+            className="h-12 mb-4"
+          />
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>Sign in to the Dasein fund dashboard</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                <LogIn className="mr-2 h-4 w-4" />
+                {isSubmitting ? "Signing in..." : "Sign in"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -8,65 +8,59 @@ import PerformanceChart from "@/components/performance/PerformanceChart";
 import ReturnHeatMap from "@/components/performance/ReturnHeatMap";
 import TransactionsTable from "@/components/performance/TransactionsTable";
 import TransactionForm from "@/components/performance/TransactionForm";
-import { 
-  getAllNavData, 
-  getAllCapitalFlows,
-  getAllInvestors
-} from "@/services/dataService";
+import BenchmarksCard from "@/components/benchmarks/BenchmarksCard";
+import BenchmarkComparison from "@/components/performance/BenchmarkComparison";
+import DrawdownAnalysis from "@/components/performance/DrawdownAnalysis";
+import { getAllNavData, getAllCapitalFlows, getAllInvestors, MonthlyNav, CapitalFlow, Investor } from "@/repositories";
 import { 
   calculateAnnualizedReturn, 
   calculateVolatility, 
   calculateSharpeRatio,
   findBestMonth,
   findWorstMonth,
-  calculateMaxDrawdown
+  calculateMaxDrawdown,
+  navReturnIndex,
+  calculateRiskStatistics,
+  navReturnSeries
 } from "@/services/performanceService";
-import { MonthlyNav, CapitalFlow, Investor } from "@/services/dataService";
+import { DEFAULT_RISK_FREE_RATE, RiskFreeRate } from "@/services/metricsEngine";
+import RiskFreeRateControl from "@/components/performance/RiskFreeRateControl";
+import RollingMetricsChart from "@/components/performance/RollingMetricsChart";
+import { BenchmarkSeries, getBenchmarkSeries } from "@/services/benchmarkService";
+import { getFundSettings, riskFreeRateFromSettings } from "@/services/settingsService";
+import { useAuth } from "@/hooks/use-auth";
 
 const Performance = () => {
+  const { can } = useAuth();
   const [activeTab, setActiveTab] = useState("overview");
   const [navData, setNavData] = useState<MonthlyNav[]>([]);
   const [transactions, setTransactions] = useState<CapitalFlow[]>([]);
   const [investors, setInvestors] = useState<Investor[]>([]);
+  const [allBenchmarks, setAllBenchmarks] = useState<BenchmarkSeries[]>([]);
+  const [riskFreeRate, setRiskFreeRate] = useState<RiskFreeRate>(DEFAULT_RISK_FREE_RATE);
   const [loading, setLoading] = useState(true);
 
+  // Benchmarks overlaid on the charts; any benchmark can be the risk-free rate
+  const benchmarks = React.useMemo(
+    () => allBenchmarks.filter(series => series.selected),
+    [allBenchmarks]
+  );
+
+  // The fund's monthly returns, as the series every metric is computed from
+  const returnSeries = React.useMemo(() => navReturnSeries(navData), [navData]);
+
   // Calculate performance metrics
   const annualizedReturn = React.useMemo(() => {
-    if (!navData.length) return null;
-    
-    // Extract monthly returns
-    const monthlyReturns = navData
-      .filter(nav => nav.monthly_return !== null)
-      .map(nav => nav.monthly_return!);
-    
-    // Calculate years covered
-    const sortedData = [...navData].sort(
-      (a, b) => new Date(a.month_end_date).getTime() - new Date(b.month_end_date).getTime()
-    );
-    
-    if (sortedData.length < 2) return null;
-    
-    const startDate = new Date(sortedData[0].month_end_date);
-    const endDate = new Date(sortedData[sortedData.length - 1].month_end_date);
-    const yearsCount = (endDate.getTime() - startDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
-    
-    return calculateAnnualizedReturn(monthlyReturns, yearsCount);
-  }, [navData]);
+    return calculateAnnualizedReturn(returnSeries);
+  }, [returnSeries]);
 
   const volatility = React.useMemo(() => {
-    if (!navData.length) return null;
-    
-    // Extract monthly returns
-    const monthlyReturns = navData
-      .filter(nav => nav.monthly_return !== null)
-      .map(nav => nav.monthly_return!);
-    
-    return calculateVolatility(monthlyReturns);
-  }, [navData]);
+    return calculateVolatility(returnSeries);
+  }, [returnSeries]);
 
   const sharpeRatio = React.useMemo(() => {
-    return calculateSharpeRatio(annualizedReturn, volatility);
-  }, [annualizedReturn, volatility]);
+    return calculateSharpeRatio(returnSeries, riskFreeRate);
+  }, [returnSeries, riskFreeRate]);
 
   const bestMonth = React.useMemo(() => {
     return findBestMonth(navData);
@@ -77,22 +71,32 @@ const Performance = () => {
   }, [navData]);
 
   const maxDrawdown = React.useMemo(() => {
-    return calculateMaxDrawdown(navData);
+    // On returns, not total NAV, so redemptions don't count as losses
+    return calculateMaxDrawdown(navReturnIndex(navData));
   }, [navData]);
 
+  const riskStatistics = React.useMemo(() => {
+    if (!returnSeries.returns.length) return null;
+    return calculateRiskStatistics(returnSeries, annualizedReturn, maxDrawdown?.percentage ?? null);
+  }, [returnSeries, annualizedReturn, maxDrawdown]);
+
   // Fetch data
   const fetchData = async () => {
     setLoading(true);
     try {
-      const [navDataResult, transactionsResult, investorsResult] = await Promise.all([
+      const [navDataResult, transactionsResult, investorsResult, benchmarksResult, settings] = await Promise.all([
         getAllNavData(),
         getAllCapitalFlows(),
-        getAllInvestors()
+        getAllInvestors(),
+        getBenchmarkSeries(),
+        getFundSettings()
       ]);
 
       setNavData(navDataResult);
       setTransactions(transactionsResult);
       setInvestors(investorsResult);
+      setAllBenchmarks(benchmarksResult);
+      setRiskFreeRate(riskFreeRateFromSettings(settings, benchmarksResult));
     } catch (error) {
       console.error("Error fetching performance data:", error);
     } finally {
@@ -100,17 +104,28 @@ const Performance = () => {
     }
   };
 
+  const fetchBenchmarks = async () => {
+    setAllBenchmarks(await getBenchmarkSeries());
+  };
+
   useEffect(() => {
     fetchData();
   }, []);
 
   return (
     <div className="container py-8 animate-fade-up">
-      <div className="mb-6">
-        <h1 className="text-3xl font-bold mb-2 text-white">Performance</h1>
-        <p className="text-gray-400">
-          Analyze fund performance metrics and historical returns
-        </p>
+      <div className="mb-6 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2 text-white">Performance</h1>
+          <p className="text-gray-400">
+            Analyze fund performance metrics and historical returns
+          </p>
+        </div>
+        <RiskFreeRateControl
+          benchmarks={allBenchmarks}
+          value={riskFreeRate}
+          onChange={setRiskFreeRate}
+        />
       </div>
 
       <Tabs 
@@ -133,19 +148,29 @@ const Performance = () => {
             bestMonth={bestMonth}
             worstMonth={worstMonth}
             maxDrawdown={maxDrawdown}
+            riskStatistics={riskStatistics}
             loading={loading}
           />
           
           <div className="mb-8">
             <PerformanceChart 
               navData={navData}
+              benchmarks={benchmarks}
               loading={loading}
             />
           </div>
+
+          <DrawdownAnalysis
+            navData={navData}
+            loading={loading}
+          />
+
+          <BenchmarksCard onChanged={fetchBenchmarks} />
           
           <PerformanceTable 
             navData={navData}
             loading={loading}
+            onNavChanged={fetchData}
           />
         </TabsContent>
 
@@ -157,12 +182,28 @@ const Performance = () => {
             bestMonth={bestMonth}
             worstMonth={worstMonth}
             maxDrawdown={maxDrawdown}
+            riskStatistics={riskStatistics}
             loading={loading}
           />
           
+          <BenchmarkComparison
+            navData={navData}
+            benchmarks={benchmarks}
+            riskFreeRate={riskFreeRate}
+            loading={loading}
+          />
+
+          <RollingMetricsChart
+            returnSeries={returnSeries}
+            benchmarks={benchmarks}
+            riskFreeRate={riskFreeRate}
+            loading={loading}
+          />
+
           <div className="mb-8">
             <ReturnHeatMap 
               navData={navData}
+              benchmarks={benchmarks}
               loading={loading}
             />
           </div>
@@ -170,23 +211,27 @@ const Performance = () => {
           <PerformanceTable 
             navData={navData}
             loading={loading}
+            onNavChanged={fetchData}
           />
         </TabsContent>
 
         <TabsContent value="transactions" className="space-y-8">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-            <div className="lg:col-span-2">
+            <div className={can('enterFlows') ? "lg:col-span-2" : "lg:col-span-3"}>
               <TransactionsTable 
                 transactions={transactions}
                 loading={loading}
+                onTransactionsChanged={fetchData}
               />
             </div>
-            <div className="lg:col-span-1">
-              <TransactionForm 
-                investors={investors}
-                onSuccess={fetchData}
-              />
-            </div>
+            {can('enterFlows') && (
+              <div className="lg:col-span-1">
+                <TransactionForm 
+                  investors={investors}
+                  onSuccess={fetchData}
+                />
+              </div>
+            )}
           </div>
         </TabsContent>
       </Tabs>
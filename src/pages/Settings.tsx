@@ -0,0 +1,478 @@
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Settings as SettingsIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import FundsCard from "@/components/settings/FundsCard";
+import { useFund } from "@/hooks/use-fund";
+import { useSettings } from "@/hooks/use-settings";
+import { useToast } from "@/hooks/use-toast";
+import { Benchmark, getAllBenchmarks } from "@/repositories";
+import { renameFund } from "@/services/fundService";
+import { FundSettings, saveFundSettings } from "@/services/settingsService";
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+// Select value for a risk-free rate that is a constant annual rate
+const CONSTANT_RATE = "constant";
+
+const formSchema = z.object({
+  fund_name: z.string().trim().min(1, "Fund name is required"),
+  logo_url: z.string().trim().optional(),
+  base_currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, "Use a three-letter ISO currency code"),
+  fiscal_year_end_month: z.coerce.number().int().min(1).max(12),
+  default_mgmt_fee_rate: z.coerce
+    .number({ invalid_type_error: "Management fee rate must be a number" })
+    .min(0, "Fee rate cannot be negative")
+    .max(10, "Fee rate is too high"),
+  default_performance_fee_rate: z.coerce
+    .number({ invalid_type_error: "Performance fee rate must be a number" })
+    .min(0, "Fee rate cannot be negative")
+    .max(50, "Fee rate is too high"),
+  default_crystallization_frequency: z.enum(["monthly", "quarterly", "annual"]),
+  default_hurdle_type: z.enum(["none", "hard", "soft"]),
+  default_hurdle_rate: z.coerce
+    .number({ invalid_type_error: "Hurdle rate must be a number" })
+    .min(-100, "Hurdle rate is too low")
+    .max(100, "Hurdle rate is too high"),
+  default_catch_up_rate: z.coerce
+    .number({ invalid_type_error: "Catch-up must be a number" })
+    .gt(0, "Catch-up must be above 0%")
+    .max(100, "Catch-up cannot exceed 100%"),
+  risk_free_rate: z.coerce
+    .number({ invalid_type_error: "Risk-free rate must be a number" })
+    .min(-10, "Risk-free rate is too low")
+    .max(50, "Risk-free rate is too high"),
+  risk_free_benchmark: z.string(),
+  reconciliation_tolerance: z.coerce
+    .number({ invalid_type_error: "Tolerance must be a number" })
+    .min(0, "Tolerance cannot be negative")
+    .max(5, "Tolerance is too high"),
+  dealing_cutoff_days: z.coerce
+    .number({ invalid_type_error: "Cutoff must be a number of days" })
+    .int("Cutoff must be a whole number of days")
+    .min(0, "Cutoff cannot be negative")
+    .max(27, "Cutoff must be shorter than a month"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+// The name is the fund's own, which the fund switcher and statements show too
+const toFormValues = (settings: FundSettings, fundName: string): FormValues => ({
+  fund_name: fundName,
+  logo_url: settings.logo_url ?? "",
+  base_currency: settings.base_currency,
+  fiscal_year_end_month: settings.fiscal_year_end_month,
+  default_mgmt_fee_rate: Number(settings.default_mgmt_fee_rate),
+  default_performance_fee_rate: Number(settings.default_performance_fee_rate),
+  default_crystallization_frequency: settings.default_crystallization_frequency as FormValues["default_crystallization_frequency"],
+  default_hurdle_type: settings.default_hurdle_type as FormValues["default_hurdle_type"],
+  default_hurdle_rate: Number(settings.default_hurdle_rate),
+  default_catch_up_rate: Number(settings.default_catch_up_rate),
+  risk_free_rate: Number(settings.risk_free_rate),
+  risk_free_benchmark: settings.risk_free_benchmark ?? "",
+  reconciliation_tolerance: Number(settings.reconciliation_tolerance),
+  dealing_cutoff_days: settings.dealing_cutoff_days,
+});
+
+// Number inputs keep an empty string while being edited, so zod reports it
+const numberInput = (onChange: (value: unknown) => void) => (e: React.ChangeEvent<HTMLInputElement>) =>
+  onChange(e.target.value === "" ? undefined : e.target.value);
+
+const SettingsPage = () => {
+  const { toast } = useToast();
+  const { settings, loading, refresh } = useSettings();
+  const { currentFund, refresh: refreshFunds } = useFund();
+  const [benchmarks, setBenchmarks] = React.useState<Benchmark[]>([]);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(settings, currentFund?.name ?? ""),
+  });
+
+  React.useEffect(() => {
+    getAllBenchmarks().then(setBenchmarks);
+  }, []);
+
+  React.useEffect(() => {
+    form.reset(toFormValues(settings, currentFund?.name ?? ""));
+  }, [settings, currentFund?.name, form]);
+
+  const hurdleType = form.watch("default_hurdle_type");
+  const riskFreeBenchmark = form.watch("risk_free_benchmark");
+
+  async function onSubmit({ fund_name, ...data }: FormValues) {
+    setIsSubmitting(true);
+    try {
+      const renamed = currentFund && fund_name !== currentFund.name
+        ? await renameFund(currentFund.id, fund_name)
+        : { success: true };
+      const result = renamed.success
+        ? await saveFundSettings({
+          ...data,
+          logo_url: data.logo_url || null,
+          risk_free_benchmark: data.risk_free_benchmark || null,
+        })
+        : renamed;
+
+      if (result.success) {
+        toast({
+          title: "Settings saved",
+          description: data.dealing_cutoff_days !== settings.dealing_cutoff_days
+            ? "The unit ledger was rebuilt for the new dealing cutoff"
+            : "Services will use the new settings from now on",
+        });
+        await Promise.all([refresh(), refreshFunds()]);
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Failed to save settings",
+          description: result.error?.message || "An unknown error occurred",
+        });
+      }
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save settings. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="p-8 space-y-6 animate-fade-up">
+      <div className="flex items-center space-x-2">
+        <SettingsIcon className="w-6 h-6 text-accent" />
+        <h1 className="text-2xl font-semibold">Settings</h1>
+      </div>
+
+      {loading ? (
+        <Skeleton className="h-[600px] w-full" />
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 max-w-4xl">
+            <fieldset disabled={isSubmitting} className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Fund</CardTitle>
+                  <CardDescription>Shown in the app; statements carry the name of the investor's fund</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="fund_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fund Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="logo_url"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Logo URL</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Default logo" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="base_currency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Base Currency</FormLabel>
+                        <FormControl>
+                          <Input placeholder="USD" maxLength={3} {...field} />
+                        </FormControl>
+                        <FormDescription>ISO code amounts are shown in, e.g. USD, EUR or GBP</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="fiscal_year_end_month"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fiscal Year End</FormLabel>
+                        <Select onValueChange={field.onChange} value={String(field.value)}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {MONTHS.map((month, index) => (
+                              <SelectItem key={month} value={String(index + 1)}>
+                                {month}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Year- and quarter-to-date returns follow the fiscal year</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Default Fee Terms</CardTitle>
+                  <CardDescription>
+                    Filled in for new investors; existing investors keep their own terms
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="default_mgmt_fee_rate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Management Fee (%)</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.1" {...field} onChange={numberInput(field.onChange)} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="default_performance_fee_rate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Performance Fee (%)</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.1" {...field} onChange={numberInput(field.onChange)} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="default_crystallization_frequency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Performance Fee Crystallization</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="monthly">Monthly</SelectItem>
+                            <SelectItem value="quarterly">Quarterly</SelectItem>
+                            <SelectItem value="annual">Annual</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="default_hurdle_type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Hurdle</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">No hurdle</SelectItem>
+                            <SelectItem value="hard">Hard hurdle</SelectItem>
+                            <SelectItem value="soft">Soft hurdle</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {hurdleType !== "none" && (
+                    <FormField
+                      control={form.control}
+                      name="default_hurdle_rate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Hurdle Rate (% p.a.)</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.1" {...field} onChange={numberInput(field.onChange)} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  {hurdleType === "soft" && (
+                    <FormField
+                      control={form.control}
+                      name="default_catch_up_rate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Catch-up (%)</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="1" {...field} onChange={numberInput(field.onChange)} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Risk-Free Rate</CardTitle>
+                  <CardDescription>
+                    The default the Sharpe ratio is measured over; it can still be changed on the Performance page
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="risk_free_benchmark"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Source</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === CONSTANT_RATE ? "" : value)}
+                          value={field.value || CONSTANT_RATE}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={CONSTANT_RATE}>Constant rate</SelectItem>
+                            {benchmarks.map((benchmark) => (
+                              <SelectItem key={benchmark.id} value={benchmark.name}>
+                                {benchmark.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {!riskFreeBenchmark && (
+                    <FormField
+                      control={form.control}
+                      name="risk_free_rate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Annual Rate (%)</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.1" {...field} onChange={numberInput(field.onChange)} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Operations</CardTitle>
+                  <CardDescription>How the NAV is reconciled and when capital flows are dealt</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="reconciliation_tolerance"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reconciliation Tolerance (% of NAV)</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.001" {...field} onChange={numberInput(field.onChange)} />
+                        </FormControl>
+                        <FormDescription>
+                          Largest gap between the NAV and the sum of investor values still treated as reconciled
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="dealing_cutoff_days"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dealing Cutoff (days)</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="1" {...field} onChange={numberInput(field.onChange)} />
+                        </FormControl>
+                        <FormDescription>
+                          Flows dated within this many days of a month end are dealt at the next month end.
+                          Changing it rebuilds the unit ledger.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+            </fieldset>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+
+      <FundsCard />
+    </div>
+  );
+};
+
+export default SettingsPage;
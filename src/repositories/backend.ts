@@ -0,0 +1,132 @@
+
+import { Database, Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { localBackend } from "@/repositories/localBackend";
+import { supabaseBackend } from "@/repositories/supabaseBackend";
+
+export type TableName = keyof Database["public"]["Tables"];
+export type Row<T extends TableName> = Tables<T>;
+export type Column<T extends TableName> = keyof Row<T> & string;
+
+export type FunctionName = keyof Database["public"]["Functions"];
+export type FunctionArgs<F extends FunctionName> = Database["public"]["Functions"][F]["Args"];
+export type FunctionReturns<F extends FunctionName> = Database["public"]["Functions"][F]["Returns"];
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+
+export interface Filter<T extends TableName> {
+  column: Column<T>;
+  operator: FilterOperator;
+  value: unknown;
+}
+
+export interface Order<T extends TableName> {
+  column: Column<T>;
+  ascending: boolean;
+}
+
+export interface SelectQuery<T extends TableName> {
+  filters?: Filter<T>[];
+  // Applied in turn, so later columns break ties in earlier ones
+  order?: Order<T>[];
+  limit?: number;
+}
+
+export interface WriteOptions {
+  // Why the change was made, recorded in the audit trail
+  reason?: string;
+  // The change only recomputes a value from other rows, e.g. a month's return
+  // after the month before it is restated, so it makes no new NAV version
+  recomputed?: boolean;
+}
+
+export interface BackendError {
+  message: string;
+  code?: string;
+  details?: unknown;
+}
+
+export interface BackendResult<T> {
+  data: T;
+  error: BackendError | null;
+}
+
+/**
+ * Storage the repositories read from and write to. Every method resolves with
+ * an error rather than throwing, like the Supabase client.
+ */
+export interface DataBackend {
+  readonly name: string;
+  select<T extends TableName>(table: T, query?: SelectQuery<T>): Promise<BackendResult<Row<T>[]>>;
+  count<T extends TableName>(table: T, filters?: Filter<T>[]): Promise<BackendResult<number>>;
+  insert<T extends TableName>(
+    table: T,
+    rows: TablesInsert<T>[],
+    options?: WriteOptions
+  ): Promise<BackendResult<Row<T>[]>>;
+  // Insert rows, replacing any that clash on the conflict columns
+  upsert<T extends TableName>(
+    table: T,
+    rows: TablesInsert<T>[],
+    onConflict: Column<T>[],
+    options?: WriteOptions
+  ): Promise<BackendResult<Row<T>[]>>;
+  update<T extends TableName>(
+    table: T,
+    filters: Filter<T>[],
+    patch: TablesUpdate<T>,
+    options?: WriteOptions
+  ): Promise<BackendResult<Row<T>[]>>;
+  remove<T extends TableName>(
+    table: T,
+    filters: Filter<T>[],
+    options?: WriteOptions
+  ): Promise<BackendResult<null>>;
+  // Call a database function, which makes its writes in one transaction
+  rpc<F extends FunctionName>(
+    fn: F,
+    args: FunctionArgs<F>,
+    options?: WriteOptions
+  ): Promise<BackendResult<FunctionReturns<F> | null>>;
+}
+
+// Online reads and writes Supabase; offline works on the copy in IndexedDB
+export type DataMode = 'online' | 'offline';
+
+const DATA_MODE_KEY = "dasein.dataMode";
+
+function storedDataMode(): DataMode {
+  return typeof localStorage !== "undefined" && localStorage.getItem(DATA_MODE_KEY) === "offline"
+    ? "offline"
+    : "online";
+}
+
+let activeBackend: DataBackend = storedDataMode() === "offline" ? localBackend : supabaseBackend;
+
+/**
+ * The backend every repository uses
+ */
+export function getBackend(): DataBackend {
+  return activeBackend;
+}
+
+/**
+ * Swap the backend, e.g. for a local one
+ */
+export function setBackend(backend: DataBackend): void {
+  activeBackend = backend;
+}
+
+/**
+ * Whether the app is working online or on its offline copy
+ */
+export function getDataMode(): DataMode {
+  return activeBackend === localBackend ? "offline" : "online";
+}
+
+/**
+ * Switch between Supabase and the offline copy, remembered across reloads
+ */
+export function setDataMode(mode: DataMode): void {
+  localStorage.setItem(DATA_MODE_KEY, mode);
+  setBackend(mode === "offline" ? localBackend : supabaseBackend);
+}
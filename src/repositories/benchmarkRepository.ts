@@ -0,0 +1,119 @@
+
+import { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { BackendResult, getBackend, Order, WriteOptions } from "@/repositories/backend";
+import { getCurrentFundId, inCurrentFund, NO_FUND_ERROR, selectInFund } from "@/repositories/fundRepository";
+
+export type Benchmark = Tables<"benchmarks">;
+export type BenchmarkValue = Tables<"benchmark_values">;
+export type FundBenchmark = Tables<"fund_benchmarks">;
+
+const BY_NAME: Order<"benchmarks">[] = [
+  { column: "name", ascending: true },
+  { column: "id", ascending: true },
+];
+
+/**
+ * Fetch every benchmark, alphabetically, with any error
+ */
+export async function fetchAllBenchmarks(): Promise<BackendResult<Benchmark[]>> {
+  return getBackend().select("benchmarks", { order: BY_NAME });
+}
+
+/**
+ * Fetch every benchmark, alphabetically
+ */
+export async function getAllBenchmarks(): Promise<Benchmark[]> {
+  const { data, error } = await fetchAllBenchmarks();
+
+  if (error) {
+    console.error("Error fetching benchmarks:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch a benchmark's values, oldest first, with any error
+ */
+export async function fetchBenchmarkValues(benchmarkId: number): Promise<BackendResult<BenchmarkValue[]>> {
+  return getBackend().select("benchmark_values", {
+    filters: [{ column: "benchmark_id", operator: "eq", value: benchmarkId }],
+    order: [{ column: "month_end_date", ascending: true }],
+  });
+}
+
+/**
+ * Insert a benchmark
+ */
+export async function insertBenchmark(
+  data: TablesInsert<"benchmarks">,
+  options?: WriteOptions
+): Promise<BackendResult<Benchmark[]>> {
+  return getBackend().insert("benchmarks", [data], options);
+}
+
+/**
+ * Update a benchmark by id
+ */
+export async function updateBenchmark(
+  id: number,
+  patch: TablesUpdate<"benchmarks">,
+  options?: WriteOptions
+): Promise<BackendResult<Benchmark[]>> {
+  return getBackend().update("benchmarks", [{ column: "id", operator: "eq", value: id }], patch, options);
+}
+
+/**
+ * Save benchmark values, replacing any already recorded for the same month
+ */
+export async function upsertBenchmarkValues(
+  rows: TablesInsert<"benchmark_values">[],
+  options?: WriteOptions
+): Promise<BackendResult<BenchmarkValue[]>> {
+  return getBackend().upsert("benchmark_values", rows, ["benchmark_id", "month_end_date"], options);
+}
+
+/**
+ * Fetch the benchmarks overlaid on the current fund's charts, with any error
+ */
+export async function fetchFundBenchmarks(): Promise<BackendResult<FundBenchmark[]>> {
+  return selectInFund("fund_benchmarks");
+}
+
+/**
+ * Overlay a benchmark on the current fund's charts
+ */
+export async function insertFundBenchmark(
+  benchmarkId: number,
+  options?: WriteOptions
+): Promise<BackendResult<FundBenchmark[]>> {
+  const scoped = inCurrentFund<"fund_benchmarks">([{ benchmark_id: benchmarkId }]);
+  if (scoped.error) return { data: [], error: scoped.error };
+  return getBackend().upsert("fund_benchmarks", scoped.data, ["fund_id", "benchmark_id"], options);
+}
+
+/**
+ * Stop overlaying a benchmark on the current fund's charts
+ */
+export async function deleteFundBenchmark(benchmarkId: number, options?: WriteOptions): Promise<BackendResult<null>> {
+  const fundId = getCurrentFundId();
+  if (fundId === null) return { data: null, error: NO_FUND_ERROR };
+  return getBackend().remove("fund_benchmarks", [
+    { column: "fund_id", operator: "eq", value: fundId },
+    { column: "benchmark_id", operator: "eq", value: benchmarkId },
+  ], options);
+}
+
+/**
+ * Delete a benchmark, its values and every fund's choice of it
+ */
+export async function deleteBenchmark(id: number, options?: WriteOptions): Promise<BackendResult<null>> {
+  const backend = getBackend();
+  // The local backend has no cascading deletes, so remove the dependent rows first
+  for (const table of ["benchmark_values", "fund_benchmarks"] as const) {
+    const result = await backend.remove(table, [{ column: "benchmark_id", operator: "eq", value: id }], options);
+    if (result.error) return result;
+  }
+  return backend.remove("benchmarks", [{ column: "id", operator: "eq", value: id }], options);
+}
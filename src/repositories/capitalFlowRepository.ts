@@ -0,0 +1,78 @@
+
+import { Tables } from "@/integrations/supabase/types";
+import { BackendResult, getBackend, Order, WriteOptions } from "@/repositories/backend";
+import { FundScope, FundScopedInsert, inCurrentFund, selectInFund } from "@/repositories/fundRepository";
+
+export type CapitalFlow = Tables<"capital_flows">;
+
+// Capital flows are always listed newest first, like an activity feed; a
+// reversal sorts after the flow it reverses on the same date
+const NEWEST_FIRST: Order<"capital_flows">[] = [
+  { column: "date", ascending: false },
+  { column: "id", ascending: false },
+];
+
+/**
+ * Fetch every capital flow in the current fund (or the given scope), newest
+ * first, with any error
+ */
+export async function fetchAllCapitalFlows(scope?: FundScope): Promise<BackendResult<CapitalFlow[]>> {
+  return selectInFund("capital_flows", { order: NEWEST_FIRST }, scope);
+}
+
+/**
+ * Fetch every capital flow in the current fund (or the given scope), newest first
+ */
+export async function getAllCapitalFlows(scope?: FundScope): Promise<CapitalFlow[]> {
+  const { data, error } = await fetchAllCapitalFlows(scope);
+
+  if (error) {
+    console.error("Error fetching all capital flows:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch the most recent capital flows in the current fund (or the given scope)
+ */
+export async function getRecentActivity(limit: number = 5, scope?: FundScope): Promise<CapitalFlow[]> {
+  const { data, error } = await selectInFund("capital_flows", { order: NEWEST_FIRST, limit }, scope);
+
+  if (error) {
+    console.error("Error fetching recent activity:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch a specific investor's capital flows, newest first
+ */
+export async function getInvestorTransactions(investorId: string): Promise<CapitalFlow[]> {
+  const { data, error } = await getBackend().select("capital_flows", {
+    filters: [{ column: "investor_id", operator: "eq", value: investorId }],
+    order: NEWEST_FIRST,
+  });
+
+  if (error) {
+    console.error(`Error fetching transactions for investor ${investorId}:`, error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Insert capital flows; several rows are written in one statement
+ */
+export async function insertCapitalFlows(
+  rows: FundScopedInsert<"capital_flows">[],
+  options?: WriteOptions
+): Promise<BackendResult<CapitalFlow[]>> {
+  const scoped = inCurrentFund(rows);
+  if (scoped.error) return { data: [], error: scoped.error };
+  return getBackend().insert("capital_flows", scoped.data, options);
+}
@@ -0,0 +1,152 @@
+import { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import {
+  BackendError,
+  BackendResult,
+  Column,
+  Filter,
+  getBackend,
+  Order,
+  Row,
+  SelectQuery,
+  WriteOptions,
+} from "@/repositories/backend";
+
+export type Fund = Tables<"funds">;
+
+// Tables whose rows belong to a fund
+export type FundScopedTable =
+  | "monthly_nav"
+  | "investors"
+  | "capital_flows"
+  | "nav_per_unit"
+  | "unit_ledger"
+  | "fee_transactions"
+  | "high_water_marks"
+  | "performance_fee_crystallizations"
+  | "fund_settings"
+  | "fund_benchmarks";
+
+// A row as the services build it; it is assigned to the current fund when written
+export type FundScopedInsert<T extends FundScopedTable> = Omit<TablesInsert<T>, "fund_id">;
+
+// Reads cover a single fund, or every fund together for consolidated figures
+export type FundScope = number | "all";
+
+const CURRENT_FUND_KEY = "dasein.fund";
+
+export const NO_FUND_ERROR: BackendError = { message: "No fund has been selected" };
+
+const BY_NAME: Order<"funds">[] = [
+  { column: "name", ascending: true },
+  { column: "id", ascending: true },
+];
+
+function storedFundId(): number | null {
+  const stored = typeof localStorage !== "undefined" ? Number(localStorage.getItem(CURRENT_FUND_KEY)) : NaN;
+  return Number.isInteger(stored) && stored > 0 ? stored : null;
+}
+
+let currentFundId: number | null = storedFundId();
+
+/**
+ * The fund every repository reads and writes by default
+ */
+export function getCurrentFundId(): number | null {
+  return currentFundId;
+}
+
+/**
+ * Switch to another fund, remembered across reloads
+ */
+export function setCurrentFundId(id: number): void {
+  localStorage.setItem(CURRENT_FUND_KEY, String(id));
+  currentFundId = id;
+}
+
+function fundFilters<T extends FundScopedTable>(scope: FundScope): Filter<T>[] {
+  return scope === "all" ? [] : [{ column: "fund_id" as Column<T>, operator: "eq", value: scope }];
+}
+
+/**
+ * Select a fund's rows: the current fund's unless a fund, or "all" for every
+ * fund, is given. Fails rather than reading every fund when none is chosen.
+ */
+export async function selectInFund<T extends FundScopedTable>(
+  table: T,
+  query: SelectQuery<T> = {},
+  scope: FundScope | null = currentFundId
+): Promise<BackendResult<Row<T>[]>> {
+  if (scope === null) return { data: [], error: NO_FUND_ERROR };
+  return getBackend().select(table, { ...query, filters: [...fundFilters<T>(scope), ...(query.filters ?? [])] });
+}
+
+/**
+ * Count a fund's rows, like selectInFund
+ */
+export async function countInFund<T extends FundScopedTable>(
+  table: T,
+  filters: Filter<T>[] = [],
+  scope: FundScope | null = currentFundId
+): Promise<BackendResult<number>> {
+  if (scope === null) return { data: 0, error: NO_FUND_ERROR };
+  return getBackend().count(table, [...fundFilters<T>(scope), ...filters]);
+}
+
+/**
+ * Assign rows to the current fund before they are written
+ */
+export function inCurrentFund<T extends FundScopedTable>(rows: FundScopedInsert<T>[]): BackendResult<TablesInsert<T>[]> {
+  if (currentFundId === null) return { data: [], error: NO_FUND_ERROR };
+  const fundId = currentFundId;
+  return { data: rows.map(row => ({ ...row, fund_id: fundId }) as TablesInsert<T>), error: null };
+}
+
+/**
+ * Fetch every fund, alphabetically, with any error
+ */
+export async function fetchAllFunds(): Promise<BackendResult<Fund[]>> {
+  return getBackend().select("funds", { order: BY_NAME });
+}
+
+/**
+ * Fetch a single fund, with any error
+ */
+export async function fetchFund(id: number): Promise<BackendResult<Fund | null>> {
+  const { data, error } = await getBackend().select("funds", { filters: [{ column: "id", operator: "eq", value: id }] });
+  return { data: data[0] ?? null, error };
+}
+
+/**
+ * Fetch every fund, alphabetically
+ */
+export async function getAllFunds(): Promise<Fund[]> {
+  const { data, error } = await fetchAllFunds();
+
+  if (error) {
+    console.error("Error fetching funds:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Insert a fund
+ */
+export async function insertFund(
+  data: TablesInsert<"funds">,
+  options?: WriteOptions
+): Promise<BackendResult<Fund[]>> {
+  return getBackend().insert("funds", [data], options);
+}
+
+/**
+ * Update a fund by id
+ */
+export async function updateFund(
+  id: number,
+  patch: TablesUpdate<"funds">,
+  options?: WriteOptions
+): Promise<BackendResult<Fund[]>> {
+  return getBackend().update("funds", [{ column: "id", operator: "eq", value: id }], patch, options);
+}
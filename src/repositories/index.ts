@@ -0,0 +1,9 @@
+
+export * from "@/repositories/backend";
+export * from "@/repositories/fundRepository";
+export * from "@/repositories/ledgerRepository";
+export * from "@/repositories/navRepository";
+export * from "@/repositories/investorRepository";
+export * from "@/repositories/capitalFlowRepository";
+export * from "@/repositories/benchmarkRepository";
+export * from "@/repositories/settingsRepository";
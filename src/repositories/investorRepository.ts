@@ -0,0 +1,77 @@
+
+import { Tables } from "@/integrations/supabase/types";
+import { BackendResult, getBackend, Order, WriteOptions } from "@/repositories/backend";
+import { countInFund, FundScope, FundScopedInsert, inCurrentFund, selectInFund } from "@/repositories/fundRepository";
+
+export type Investor = Tables<"investors">;
+
+// Investors are always listed alphabetically
+const BY_NAME: Order<"investors">[] = [
+  { column: "name", ascending: true },
+  { column: "id", ascending: true },
+];
+
+/**
+ * Fetch every investor in the current fund (or the given scope),
+ * alphabetically, with any error
+ */
+export async function fetchAllInvestors(scope?: FundScope): Promise<BackendResult<Investor[]>> {
+  return selectInFund("investors", { order: BY_NAME }, scope);
+}
+
+/**
+ * Fetch every investor in the current fund (or the given scope), alphabetically
+ */
+export async function getAllInvestors(scope?: FundScope): Promise<Investor[]> {
+  const { data, error } = await fetchAllInvestors(scope);
+
+  if (error) {
+    console.error("Error fetching investors:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch a specific investor by ID
+ */
+export async function getInvestorById(id: string): Promise<Investor | null> {
+  const { data, error } = await getBackend().select("investors", {
+    filters: [{ column: "id", operator: "eq", value: id }],
+    limit: 1,
+  });
+
+  if (error) {
+    console.error(`Error fetching investor ${id}:`, error);
+    return null;
+  }
+
+  return data[0] ?? null;
+}
+
+/**
+ * Count active investors in the current fund (or the given scope)
+ */
+export async function getActiveInvestorsCount(scope?: FundScope): Promise<number> {
+  const { data, error } = await countInFund("investors", [{ column: "status", operator: "eq", value: "active" }], scope);
+
+  if (error) {
+    console.error("Error fetching active investors count:", error);
+    return 0;
+  }
+
+  return data;
+}
+
+/**
+ * Insert an investor
+ */
+export async function insertInvestor(
+  data: FundScopedInsert<"investors">,
+  options?: WriteOptions
+): Promise<BackendResult<Investor[]>> {
+  const scoped = inCurrentFund([data]);
+  if (scoped.error) return { data: [], error: scoped.error };
+  return getBackend().insert("investors", scoped.data, options);
+}
@@ -0,0 +1,33 @@
+import { Json } from "@/integrations/supabase/types";
+import { BackendResult, getBackend, WriteOptions } from "@/repositories/backend";
+import { FundScopedInsert } from "@/repositories/fundRepository";
+
+/**
+ * Replace a fund's NAV per unit history, unit ledger, fee postings and
+ * high-water marks, and its NAV's management fees, in one transaction.
+ * Resolves false, writing nothing, when the stored ledger was built from newer
+ * data than sourceVersion.
+ */
+export async function replaceFundLedger(
+  fundId: number,
+  sourceVersion: number,
+  ledger: {
+    navPerUnit: FundScopedInsert<"nav_per_unit">[];
+    entries: FundScopedInsert<"unit_ledger">[];
+    fees: FundScopedInsert<"fee_transactions">[];
+    highWaterMarks: FundScopedInsert<"high_water_marks">[];
+    managementFees: { id: number; management_fees: number }[];
+  },
+  options?: WriteOptions
+): Promise<BackendResult<boolean>> {
+  const { data, error } = await getBackend().rpc("replace_fund_ledger", {
+    p_fund_id: fundId,
+    p_source_version: sourceVersion,
+    p_nav_per_unit: ledger.navPerUnit as unknown as Json,
+    p_unit_ledger: ledger.entries as unknown as Json,
+    p_fee_transactions: ledger.fees as unknown as Json,
+    p_high_water_marks: ledger.highWaterMarks as unknown as Json,
+    p_management_fees: ledger.managementFees as unknown as Json,
+  }, options);
+  return { data: data ?? false, error };
+}
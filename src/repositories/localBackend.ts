@@ -0,0 +1,470 @@
+
+import type {
+  BackendError,
+  BackendResult,
+  DataBackend,
+  Filter,
+  FunctionArgs,
+  FunctionName,
+  FunctionReturns,
+  Order,
+  Row,
+  TableName,
+} from "@/repositories/backend";
+import {
+  inTransaction,
+  isSyncedTable,
+  LOCAL_TABLES,
+  LocalRow,
+  LocalTable,
+  NewPendingChange,
+  PENDING_CHANGES_STORE,
+  queuePendingChanges,
+  requestResult,
+  SyncedTable,
+} from "@/repositories/localDatabase";
+
+// Column defaults the database would otherwise fill in
+const DEFAULTS: Partial<Record<LocalTable, Record<string, unknown>>> = {
+  benchmarks: { source_file: null },
+  capital_flows: { corrects_flow_id: null, reverses_flow_id: null },
+  high_water_marks: { accrued_fee: 0, crystallized_fee: 0, gross_gain: 0, hurdle_amount: 0 },
+  investors: {
+    catch_up_rate: 100,
+    crystallization_frequency: 'annual',
+    external_id: null,
+    hurdle_benchmark: null,
+    hurdle_rate: 0,
+    hurdle_type: 'none',
+  },
+  monthly_nav: {
+    aum_change: null,
+    management_fees: null,
+    month_start_date: null,
+    monthly_return: null,
+    restated_at: null,
+    start_nav: null,
+    version: 1,
+  },
+  nav_per_unit: { units_issued: 0, units_redeemed: 0 },
+};
+
+// Unique constraints, checked before writing as the database would
+const UNIQUE_COLUMNS: Partial<Record<LocalTable, string[][]>> = {
+  benchmark_values: [["benchmark_id", "month_end_date"]],
+  benchmarks: [["name"]],
+  capital_flows: [["reverses_flow_id"]],
+  funds: [["name"]],
+  high_water_marks: [["investor_id", "month_end_date"]],
+  investors: [["external_id"]],
+  monthly_nav: [["fund_id", "month_end_date"]],
+  nav_per_unit: [["fund_id", "month_end_date"]],
+  performance_fee_crystallizations: [["fund_id", "crystallization_date"]],
+};
+
+// Columns kept locally but not synced: the ledger rebuild that follows a sync
+// recomputes them from the synced rows
+const LOCAL_ONLY_COLUMNS: Partial<Record<LocalTable, string[]>> = {
+  monthly_nav: ["management_fees"],
+};
+
+class LocalBackendError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = "LocalBackendError";
+  }
+}
+
+function isLocalTable(table: TableName): table is LocalTable {
+  return (LOCAL_TABLES as TableName[]).includes(table);
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  // Nulls sort last, as in Postgres
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function matchesFilter<T extends TableName>(row: LocalRow, filter: Filter<T>): boolean {
+  const value = row[filter.column];
+  switch (filter.operator) {
+    case 'eq':
+      return value !== null && compareValues(value, filter.value) === 0;
+    case 'neq':
+      return value !== null && compareValues(value, filter.value) !== 0;
+    case 'gt':
+      return value !== null && compareValues(value, filter.value) > 0;
+    case 'gte':
+      return value !== null && compareValues(value, filter.value) >= 0;
+    case 'lt':
+      return value !== null && compareValues(value, filter.value) < 0;
+    case 'lte':
+      return value !== null && compareValues(value, filter.value) <= 0;
+    case 'in':
+      return (filter.value as unknown[]).some(candidate => compareValues(value, candidate) === 0);
+  }
+}
+
+function matchesAll<T extends TableName>(row: LocalRow, filters: Filter<T>[] = []): boolean {
+  return filters.every(filter => matchesFilter(row, filter));
+}
+
+function sortRows<T extends TableName>(rows: LocalRow[], order: Order<T>[] = []): LocalRow[] {
+  return [...rows].sort((a, b) => {
+    for (const { column, ascending } of order) {
+      const difference = compareValues(a[column], b[column]);
+      if (difference !== 0) return ascending ? difference : -difference;
+    }
+    return 0;
+  });
+}
+
+function assertUnique(table: LocalTable, rows: LocalRow[]) {
+  for (const columns of UNIQUE_COLUMNS[table] ?? []) {
+    const seen = new Set<string>();
+    for (const row of rows) {
+      if (columns.some(column => row[column] === null || row[column] === undefined)) continue;
+      const key = JSON.stringify(columns.map(column => row[column]));
+      if (seen.has(key)) {
+        throw new LocalBackendError(
+          `duplicate key value violates unique constraint on ${table} (${columns.join(", ")})`,
+          "23505"
+        );
+      }
+      seen.add(key);
+    }
+  }
+}
+
+function withoutLocalOnlyColumns(table: LocalTable, values: Record<string, unknown>): Record<string, unknown> {
+  const localOnly = LOCAL_ONLY_COLUMNS[table] ?? [];
+  return Object.fromEntries(Object.entries(values).filter(([column]) => !localOnly.includes(column)));
+}
+
+/**
+ * The values a created row is queued with. Supabase assigns the real id of a
+ * row created offline, so it is sent without its local one.
+ */
+function createdValues(table: SyncedTable, row: LocalRow): Record<string, unknown> {
+  const { id, ...values } = withoutLocalOnlyColumns(table, row);
+  return typeof id === "number" && id < 0 ? values : { ...values, id };
+}
+
+/**
+ * Hands out ids for new rows. Rows of synced tables get negative ids until
+ * Supabase assigns them real ones; derived rows never leave the browser.
+ */
+function idAllocator(table: LocalTable, rows: LocalRow[]): () => number | string {
+  if (table === "investors") {
+    return () => crypto.randomUUID();
+  }
+
+  const ids = rows.map(row => Number(row.id));
+  if (isSyncedTable(table)) {
+    let next = ids.reduce((lowest, id) => Math.min(lowest, id), 0) - 1;
+    return () => next--;
+  }
+  let next = ids.reduce((highest, id) => Math.max(highest, id), 0) + 1;
+  return () => next++;
+}
+
+function toError(error: unknown): BackendError {
+  if (error instanceof LocalBackendError) {
+    return { message: error.message, code: error.code };
+  }
+  if (error instanceof Error) {
+    return { message: error.message, code: error.name };
+  }
+  return { message: String(error) };
+}
+
+async function run<T>(fallback: T, work: () => Promise<T>): Promise<BackendResult<T>> {
+  try {
+    return { data: await work(), error: null };
+  } catch (error) {
+    return { data: fallback, error: toError(error) };
+  }
+}
+
+function localTable(table: TableName): LocalTable {
+  if (!isLocalTable(table)) {
+    throw new LocalBackendError(`${table} is not available offline`, "offline");
+  }
+  return table;
+}
+
+/**
+ * Count a change to the rows each fund's ledger is built from, as the
+ * database's ledger_source_changed trigger does
+ */
+function bumpLedgerSource(transaction: IDBTransaction, fundIds: unknown[]): void {
+  const funds = transaction.objectStore("funds");
+  new Set(fundIds).forEach(fundId => {
+    const request = funds.get(fundId as number) as IDBRequest<LocalRow | undefined>;
+    request.onsuccess = () => {
+      const fund = request.result;
+      if (fund) funds.put({ ...fund, ledger_source_version: Number(fund.ledger_source_version ?? 0) + 1 });
+    };
+  });
+}
+
+// A change as built from the table's untyped local rows; queuing it types its
+// values by the table again
+type LocalChange = Omit<NewPendingChange, 'values' | 'onConflict'> & {
+  values: Record<string, unknown>;
+  onConflict?: string[];
+};
+
+/**
+ * Open a read-write transaction over a table, plus the pending changes store
+ * and funds when its writes are synced, with the table's current rows. Queued
+ * changes mark the ledgers of the funds they touch as out of date.
+ */
+function writeTable<T>(
+  table: LocalTable,
+  work: (
+    store: IDBObjectStore,
+    rows: LocalRow[],
+    queue: (changes: LocalChange[], rows: LocalRow[]) => void
+  ) => T
+): Promise<T> {
+  const stores = isSyncedTable(table) ? [table, PENDING_CHANGES_STORE, "funds"] : [table];
+  return inTransaction(stores, "readwrite", async transaction => {
+    const store = transaction.objectStore(table);
+    const rows = await requestResult(store.getAll() as IDBRequest<LocalRow[]>);
+    return work(store, rows, (changes, changed) => {
+      queuePendingChanges(transaction, changes as NewPendingChange[]);
+      bumpLedgerSource(transaction, changed.map(row => row.fund_id));
+    });
+  });
+}
+
+/**
+ * Replace a fund's derived rows in one transaction, as the database's
+ * replace_fund_ledger function does
+ */
+function replaceFundLedger({
+  p_fund_id,
+  p_source_version,
+  p_nav_per_unit,
+  p_unit_ledger,
+  p_fee_transactions,
+  p_high_water_marks,
+  p_management_fees,
+}: FunctionArgs<"replace_fund_ledger">): Promise<boolean> {
+  const tables: LocalTable[] = ["nav_per_unit", "unit_ledger", "fee_transactions", "high_water_marks"];
+  const replacements: Record<string, Record<string, unknown>[]> = {
+    nav_per_unit: p_nav_per_unit as Record<string, unknown>[],
+    unit_ledger: p_unit_ledger as Record<string, unknown>[],
+    fee_transactions: p_fee_transactions as Record<string, unknown>[],
+    high_water_marks: p_high_water_marks as Record<string, unknown>[],
+  };
+  const managementFees = new Map(
+    (p_management_fees as { id: number; management_fees: number }[]).map(row => [row.id, row.management_fees])
+  );
+
+  return inTransaction(["funds", "monthly_nav", ...tables], "readwrite", async transaction => {
+    const funds = transaction.objectStore("funds");
+    const fund = await requestResult(funds.get(p_fund_id) as IDBRequest<LocalRow | undefined>);
+    if (!fund) {
+      throw new LocalBackendError(`Fund ${p_fund_id} does not exist`, "P0002");
+    }
+    if (fund.ledger_built_version !== null && Number(fund.ledger_built_version) > p_source_version) {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    for (const table of tables) {
+      const store = transaction.objectStore(table);
+      const existing = await requestResult(store.getAll() as IDBRequest<LocalRow[]>);
+      existing.filter(row => row.fund_id === p_fund_id).forEach(row => store.delete(row.id));
+
+      const nextId = idAllocator(table, existing);
+      replacements[table].forEach(row =>
+        store.add({ ...DEFAULTS[table], created_at: now, ...row, id: nextId(), fund_id: p_fund_id })
+      );
+    }
+
+    // management_fees is local only, so rolling fees up queues nothing to sync
+    const navStore = transaction.objectStore("monthly_nav");
+    const navRows = await requestResult(navStore.getAll() as IDBRequest<LocalRow[]>);
+    navRows
+      .filter(row => row.fund_id === p_fund_id && managementFees.has(row.id as number))
+      .forEach(row => navStore.put({ ...row, management_fees: managementFees.get(row.id as number) }));
+
+    funds.put({ ...fund, ledger_built_version: p_source_version, ledger_built_at: now });
+    return true;
+  });
+}
+
+// The database functions the offline copy can run
+const LOCAL_FUNCTIONS: { [F in FunctionName]?: (args: FunctionArgs<F>) => Promise<FunctionReturns<F>> } = {
+  replace_fund_ledger: replaceFundLedger,
+};
+
+/**
+ * A copy of the data in the browser's IndexedDB, for working without a
+ * connection. Writes to synced tables are queued to be sent to Supabase.
+ */
+export const localBackend: DataBackend = {
+  name: "local",
+
+  async select(table, query = {}) {
+    return run([] as Row<typeof table>[], async () => {
+      const store = localTable(table);
+      const rows = await inTransaction([store], "readonly", transaction =>
+        requestResult(transaction.objectStore(store).getAll() as IDBRequest<LocalRow[]>)
+      );
+
+      const selected = sortRows(rows.filter(row => matchesAll(row, query.filters)), query.order);
+      return (query.limit === undefined ? selected : selected.slice(0, query.limit)) as Row<typeof table>[];
+    });
+  },
+
+  async count(table, filters) {
+    const { data, error } = await this.select(table, { filters });
+    return { data: data.length, error };
+  },
+
+  async insert(table, rows, options) {
+    return run([] as Row<typeof table>[], async () => {
+      const store = localTable(table);
+      const now = new Date().toISOString();
+
+      return writeTable(store, (objectStore, existing, queue) => {
+        const nextId = idAllocator(store, existing);
+        const inserted: LocalRow[] = rows.map(row => ({
+          ...DEFAULTS[store],
+          created_at: now,
+          ...row,
+          id: (row as { id?: number | string }).id ?? nextId(),
+        }));
+
+        assertUnique(store, [...existing, ...inserted]);
+        inserted.forEach(row => objectStore.add(row));
+
+        if (isSyncedTable(store)) {
+          queue(inserted.map(row => ({
+            table: store,
+            action: 'insert',
+            rowId: row.id,
+            values: createdValues(store, row),
+            base: {},
+            reason: options?.reason,
+            recordedAt: now,
+          })), inserted);
+        }
+
+        return inserted as Row<typeof table>[];
+      });
+    });
+  },
+
+  async upsert(table, rows, onConflict, options) {
+    return run([] as Row<typeof table>[], async () => {
+      const store = localTable(table);
+      const now = new Date().toISOString();
+
+      return writeTable(store, (objectStore, existing, queue) => {
+        const nextId = idAllocator(store, existing);
+        const byId = new Map(existing.map(row => [row.id, row]));
+
+        const written: LocalRow[] = rows.map(row => {
+          const values = row as Record<string, unknown>;
+          const match = [...byId.values()].find(current =>
+            onConflict.every(column => compareValues(current[column], values[column]) === 0)
+          );
+          const next: LocalRow = match
+            ? { ...match, ...values, id: match.id }
+            : { ...DEFAULTS[store], created_at: now, ...values, id: (values.id as number | string) ?? nextId() };
+          byId.set(next.id, next);
+          return next;
+        });
+
+        assertUnique(store, [...byId.values()]);
+        written.forEach(row => objectStore.put(row));
+
+        if (isSyncedTable(store)) {
+          queue(written.map(row => ({
+            table: store,
+            action: 'upsert',
+            rowId: row.id,
+            values: createdValues(store, row),
+            base: {},
+            onConflict,
+            reason: options?.reason,
+            recordedAt: now,
+          })), written);
+        }
+
+        return written as Row<typeof table>[];
+      });
+    });
+  },
+
+  async update(table, filters, patch, options) {
+    return run([] as Row<typeof table>[], async () => {
+      const store = localTable(table);
+      const now = new Date().toISOString();
+
+      return writeTable(store, (objectStore, existing, queue) => {
+        const targets = existing.filter(row => matchesAll(row, filters));
+        const updated = targets.map(row => ({ ...row, ...patch, id: row.id }) as LocalRow);
+        const updatedIds = new Set(updated.map(row => row.id));
+
+        assertUnique(store, [...existing.filter(row => !updatedIds.has(row.id)), ...updated]);
+        updated.forEach(row => objectStore.put(row));
+
+        if (isSyncedTable(store)) {
+          const values = withoutLocalOnlyColumns(store, patch as Record<string, unknown>);
+          const columns = Object.keys(values);
+          if (columns.length) {
+            queue(targets.map(row => ({
+              table: store,
+              action: 'update',
+              rowId: row.id,
+              values,
+              base: Object.fromEntries(columns.map(column => [column, row[column] ?? null])),
+              reason: options?.reason,
+              recomputed: options?.recomputed,
+              recordedAt: now,
+            })), [...targets, ...updated]);
+          }
+        }
+
+        return updated as Row<typeof table>[];
+      });
+    });
+  },
+
+  async remove(table, filters) {
+    return run(null, async () => {
+      const store = localTable(table);
+      // Synced rows are corrected or reversed rather than deleted, online too
+      if (isSyncedTable(store)) {
+        throw new LocalBackendError(`Deleting from ${table} is not supported`, "42501");
+      }
+
+      await writeTable(store, (objectStore, existing) => {
+        existing
+          .filter(row => matchesAll(row, filters))
+          .forEach(row => objectStore.delete(row.id));
+      });
+      return null;
+    });
+  },
+
+  async rpc(fn, args) {
+    return run(null, async () => {
+      const local = LOCAL_FUNCTIONS[fn] as ((args: FunctionArgs<typeof fn>) => Promise<FunctionReturns<typeof fn>>) | undefined;
+      if (!local) {
+        throw new LocalBackendError(`${fn} is not available offline`, "offline");
+      }
+      return local(args);
+    });
+  },
+};
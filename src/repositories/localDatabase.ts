@@ -0,0 +1,227 @@
+
+import type { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import type { Column, TableName } from "@/repositories/backend";
+
+const DATABASE_NAME = "dasein";
+const DATABASE_VERSION = 5;
+export const PENDING_CHANGES_STORE = "pending_changes";
+
+// Every table the repositories read or write, kept as one object store each
+export const LOCAL_TABLES: Exclude<TableName, "user_roles">[] = [
+  "audit_log",
+  "benchmark_values",
+  "benchmarks",
+  "capital_flows",
+  "fee_transactions",
+  "fund_benchmarks",
+  "fund_settings",
+  "funds",
+  "high_water_marks",
+  "investors",
+  "monthly_nav",
+  "monthly_nav_versions",
+  "nav_per_unit",
+  "performance_fee_crystallizations",
+  "unit_ledger",
+];
+
+export type LocalTable = (typeof LOCAL_TABLES)[number];
+
+// Tables whose local edits are sent back to Supabase. The rest are derived by
+// the ledger rebuild, or written by triggers, and are recomputed there instead.
+// Other tables the app edits (benchmarks, settings, funds) live in Supabase
+// only: offline edits to them would never be synced, so their services refuse
+// to write while offline.
+export const SYNCED_TABLES = ["monthly_nav", "investors", "capital_flows", "performance_fee_crystallizations"] as const;
+
+export type SyncedTable = (typeof SYNCED_TABLES)[number];
+
+export type LocalRow = Record<string, unknown> & { id: number | string };
+
+// What a change writes, typed by the table it writes to
+type PendingWrite<T extends SyncedTable> =
+  | { action: 'insert'; values: TablesInsert<T> }
+  | { action: 'upsert'; values: TablesInsert<T>; onConflict: Column<T>[] }
+  // The changed columns only
+  | { action: 'update'; values: TablesUpdate<T> };
+
+interface PendingChangeDetails<T extends SyncedTable> {
+  table: T;
+  // The row's local id until Supabase assigns the one a created row is sent without
+  rowId: number | string;
+  // The changed columns as they were before the edit; a server value that no
+  // longer matches means someone else changed the row in the meantime
+  base: Record<string, unknown>;
+  reason?: string;
+  // Sent with the change so Supabase doesn't version a recomputed NAV
+  recomputed?: boolean;
+  recordedAt: string;
+  // Why the last sync could not apply the change
+  conflict?: string;
+  // Apply the change even though the row changed on the server
+  force?: boolean;
+}
+
+// One member per table, so narrowing the table narrows the values with it
+export type NewPendingChange<T extends SyncedTable = SyncedTable> = {
+  [Table in T]: PendingWrite<Table> & PendingChangeDetails<Table>;
+}[T];
+
+/**
+ * A write made offline, waiting to be sent to Supabase
+ */
+export type PendingChange<T extends SyncedTable = SyncedTable> = NewPendingChange<T> & { id: number };
+
+export function isSyncedTable(table: string): table is SyncedTable {
+  return (SYNCED_TABLES as readonly string[]).includes(table);
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the local database, creating its stores on first use
+ */
+export function openLocalDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        LOCAL_TABLES.forEach(table => {
+          if (!database.objectStoreNames.contains(table)) {
+            database.createObjectStore(table, { keyPath: "id" });
+          }
+        });
+        if (!database.objectStoreNames.contains(PENDING_CHANGES_STORE)) {
+          database.createObjectStore(PENDING_CHANGES_STORE, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Resolve with the result of a single request
+ */
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run work in one transaction over the given stores, resolving once the
+ * transaction has committed
+ */
+export async function inTransaction<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>
+): Promise<T> {
+  const database = await openLocalDatabase();
+  const transaction = database.transaction(stores, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+
+  const result = await work(transaction);
+  await committed;
+  return result;
+}
+
+/**
+ * Queue offline writes, within a transaction that includes the pending changes store
+ */
+export function queuePendingChanges(transaction: IDBTransaction, changes: NewPendingChange[]): void {
+  const store = transaction.objectStore(PENDING_CHANGES_STORE);
+  changes.forEach(change => store.add(change));
+  if (changes.length) {
+    transaction.addEventListener("complete", notifyPendingChangesListeners);
+  }
+}
+
+/**
+ * Every pending change, in the order it was made
+ */
+export async function getPendingChanges(): Promise<PendingChange[]> {
+  return inTransaction([PENDING_CHANGES_STORE], "readonly", transaction =>
+    requestResult(transaction.objectStore(PENDING_CHANGES_STORE).getAll() as IDBRequest<PendingChange[]>)
+  );
+}
+
+/**
+ * Replace a pending change, e.g. to record a conflict
+ */
+export async function savePendingChange(change: PendingChange): Promise<void> {
+  await inTransaction([PENDING_CHANGES_STORE], "readwrite", async transaction => {
+    transaction.objectStore(PENDING_CHANGES_STORE).put(change);
+  });
+  notifyPendingChangesListeners();
+}
+
+/**
+ * Drop a pending change once synced or discarded
+ */
+export async function deletePendingChange(id: number): Promise<void> {
+  await inTransaction([PENDING_CHANGES_STORE], "readwrite", async transaction => {
+    transaction.objectStore(PENDING_CHANGES_STORE).delete(id);
+  });
+  notifyPendingChangesListeners();
+}
+
+/**
+ * Drop a synced pending change and rewrite the changes still queued, e.g. to
+ * refer to the id Supabase gave the row it created, in one transaction
+ */
+export async function completePendingChange(
+  id: number,
+  rewrite: (change: PendingChange) => PendingChange
+): Promise<void> {
+  await inTransaction([PENDING_CHANGES_STORE], "readwrite", async transaction => {
+    const store = transaction.objectStore(PENDING_CHANGES_STORE);
+    const changes = await requestResult(store.getAll() as IDBRequest<PendingChange[]>);
+    store.delete(id);
+    changes.filter(change => change.id !== id).forEach(change => store.put(rewrite(change)));
+  });
+  notifyPendingChangesListeners();
+}
+
+/**
+ * Replace the local copy of each table with rows downloaded from Supabase
+ */
+export async function replaceLocalTables(snapshot: Partial<Record<LocalTable, LocalRow[]>>): Promise<void> {
+  const tables = Object.keys(snapshot) as LocalTable[];
+  await inTransaction(tables, "readwrite", async transaction => {
+    tables.forEach(table => {
+      const store = transaction.objectStore(table);
+      store.clear();
+      snapshot[table]?.forEach(row => store.put(row));
+    });
+  });
+}
+
+type PendingChangesListener = () => void;
+const pendingChangesListeners = new Set<PendingChangesListener>();
+
+function notifyPendingChangesListeners() {
+  pendingChangesListeners.forEach(listener => listener());
+}
+
+/**
+ * Be told whenever changes are queued, synced or discarded
+ */
+export function subscribeToPendingChanges(listener: PendingChangesListener): () => void {
+  pendingChangesListeners.add(listener);
+  return () => {
+    pendingChangesListeners.delete(listener);
+  };
+}
@@ -0,0 +1,103 @@
+
+import { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { BackendResult, getBackend, Order, WriteOptions } from "@/repositories/backend";
+import { FundScope, FundScopedInsert, inCurrentFund, selectInFund } from "@/repositories/fundRepository";
+
+export type MonthlyNav = Tables<"monthly_nav">;
+
+// NAV is always read oldest first, as a time series
+const CHRONOLOGICAL: Order<"monthly_nav">[] = [
+  { column: "month_end_date", ascending: true },
+  { column: "id", ascending: true },
+];
+
+const NEWEST_FIRST: Order<"monthly_nav">[] = [
+  { column: "month_end_date", ascending: false },
+  { column: "id", ascending: false },
+];
+
+/**
+ * Fetch every NAV entry of the current fund (or the given scope), oldest
+ * first, with any error
+ */
+export async function fetchAllNavData(scope?: FundScope): Promise<BackendResult<MonthlyNav[]>> {
+  return selectInFund("monthly_nav", { order: CHRONOLOGICAL }, scope);
+}
+
+/**
+ * Fetch every NAV entry of the current fund (or the given scope), oldest first
+ */
+export async function getAllNavData(scope?: FundScope): Promise<MonthlyNav[]> {
+  const { data, error } = await fetchAllNavData(scope);
+
+  if (error) {
+    console.error("Error fetching all NAV data:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch the latest NAV entry
+ */
+export async function getLatestNav(): Promise<MonthlyNav | null> {
+  const { data, error } = await selectInFund("monthly_nav", { order: NEWEST_FIRST, limit: 1 });
+
+  if (error) {
+    console.error("Error fetching latest NAV:", error);
+    return null;
+  }
+
+  return data[0] ?? null;
+}
+
+/**
+ * Fetch the last NAV before a year starts (yyyy-MM-dd), i.e. the previous
+ * year-end NAV
+ */
+export async function getYearStartNav(yearStart: string): Promise<MonthlyNav | null> {
+  const { data, error } = await selectInFund("monthly_nav", {
+    filters: [{ column: "month_end_date", operator: "lt", value: yearStart }],
+    order: NEWEST_FIRST,
+    limit: 1,
+  });
+
+  if (error) {
+    console.error("Error fetching year start NAV:", error);
+    return null;
+  }
+
+  return data[0] ?? null;
+}
+
+/**
+ * Fetch the most recent monthly return
+ */
+export async function getPreviousMonthReturn(): Promise<number | null> {
+  const latestNav = await getLatestNav();
+  return latestNav?.monthly_return ?? null;
+}
+
+/**
+ * Insert NAV entries in a single statement, so either all are saved or none
+ */
+export async function insertMonthlyNavs(
+  rows: FundScopedInsert<"monthly_nav">[],
+  options?: WriteOptions
+): Promise<BackendResult<MonthlyNav[]>> {
+  const scoped = inCurrentFund(rows);
+  if (scoped.error) return { data: [], error: scoped.error };
+  return getBackend().insert("monthly_nav", scoped.data, options);
+}
+
+/**
+ * Update a NAV entry by id
+ */
+export async function updateMonthlyNav(
+  id: number,
+  patch: TablesUpdate<"monthly_nav">,
+  options?: WriteOptions
+): Promise<BackendResult<MonthlyNav[]>> {
+  return getBackend().update("monthly_nav", [{ column: "id", operator: "eq", value: id }], patch, options);
+}
@@ -0,0 +1,24 @@
+import { Tables } from "@/integrations/supabase/types";
+import { BackendResult, getBackend, WriteOptions } from "@/repositories/backend";
+import { FundScopedInsert, inCurrentFund, selectInFund } from "@/repositories/fundRepository";
+
+export type FundSettingsRow = Tables<"fund_settings">;
+
+/**
+ * Fetch the current fund's (or the given fund's) settings row, with any error
+ */
+export async function fetchFundSettings(fundId?: number): Promise<BackendResult<FundSettingsRow[]>> {
+  return selectInFund("fund_settings", { limit: 1 }, fundId);
+}
+
+/**
+ * Save the current fund's settings, creating its row if it is missing
+ */
+export async function upsertFundSettings(
+  data: Omit<FundScopedInsert<"fund_settings">, "id">,
+  options?: WriteOptions
+): Promise<BackendResult<FundSettingsRow[]>> {
+  const scoped = inCurrentFund<"fund_settings">([data]);
+  if (scoped.error) return { data: [], error: scoped.error };
+  return getBackend().upsert("fund_settings", scoped.data, ["fund_id"], options);
+}
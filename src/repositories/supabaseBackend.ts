@@ -0,0 +1,109 @@
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AUDIT_REASON_HEADER, encodeAuditReason, RECOMPUTED_HEADER } from "@/services/auditService";
+import type { BackendError, DataBackend, Filter, Row, TableName, WriteOptions } from "@/repositories/backend";
+
+// The backend builds queries from table names known only at runtime, which the
+// typed client cannot express; rows are typed again on the way out
+const client = supabase as unknown as SupabaseClient;
+
+// Supabase's default cap on the rows one request returns
+const PAGE_SIZE = 1000;
+
+type FilterableQuery = {
+  eq: (column: string, value: unknown) => FilterableQuery;
+  neq: (column: string, value: unknown) => FilterableQuery;
+  gt: (column: string, value: unknown) => FilterableQuery;
+  gte: (column: string, value: unknown) => FilterableQuery;
+  lt: (column: string, value: unknown) => FilterableQuery;
+  lte: (column: string, value: unknown) => FilterableQuery;
+  in: (column: string, values: unknown[]) => FilterableQuery;
+};
+
+function applyFilters<Q, T extends TableName>(query: Q, filters: Filter<T>[] = []): Q {
+  return filters.reduce((current, filter) => {
+    const filterable = current as unknown as FilterableQuery;
+    return (filter.operator === 'in'
+      ? filterable.in(filter.column, filter.value as unknown[])
+      : filterable[filter.operator](filter.column, filter.value)) as unknown as Q;
+  }, query);
+}
+
+function withReason<Q extends { setHeader: (name: string, value: string) => Q }>(query: Q, options?: WriteOptions): Q {
+  const withAudit = options?.reason ? query.setHeader(AUDIT_REASON_HEADER, encodeAuditReason(options.reason)) : query;
+  return options?.recomputed ? withAudit.setHeader(RECOMPUTED_HEADER, "true") : withAudit;
+}
+
+const toError = (error: { message: string; code?: string; details?: unknown } | null): BackendError | null =>
+  error ? { message: error.message, code: error.code, details: error.details } : null;
+
+/**
+ * The hosted Supabase database
+ */
+export const supabaseBackend: DataBackend = {
+  name: "supabase",
+
+  // PostgREST silently stops at its row cap, so rows are read a page at a time
+  // until a page comes back short. Ordering by id last keeps the pages stable.
+  async select(table, query = {}) {
+    const rows: Row<typeof table>[] = [];
+    const limit = query.limit ?? Infinity;
+
+    while (rows.length < limit) {
+      const from = rows.length;
+      const to = Math.min(from + PAGE_SIZE, limit) - 1;
+      let builder = applyFilters(client.from(table).select("*"), query.filters);
+      for (const order of query.order ?? []) {
+        builder = builder.order(order.column, { ascending: order.ascending });
+      }
+
+      const { data, error } = await builder.order("id", { ascending: true }).range(from, to);
+      if (error) return { data: [], error: toError(error) };
+
+      rows.push(...((data ?? []) as Row<typeof table>[]));
+      if (!data || data.length < to - from + 1) break;
+    }
+
+    return { data: rows, error: null };
+  },
+
+  async count(table, filters) {
+    const { count, error } = await applyFilters(
+      client.from(table).select("*", { count: "exact", head: true }),
+      filters
+    );
+    return { data: count ?? 0, error: toError(error) };
+  },
+
+  async insert(table, rows, options) {
+    const { data, error } = await withReason(client.from(table).insert(rows), options).select();
+    return { data: (data ?? []) as Row<typeof table>[], error: toError(error) };
+  },
+
+  async upsert(table, rows, onConflict, options) {
+    const { data, error } = await withReason(
+      client.from(table).upsert(rows, { onConflict: onConflict.join(",") }),
+      options
+    ).select();
+    return { data: (data ?? []) as Row<typeof table>[], error: toError(error) };
+  },
+
+  async update(table, filters, patch, options) {
+    const { data, error } = await applyFilters(
+      withReason(client.from(table).update(patch), options),
+      filters
+    ).select();
+    return { data: (data ?? []) as Row<typeof table>[], error: toError(error) };
+  },
+
+  async remove(table, filters, options) {
+    const { error } = await applyFilters(withReason(client.from(table).delete(), options), filters);
+    return { data: null, error: toError(error) };
+  },
+
+  async rpc(fn, args, options) {
+    const { data, error } = await withReason(client.rpc(fn, args), options);
+    return { data: error ? null : data, error: toError(error) };
+  },
+};
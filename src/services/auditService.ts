@@ -0,0 +1,95 @@
+
+import { Json, Tables } from "@/integrations/supabase/types";
+import { Filter, getBackend } from "@/repositories";
+
+export type AuditLogEntry = Tables<"audit_log">;
+export type AuditedTable = 'monthly_nav' | 'investors' | 'capital_flows' | 'fund_settings' | 'funds';
+
+export const AUDITED_TABLES: { value: AuditedTable; label: string }[] = [
+  { value: 'monthly_nav', label: 'Monthly NAV' },
+  { value: 'investors', label: 'Investors' },
+  { value: 'capital_flows', label: 'Capital Flows' },
+  { value: 'fund_settings', label: 'Settings' },
+  { value: 'funds', label: 'Funds' },
+];
+
+// Request header the audit trigger reads the reason for a change from
+export const AUDIT_REASON_HEADER = "x-audit-reason";
+
+// Marks a write that only recomputes derived values, which the NAV versioning
+// trigger does not treat as a restatement
+export const RECOMPUTED_HEADER = "x-recomputed";
+
+/**
+ * Encode a reason for the audit header. Header values must be plain ASCII, so
+ * the UTF-8 text is sent base64-encoded and decoded by the trigger.
+ */
+export function encodeAuditReason(reason: string): string {
+  const bytes = new TextEncoder().encode(reason);
+  let binary = "";
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export interface AuditLogFilters {
+  tableName?: AuditedTable;
+  recordId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * Fetch audit log entries, newest first
+ */
+export async function getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+  const conditions: Filter<"audit_log">[] = [];
+  if (filters.tableName) {
+    conditions.push({ column: "table_name", operator: "eq", value: filters.tableName });
+  }
+  if (filters.recordId) {
+    conditions.push({ column: "record_id", operator: "eq", value: filters.recordId });
+  }
+  if (filters.from) {
+    conditions.push({ column: "occurred_at", operator: "gte", value: filters.from });
+  }
+  if (filters.to) {
+    conditions.push({ column: "occurred_at", operator: "lte", value: filters.to });
+  }
+
+  const { data, error } = await getBackend().select("audit_log", {
+    filters: conditions,
+    order: [{ column: "occurred_at", ascending: false }],
+    limit: filters.limit ?? 500,
+  });
+
+  if (error) {
+    console.error("Error fetching audit log:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch every change made to a single record, newest first
+ */
+export async function getRecordHistory(tableName: AuditedTable, recordId: string | number): Promise<AuditLogEntry[]> {
+  return getAuditLog({ tableName, recordId: String(recordId) });
+}
+
+/**
+ * The before and after value of each field an audit entry changed
+ */
+export function describeChanges(entry: AuditLogEntry): { field: string; before: Json | undefined; after: Json | undefined }[] {
+  const before = (entry.old_data ?? {}) as Record<string, Json>;
+  const after = (entry.new_data ?? {}) as Record<string, Json>;
+
+  const fields = entry.action === 'update'
+    ? entry.changed_fields
+    : Object.keys(entry.action === 'insert' ? after : before).filter(field => field !== 'created_at');
+
+  return fields.map(field => ({ field, before: before[field], after: after[field] }));
+}
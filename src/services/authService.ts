@@ -0,0 +1,109 @@
+
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { BackendError } from "@/repositories";
+
+export type AppRole = 'admin' | 'operations' | 'read_only';
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: 'Admin',
+  operations: 'Operations',
+  read_only: 'Read-only',
+};
+
+// Actions guarded by role; row level security enforces the same rules
+export type Permission =
+  | 'publishNav'
+  | 'manageInvestors'
+  | 'runCrystallization'
+  | 'manageBenchmarks'
+  | 'manageSettings'
+  | 'enterFlows'
+  | 'rebuildLedger';
+
+const PERMISSIONS: Record<Permission, AppRole[]> = {
+  publishNav: ['admin'],
+  manageInvestors: ['admin'],
+  runCrystallization: ['admin'],
+  manageBenchmarks: ['admin'],
+  manageSettings: ['admin'],
+  enterFlows: ['admin', 'operations'],
+  rebuildLedger: ['admin', 'operations'],
+};
+
+/**
+ * Whether a role is allowed to perform an action
+ */
+export function hasPermission(role: AppRole | null, permission: Permission): boolean {
+  return role !== null && PERMISSIONS[permission].includes(role);
+}
+
+/**
+ * Sign in with email and password
+ */
+export async function signIn(email: string, password: string): Promise<{ success: boolean; error?: BackendError }> {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+
+  if (error) {
+    console.error("Error signing in:", error);
+    return { success: false, error };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Sign out of the current session
+ */
+export async function signOut(): Promise<{ success: boolean; error?: BackendError }> {
+  const { error } = await supabase.auth.signOut();
+
+  if (error) {
+    console.error("Error signing out:", error);
+    return { success: false, error };
+  }
+
+  return { success: true };
+}
+
+/**
+ * The current session, or null when signed out
+ */
+export async function getSession(): Promise<Session | null> {
+  const { data, error } = await supabase.auth.getSession();
+
+  if (error) {
+    console.error("Error fetching session:", error);
+    return null;
+  }
+
+  return data.session;
+}
+
+// The last role fetched for each user, so permissions still apply offline
+const roleCacheKey = (userId: string) => `dasein.role.${userId}`;
+
+/**
+ * The signed-in user's role, or null if they have not been granted one. When
+ * Supabase cannot be reached, the role last fetched on this device is used.
+ */
+export async function getUserRole(userId: string): Promise<AppRole | null> {
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching user role:", error);
+    return (localStorage.getItem(roleCacheKey(userId)) as AppRole | null) ?? null;
+  }
+
+  const role = (data?.role as AppRole) ?? null;
+  if (role) {
+    localStorage.setItem(roleCacheKey(userId), role);
+  } else {
+    localStorage.removeItem(roleCacheKey(userId));
+  }
+  return role;
+}
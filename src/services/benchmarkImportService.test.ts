@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { BenchmarkImportOptions, buildBenchmarkImportPreview } from "@/services/benchmarkImportService";
+import { ImportCell } from "@/utils/importUtils";
+
+const mapping = { date: 0, value: 1 };
+const preview = (rows: ImportCell[][], options: Partial<BenchmarkImportOptions> = {}) =>
+  buildBenchmarkImportPreview(
+    { headers: ["Date", "Value"], rows },
+    mapping,
+    { dateFormat: "yyyy-MM-dd", kind: "return", returnsAsFractions: false, ...options }
+  );
+
+describe("buildBenchmarkImportPreview", () => {
+  it("compounds a return series' observations into monthly returns", () => {
+    const { months } = preview([
+      ["2024-01-10", "1%"],
+      ["2024-01-31", "2%"],
+      ["2024-02-29", "-0.5"],
+    ]);
+
+    expect(months).toEqual([
+      { month_end_date: "2024-01-31", value: 3.02, observations: 2 },
+      { month_end_date: "2024-02-29", value: -0.5, observations: 1 },
+    ]);
+  });
+
+  it("converts returns given as fractions to percentages", () => {
+    const { months } = preview([["2024-01-31", 0.012]], { returnsAsFractions: true });
+
+    expect(months[0].value).toBeCloseTo(1.2);
+  });
+
+  it("keeps the last level of each month, whatever order the file is in", () => {
+    const { months } = preview(
+      [
+        ["2024-01-31", "4,850.00"],
+        ["2024-01-15", "4,700.00"],
+        ["2024-02-01", "4,860.00"],
+      ],
+      { kind: "level" }
+    );
+
+    expect(months).toEqual([
+      { month_end_date: "2024-01-31", value: 4_850, observations: 2 },
+      { month_end_date: "2024-02-29", value: 4_860, observations: 1 },
+    ]);
+  });
+
+  it("reports invalid rows and leaves them out of the months", () => {
+    const { rows, months } = preview(
+      [
+        [null, "1"],
+        ["someday", "1"],
+        ["2024-01-31", null],
+        ["2024-01-31", "abc"],
+        ["2024-01-31", "0"],
+        ["2024-03-31", "100"],
+      ],
+      { kind: "level" }
+    );
+
+    expect(rows.map(row => row.errors)).toEqual([
+      ["Date is missing"],
+      ["Date is not a valid date"],
+      ["Value is missing"],
+      ["Value is not a number"],
+      ["Level must be positive"],
+      [],
+    ]);
+    expect(rows[0].rowNumber).toBe(2);
+    expect(months.map(month => month.month_end_date)).toEqual(["2024-03-31"]);
+  });
+});
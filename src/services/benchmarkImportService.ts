@@ -0,0 +1,162 @@
+
+import { TablesInsert } from "@/integrations/supabase/types";
+import {
+  BackendError,
+  Benchmark,
+  deleteBenchmark,
+  getDataMode,
+  insertBenchmark,
+  updateBenchmark,
+  upsertBenchmarkValues,
+} from "@/repositories";
+import {
+  BenchmarkKind,
+  BENCHMARKS_OFFLINE_ERROR,
+  monthEndOf,
+} from "@/services/benchmarkService";
+import { rebuildStaleLedgers } from "@/services/unitLedgerService";
+import {
+  ColumnMapping,
+  ImportDateFormat,
+  ImportField,
+  ImportTable,
+  mappedCell,
+  parseImportDate,
+  parseImportNumber,
+} from "@/utils/importUtils";
+
+export type BenchmarkImportField = 'date' | 'value';
+
+export const BENCHMARK_IMPORT_FIELDS: ImportField<BenchmarkImportField>[] = [
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'month end', 'month_end_date', 'as of', 'period end'] },
+  { field: 'value', label: 'Return or level', required: true, aliases: ['value', 'return', 'level', 'close', 'price', 'index', 'total return'] },
+];
+
+export type BenchmarkColumnMapping = ColumnMapping<BenchmarkImportField>;
+
+export interface BenchmarkImportOptions {
+  dateFormat: ImportDateFormat;
+  kind: BenchmarkKind;
+  // Returns given as fractions (0.012) rather than percentages (1.2)
+  returnsAsFractions: boolean;
+}
+
+export interface BenchmarkImportRow {
+  rowNumber: number;
+  date: string | null;
+  value: number | null;
+  errors: string[];
+}
+
+// A month of the imported series, made from every observation in the month
+export interface BenchmarkImportMonth {
+  month_end_date: string;
+  value: number;
+  observations: number;
+}
+
+export interface BenchmarkImportPreview {
+  rows: BenchmarkImportRow[];
+  months: BenchmarkImportMonth[];
+}
+
+/**
+ * Parse and validate every row of the file, then reduce the observations to
+ * one value per month: the last level of the month for a level series, or the
+ * compounded return of the month for a return series. Daily, weekly and
+ * monthly files can be imported alike.
+ */
+export function buildBenchmarkImportPreview(
+  table: ImportTable,
+  mapping: BenchmarkColumnMapping,
+  options: BenchmarkImportOptions
+): BenchmarkImportPreview {
+  const rows: BenchmarkImportRow[] = table.rows.map((cells, index) => {
+    const errors: string[] = [];
+
+    const date = parseImportDate(mappedCell(cells, mapping, 'date'), options.dateFormat);
+    if (!date) {
+      errors.push(mappedCell(cells, mapping, 'date') === null ? "Date is missing" : "Date is not a valid date");
+    }
+
+    let value = parseImportNumber(mappedCell(cells, mapping, 'value'));
+    if (value === null) {
+      errors.push("Value is missing");
+    } else if (isNaN(value)) {
+      errors.push("Value is not a number");
+    } else if (options.kind === 'level' && value <= 0) {
+      errors.push("Level must be positive");
+    } else if (options.kind === 'return' && options.returnsAsFractions) {
+      value *= 100;
+    }
+
+    return { rowNumber: index + 2, date, value: errors.length ? null : value, errors };
+  });
+
+  const byMonth = new Map<string, { date: string; value: number }[]>();
+  rows
+    .filter(row => !row.errors.length)
+    .forEach(row => {
+      const monthEnd = monthEndOf(row.date!);
+      byMonth.set(monthEnd, [...(byMonth.get(monthEnd) ?? []), { date: row.date!, value: row.value! }]);
+    });
+
+  const months = [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month_end_date, observations]) => {
+      const sorted = [...observations].sort((a, b) => a.date.localeCompare(b.date));
+      const value = options.kind === 'level'
+        ? sorted[sorted.length - 1].value
+        : Math.round((sorted.reduce((factor, observation) => factor * (1 + observation.value / 100), 1) - 1) * 1e8) / 1e6;
+      return { month_end_date, value, observations: sorted.length };
+    });
+
+  return { rows, months };
+}
+
+/**
+ * Save an imported series. A new name creates a benchmark; an existing one
+ * has the imported months added to it, replacing months already recorded.
+ */
+export async function importBenchmark(
+  details: { name: string; kind: BenchmarkKind; existing: Benchmark | null },
+  months: BenchmarkImportMonth[],
+  fileName: string
+): Promise<{ success: boolean; error?: BackendError; imported?: number }> {
+  if (getDataMode() === 'offline') return { success: false, error: BENCHMARKS_OFFLINE_ERROR };
+
+  let benchmark = details.existing;
+  if (benchmark) {
+    const { error } = await updateBenchmark(benchmark.id, { source_file: fileName });
+    if (error) {
+      console.error("Error updating benchmark:", error);
+      return { success: false, error };
+    }
+  } else {
+    const { data, error } = await insertBenchmark({ name: details.name, kind: details.kind, source_file: fileName });
+    if (error || !data[0]) {
+      console.error("Error creating benchmark:", error);
+      return { success: false, error };
+    }
+    benchmark = data[0];
+  }
+
+  const values: TablesInsert<"benchmark_values">[] = months.map(month => ({
+    benchmark_id: benchmark!.id,
+    month_end_date: month.month_end_date,
+    value: month.value,
+  }));
+  const { error } = await upsertBenchmarkValues(values);
+
+  if (error) {
+    console.error("Error importing benchmark values:", error);
+    // Don't leave an empty benchmark behind
+    if (!details.existing) await deleteBenchmark(benchmark.id);
+    return { success: false, error };
+  }
+
+  // Funds whose hurdles track the benchmark are charged fees against the new values
+  await rebuildStaleLedgers();
+
+  return { success: true, imported: months.length };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { BenchmarkSeries, excessReturn, monthlyBenchmarkReturns, rebaseBenchmark } from "@/services/benchmarkService";
+import { makeNav } from "@/test/fixtures";
+
+const value = (month_end_date: string, amount: number) => ({ id: 0, benchmark_id: 1, month_end_date, value: amount });
+
+const series = (returns: Record<string, number>): BenchmarkSeries => ({
+  benchmark: { id: 1, name: "Index", kind: "return", source_file: null, created_at: null },
+  returns,
+  selected: true,
+});
+
+describe("monthlyBenchmarkReturns", () => {
+  it("reads stored returns as fractions keyed by calendar month end", () => {
+    expect(monthlyBenchmarkReturns("return", [value("2024-03-28", 1.5)])).toEqual({ "2024-03-31": 0.015 });
+  });
+
+  it("derives returns from consecutive levels, leaving gaps without one", () => {
+    const returns = monthlyBenchmarkReturns("level", [
+      value("2024-01-31", 100),
+      value("2024-02-29", 110),
+      value("2024-04-30", 99),
+      value("2024-05-31", 99),
+    ]);
+
+    expect(Object.keys(returns)).toEqual(["2024-02-29", "2024-05-31"]);
+    expect(returns["2024-02-29"]).toBeCloseTo(0.1);
+    expect(returns["2024-05-31"]).toBe(0);
+  });
+});
+
+describe("rebaseBenchmark", () => {
+  it("starts level with the fund and compounds the benchmark's returns", () => {
+    const rebased = rebaseBenchmark(
+      series({ "2024-02-29": 0.1, "2024-04-30": -0.5 }),
+      ["2024-01-31", "2024-02-29", "2024-03-28", "2024-04-30"],
+      1_000
+    );
+
+    expect(rebased).toEqual([1_000, expect.closeTo(1_100, 9), undefined, expect.closeTo(550, 9)]);
+  });
+});
+
+describe("excessReturn", () => {
+  it("is the fund's return over the benchmark in percentage points", () => {
+    const benchmark = series({ "2024-03-31": 0.015 });
+
+    expect(excessReturn(makeNav(1, "2024-03-28", 1, { monthly_return: 2 }), benchmark)).toBeCloseTo(0.5);
+    expect(excessReturn(makeNav(1, "2024-04-30", 1, { monthly_return: 2 }), benchmark)).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+
+import { endOfMonth, format, parseISO, subMonths } from "date-fns";
+import {
+  BackendError,
+  Benchmark,
+  BenchmarkValue,
+  deleteBenchmark,
+  deleteFundBenchmark,
+  fetchAllBenchmarks,
+  fetchBenchmarkValues,
+  fetchFundBenchmarks,
+  getDataMode,
+  insertFundBenchmark,
+  MonthlyNav,
+} from "@/repositories";
+import { rebuildStaleLedgers } from "@/services/unitLedgerService";
+
+export type BenchmarkKind = 'return' | 'level';
+
+export const BENCHMARK_KINDS: { value: BenchmarkKind; label: string }[] = [
+  { value: 'return', label: 'Monthly returns' },
+  { value: 'level', label: 'Index levels' },
+];
+
+/**
+ * A benchmark with its monthly returns, as fractions keyed by month end
+ */
+export interface BenchmarkSeries {
+  benchmark: Benchmark;
+  returns: Record<string, number>;
+  // Overlaid on the current fund's charts
+  selected: boolean;
+}
+
+export const BENCHMARKS_OFFLINE_ERROR = { message: "Benchmarks can only be changed while online" };
+
+/**
+ * The month end of a date, as yyyy-MM-dd
+ */
+export const monthEndOf = (date: string) => format(endOfMonth(parseISO(date)), "yyyy-MM-dd");
+
+/**
+ * Turn a benchmark's stored values into monthly returns. Returns are stored
+ * as percentages; for levels, a month's return needs the previous month's
+ * closing level, so the first month and any month after a gap have none.
+ */
+export function monthlyBenchmarkReturns(kind: string, values: BenchmarkValue[]): Record<string, number> {
+  const returns: Record<string, number> = {};
+  const levels: Record<string, number> = {};
+
+  values.forEach(({ month_end_date, value }) => {
+    const monthEnd = monthEndOf(month_end_date);
+    if (kind === 'return') {
+      returns[monthEnd] = Number(value) / 100;
+    } else {
+      levels[monthEnd] = Number(value);
+    }
+  });
+
+  Object.entries(levels).forEach(([monthEnd, level]) => {
+    const previous = levels[format(endOfMonth(subMonths(parseISO(monthEnd), 1)), "yyyy-MM-dd")];
+    if (previous) {
+      returns[monthEnd] = level / previous - 1;
+    }
+  });
+
+  return returns;
+}
+
+/**
+ * The ids of the benchmarks overlaid on the current fund's charts
+ */
+export async function getSelectedBenchmarkIds(): Promise<number[]> {
+  const { data, error } = await fetchFundBenchmarks();
+
+  if (error) {
+    console.error("Error fetching the fund's benchmarks:", error);
+    return [];
+  }
+
+  return data.map(row => row.benchmark_id);
+}
+
+/**
+ * Fetch benchmarks with their monthly returns: every benchmark, or only
+ * those selected for the current fund's charts
+ */
+export async function getBenchmarkSeries(selectedOnly = false): Promise<BenchmarkSeries[]> {
+  const [{ data: benchmarks, error }, selectedIds] = await Promise.all([
+    fetchAllBenchmarks(),
+    getSelectedBenchmarkIds(),
+  ]);
+
+  if (error) {
+    console.error("Error fetching benchmarks:", error);
+    return [];
+  }
+
+  const wanted = selectedOnly ? benchmarks.filter(benchmark => selectedIds.includes(benchmark.id)) : benchmarks;
+  const series = await Promise.all(
+    wanted.map(async benchmark => {
+      const { data: values, error: valuesError } = await fetchBenchmarkValues(benchmark.id);
+      if (valuesError) {
+        console.error(`Error fetching values of benchmark ${benchmark.name}:`, valuesError);
+        return null;
+      }
+      return {
+        benchmark,
+        returns: monthlyBenchmarkReturns(benchmark.kind, values),
+        selected: selectedIds.includes(benchmark.id),
+      };
+    })
+  );
+
+  return series.filter((item): item is BenchmarkSeries => item !== null);
+}
+
+/**
+ * Every benchmark's monthly returns by name, for hurdles tied to a benchmark
+ */
+export async function getHurdleBenchmarkReturns(): Promise<Record<string, Record<string, number>>> {
+  const series = await getBenchmarkSeries();
+  return Object.fromEntries(series.map(({ benchmark, returns }) => [benchmark.name, returns]));
+}
+
+/**
+ * Grow startValue with the benchmark's returns over the given month ends, so
+ * it starts level with the fund. The first month end is the base; a month
+ * the benchmark has no return for is left as a gap.
+ */
+export function rebaseBenchmark(
+  series: BenchmarkSeries,
+  monthEnds: string[],
+  startValue: number
+): (number | undefined)[] {
+  let level = startValue;
+  return monthEnds.map((monthEnd, index) => {
+    if (index === 0) return level;
+    const monthReturn = series.returns[monthEndOf(monthEnd)];
+    if (monthReturn === undefined) return undefined;
+    level *= 1 + monthReturn;
+    return level;
+  });
+}
+
+/**
+ * The benchmark's return for a NAV month, as a percentage, or null when it
+ * has none
+ */
+export function benchmarkReturnFor(series: BenchmarkSeries, monthEndDate: string): number | null {
+  const monthReturn = series.returns[monthEndOf(monthEndDate)];
+  return monthReturn === undefined ? null : monthReturn * 100;
+}
+
+/**
+ * The fund's return over the benchmark for a month, in percentage points, or
+ * null when either is missing
+ */
+export function excessReturn(nav: MonthlyNav, series: BenchmarkSeries): number | null {
+  const benchmarkReturn = benchmarkReturnFor(series, nav.month_end_date);
+  if (nav.monthly_return === null || benchmarkReturn === null) return null;
+  return Number(nav.monthly_return) - benchmarkReturn;
+}
+
+/**
+ * Choose whether a benchmark is overlaid on the current fund's performance
+ * charts
+ */
+export async function setBenchmarkSelected(id: number, selected: boolean): Promise<{ success: boolean; error?: BackendError }> {
+  if (getDataMode() === 'offline') return { success: false, error: BENCHMARKS_OFFLINE_ERROR };
+
+  const { error } = selected ? await insertFundBenchmark(id) : await deleteFundBenchmark(id);
+
+  if (error) {
+    console.error("Error updating benchmark:", error);
+    return { success: false, error };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Delete a benchmark and its values. Hurdles tied to it fall back to the
+ * hurdle rate alone, so the ledgers of funds with such hurdles are rebuilt.
+ */
+export async function removeBenchmark(benchmark: Benchmark): Promise<{ success: boolean; error?: BackendError }> {
+  if (getDataMode() === 'offline') return { success: false, error: BENCHMARKS_OFFLINE_ERROR };
+
+  const { error } = await deleteBenchmark(benchmark.id);
+
+  if (error) {
+    console.error("Error deleting benchmark:", error);
+    return { success: false, error };
+  }
+
+  await rebuildStaleLedgers();
+
+  return { success: true };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { buildCapitalAccount, CapitalAccountPeriod, rollUpCapitalAccount } from "@/services/capitalAccountService";
+import { HighWaterMark } from "@/services/feeService";
+import { NavPerUnit, UnitLedgerEntry } from "@/services/unitLedgerService";
+
+const price = (id: number, month_end_date: string, nav_per_unit: number): NavPerUnit => ({
+  id,
+  fund_id: 1,
+  monthly_nav_id: id,
+  month_end_date,
+  nav_per_unit,
+  units_issued: 0,
+  units_redeemed: 0,
+  units_outstanding: 0,
+  created_at: null,
+});
+
+const entry = (
+  dealing_date: string,
+  type: string,
+  amount: number,
+  units: number,
+  capital_flow_id: number | null = null
+): UnitLedgerEntry => ({
+  id: 0,
+  fund_id: 1,
+  investor_id: "a",
+  capital_flow_id,
+  flow_date: dealing_date,
+  dealing_date,
+  type,
+  amount,
+  units,
+  nav_per_unit: Math.abs(amount / units),
+  created_at: null,
+});
+
+const accrual = (month_end_date: string, accrued_fee: number): HighWaterMark => ({
+  id: 0,
+  fund_id: 1,
+  investor_id: "a",
+  month_end_date,
+  nav_per_unit: 0,
+  units: 0,
+  high_water_mark: 0,
+  hurdle_nav_per_unit: null,
+  hurdle_amount: 0,
+  gross_gain: 0,
+  accrued_fee,
+  crystallized_fee: 0,
+  created_at: null,
+});
+
+// 100 units bought at 1,000; the price rises to 1,100, then falls to 1,050
+// with 10 units redeemed. A month's management fee is paid in units, and
+// 2,000 of performance fee is accrued in February and released in March.
+const months = buildCapitalAccount(
+  [
+    entry("2024-01-31", "subscription", 100_000, 100, 1),
+    entry("2024-02-29", "management_fee", 1_100, -1),
+    entry("2024-03-31", "redemption", 10_500, -10, 2),
+  ],
+  [price(1, "2024-01-31", 1_000), price(2, "2024-02-29", 1_100), price(3, "2024-03-31", 1_050)],
+  [accrual("2024-02-29", 2_000), accrual("2024-03-31", 0)]
+);
+
+const rollsForward = (period: CapitalAccountPeriod) =>
+  period.beginningBalance +
+  period.contributions -
+  period.withdrawals +
+  period.grossPnl -
+  period.managementFees -
+  period.performanceFees;
+
+describe("buildCapitalAccount", () => {
+  it("rolls each month from its beginning balance to its ending one", () => {
+    expect(months.map(month => month.period)).toEqual(["Jan 2024", "Feb 2024", "Mar 2024"]);
+    months.forEach(month => expect(rollsForward(month)).toBeCloseTo(month.endingBalance, 6));
+    months.slice(1).forEach((month, i) => expect(month.beginningBalance).toBe(months[i].endingBalance));
+  });
+
+  it("charges P&L on the units held through the month, before fees", () => {
+    const [january, february, march] = months;
+
+    expect(january).toMatchObject({ contributions: 100_000, grossPnl: 0, endingBalance: 100_000, endingUnits: 100 });
+    // 100 units up 100 each; 99 units at 1,100 less the accrued fee
+    expect(february).toMatchObject({ managementFees: 1_100, performanceFees: 2_000, endingUnits: 99 });
+    expect(february.grossPnl).toBeCloseTo(10_000);
+    expect(february.endingBalance).toBeCloseTo(106_900);
+    // 99 units down 50 each; the accrual is released
+    expect(march).toMatchObject({ withdrawals: 10_500, performanceFees: -2_000, endingUnits: 89 });
+    expect(march.grossPnl).toBeCloseTo(-4_950);
+    expect(march.endingBalance).toBeCloseTo(93_450);
+  });
+});
+
+describe("rollUpCapitalAccount", () => {
+  it("adds up a quarter's months between its first and last balances", () => {
+    const [quarter] = rollUpCapitalAccount(months, "quarter");
+
+    expect(quarter).toMatchObject({
+      period: "Q1 2024",
+      startDate: "2024-01-31",
+      endDate: "2024-03-31",
+      beginningBalance: 0,
+      contributions: 100_000,
+      withdrawals: 10_500,
+      managementFees: 1_100,
+      capitalFlowIds: [1, 2],
+      monthlyNavIds: [1, 2, 3],
+    });
+    expect(quarter.grossPnl).toBeCloseTo(5_050);
+    expect(quarter.performanceFees).toBeCloseTo(0);
+    expect(rollsForward(quarter)).toBeCloseTo(93_450, 6);
+  });
+
+  it("splits years at the fiscal year end", () => {
+    const years = rollUpCapitalAccount(months, "year", 2);
+
+    expect(years.map(year => year.period)).toEqual(["FY2024", "FY2025"]);
+    expect(years[0].endingBalance).toBeCloseTo(106_900);
+    expect(years[1].beginningBalance).toBe(years[0].endingBalance);
+    years.forEach(year => expect(rollsForward(year)).toBeCloseTo(year.endingBalance, 6));
+  });
+});
@@ -0,0 +1,310 @@
+
+import { addMonths, differenceInCalendarMonths, format, parseISO } from "date-fns";
+import { CapitalFlow } from "@/repositories";
+import { CapitalFlowStatus, getFlowStatuses, signedFlowAmount } from "@/services/capitalFlowService";
+import { getHighWaterMarkHistory, HighWaterMark } from "@/services/feeService";
+import {
+  getNavPerUnitHistory,
+  getUnitLedger,
+  NavPerUnit,
+  UnitLedgerEntry,
+} from "@/services/unitLedgerService";
+import { fiscalYearStart } from "@/services/settingsService";
+
+export type RollforwardFrequency = 'month' | 'quarter' | 'year';
+
+/**
+ * One period of an investor's capital account. Every line is traceable to the
+ * capital_flows rows dealt in the period and the monthly_nav rows it spans.
+ */
+export interface CapitalAccountPeriod {
+  period: string;
+  // First and last month end in the period
+  startDate: string;
+  endDate: string;
+  beginningBalance: number;
+  contributions: number;
+  withdrawals: number;
+  grossPnl: number;
+  managementFees: number;
+  performanceFees: number;
+  endingBalance: number;
+  beginningUnits: number;
+  endingUnits: number;
+  capitalFlowIds: number[];
+  monthlyNavIds: number[];
+}
+
+/**
+ * Build an investor's monthly capital account from their unit ledger.
+ *
+ * Balances are the investor's units at the month-end NAV per unit, less any
+ * performance fee accrued against them. Contributions, withdrawals and
+ * management fees are the amounts dealt in the month; performance fees are
+ * those crystallized plus the change in the accrual. Gross P&L is what is left
+ * of the change in balance, i.e. the investor's share of the fund's result
+ * before fees.
+ */
+export function buildCapitalAccount(
+  entries: UnitLedgerEntry[],
+  navPerUnitHistory: NavPerUnit[],
+  marks: HighWaterMark[] = []
+): CapitalAccountPeriod[] {
+  const sortedPrices = [...navPerUnitHistory].sort(
+    (a, b) => new Date(a.month_end_date).getTime() - new Date(b.month_end_date).getTime()
+  );
+  const accruals: Record<string, number> = {};
+  marks.forEach(mark => {
+    accruals[mark.month_end_date] = Number(mark.accrued_fee);
+  });
+
+  const periods: CapitalAccountPeriod[] = [];
+  let units = 0;
+  let balance = 0;
+
+  for (const price of sortedPrices) {
+    const dealt = entries.filter(entry => entry.dealing_date === price.month_end_date);
+    if (!dealt.length && Math.abs(units) < 1e-9) continue;
+
+    const beginningUnits = units;
+    const beginningBalance = balance;
+    const sumOf = (type: string) => dealt
+      .filter(entry => entry.type === type)
+      .reduce((sum, entry) => sum + Number(entry.amount), 0);
+
+    units += dealt.reduce((sum, entry) => sum + Number(entry.units), 0);
+
+    const accruedBefore = periods.length ? accruals[periods[periods.length - 1].endDate] ?? 0 : 0;
+    const accruedAfter = accruals[price.month_end_date] ?? 0;
+
+    const contributions = sumOf('subscription');
+    const withdrawals = sumOf('redemption');
+    const managementFees = sumOf('management_fee');
+    const performanceFees = sumOf('performance_fee') + accruedAfter - accruedBefore;
+    balance = units * Number(price.nav_per_unit) - accruedAfter;
+
+    periods.push({
+      period: format(new Date(price.month_end_date), 'MMM yyyy'),
+      startDate: price.month_end_date,
+      endDate: price.month_end_date,
+      beginningBalance,
+      contributions,
+      withdrawals,
+      grossPnl: balance - beginningBalance - contributions + withdrawals + managementFees + performanceFees,
+      managementFees,
+      performanceFees,
+      endingBalance: balance,
+      beginningUnits,
+      endingUnits: units,
+      capitalFlowIds: dealt
+        .map(entry => entry.capital_flow_id)
+        .filter((id): id is number => id !== null),
+      monthlyNavIds: price.monthly_nav_id !== null ? [price.monthly_nav_id] : [],
+    });
+  }
+
+  return periods;
+}
+
+/**
+ * Label of the fiscal quarter or year a month end falls in. Fiscal years are
+ * named after the calendar year they end in, e.g. FY2025 for July 2024 to June 2025.
+ */
+function periodLabel(monthEnd: string, frequency: RollforwardFrequency, fiscalYearEndMonth: number): string {
+  const date = parseISO(monthEnd);
+  if (frequency === 'month') return format(date, 'MMM yyyy');
+
+  const yearStart = fiscalYearStart(date, fiscalYearEndMonth);
+  const endYear = addMonths(yearStart, 11).getFullYear();
+  const year = fiscalYearEndMonth === 12 ? String(endYear) : `FY${endYear}`;
+  if (frequency === 'year') return year;
+
+  return `Q${Math.floor(differenceInCalendarMonths(date, yearStart) / 3) + 1} ${year}`;
+}
+
+/**
+ * Roll monthly capital account periods up into the fund's fiscal quarters or
+ * years
+ */
+export function rollUpCapitalAccount(
+  months: CapitalAccountPeriod[],
+  frequency: RollforwardFrequency,
+  fiscalYearEndMonth = 12
+): CapitalAccountPeriod[] {
+  if (frequency === 'month') return months;
+
+  const periods: CapitalAccountPeriod[] = [];
+
+  for (const month of months) {
+    const label = periodLabel(month.endDate, frequency, fiscalYearEndMonth);
+    const current = periods[periods.length - 1];
+
+    if (!current || current.period !== label) {
+      periods.push({
+        ...month,
+        period: label,
+        capitalFlowIds: [...month.capitalFlowIds],
+        monthlyNavIds: [...month.monthlyNavIds],
+      });
+      continue;
+    }
+
+    current.endDate = month.endDate;
+    current.contributions += month.contributions;
+    current.withdrawals += month.withdrawals;
+    current.grossPnl += month.grossPnl;
+    current.managementFees += month.managementFees;
+    current.performanceFees += month.performanceFees;
+    current.endingBalance = month.endingBalance;
+    current.endingUnits = month.endingUnits;
+    current.capitalFlowIds.push(...month.capitalFlowIds);
+    current.monthlyNavIds.push(...month.monthlyNavIds);
+  }
+
+  return periods;
+}
+
+/**
+ * Combine consecutive periods into a single rollforward line
+ */
+export function summarizeCapitalAccount(periods: CapitalAccountPeriod[]): CapitalAccountPeriod | null {
+  if (!periods.length) return null;
+
+  const first = periods[0];
+  const last = periods[periods.length - 1];
+  const total = (key: 'contributions' | 'withdrawals' | 'grossPnl' | 'managementFees' | 'performanceFees') =>
+    periods.reduce((sum, period) => sum + period[key], 0);
+
+  return {
+    period: `${first.period} – ${last.period}`,
+    startDate: first.startDate,
+    endDate: last.endDate,
+    beginningBalance: first.beginningBalance,
+    contributions: total('contributions'),
+    withdrawals: total('withdrawals'),
+    grossPnl: total('grossPnl'),
+    managementFees: total('managementFees'),
+    performanceFees: total('performanceFees'),
+    endingBalance: last.endingBalance,
+    beginningUnits: first.beginningUnits,
+    endingUnits: last.endingUnits,
+    capitalFlowIds: periods.flatMap(period => period.capitalFlowIds),
+    monthlyNavIds: periods.flatMap(period => period.monthlyNavIds),
+  };
+}
+
+/**
+ * Fetch an investor's monthly capital account
+ */
+export async function getCapitalAccount(investorId: string): Promise<CapitalAccountPeriod[]> {
+  const [entries, prices, marks] = await Promise.all([
+    getUnitLedger(investorId),
+    getNavPerUnitHistory(),
+    getHighWaterMarkHistory(investorId),
+  ]);
+
+  return buildCapitalAccount(entries, prices, marks);
+}
+
+export type LedgerEntryType = 'contribution' | 'withdrawal' | 'management_fee' | 'performance_fee';
+
+/**
+ * One line of an investor's transaction ledger: a capital flow or a fee
+ * charge, with the investor's cash and unit balances after it
+ */
+export interface InvestorLedgerRow {
+  key: string;
+  // Date of the flow, or the end of the period a fee was charged for
+  date: string;
+  // Month end the line was dealt at; null while a flow waits for its NAV
+  dealingDate: string | null;
+  type: LedgerEntryType;
+  description: string;
+  // Signed from the investor's side: money in positive, money out and fees negative
+  amount: number;
+  units: number | null;
+  navPerUnit: number | null;
+  // Money put in less money taken out and fees charged, so far. Not the
+  // account's value, which also moves with performance.
+  netContributions: number;
+  unitBalance: number;
+  // The capital flow behind the line; null for the initial investment and fees
+  flow: CapitalFlow | null;
+  status: CapitalFlowStatus | null;
+}
+
+const LEDGER_DESCRIPTIONS: Record<LedgerEntryType, string> = {
+  contribution: 'Contribution',
+  withdrawal: 'Withdrawal',
+  management_fee: 'Management fee',
+  performance_fee: 'Performance fee',
+};
+
+/**
+ * Build an investor's transaction ledger from their unit ledger entries, in
+ * dealing order, followed by any capital flows still waiting to be dealt.
+ * Reversals and corrections appear as their own lines, so the balances
+ * always add up to what was posted.
+ */
+export function buildInvestorLedger(
+  flows: CapitalFlow[],
+  entries: UnitLedgerEntry[]
+): InvestorLedgerRow[] {
+  const flowsById = new Map(flows.map(flow => [flow.id, flow]));
+  const statuses = getFlowStatuses(flows);
+  const dealtFlowIds = new Set(entries.map(entry => entry.capital_flow_id));
+
+  type Line = Omit<InvestorLedgerRow, 'netContributions' | 'unitBalance'>;
+
+  const dealt: Line[] = entries.map(entry => {
+    const flow = entry.capital_flow_id !== null ? flowsById.get(entry.capital_flow_id) ?? null : null;
+    const isFee = entry.type === 'management_fee' || entry.type === 'performance_fee';
+    const type: LedgerEntryType = isFee
+      ? entry.type as LedgerEntryType
+      : flow ? flow.type as LedgerEntryType : 'contribution';
+
+    return {
+      key: `entry-${entry.id}`,
+      date: entry.flow_date,
+      dealingDate: entry.dealing_date,
+      type,
+      description: !isFee && !flow ? 'Initial investment' : LEDGER_DESCRIPTIONS[type],
+      amount: flow ? signedFlowAmount(flow) : isFee ? -Number(entry.amount) : Number(entry.amount),
+      units: Number(entry.units),
+      navPerUnit: Number(entry.nav_per_unit),
+      flow,
+      status: flow ? statuses[flow.id] : null,
+    };
+  });
+
+  const pending: Line[] = flows
+    .filter(flow => !dealtFlowIds.has(flow.id))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(flow => ({
+      key: `flow-${flow.id}`,
+      date: flow.date,
+      dealingDate: null,
+      type: flow.type as LedgerEntryType,
+      description: LEDGER_DESCRIPTIONS[flow.type as LedgerEntryType] ?? flow.type,
+      amount: signedFlowAmount(flow),
+      units: null,
+      navPerUnit: null,
+      flow,
+      status: statuses[flow.id],
+    }));
+
+  let netContributions = 0;
+  let unitBalance = 0;
+  return [...dealt, ...pending].map(line => {
+    netContributions += line.amount;
+    unitBalance += line.units ?? 0;
+    return { ...line, netContributions, unitBalance };
+  });
+}
+
+/**
+ * Fetch an investor's transaction ledger
+ */
+export async function getInvestorLedger(investorId: string, flows: CapitalFlow[]): Promise<InvestorLedgerRow[]> {
+  return buildInvestorLedger(flows, await getUnitLedger(investorId));
+}
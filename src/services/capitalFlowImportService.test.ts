@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFlowImportPreview,
+  importableFlowRows,
+  manualMatchKey,
+  matchInvestor,
+} from "@/services/capitalFlowImportService";
+import { makeCapitalFlow, makeInvestor } from "@/test/fixtures";
+
+const investors = [
+  makeInvestor("ada", { name: "Ada Lovelace", external_id: "ADM-001" }),
+  makeInvestor("jane-1", { name: "Jane Smith" }),
+  makeInvestor("jane-2", { name: "Jane  Smith" }),
+];
+
+const mapping = { date: 0, investor_name: 1, external_id: 2, type: 3, amount: 4 };
+const headers = ["Date", "Investor", "ID", "Type", "Amount"];
+const preview = (rows: (string | null)[][], existing = [], manualMatches = {}) =>
+  buildFlowImportPreview({ headers, rows }, mapping, "yyyy-MM-dd", investors, existing, manualMatches);
+
+describe("matchInvestor", () => {
+  it("prefers the administrator ID over the name", () => {
+    expect(matchInvestor("Someone Else", "adm-001", investors)).toMatchObject({
+      status: "matched",
+      investor: { id: "ada" },
+      by: "external_id",
+    });
+  });
+
+  it("matches names ignoring case and spacing, and flags names shared by several investors", () => {
+    expect(matchInvestor(" ada  LOVELACE ", "", investors)).toMatchObject({ status: "matched", by: "name" });
+    expect(matchInvestor("Jane Smith", "", investors)).toMatchObject({ status: "ambiguous" });
+    expect(matchInvestor("Nobody", "ADM-999", investors)).toEqual({ status: "unmatched" });
+  });
+});
+
+describe("buildFlowImportPreview", () => {
+  it("reads administrator wording and negative redemptions", () => {
+    const rows = preview([
+      ["2024-03-01", "Ada Lovelace", null, "Subscription", "10,000.004"],
+      ["2024-03-05", null, "ADM-001", "RED", "(2,500)"],
+    ]);
+
+    expect(rows.map(row => row.values)).toEqual([
+      { investor_id: "ada", investor_name: "Ada Lovelace", date: "2024-03-01", type: "contribution", amount: 10_000 },
+      { investor_id: "ada", investor_name: "Ada Lovelace", date: "2024-03-05", type: "withdrawal", amount: 2_500 },
+    ]);
+    expect(rows.map(row => row.errors)).toEqual([[], []]);
+  });
+
+  it("reports every problem with a row", () => {
+    const rows = preview([
+      [null, null, null, null, null],
+      ["yesterday", "Jane Smith", null, "transfer", "-5"],
+      ["2024-03-01", "Nobody", null, "deposit", "abc"],
+    ]);
+
+    expect(rows.map(row => row.errors)).toEqual([
+      ["Investor is missing", "Date is missing", "Type is missing", "Amount is missing"],
+      ["2 investors are named Jane Smith; choose one", "Date is not a valid date", 'Type "transfer" is not a contribution or withdrawal', "Amount must be positive"],
+      ["No investor matches Nobody; choose one", "Amount is not a number"],
+    ]);
+    expect(rows.every(row => row.values === null)).toBe(true);
+  });
+
+  it("applies manual matches to every row naming the investor the same way", () => {
+    const rows = preview(
+      [
+        ["2024-03-01", "Jane Smith", null, "sub", "100"],
+        ["2024-03-02", "jane smith", null, "sub", "200"],
+      ],
+      [],
+      { [manualMatchKey("Jane Smith")]: "jane-2" }
+    );
+
+    expect(rows.map(row => row.match)).toEqual([
+      expect.objectContaining({ status: "matched", by: "manual", investor: expect.objectContaining({ id: "jane-2" }) }),
+      expect.objectContaining({ status: "matched", by: "manual", investor: expect.objectContaining({ id: "jane-2" }) }),
+    ]);
+  });
+
+  it("skips flows already in effect, and only flags repeats within the file", () => {
+    const reversed = makeCapitalFlow(2, "ada", "2024-03-02", 200);
+    const existing = [
+      makeCapitalFlow(1, "ada", "2024-03-01", 100),
+      reversed,
+      { ...makeCapitalFlow(3, "ada", "2024-03-02", 200, "withdrawal"), reverses_flow_id: reversed.id },
+    ];
+    const rows = buildFlowImportPreview(
+      {
+        headers,
+        rows: [
+          ["2024-03-01", "Ada Lovelace", null, "sub", "100"],
+          ["2024-03-02", "Ada Lovelace", null, "sub", "200"],
+          ["2024-03-02", "Ada Lovelace", null, "sub", "200"],
+        ],
+      },
+      mapping,
+      "yyyy-MM-dd",
+      investors,
+      existing
+    );
+
+    expect(rows.map(row => row.duplicateOf)).toEqual(["existing", null, "file"]);
+    expect(importableFlowRows(rows).map(row => row.date)).toEqual(["2024-03-02", "2024-03-02"]);
+  });
+});
@@ -0,0 +1,212 @@
+
+import { BackendError, CapitalFlow, FundScopedInsert, insertCapitalFlows, Investor } from "@/repositories";
+import { getFlowStatuses } from "@/services/capitalFlowService";
+import { rebuildUnitLedger } from "@/services/unitLedgerService";
+import {
+  ColumnMapping,
+  ImportDateFormat,
+  ImportField,
+  ImportTable,
+  mappedCell,
+  parseImportDate,
+  parseImportNumber,
+} from "@/utils/importUtils";
+
+export type FlowImportField = 'date' | 'investor_name' | 'external_id' | 'type' | 'amount';
+
+export const FLOW_IMPORT_FIELDS: ImportField<FlowImportField>[] = [
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'trade date', 'dealing date', 'value date'] },
+  { field: 'investor_name', label: 'Investor name', required: true, aliases: ['investor_name', 'investor', 'name', 'investor name', 'holder'] },
+  { field: 'external_id', label: 'Administrator ID', required: false, aliases: ['external_id', 'investor id', 'account', 'account number', 'holder id', 'id'] },
+  { field: 'type', label: 'Type', required: true, aliases: ['type', 'transaction type', 'flow type', 'transaction'] },
+  { field: 'amount', label: 'Amount', required: true, aliases: ['amount', 'value', 'gross amount', 'net amount'] },
+];
+
+export type FlowColumnMapping = ColumnMapping<FlowImportField>;
+
+type FlowType = 'contribution' | 'withdrawal';
+
+// Words administrators use for each type of capital flow
+const TYPE_ALIASES: Record<string, FlowType> = {
+  contribution: 'contribution',
+  subscription: 'contribution',
+  sub: 'contribution',
+  deposit: 'contribution',
+  withdrawal: 'withdrawal',
+  redemption: 'withdrawal',
+  red: 'withdrawal',
+};
+
+export type InvestorMatch =
+  | { status: 'matched'; investor: Investor; by: 'external_id' | 'name' | 'manual' }
+  | { status: 'ambiguous'; candidates: Investor[] }
+  | { status: 'unmatched' };
+
+export interface FlowImportRow {
+  rowNumber: number;
+  // The investor as named in the file, or their administrator ID
+  investorLabel: string;
+  match: InvestorMatch;
+  values: FundScopedInsert<"capital_flows"> | null;
+  errors: string[];
+  // Set when the flow is already in capital_flows, or earlier in the file.
+  // Flows already recorded are skipped; a repeat within the file is only
+  // flagged, as an investor can deal the same amount twice in a day.
+  duplicateOf: 'existing' | 'file' | null;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * The key a manual match is stored under, shared by every row naming the
+ * investor the same way
+ */
+export const manualMatchKey = (investorLabel: string) => normalizeName(investorLabel);
+
+/**
+ * Find the investor a row belongs to: by administrator ID when the file has
+ * one, otherwise by name
+ */
+export function matchInvestor(name: string, externalId: string, investors: Investor[]): InvestorMatch {
+  if (externalId) {
+    const investor = investors.find(
+      candidate => candidate.external_id?.trim().toLowerCase() === externalId.toLowerCase()
+    );
+    if (investor) return { status: 'matched', investor, by: 'external_id' };
+  }
+
+  const candidates = investors.filter(investor => normalizeName(investor.name) === normalizeName(name));
+  if (candidates.length === 1) return { status: 'matched', investor: candidates[0], by: 'name' };
+  if (candidates.length > 1) return { status: 'ambiguous', candidates };
+  return { status: 'unmatched' };
+}
+
+/**
+ * Parse, match and validate every row of an administrator report. Manual
+ * matches, investor ids keyed by manualMatchKey, take the place of ambiguous
+ * or missing ones.
+ */
+export function buildFlowImportPreview(
+  table: ImportTable,
+  mapping: FlowColumnMapping,
+  dateFormat: ImportDateFormat,
+  investors: Investor[],
+  existing: CapitalFlow[],
+  manualMatches: Record<string, string> = {}
+): FlowImportRow[] {
+  // Only flows still in effect can be duplicated; reversed ones were cancelled
+  const statuses = getFlowStatuses(existing);
+  const flowKey = (flow: Pick<CapitalFlow, 'investor_id' | 'date' | 'type' | 'amount'>) =>
+    [flow.investor_id, flow.date, flow.type, Number(flow.amount).toFixed(2)].join("|");
+  const existingKeys = new Set(
+    existing
+      .filter(flow => statuses[flow.id] === 'posted' || statuses[flow.id] === 'correction')
+      .map(flowKey)
+  );
+  const seenKeys = new Set<string>();
+
+  return table.rows.map((cells, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const text = (field: FlowImportField) => String(mappedCell(cells, mapping, field) ?? "").trim();
+
+    const name = text('investor_name');
+    const externalId = text('external_id');
+    const manual = investors.find(investor => investor.id === manualMatches[manualMatchKey(name || externalId)]);
+    const match: InvestorMatch = manual
+      ? { status: 'matched', investor: manual, by: 'manual' }
+      : matchInvestor(name, externalId, investors);
+
+    if (!name && !externalId) {
+      errors.push("Investor is missing");
+    } else if (match.status === 'ambiguous') {
+      errors.push(`${match.candidates.length} investors are named ${name}; choose one`);
+    } else if (match.status === 'unmatched') {
+      errors.push(`No investor matches ${name || externalId}; choose one`);
+    }
+
+    const date = parseImportDate(mappedCell(cells, mapping, 'date'), dateFormat);
+    if (!date) {
+      errors.push(text('date') ? "Date is not a valid date" : "Date is missing");
+    }
+
+    const rawType = text('type');
+    const type = TYPE_ALIASES[rawType.toLowerCase()];
+    if (!type) {
+      errors.push(rawType ? `Type "${rawType}" is not a contribution or withdrawal` : "Type is missing");
+    }
+
+    let amount = parseImportNumber(mappedCell(cells, mapping, 'amount'));
+    // Reports often show redemptions as negative amounts
+    if (amount !== null && amount < 0 && type === 'withdrawal') {
+      amount = -amount;
+    }
+    if (amount === null) {
+      errors.push("Amount is missing");
+    } else if (isNaN(amount)) {
+      errors.push("Amount is not a number");
+    } else if (amount <= 0) {
+      errors.push("Amount must be positive");
+    }
+
+    const values: FundScopedInsert<"capital_flows"> | null =
+      errors.length || match.status !== 'matched'
+        ? null
+        : {
+            investor_id: match.investor.id,
+            investor_name: match.investor.name,
+            date: date!,
+            type,
+            amount: Math.round(amount! * 100) / 100,
+          };
+
+    let duplicateOf: FlowImportRow['duplicateOf'] = null;
+    if (values) {
+      const key = flowKey(values);
+      if (existingKeys.has(key)) {
+        duplicateOf = 'existing';
+      } else if (seenKeys.has(key)) {
+        duplicateOf = 'file';
+      }
+      seenKeys.add(key);
+    }
+
+    return {
+      rowNumber,
+      investorLabel: name || externalId,
+      match,
+      values,
+      errors,
+      duplicateOf,
+    };
+  });
+}
+
+/**
+ * The rows that can be imported: valid, matched and not already recorded
+ */
+export function importableFlowRows(preview: FlowImportRow[]): FundScopedInsert<"capital_flows">[] {
+  return preview
+    .filter(row => row.values !== null && row.duplicateOf !== 'existing')
+    .map(row => row.values!);
+}
+
+/**
+ * Post imported capital flows in one statement, so either every flow is saved
+ * or none is, then deal them in the unit ledger
+ */
+export async function importCapitalFlows(
+  rows: FundScopedInsert<"capital_flows">[],
+  fileName: string
+): Promise<{ success: boolean; error?: BackendError; imported?: number; ledgerError?: BackendError }> {
+  const { error } = await insertCapitalFlows(rows, { reason: `Imported from ${fileName}` });
+
+  if (error) {
+    console.error("Error importing capital flows:", error);
+    return { success: false, error };
+  }
+
+  const rebuild = await rebuildUnitLedger();
+
+  return { success: true, imported: rows.length, ledgerError: rebuild.error };
+}
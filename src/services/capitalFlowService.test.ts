@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { getCorrectionChain, getFlowStatuses } from "@/services/capitalFlowService";
+import { makeCapitalFlow } from "@/test/fixtures";
+
+// A contribution corrected from 100k to 120k, then again to 110k. Each
+// correction reverses the flow it replaces and posts the new amount.
+const flows = [
+  makeCapitalFlow(1, "a", "2024-01-15", 100_000),
+  { ...makeCapitalFlow(2, "a", "2024-01-15", -100_000), reverses_flow_id: 1 },
+  { ...makeCapitalFlow(3, "a", "2024-01-15", 120_000), corrects_flow_id: 1 },
+  { ...makeCapitalFlow(4, "a", "2024-01-15", -120_000), reverses_flow_id: 3 },
+  { ...makeCapitalFlow(5, "a", "2024-01-15", 110_000), corrects_flow_id: 3 },
+  makeCapitalFlow(6, "b", "2024-02-10", 50_000, "withdrawal"),
+];
+
+describe("getFlowStatuses", () => {
+  it("marks a correction that was itself corrected as reversed", () => {
+    expect(getFlowStatuses(flows)).toEqual({
+      1: "reversed",
+      2: "reversal",
+      3: "reversed",
+      4: "reversal",
+      5: "correction",
+      6: "posted",
+    });
+  });
+});
+
+describe("getCorrectionChain", () => {
+  it("lists every version from the original to the latest correction", () => {
+    [1, 3, 5].forEach(id => {
+      expect(getCorrectionChain(id, flows).map(flow => flow.id)).toEqual([1, 3, 5]);
+    });
+  });
+
+  it("follows a reversal to the flow it reverses", () => {
+    expect(getCorrectionChain(4, flows).map(flow => flow.id)).toEqual([1, 3, 5]);
+  });
+
+  it("is just the flow for one never corrected", () => {
+    expect(getCorrectionChain(6, flows).map(flow => flow.id)).toEqual([6]);
+  });
+});
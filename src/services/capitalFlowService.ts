@@ -0,0 +1,128 @@
+
+import { BackendError, CapitalFlow, FundScopedInsert, insertCapitalFlows } from "@/repositories";
+import { rebuildUnitLedger } from "@/services/unitLedgerService";
+
+export type CapitalFlowStatus = 'posted' | 'reversed' | 'reversal' | 'correction';
+
+export interface CapitalFlowCorrection {
+  date: string;
+  amount: number;
+  type: 'contribution' | 'withdrawal';
+}
+
+/**
+ * The flow's effect on the investor's capital: contributions add, withdrawals
+ * subtract, and reversals (negative amounts) undo either
+ */
+export function signedFlowAmount(flow: Pick<CapitalFlow, 'type' | 'amount'>): number {
+  return flow.type === 'withdrawal' ? -Number(flow.amount) : Number(flow.amount);
+}
+
+/**
+ * Where each flow stands in its correction history, keyed by flow id
+ */
+export function getFlowStatuses(flows: CapitalFlow[]): Record<number, CapitalFlowStatus> {
+  const reversedIds = new Set(
+    flows.filter(flow => flow.reverses_flow_id !== null).map(flow => flow.reverses_flow_id)
+  );
+
+  const statuses: Record<number, CapitalFlowStatus> = {};
+  flows.forEach(flow => {
+    if (flow.reverses_flow_id !== null) {
+      statuses[flow.id] = 'reversal';
+    } else if (reversedIds.has(flow.id)) {
+      statuses[flow.id] = 'reversed';
+    } else if (flow.corrects_flow_id !== null) {
+      statuses[flow.id] = 'correction';
+    } else {
+      statuses[flow.id] = 'posted';
+    }
+  });
+  return statuses;
+}
+
+/**
+ * The versions of a flow, oldest first: following corrects_flow_id back to the
+ * flow as first entered and forward to its latest correction
+ */
+export function getCorrectionChain(flowId: number, flows: CapitalFlow[]): CapitalFlow[] {
+  const byId = new Map(flows.map(flow => [flow.id, flow]));
+  let root = byId.get(flowId);
+  if (root?.reverses_flow_id) {
+    root = byId.get(root.reverses_flow_id);
+  }
+
+  while (root?.corrects_flow_id && byId.has(root.corrects_flow_id)) {
+    root = byId.get(root.corrects_flow_id);
+  }
+
+  const chain: CapitalFlow[] = [];
+  let current = root;
+  while (current) {
+    chain.push(current);
+    const currentId = current.id;
+    current = flows.find(flow => flow.corrects_flow_id === currentId);
+  }
+  return chain;
+}
+
+/**
+ * The entry that reverses a flow, with the amount negated
+ */
+function reversingEntry(flow: CapitalFlow): FundScopedInsert<"capital_flows"> {
+  return {
+    investor_id: flow.investor_id,
+    investor_name: flow.investor_name,
+    date: flow.date,
+    amount: -Number(flow.amount),
+    type: flow.type,
+    reverses_flow_id: flow.id,
+  };
+}
+
+/**
+ * Reverse a capital flow by posting a linked entry that cancels it
+ */
+export async function reverseCapitalFlow(flow: CapitalFlow, reason: string): Promise<{ success: boolean; error?: BackendError; ledgerError?: BackendError }> {
+  const { error } = await insertCapitalFlows([reversingEntry(flow)], { reason });
+
+  if (error) {
+    console.error(`Error reversing capital flow ${flow.id}:`, error);
+    return { success: false, error };
+  }
+
+  // Cancel the units the flow issued or redeemed
+  const rebuild = await rebuildUnitLedger();
+
+  return { success: true, ledgerError: rebuild.error };
+}
+
+/**
+ * Correct a capital flow: reverse it and post the corrected flow, linked back
+ * to the one it replaces
+ */
+export async function correctCapitalFlow(
+  flow: CapitalFlow,
+  correction: CapitalFlowCorrection,
+  reason: string
+): Promise<{ success: boolean; error?: BackendError; ledgerError?: BackendError }> {
+  const { error } = await insertCapitalFlows([
+    reversingEntry(flow),
+    {
+      investor_id: flow.investor_id,
+      investor_name: flow.investor_name,
+      ...correction,
+      corrects_flow_id: flow.id,
+    },
+  ], { reason });
+
+  if (error) {
+    console.error(`Error correcting capital flow ${flow.id}:`, error);
+    return { success: false, error };
+  }
+
+  // Deal the corrected flow in place of the original
+  const rebuild = await rebuildUnitLedger();
+
+  return { success: true, ledgerError: rebuild.error };
+}
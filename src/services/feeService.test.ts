@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateIncentiveFee,
+  DAYS_IN_YEAR,
+  IncentiveFeeTerms,
+  isCrystallizationPeriodEnd,
+  managementFeeCalculator,
+  managementFeeTotals,
+  performanceFeeCalculator,
+} from "@/services/feeService";
+import { buildUnitLedger, MonthDealing } from "@/services/unitLedgerService";
+import { makeDealingFlow, makeInvestor, makeNav } from "@/test/fixtures";
+
+const february = (patch: Partial<MonthDealing> = {}): MonthDealing => ({
+  nav: makeNav(2, "2024-02-29", 1_000_000),
+  periodStart: new Date("2024-01-31"),
+  periodEnd: new Date("2024-02-29"),
+  openingNavPerUnit: 1_000,
+  holdings: {},
+  flows: [],
+  ...patch,
+});
+
+describe("managementFeeCalculator", () => {
+  const calculator = managementFeeCalculator([
+    makeInvestor("a", { mgmt_fee_rate: 2 }),
+    makeInvestor("b", { mgmt_fee_rate: 1 }),
+    makeInvestor("free"),
+  ]);
+
+  it("charges the annual rate on opening capital for the days in the period", () => {
+    const [fee] = calculator(february({ holdings: { a: 1_000 } }));
+
+    expect(fee).toMatchObject({
+      investor_id: "a",
+      fee_type: "management",
+      period_start: "2024-01-31",
+      period_end: "2024-02-29",
+      days: 29,
+      fee_basis: 1_000_000,
+    });
+    expect(fee.amount).toBeCloseTo(0.02 * 1_000_000 * 29 / DAYS_IN_YEAR);
+  });
+
+  it("only charges a mid-month subscription for the days it was invested", () => {
+    const [fee] = calculator(february({ flows: [makeDealingFlow("b", "2024-02-20", 365_000)] }));
+
+    // Invested for 20–29 February, both included
+    expect(fee.amount).toBeCloseTo(0.01 * 365_000 * 10 / DAYS_IN_YEAR);
+    expect(fee.fee_basis).toBeCloseTo(365_000 * 10 / 29);
+  });
+
+  it("charges nothing to investors without a rate", () => {
+    expect(calculator(february({ holdings: { free: 1_000 } }))).toEqual([]);
+  });
+});
+
+describe("management fees in the unit ledger", () => {
+  it("redeems units for the fee and rolls it up onto the month's NAV", () => {
+    const navHistory = [makeNav(1, "2024-01-31", 1_000_000), makeNav(2, "2024-02-29", 1_000_000)];
+    const { navPerUnit, fees } = buildUnitLedger(
+      navHistory,
+      [makeDealingFlow("a", "2024-01-31", 1_000_000)],
+      [managementFeeCalculator([makeInvestor("a", { mgmt_fee_rate: 2 })])]
+    );
+    const charged = fees.filter(fee => fee.period_end === "2024-02-29");
+
+    expect(charged).toHaveLength(1);
+    const [fee] = charged;
+    // The NAV is reported net of the fee, so the price is struck gross of it
+    expect(fee.nav_per_unit).toBeCloseTo((1_000_000 + fee.amount) / navPerUnit[0].units_outstanding);
+    expect(fee.units).toBeCloseTo(fee.amount / fee.nav_per_unit);
+    expect(navPerUnit[1].units_outstanding * navPerUnit[1].nav_per_unit).toBeCloseTo(1_000_000, 4);
+
+    const rounded = (amount: number) => Math.round(amount * 100) / 100;
+    const [launchFee] = fees.filter(item => item.period_end === "2024-01-31");
+    expect(managementFeeTotals(navHistory, fees)).toEqual([
+      { id: 1, management_fees: rounded(launchFee.amount) },
+      { id: 2, management_fees: rounded(fee.amount) },
+    ]);
+  });
+});
+
+describe("performance fees against high-water marks", () => {
+  // 1,000 units issued at 1,000 in January
+  const launch = [makeNav(1, "2024-01-31", 1_000_000)];
+  const subscription = makeDealingFlow("a", "2024-01-31", 1_000_000);
+  const investor = makeInvestor("a", { performance_fee_rate: 20, crystallization_frequency: "monthly" });
+
+  it("strikes the price gross of the fee it accrues", () => {
+    // Reported net of the 20% fee on a 100-per-unit gain
+    const { navPerUnit, highWaterMarks, fees } = buildUnitLedger(
+      [...launch, makeNav(2, "2024-02-29", 1_080_000)],
+      [subscription],
+      [],
+      performanceFeeCalculator([investor], [])
+    );
+
+    expect(navPerUnit[1].nav_per_unit).toBeCloseTo(1_100);
+    expect(highWaterMarks[1]).toMatchObject({ investor_id: "a", high_water_mark: 1_000, crystallized_fee: 0 });
+    expect(highWaterMarks[1].gross_gain).toBeCloseTo(100_000);
+    expect(highWaterMarks[1].accrued_fee).toBeCloseTo(20_000);
+    expect(fees).toEqual([]);
+  });
+
+  it("crystallizes at a run, resets the mark and charges nothing below it", () => {
+    const { navPerUnit, highWaterMarks, fees } = buildUnitLedger(
+      [...launch, makeNav(2, "2024-02-29", 1_080_000), makeNav(3, "2024-03-31", 1_000_000)],
+      [subscription],
+      [],
+      performanceFeeCalculator([investor], ["2024-02-29"])
+    );
+
+    expect(fees).toHaveLength(1);
+    expect(fees[0]).toMatchObject({ fee_type: "performance", period_end: "2024-02-29" });
+    expect(fees[0].amount).toBeCloseTo(20_000);
+    expect(fees[0].units).toBeCloseTo(20_000 / 1_100);
+    expect(navPerUnit[1].units_outstanding * navPerUnit[1].nav_per_unit).toBeCloseTo(1_080_000, 4);
+
+    expect(highWaterMarks[1].high_water_mark).toBeCloseTo(1_100);
+    expect(highWaterMarks[2].high_water_mark).toBeCloseTo(1_100);
+    expect(highWaterMarks[2].accrued_fee).toBe(0);
+  });
+
+  it("crystallizes the fee on redeemed units pro rata", () => {
+    const annual = makeInvestor("a", { performance_fee_rate: 20 });
+    // 550k (500 units at 1,100) paid out; the fee accrued on them is paid too
+    const { fees, highWaterMarks, navPerUnit } = buildUnitLedger(
+      [...launch, makeNav(2, "2024-02-29", 530_000)],
+      [subscription, makeDealingFlow("a", "2024-02-15", 550_000, "redemption")],
+      [],
+      performanceFeeCalculator([annual], [])
+    );
+
+    expect(fees).toHaveLength(1);
+    expect(fees[0].amount).toBeCloseTo(10_000);
+    expect(fees[0].fee_basis).toBeCloseTo(50_000);
+    expect(highWaterMarks[1].accrued_fee).toBeCloseTo(10_000);
+    expect(navPerUnit[1].nav_per_unit).toBeCloseTo(1_100);
+  });
+
+  it("blends the mark with units subscribed above it", () => {
+    const { highWaterMarks } = buildUnitLedger(
+      [...launch, makeNav(2, "2024-02-29", 1_190_000)],
+      [subscription, makeDealingFlow("a", "2024-02-10", 110_000)],
+      [],
+      performanceFeeCalculator([makeInvestor("a", { performance_fee_rate: 20 })], [])
+    );
+
+    // 1,000 units marked at 1,000 and 100 new units at 1,100
+    expect(highWaterMarks[1].high_water_mark).toBeCloseTo((1_000 * 1_000 + 100 * 1_100) / 1_100);
+  });
+});
+
+describe("isCrystallizationPeriodEnd", () => {
+  it("closes quarters and years on the fiscal year end", () => {
+    expect(isCrystallizationPeriodEnd(new Date("2024-12-31"), "annual")).toBe(true);
+    expect(isCrystallizationPeriodEnd(new Date("2024-12-31"), "annual", 6)).toBe(false);
+    expect(isCrystallizationPeriodEnd(new Date("2024-06-30"), "annual", 6)).toBe(true);
+    expect(isCrystallizationPeriodEnd(new Date("2024-03-31"), "quarterly")).toBe(true);
+    expect(isCrystallizationPeriodEnd(new Date("2024-03-31"), "quarterly", 1)).toBe(false);
+    expect(isCrystallizationPeriodEnd(new Date("2024-04-30"), "quarterly", 1)).toBe(true);
+  });
+});
+
+describe("calculateIncentiveFee", () => {
+  const terms = (patch: Partial<IncentiveFeeTerms>): IncentiveFeeTerms => ({
+    rate: 20,
+    frequency: "annual",
+    hurdleType: "none",
+    hurdleRate: 0,
+    hurdleBenchmark: null,
+    catchUpRate: 100,
+    ...patch,
+  });
+
+  // Marked at 1,000 with the hurdle grown to 1,050, priced at 1,100
+  const feeFor = (patch: Partial<IncentiveFeeTerms>, navPerUnit = 1_100) =>
+    calculateIncentiveFee(terms(patch), 1_000, 1_050, navPerUnit, 1_000);
+
+  it("charges the rate on the whole gain without a hurdle", () => {
+    expect(feeFor({})).toEqual({ grossGain: 100_000, hurdleAmount: 0, fee: 20_000 });
+  });
+
+  it("charges a hard hurdle's fee on the gain above it only", () => {
+    expect(feeFor({ hurdleType: "hard" })).toEqual({ grossGain: 100_000, hurdleAmount: 50_000, fee: 10_000 });
+  });
+
+  it("catches a soft hurdle up to the full fee", () => {
+    expect(feeFor({ hurdleType: "soft" }).fee).toBe(20_000);
+    // 30% of the 50,000 above the hurdle, still short of 20% of the whole gain
+    expect(feeFor({ hurdleType: "soft", catchUpRate: 30 }).fee).toBeCloseTo(15_000);
+  });
+
+  it("charges nothing until a soft hurdle is cleared", () => {
+    expect(feeFor({ hurdleType: "soft" }, 1_040).fee).toBe(0);
+  });
+});
+
+describe("benchmark hurdles", () => {
+  it("grows the hurdle by the benchmark's return for the NAV's calendar month", () => {
+    const investor = makeInvestor("a", { performance_fee_rate: 20, hurdle_type: "hard", hurdle_benchmark: "Index" });
+    // The March NAV is struck on the last business day; the index is keyed by month end
+    const { highWaterMarks } = buildUnitLedger(
+      [makeNav(1, "2024-02-29", 1_000_000), makeNav(2, "2024-03-28", 1_090_000)],
+      [makeDealingFlow("a", "2024-02-29", 1_000_000)],
+      [],
+      performanceFeeCalculator([investor], [], { Index: { "2024-03-31": 0.05 } })
+    );
+
+    expect(highWaterMarks[1].nav_per_unit).toBeCloseTo(1_100);
+    expect(highWaterMarks[1].hurdle_nav_per_unit).toBeCloseTo(1_050);
+    expect(highWaterMarks[1].hurdle_amount).toBeCloseTo(50_000);
+    expect(highWaterMarks[1].accrued_fee).toBeCloseTo(10_000);
+  });
+});
@@ -0,0 +1,502 @@
+
+import { Tables } from "@/integrations/supabase/types";
+import {
+  BackendError,
+  getBackend,
+  getLatestNav,
+  inCurrentFund,
+  Investor,
+  MonthlyNav,
+  selectInFund,
+} from "@/repositories";
+import { monthEndOf } from "@/services/benchmarkService";
+import {
+  FeeCalculator,
+  FeePosting,
+  HighWaterMarkPosting,
+  IncentiveFeeCalculator,
+  MonthDealing,
+  rebuildUnitLedger,
+} from "@/services/unitLedgerService";
+
+export type FeeTransaction = Tables<"fee_transactions">;
+export type HighWaterMark = Tables<"high_water_marks">;
+export type CrystallizationFrequency = 'monthly' | 'quarterly' | 'annual';
+
+// Management fees accrue on an actual/365 day count
+export const DAYS_IN_YEAR = 365;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Days between two dates, with the start date excluded
+ */
+function daysBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+function toISODate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Management fee calculator for the unit ledger.
+ *
+ * Each investor is charged mgmt_fee_rate (an annual %) on their day-weighted
+ * capital for the month: the opening value of their units for every day of the
+ * period, plus each subscription or redemption for the days from its date to
+ * month end. An investor who joins mid-month is therefore only charged for the
+ * days they were invested.
+ */
+export function managementFeeCalculator(investors: Investor[]): FeeCalculator {
+  const rates: Record<string, number> = {};
+  investors.forEach(investor => {
+    rates[investor.id] = Number(investor.mgmt_fee_rate);
+  });
+
+  return ({ periodStart, periodEnd, openingNavPerUnit, holdings, flows }) => {
+    const periodDays = daysBetween(periodStart, periodEnd);
+    if (periodDays <= 0) return [];
+
+    // Day-weighted capital per investor ($ × days)
+    const capitalDays: Record<string, number> = {};
+
+    for (const [investorId, units] of Object.entries(holdings)) {
+      capitalDays[investorId] = units * openingNavPerUnit * periodDays;
+    }
+
+    for (const flow of flows) {
+      const daysInvested = Math.min(
+        periodDays,
+        Math.max(0, daysBetween(new Date(flow.date), periodEnd) + 1)
+      );
+      const signedAmount = flow.type === 'subscription' ? flow.amount : -flow.amount;
+      capitalDays[flow.investor_id] = (capitalDays[flow.investor_id] ?? 0) + signedAmount * daysInvested;
+    }
+
+    const fees: FeePosting[] = [];
+
+    for (const [investorId, weightedCapital] of Object.entries(capitalDays)) {
+      const rate = rates[investorId] ?? 0;
+      if (rate <= 0 || weightedCapital <= 0) continue;
+
+      fees.push({
+        investor_id: investorId,
+        fee_type: 'management',
+        period_start: toISODate(periodStart),
+        period_end: toISODate(periodEnd),
+        rate,
+        fee_basis: weightedCapital / periodDays,
+        days: periodDays,
+        amount: (rate / 100) * weightedCapital / DAYS_IN_YEAR,
+      });
+    }
+
+    return fees;
+  };
+}
+
+/**
+ * Whether a month end closes a crystallization period of the given frequency,
+ * with quarters and years counted from the fund's fiscal year end (1-12)
+ */
+export function isCrystallizationPeriodEnd(monthEnd: Date, frequency: string, fiscalYearEndMonth = 12): boolean {
+  const monthsAfterYearEnd = (monthEnd.getUTCMonth() - (fiscalYearEndMonth - 1) + 12) % 12;
+  switch (frequency) {
+    case 'monthly':
+      return true;
+    case 'quarterly':
+      return monthsAfterYearEnd % 3 === 0;
+    case 'annual':
+    default:
+      return monthsAfterYearEnd === 0;
+  }
+}
+
+export type HurdleType = 'none' | 'hard' | 'soft';
+
+export interface IncentiveFeeTerms {
+  // Performance fee rate, %
+  rate: number;
+  frequency: string;
+  hurdleType: string;
+  // Annual hurdle rate, % (a spread over the benchmark when there is one)
+  hurdleRate: number;
+  hurdleBenchmark: string | null;
+  // Share of the gain above a soft hurdle paid as fee until caught up, %
+  catchUpRate: number;
+}
+
+export interface IncentiveFeeBreakdown {
+  grossGain: number;
+  hurdleAmount: number;
+  fee: number;
+}
+
+/**
+ * Read an investor's performance fee terms
+ */
+export function incentiveFeeTerms(investor: Investor): IncentiveFeeTerms {
+  return {
+    rate: Number(investor.performance_fee_rate),
+    frequency: investor.crystallization_frequency,
+    hurdleType: investor.hurdle_type,
+    hurdleRate: Number(investor.hurdle_rate),
+    hurdleBenchmark: investor.hurdle_benchmark,
+    catchUpRate: Number(investor.catch_up_rate),
+  };
+}
+
+/**
+ * Work out the performance fee on a holding.
+ *
+ * The gross gain is the rise of the NAV per unit above the high-water mark, and
+ * the hurdle amount is how far the hurdle has grown above the mark. With no
+ * hurdle the fee is rate × gross gain. A hard hurdle only charges the fee on
+ * the gain above the hurdle. A soft hurdle charges nothing until the hurdle is
+ * cleared, then pays catch_up_rate of the gain above it as fee until the fee
+ * reaches rate × gross gain (100% is a full catch-up).
+ */
+export function calculateIncentiveFee(
+  terms: IncentiveFeeTerms,
+  highWaterMark: number,
+  hurdleNavPerUnit: number,
+  navPerUnit: number,
+  units: number
+): IncentiveFeeBreakdown {
+  const grossGain = Math.max(0, navPerUnit - highWaterMark) * units;
+  const hurdleAmount = terms.hurdleType === 'none'
+    ? 0
+    : Math.max(0, hurdleNavPerUnit - highWaterMark) * units;
+  const excessGain = Math.max(0, grossGain - hurdleAmount);
+  const rate = terms.rate / 100;
+
+  let fee: number;
+  switch (terms.hurdleType) {
+    case 'hard':
+      fee = rate * excessGain;
+      break;
+    case 'soft':
+      fee = Math.min(rate * grossGain, (terms.catchUpRate / 100) * excessGain);
+      break;
+    default:
+      fee = rate * grossGain;
+  }
+
+  return { grossGain, hurdleAmount, fee: Math.max(0, fee) };
+}
+
+/**
+ * Performance fee calculator for the unit ledger.
+ *
+ * Each investor carries a high-water mark per unit: the price their units were
+ * issued at, blended as they subscribe, and reset to the NAV per unit whenever
+ * a fee crystallizes above it. Alongside it runs a hurdle level per unit, which
+ * starts at the mark and compounds at the hurdle rate (plus the benchmark's
+ * monthly return when the hurdle is tied to one). Every month the fee accrues
+ * on the investor's opening units as worked out by calculateIncentiveFee. It
+ * crystallizes (is posted and redeems units) when a crystallization run has
+ * been made for a month end that closes the investor's period, and pro rata on
+ * any units the investor redeems.
+ *
+ * benchmarkReturns maps a benchmark name to its monthly returns by month end;
+ * a month without a return only grows the hurdle by the spread. Quarterly and
+ * annual periods close on the fund's fiscal quarter and year ends.
+ */
+export function performanceFeeCalculator(
+  investors: Investor[],
+  crystallizationDates: string[],
+  benchmarkReturns: Record<string, Record<string, number>> = {},
+  fiscalYearEndMonth = 12
+): IncentiveFeeCalculator {
+  const runs = new Set(crystallizationDates);
+  const terms: Record<string, IncentiveFeeTerms> = {};
+  investors.forEach(investor => {
+    terms[investor.id] = incentiveFeeTerms(investor);
+  });
+
+  const marks: Record<string, number> = {};
+  const hurdles: Record<string, number> = {};
+  const periodStarts: Record<string, string> = {};
+
+  // The investor's hurdle level per unit at this month end
+  const hurdleFor = (investorId: string, { nav, periodStart, periodEnd }: MonthDealing) => {
+    const investorTerms = terms[investorId];
+    const hurdle = hurdles[investorId];
+    if (!investorTerms || hurdle === undefined || investorTerms.hurdleType === 'none') return hurdle;
+
+    // Benchmark returns are keyed by calendar month end, which a NAV date
+    // (e.g. the last business day) need not be
+    const benchmarkReturn = investorTerms.hurdleBenchmark
+      ? benchmarkReturns[investorTerms.hurdleBenchmark]?.[monthEndOf(nav.month_end_date)] ?? 0
+      : 0;
+    const years = daysBetween(periodStart, periodEnd) / DAYS_IN_YEAR;
+    return hurdle * (1 + benchmarkReturn) * Math.pow(1 + investorTerms.hurdleRate / 100, years);
+  };
+
+  const breakdownFor = (investorId: string, month: MonthDealing, units: number, navPerUnit: number) => {
+    const investorTerms = terms[investorId];
+    const mark = marks[investorId];
+    if (!investorTerms || investorTerms.rate <= 0 || mark === undefined || units <= 0) {
+      return { grossGain: 0, hurdleAmount: 0, fee: 0 };
+    }
+    return calculateIncentiveFee(investorTerms, mark, hurdleFor(investorId, month), navPerUnit, units);
+  };
+
+  return {
+    accrue: (month: MonthDealing, navPerUnit: number) =>
+      Object.entries(month.holdings).reduce(
+        (sum, [investorId, units]) => sum + breakdownFor(investorId, month, units, navPerUnit).fee,
+        0
+      ),
+
+    settle: (month: MonthDealing, navPerUnit: number, redeemedUnits) => {
+      const { nav, periodEnd, holdings, flows } = month;
+      const postings: FeePosting[] = [];
+      const monthMarks: ReturnType<IncentiveFeeCalculator["settle"]>["marks"] = [];
+      const isRun = runs.has(nav.month_end_date);
+
+      const subscribedUnits: Record<string, number> = {};
+      flows
+        .filter(flow => flow.type === 'subscription')
+        .forEach(flow => {
+          subscribedUnits[flow.investor_id] = (subscribedUnits[flow.investor_id] ?? 0) + flow.amount / navPerUnit;
+        });
+
+      const investorIds = new Set([...Object.keys(holdings), ...Object.keys(subscribedUnits)]);
+
+      for (const investorId of investorIds) {
+        const openingUnits = Math.max(0, holdings[investorId] ?? 0);
+        const newUnits = subscribedUnits[investorId] ?? 0;
+        const breakdown = breakdownFor(investorId, month, openingUnits, navPerUnit);
+        const redeemedFraction = openingUnits > 0
+          ? Math.min(1, (redeemedUnits[investorId] ?? 0) / openingUnits)
+          : 0;
+
+        const crystallizes = isRun && isCrystallizationPeriodEnd(periodEnd, terms[investorId]?.frequency, fiscalYearEndMonth);
+        const crystallizedFraction = crystallizes ? 1 : redeemedFraction;
+        const crystallized = breakdown.fee * crystallizedFraction;
+        const outstanding = breakdown.fee - crystallized;
+
+        if (crystallized > 0) {
+          postings.push({
+            investor_id: investorId,
+            fee_type: 'performance',
+            period_start: periodStarts[investorId] ?? nav.month_end_date,
+            period_end: nav.month_end_date,
+            rate: terms[investorId]?.rate ?? 0,
+            // Gross gain above the mark on the units the fee crystallizes for
+            fee_basis: breakdown.grossGain * crystallizedFraction,
+            days: daysBetween(new Date(periodStarts[investorId] ?? nav.month_end_date), periodEnd),
+            amount: crystallized,
+          });
+        }
+
+        // Reset the mark and restart the hurdle on crystallization, then blend
+        // in newly issued units
+        let mark = marks[investorId] ?? navPerUnit;
+        let hurdle = hurdleFor(investorId, month) ?? mark;
+        if (crystallizes) {
+          mark = Math.max(mark, navPerUnit);
+          hurdle = mark;
+          periodStarts[investorId] = nav.month_end_date;
+        }
+        const remainingUnits = Math.max(0, openingUnits - (redeemedUnits[investorId] ?? 0));
+        if (remainingUnits + newUnits > 0) {
+          mark = (remainingUnits * mark + newUnits * navPerUnit) / (remainingUnits + newUnits);
+          hurdle = (remainingUnits * hurdle + newUnits * navPerUnit) / (remainingUnits + newUnits);
+        }
+        marks[investorId] = mark;
+        hurdles[investorId] = hurdle;
+        if (!periodStarts[investorId]) {
+          periodStarts[investorId] = nav.month_end_date;
+        }
+
+        monthMarks.push({
+          investor_id: investorId,
+          month_end_date: nav.month_end_date,
+          high_water_mark: mark,
+          hurdle_nav_per_unit: hurdle,
+          nav_per_unit: navPerUnit,
+          gross_gain: breakdown.grossGain,
+          hurdle_amount: breakdown.hurdleAmount,
+          accrued_fee: outstanding,
+          crystallized_fee: crystallized,
+        });
+      }
+
+      return { postings, marks: monthMarks };
+    },
+  };
+}
+
+/**
+ * Roll the management fee postings up to each month's total, to be written
+ * to monthly_nav.management_fees so the fund-level figure always equals the
+ * sum charged to investors
+ */
+export function managementFeeTotals(
+  navHistory: MonthlyNav[],
+  fees: FeePosting[]
+): { id: number; management_fees: number }[] {
+  const totals: Record<string, number> = {};
+  fees
+    .filter(fee => fee.fee_type === 'management')
+    .forEach(fee => {
+      totals[fee.period_end] = (totals[fee.period_end] ?? 0) + fee.amount;
+    });
+
+  return navHistory.map(nav => ({
+    id: nav.id,
+    management_fees: Math.round((totals[nav.month_end_date] ?? 0) * 100) / 100,
+  }));
+}
+
+/**
+ * Fetch the current fund's fee postings, optionally for a single investor,
+ * ordered by period
+ */
+export async function getFeeTransactions(investorId?: string): Promise<FeeTransaction[]> {
+  const { data, error } = await selectInFund("fee_transactions", {
+    filters: investorId ? [{ column: "investor_id", operator: "eq", value: investorId }] : [],
+    order: [
+      { column: "period_end", ascending: true },
+      { column: "id", ascending: true },
+    ],
+  });
+
+  if (error) {
+    console.error("Error fetching fee transactions:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch the current fund's high-water marks as of a month end, optionally for
+ * a single investor
+ */
+export async function getHighWaterMarks(monthEndDate: string, investorId?: string): Promise<HighWaterMark[]> {
+  const { data, error } = await selectInFund("high_water_marks", {
+    filters: [
+      { column: "month_end_date", operator: "eq", value: monthEndDate },
+      ...(investorId ? [{ column: "investor_id" as const, operator: "eq" as const, value: investorId }] : []),
+    ],
+  });
+
+  if (error) {
+    console.error("Error fetching high-water marks:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch an investor's high-water marks for every month, ordered by date
+ */
+export async function getHighWaterMarkHistory(investorId: string): Promise<HighWaterMark[]> {
+  const { data, error } = await getBackend().select("high_water_marks", {
+    filters: [{ column: "investor_id", operator: "eq", value: investorId }],
+    order: [{ column: "month_end_date", ascending: true }],
+  });
+
+  if (error) {
+    console.error("Error fetching high-water mark history:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch the month ends the current fund's (or the given fund's) performance
+ * fees have been crystallized at
+ */
+export async function getCrystallizationDates(fundId?: number): Promise<string[]> {
+  const { data, error } = await selectInFund("performance_fee_crystallizations", {
+    order: [{ column: "crystallization_date", ascending: true }],
+  }, fundId);
+
+  if (error) {
+    console.error("Error fetching crystallization dates:", error);
+    return [];
+  }
+
+  return data.map(row => row.crystallization_date);
+}
+
+/**
+ * Crystallize performance fees at the latest NAV month end: record the run,
+ * then rebuild the ledger so the accrued fees of every investor whose period
+ * closes that month are posted and their high-water marks reset
+ */
+export async function runCrystallization(): Promise<{
+  success: boolean;
+  error?: BackendError;
+  date?: string;
+  totalFees?: number;
+}> {
+  const latestNav = await getLatestNav();
+
+  if (!latestNav) {
+    return { success: false, error: new Error("No NAV has been published to crystallize at") };
+  }
+
+  const date = latestNav.month_end_date;
+  const run = inCurrentFund<"performance_fee_crystallizations">([{ crystallization_date: date }]);
+  if (run.error) return { success: false, error: run.error };
+
+  const { error } = await getBackend().upsert(
+    "performance_fee_crystallizations",
+    run.data,
+    ["fund_id", "crystallization_date"]
+  );
+
+  if (error) {
+    console.error("Error recording crystallization run:", error);
+    return { success: false, error };
+  }
+
+  const result = await rebuildUnitLedger();
+  if (!result.success) return result;
+
+  const { data: posted, error: feesError } = await selectInFund("fee_transactions", {
+    filters: [
+      { column: "fee_type", operator: "eq", value: "performance" },
+      { column: "period_end", operator: "eq", value: date },
+    ],
+  });
+
+  if (feesError) {
+    console.error("Error fetching crystallized fees:", feesError);
+    return { success: false, error: feesError };
+  }
+
+  return {
+    success: true,
+    date,
+    totalFees: posted.reduce((sum, fee) => sum + Number(fee.amount), 0),
+  };
+}
+
+/**
+ * Sum fee postings by fee type
+ */
+export function summarizeFees(fees: FeeTransaction[]): { management: number; performance: number } {
+  return fees.reduce(
+    (totals, fee) => {
+      if (fee.fee_type === 'management') {
+        totals.management += Number(fee.amount);
+      } else if (fee.fee_type === 'performance') {
+        totals.performance += Number(fee.amount);
+      }
+      return totals;
+    },
+    { management: 0, performance: 0 }
+  );
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { consolidateNav } from "@/services/fundService";
+import { makeNav } from "@/test/fixtures";
+
+describe("consolidateNav", () => {
+  // Fund 1 strikes March on the last business day, fund 2 a day later
+  const navData = [
+    makeNav(1, "2024-01-31", 1_000_000),
+    makeNav(2, "2024-02-29", 1_100_000, { monthly_return: 10, aum_change: 100_000 }),
+    makeNav(3, "2024-03-28", 1_210_000, { monthly_return: 10 }),
+    makeNav(4, "2024-01-31", 500_000, { fund_id: 2 }),
+    makeNav(5, "2024-02-29", 490_000, { fund_id: 2, monthly_return: -2, aum_change: -10_000 }),
+    makeNav(6, "2024-03-29", 539_000, { fund_id: 2, monthly_return: 10, aum_change: 49_000 }),
+  ];
+
+  it("weights shared month ends by each fund's previous NAV", () => {
+    const [january, february] = consolidateNav(navData);
+
+    expect(january).toEqual({ month_end_date: "2024-01-31", total_nav: 1_500_000, monthly_return: null, aum_change: null });
+    // (1m × 10% + 500k × -2%) / 1.5m
+    expect(february).toMatchObject({ month_end_date: "2024-02-29", total_nav: 1_590_000, aum_change: 90_000 });
+    expect(february.monthly_return).toBeCloseTo(6);
+  });
+
+  it("carries a fund's latest NAV to month ends it has no row for", () => {
+    const [, , firstMarch, secondMarch] = consolidateNav(navData);
+
+    // Fund 2 is still at its February NAV on the 28th
+    expect(firstMarch).toEqual({ month_end_date: "2024-03-28", total_nav: 1_700_000, monthly_return: 10, aum_change: null });
+    // Fund 1's NAV is carried to the 29th; only fund 2's return and AUM change are new
+    expect(secondMarch).toEqual({ month_end_date: "2024-03-29", total_nav: 1_749_000, monthly_return: 10, aum_change: 49_000 });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  BackendError,
+  Fund,
+  getDataMode,
+  insertFund,
+  MonthlyNav,
+  updateFund,
+} from "@/repositories";
+import { getFundSettings } from "@/services/settingsService";
+
+export type ConsolidatedNav = Pick<MonthlyNav, 'month_end_date' | 'total_nav' | 'monthly_return' | 'aum_change'>;
+
+export const FUNDS_OFFLINE_ERROR = { message: "Funds can only be changed while online" };
+
+/**
+ * Create a fund, returning it so it can be switched to
+ */
+export async function createFund(name: string): Promise<{ success: boolean; error?: BackendError; fund?: Fund }> {
+  if (getDataMode() === 'offline') return { success: false, error: FUNDS_OFFLINE_ERROR };
+
+  const { data, error } = await insertFund({ name: name.trim() }, { reason: "Fund created" });
+
+  if (error) {
+    console.error("Error creating fund:", error);
+    return { success: false, error };
+  }
+
+  return { success: true, fund: data[0] };
+}
+
+/**
+ * Rename a fund
+ */
+export async function renameFund(id: number, name: string): Promise<{ success: boolean; error?: BackendError }> {
+  if (getDataMode() === 'offline') return { success: false, error: FUNDS_OFFLINE_ERROR };
+
+  const { error } = await updateFund(id, { name: name.trim() }, { reason: "Fund renamed" });
+
+  if (error) {
+    console.error("Error renaming fund:", error);
+    return { success: false, error };
+  }
+
+  return { success: true };
+}
+
+/**
+ * The base currency every fund shares, or null when their currencies differ
+ * and their NAVs can't be added up without converting
+ */
+export async function getSharedBaseCurrency(funds: Fund[]): Promise<string | null> {
+  const settings = await Promise.all(funds.map(fund => getFundSettings(fund.id)));
+  const currencies = new Set(settings.map(fundSettings => fundSettings.base_currency));
+  return currencies.size === 1 ? [...currencies][0] : null;
+}
+
+/**
+ * Combine every fund's NAV history into one series. Each month end sums every
+ * fund's latest NAV at or before it; the monthly return is the funds' returns
+ * weighted by their previous NAV, and AUM changes are added up. The funds
+ * must share a base currency (see getSharedBaseCurrency).
+ */
+export function consolidateNav(navData: MonthlyNav[]): ConsolidatedNav[] {
+  const byFund = new Map<number, MonthlyNav[]>();
+  navData.forEach(nav => byFund.set(nav.fund_id, [...(byFund.get(nav.fund_id) ?? []), nav]));
+  byFund.forEach(rows => rows.sort((a, b) => a.month_end_date.localeCompare(b.month_end_date)));
+
+  const monthEnds = [...new Set(navData.map(nav => nav.month_end_date))].sort();
+  // Position of each fund's latest row at or before the month end being built
+  const positions = new Map<number, number>();
+
+  return monthEnds.map(monthEnd => {
+    let totalNav = 0;
+    let aumChange: number | null = null;
+    let weightedReturn = 0;
+    let weight = 0;
+
+    byFund.forEach((rows, fundId) => {
+      let position = positions.get(fundId) ?? -1;
+      while (position + 1 < rows.length && rows[position + 1].month_end_date <= monthEnd) position++;
+      positions.set(fundId, position);
+      if (position < 0) return;
+
+      const current = rows[position];
+      totalNav += Number(current.total_nav);
+      if (current.month_end_date !== monthEnd) return;
+
+      if (current.aum_change !== null) aumChange = (aumChange ?? 0) + Number(current.aum_change);
+      const previous = rows[position - 1];
+      if (previous && current.monthly_return !== null) {
+        weightedReturn += Number(previous.total_nav) * Number(current.monthly_return);
+        weight += Number(previous.total_nav);
+      }
+    });
+
+    return {
+      month_end_date: monthEnd,
+      total_nav: totalNav,
+      monthly_return: weight ? weightedReturn / weight : null,
+      aum_change: aumChange,
+    };
+  });
+}
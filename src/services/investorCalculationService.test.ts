@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { calculateInvestorReturns, investorReturnSeries } from "@/services/investorCalculationService";
+import { NavPerUnit, UnitLedgerEntry } from "@/services/unitLedgerService";
+import { makeCapitalFlow, makeInvestor } from "@/test/fixtures";
+
+const price = (month_end_date: string, nav_per_unit: number): NavPerUnit => ({
+  id: 0,
+  fund_id: 1,
+  created_at: null,
+  monthly_nav_id: null,
+  month_end_date,
+  nav_per_unit,
+  units_issued: 0,
+  units_outstanding: 0,
+  units_redeemed: 0,
+});
+
+const subscription = (dealing_date: string, amount: number, nav_per_unit: number): UnitLedgerEntry => ({
+  id: 0,
+  fund_id: 1,
+  created_at: null,
+  investor_id: "a",
+  capital_flow_id: null,
+  flow_date: dealing_date,
+  dealing_date,
+  type: "subscription",
+  amount,
+  units: amount / nav_per_unit,
+  nav_per_unit,
+});
+
+// Up 10%, flat while the investor doubles their holding, then down 10%
+const history = [
+  price("2024-01-31", 1_000),
+  price("2024-02-29", 1_100),
+  price("2024-03-31", 1_100),
+  price("2024-04-30", 990),
+];
+const entries = [subscription("2024-01-31", 1_000_000, 1_000), subscription("2024-03-31", 1_100_000, 1_100)];
+const investor = makeInvestor("a", { start_date: "2024-01-31", initial_investment: 1_000_000 });
+const transactions = [makeCapitalFlow(1, "a", "2024-03-31", 1_100_000)];
+
+describe("investorReturnSeries", () => {
+  it("takes money paid in out of the month's gain", () => {
+    const series = investorReturnSeries(entries, history);
+
+    expect(series.dates).toEqual(["2024-02-29", "2024-03-31", "2024-04-30"]);
+    expect(series.returns).toEqual([10, 0, -10].map(value => expect.closeTo(value, 9)));
+  });
+
+  it("nets the latest month of the performance fee still accrued", () => {
+    const series = investorReturnSeries(entries, history, 19_800);
+
+    expect(series.returns[2]).toBeCloseTo(((2_000 * 990 - 19_800) / 2_200_000 - 1) * 100);
+  });
+});
+
+describe("calculateInvestorReturns", () => {
+  it("chains monthly returns regardless of when money was added", () => {
+    const returns = calculateInvestorReturns(investor, transactions, entries, history);
+
+    expect(returns.timeWeightedReturn).toBeCloseTo((1.1 * 1 * 0.9 - 1) * 100);
+  });
+
+  it("weights the money-weighted return by the money at risk each month", () => {
+    const returns = calculateInvestorReturns(investor, transactions, entries, history);
+
+    // Twice the money was in for the 10% fall as for the 10% rise, so the
+    // money-weighted return is worse than the time-weighted one
+    expect(returns.moneyWeightedReturn).not.toBeNull();
+    expect(returns.moneyWeightedReturn!).toBeLessThan(returns.annualizedTimeWeightedReturn!);
+
+    const rate = returns.moneyWeightedReturn! / 100;
+    const years = (date: string) => (Date.parse(date) - Date.parse("2024-01-31")) / (365 * 86_400_000);
+    const presentValue = -1_000_000 - 1_100_000 / Math.pow(1 + rate, years("2024-03-31"))
+      + 1_980_000 / Math.pow(1 + rate, years("2024-04-30"));
+    expect(presentValue).toBeCloseTo(0, 2);
+  });
+
+  it("has no returns before a month has passed", () => {
+    const returns = calculateInvestorReturns(investor, [], entries.slice(0, 1), history.slice(0, 1));
+
+    expect(returns.timeWeightedReturn).toBeNull();
+    expect(returns.moneyWeightedReturn).toBeNull();
+  });
+});
@@ -1,22 +1,45 @@
 
-import { supabase } from "@/integrations/supabase/client";
-import { MonthlyNav, Investor, CapitalFlow } from "@/services/dataService";
-
-/**
- * Calculate the current value of all investors based on their transactions history
- * Updated to use start_nav values for beginning-of-month investments
- */
-export async function calculateInvestorValues(): Promise<{
+import {
+  CapitalFlow,
+  getAllInvestors,
+  getAllNavData,
+  getInvestorTransactions,
+  getLatestNav,
+  Investor,
+} from "@/repositories";
+import { signedFlowAmount } from "@/services/capitalFlowService";
+import { annualizeReturn, DatedCashFlow, ReturnSeries, xirr } from "@/services/metricsEngine";
+import { DEFAULT_FUND_SETTINGS, getFundSettings } from "@/services/settingsService";
+import {
+  getInvestorUnitPositions,
+  getNavPerUnitHistory,
+  getUnitLedger,
+  NavPerUnit,
+  UnitLedgerEntry,
+} from "@/services/unitLedgerService";
+
+export interface InvestorValue {
   id: string;
   name: string;
   initialInvestment: number;
   currentValue: number;
-  return: number;
+  // Cumulative since the first subscription, %
+  timeWeightedReturn: number | null;
+  // Annualized, %
+  moneyWeightedReturn: number | null;
   status: string;
   mgmtFeeRate: number;
   perfFeeRate: number;
   startDate: string;
-}[]> {
+  units: number;
+  navPerUnit: number;
+}
+
+/**
+ * Calculate the current value of all investors from the unit ledger:
+ * units held × latest NAV per unit
+ */
+export async function calculateInvestorValues(): Promise<InvestorValue[]> {
   try {
     // Get latest NAV
     const latestNav = await getLatestNav();
@@ -26,219 +49,53 @@ export async function calculateInvestorValues(): Promise<{
     const investors = await getAllInvestors();
     if (!investors.length) return [];
     
-    // Get all NAV data for historical tracking
-    const allNavHistory = await getAllNavData();
-    
-    // Use the total fund NAV as a starting point to ensure reconciliation
-    let totalNAV = Number(latestNav.total_nav);
+    // Get every investor's units, valued at the latest NAV per unit
+    const positions = await getInvestorUnitPositions();
+    const [history, entries] = await Promise.all([getNavPerUnitHistory(), getUnitLedger()]);
     
-    // Calculate all investors' values using the time-weighted approach
-    const investorResults = await Promise.all(
+    return await Promise.all(
       investors.map(async (investor) => {
         // Get investor transactions
         const transactions = await getInvestorTransactions(investor.id);
+        const position = positions[investor.id];
+        const currentValue = position ? position.value : 0;
         
-        // Calculate current value
-        const result = calculateInvestorValue(
-          investor, 
-          transactions, 
-          latestNav, 
-          allNavHistory
+        // Returns from the investor's own dealings and the NAV per unit they dealt at
+        const investorEntries = entries.filter(entry => entry.investor_id === investor.id);
+        const returns = calculateInvestorReturns(
+          investor,
+          transactions,
+          investorEntries,
+          history,
+          position?.accruedIncentiveFee ?? 0
         );
         
         return {
           id: investor.id,
           name: investor.name,
           initialInvestment: Number(investor.initial_investment),
-          currentValue: result.currentValue,
-          return: result.returnPercentage,
+          currentValue,
+          timeWeightedReturn: returns.timeWeightedReturn,
+          moneyWeightedReturn: returns.moneyWeightedReturn,
           status: investor.status,
           mgmtFeeRate: Number(investor.mgmt_fee_rate),
           perfFeeRate: Number(investor.performance_fee_rate),
           startDate: investor.start_date,
+          units: position ? position.units : 0,
+          navPerUnit: position ? position.navPerUnit : 0,
         };
       })
     );
-    
-    // Calculate the sum of all active investor values
-    const activeInvestors = investorResults.filter(investor => investor.status === "active");
-    const sumInvestorValues = activeInvestors.reduce((sum, investor) => sum + investor.currentValue, 0);
-    
-    // Scale values to ensure total NAV reconciliation
-    const scaleFactor = totalNAV / sumInvestorValues;
-    
-    return investorResults.map(investor => {
-      // Only scale active investors
-      if (investor.status === "active") {
-        const scaledValue = investor.currentValue * scaleFactor;
-        // Recalculate return based on scaled value
-        const scaledReturn = ((scaledValue - investor.initialInvestment) / investor.initialInvestment) * 100;
-        
-        return {
-          ...investor,
-          currentValue: scaledValue,
-          return: scaledReturn
-        };
-      }
-      return investor;
-    });
   } catch (error) {
     console.error("Error calculating investor values:", error);
     return [];
   }
 }
 
-/**
- * Calculate a single investor's current value using time-weighted ownership approach
- * Updated to use start_nav values for more accurate calculations
- */
-export function calculateInvestorValue(
-  investor: Investor,
-  transactions: CapitalFlow[],
-  latestNav: MonthlyNav,
-  allNavHistory: MonthlyNav[]
-): { currentValue: number; returnPercentage: number } {
-  // Special case: If investor status is "closed", return 0 value
-  if (investor.status === "closed") {
-    // Find the last withdrawal transaction
-    const lastWithdrawal = [...transactions]
-      .filter(t => t.type === "withdrawal")
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
-
-    if (lastWithdrawal) {
-      // For closed accounts, calculate return based on final withdrawal
-      const totalInvested = calculateTotalInvested(Number(investor.initial_investment), transactions);
-      return {
-        currentValue: 0, // Account is closed, so current value is 0
-        returnPercentage: calculateReturn(totalInvested, Number(lastWithdrawal.amount))
-      };
-    }
-
-    return { currentValue: 0, returnPercentage: 0 };
-  }
-
-  // Sort NAV history by date (oldest first)
-  const sortedNavHistory = [...allNavHistory].sort(
-    (a, b) => new Date(a.month_end_date).getTime() - new Date(b.month_end_date).getTime()
-  );
-
-  // Sort transactions by date (oldest first)
-  const sortedTransactions = [...transactions].sort(
-    (a, b) => new Date(a.date).getTime() - new Date(a.date).getTime()
-  );
-
-  // Start with initial investment
-  const startDate = new Date(investor.start_date);
-  let currentValue = Number(investor.initial_investment);
-
-  console.log(`INVESTOR: ${investor.name}`);
-  console.log(`  Initial Investment: ${currentValue}`);
-  console.log(`  Start Date: ${investor.start_date}`);
-
-  // Find the NAV point that contains or is immediately after the investor's start date
-  let startNavIndex = 0;
-  for (let i = 0; i < sortedNavHistory.length; i++) {
-    if (new Date(sortedNavHistory[i].month_end_date) >= startDate) {
-      startNavIndex = i;
-      break;
-    }
-  }
-
-  // Process each month after the investor's start date
-  for (let i = startNavIndex; i < sortedNavHistory.length - 1; i++) {
-    const currentMonth = sortedNavHistory[i];
-    const nextMonth = sortedNavHistory[i + 1];
-
-    // Calculate month's percentage return
-    const monthReturn = (Number(nextMonth.total_nav) - Number(currentMonth.total_nav)) / Number(currentMonth.total_nav);
-
-    // Apply return to current value
-    const valueBeforeReturn = currentValue;
-    currentValue = currentValue * (1 + monthReturn);
-
-    console.log(`  Month ${currentMonth.month_end_date} to ${nextMonth.month_end_date}: Return ${(monthReturn * 100).toFixed(2)}%`);
-    console.log(`    Value before: ${valueBeforeReturn.toFixed(2)}, After: ${currentValue.toFixed(2)}`);
-
-    // Apply any transactions in this period
-    const periodStart = new Date(currentMonth.month_end_date);
-    const periodEnd = new Date(nextMonth.month_end_date);
-
-    for (const transaction of sortedTransactions) {
-      const transactionDate = new Date(transaction.date);
-
-      if (transactionDate > periodStart && transactionDate <= periodEnd) {
-        if (transaction.type === 'contribution') {
-          currentValue += Number(transaction.amount);
-          console.log(`    Added contribution: ${Number(transaction.amount)}, New value: ${currentValue.toFixed(2)}`);
-        } else if (transaction.type === 'withdrawal') {
-          currentValue -= Number(transaction.amount);
-          console.log(`    Subtracted withdrawal: ${Number(transaction.amount)}, New value: ${currentValue.toFixed(2)}`);
-        }
-      }
-    }
-  }
-
-  // Calculate total invested amount accounting for all contributions and withdrawals
-  const totalInvested = calculateTotalInvested(Number(investor.initial_investment), sortedTransactions);
-
-  // Calculate return percentage
-  const returnPercentage = calculateReturn(totalInvested, currentValue);
-
-  console.log(`  Final value: ${currentValue.toFixed(2)}`);
-  console.log(`  Total invested: ${totalInvested.toFixed(2)}`);
-  console.log(`  Return: ${returnPercentage.toFixed(2)}%`);
-
-  return {
-    currentValue,
-    returnPercentage
-  };
-}
-
-/**
- * Create a unified timeline of NAV points and transactions
- * Includes both month start and month end points
- */
-function createUnifiedTimeline(
-  navHistory: MonthlyNav[], 
-  transactions: CapitalFlow[]
-): { type: 'nav' | 'transaction', data: MonthlyNav | CapitalFlow, date: Date }[] {
-  const timeline: { type: 'nav' | 'transaction', data: MonthlyNav | CapitalFlow, date: Date }[] = [];
-  
-  // Add NAV month-start points to timeline
-  for (const nav of navHistory) {
-    if (nav.month_start_date) {
-      timeline.push({
-        type: 'nav',
-        data: nav,
-        date: new Date(nav.month_start_date)
-      });
-    }
-    
-    // Add NAV month-end points to timeline
-    timeline.push({
-      type: 'nav',
-      data: nav,
-      date: new Date(nav.month_end_date)
-    });
-  }
-  
-  // Add transactions to timeline
-  for (const transaction of transactions) {
-    timeline.push({
-      type: 'transaction',
-      data: transaction,
-      date: new Date(transaction.date)
-    });
-  }
-  
-  // Sort timeline by date
-  return timeline.sort((a, b) => a.date.getTime() - b.date.getTime());
-}
-
 /**
  * Calculate total invested amount accounting for all contributions and withdrawals
  */
-function calculateTotalInvested(initialInvestment: number, transactions: CapitalFlow[]): number {
+export function calculateTotalInvested(initialInvestment: number, transactions: CapitalFlow[]): number {
   return transactions.reduce((total, transaction) => {
     if (transaction.type === 'contribution') {
       return total + Number(transaction.amount);
@@ -249,102 +106,156 @@ function calculateTotalInvested(initialInvestment: number, transactions: Capital
   }, initialInvestment);
 }
 
-/**
- * Find the closest NAV point before or equal to a given date
- */
-function findClosestNavPoint(navHistory: MonthlyNav[], date: Date): MonthlyNav | null {
-  // Find the latest NAV point that's before or equal to the target date
-  let closestPoint = null;
-  
-  for (const navPoint of navHistory) {
-    const navDate = new Date(navPoint.month_end_date);
-    if (navDate.getTime() <= date.getTime()) {
-      closestPoint = navPoint;
-    } else {
-      break;
-    }
-  }
-  
-  return closestPoint;
+// The investor's account at a month end, once the month has been dealt
+export interface InvestorValuePoint {
+  date: string;
+  value: number;
+  // Money put in and taken out this month
+  subscriptions: number;
+  redemptions: number;
+  // Return for the month, %; null for the month units were first bought
+  return: number | null;
+  // Growth of 100 invested at the first subscription, net of fees
+  index: number;
+}
+
+export interface InvestorReturns {
+  // The investor's account value from their first subscription on
+  valueHistory: InvestorValuePoint[];
+  // The investor's monthly returns, net of fees, for every month they held units
+  monthlyReturns: ReturnSeries;
+  // Cumulative, %
+  timeWeightedReturn: number | null;
+  // Annualized, %
+  annualizedTimeWeightedReturn: number | null;
+  // XIRR, annualized, %
+  moneyWeightedReturn: number | null;
 }
 
 /**
- * Calculate return percentage
+ * The investor's account value at every month end from their first
+ * subscription, with the month's return: its closing value less the money put
+ * in or taken out that month, over the previous month's closing value. Units
+ * are valued at the month-end NAV per unit; fees redeem units, so the returns
+ * are net of fees. The latest month is also net of any performance fee
+ * accrued but not yet crystallized.
  */
-function calculateReturn(invested: number, currentValue: number): number {
-  if (invested <= 0) return 0;
-  return ((currentValue - invested) / invested) * 100;
+export function investorValueHistory(
+  entries: UnitLedgerEntry[],
+  history: NavPerUnit[],
+  accruedIncentiveFee = 0
+): InvestorValuePoint[] {
+  const points: InvestorValuePoint[] = [];
+  let units = 0;
+  let previousValue = 0;
+  let index = 100;
+
+  history.forEach((price, i) => {
+    const dealt = entries.filter(entry => entry.dealing_date === price.month_end_date);
+    if (!points.length && !dealt.length) return;
+    units += dealt.reduce((sum, entry) => sum + Number(entry.units), 0);
+
+    // Subscriptions and redemptions bring money in or out; fees don't
+    const external = dealt
+      .filter(entry => entry.type === 'subscription' || entry.type === 'redemption')
+      .map(entry => Number(entry.units) * Number(entry.nav_per_unit));
+    const subscriptions = external.filter(amount => amount > 0).reduce((sum, amount) => sum + amount, 0);
+    const redemptions = -external.filter(amount => amount < 0).reduce((sum, amount) => sum + amount, 0);
+
+    const isLatest = i === history.length - 1;
+    const value = units * Number(price.nav_per_unit) - (isLatest ? accruedIncentiveFee : 0);
+
+    const monthReturn = previousValue > 0
+      ? ((value - subscriptions + redemptions) / previousValue - 1) * 100
+      : null;
+    if (monthReturn !== null) index *= 1 + monthReturn / 100;
+
+    points.push({ date: price.month_end_date, value, subscriptions, redemptions, return: monthReturn, index });
+    previousValue = value;
+  });
+
+  return points;
 }
 
 /**
- * Get the latest NAV entry
+ * The investor's monthly returns, for every month they held units
  */
-async function getLatestNav(): Promise<MonthlyNav | null> {
-  const { data, error } = await supabase
-    .from("monthly_nav")
-    .select("*")
-    .order("month_end_date", { ascending: false })
-    .limit(1)
-    .single();
+export function investorReturnSeries(
+  entries: UnitLedgerEntry[],
+  history: NavPerUnit[],
+  accruedIncentiveFee = 0
+): ReturnSeries {
+  const points = investorValueHistory(entries, history, accruedIncentiveFee)
+    .filter(point => point.return !== null);
 
-  if (error) {
-    console.error("Error fetching latest NAV:", error);
-    return null;
-  }
-
-  return data;
+  return {
+    frequency: 'monthly',
+    dates: points.map(point => point.date),
+    returns: points.map(point => point.return!),
+  };
 }
 
 /**
- * Get all NAV entries
+ * The investor's dated cash flows for XIRR: the initial investment and every
+ * capital flow dealt by the valuation date, and the value held on that date
  */
-async function getAllNavData(): Promise<MonthlyNav[]> {
-  const { data, error } = await supabase
-    .from("monthly_nav")
-    .select("*")
-    .order("month_end_date", { ascending: true });
-
-  if (error) {
-    console.error("Error fetching all NAV data:", error);
-    return [];
-  }
-
-  return data || [];
+export function investorCashFlows(
+  investor: Investor,
+  transactions: CapitalFlow[],
+  value: number,
+  asOf: string
+): DatedCashFlow[] {
+  const paidIn: DatedCashFlow[] = [
+    { date: investor.start_date, amount: -Number(investor.initial_investment) },
+    ...transactions.map(flow => ({ date: flow.date, amount: -signedFlowAmount(flow) })),
+  ].filter(flow => flow.date <= asOf);
+
+  return [...paidIn, { date: asOf, amount: value }];
 }
 
 /**
- * Get all investors
+ * Time-weighted and money-weighted returns for an investor. The time-weighted
+ * return chains the monthly returns, so it measures the fund's performance for
+ * the investor regardless of when they added or took out money; the
+ * money-weighted return (XIRR) weights each period by the money they had in it.
  */
-async function getAllInvestors(): Promise<Investor[]> {
-  const { data, error } = await supabase
-    .from("investors")
-    .select("*")
-    .order("name", { ascending: true });
-
-  if (error) {
-    console.error("Error fetching investors:", error);
-    return [];
-  }
+export function calculateInvestorReturns(
+  investor: Investor,
+  transactions: CapitalFlow[],
+  entries: UnitLedgerEntry[],
+  history: NavPerUnit[],
+  accruedIncentiveFee = 0
+): InvestorReturns {
+  const valueHistory = investorValueHistory(entries, history, accruedIncentiveFee);
+  const monthlyReturns = investorReturnSeries(entries, history, accruedIncentiveFee);
+  const growth = monthlyReturns.returns.reduce((factor, r) => factor * (1 + r / 100), 1);
+
+  const latestPrice = history[history.length - 1];
+  const units = entries.reduce((sum, entry) => sum + Number(entry.units), 0);
+  const value = latestPrice ? units * Number(latestPrice.nav_per_unit) - accruedIncentiveFee : 0;
 
-  return data || [];
+  return {
+    valueHistory,
+    monthlyReturns,
+    timeWeightedReturn: monthlyReturns.returns.length ? (growth - 1) * 100 : null,
+    annualizedTimeWeightedReturn: annualizeReturn(monthlyReturns),
+    moneyWeightedReturn: latestPrice
+      ? xirr(investorCashFlows(investor, transactions, value, latestPrice.month_end_date))
+      : null,
+  };
 }
 
 /**
- * Get transactions for a specific investor
+ * Fetch an investor's unit ledger and the NAV per unit history, and work out
+ * their time-weighted and money-weighted returns
  */
-async function getInvestorTransactions(investorId: string): Promise<CapitalFlow[]> {
-  const { data, error } = await supabase
-    .from("capital_flows")
-    .select("*")
-    .eq("investor_id", investorId)
-    .order("date", { ascending: true });
-
-  if (error) {
-    console.error(`Error fetching transactions for investor ${investorId}:`, error);
-    return [];
-  }
-
-  return data || [];
+export async function getInvestorReturns(
+  investor: Investor,
+  transactions: CapitalFlow[],
+  accruedIncentiveFee = 0
+): Promise<InvestorReturns> {
+  const [history, entries] = await Promise.all([getNavPerUnitHistory(), getUnitLedger(investor.id)]);
+  return calculateInvestorReturns(investor, transactions, entries, history, accruedIncentiveFee);
 }
 
 /**
@@ -354,17 +265,19 @@ export async function verifyNavReconciliation(): Promise<{
   totalNav: number;
   sumInvestorValues: number;
   discrepancy: number;
+  // Largest discrepancy still treated as reconciled, % of total NAV
+  tolerance: number;
   isReconciled: boolean;
 }> {
   try {
     // Get latest NAV
-    const latestNav = await getLatestNav();
-    if (!latestNav) return { totalNav: 0, sumInvestorValues: 0, discrepancy: 0, isReconciled: false };
+    const [latestNav, settings] = await Promise.all([getLatestNav(), getFundSettings()]);
+    const tolerance = Number(settings.reconciliation_tolerance);
+    if (!latestNav) return { totalNav: 0, sumInvestorValues: 0, discrepancy: 0, tolerance, isReconciled: false };
     
-    // Calculate sum of all investor values
+    // Calculate sum of all investor values (every investor still holding units)
     const investorValues = await calculateInvestorValues();
     const sumInvestorValues = investorValues
-      .filter(investor => investor.status === "active") // Only include active investors
       .reduce((sum, investor) => sum + investor.currentValue, 0);
     
     // Calculate discrepancy
@@ -372,16 +285,23 @@ export async function verifyNavReconciliation(): Promise<{
     const discrepancy = Math.abs(totalNav - sumInvestorValues);
     
     // Check if reconciled (allowing for small rounding differences)
-    const isReconciled = discrepancy < (totalNav * 0.0001); // 0.01% tolerance
+    const isReconciled = discrepancy <= totalNav * tolerance / 100;
     
     return {
       totalNav,
       sumInvestorValues,
       discrepancy,
+      tolerance,
       isReconciled
     };
   } catch (error) {
     console.error("Error verifying NAV reconciliation:", error);
-    return { totalNav: 0, sumInvestorValues: 0, discrepancy: 0, isReconciled: false };
+    return {
+      totalNav: 0,
+      sumInvestorValues: 0,
+      discrepancy: 0,
+      tolerance: DEFAULT_FUND_SETTINGS.reconciliation_tolerance,
+      isReconciled: false,
+    };
   }
 }
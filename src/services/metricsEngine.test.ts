@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { xirr } from "@/services/metricsEngine";
+
+describe("xirr", () => {
+  it("is the simple annual return for a single year's investment", () => {
+    expect(xirr([
+      { date: "2023-01-01", amount: -1_000 },
+      { date: "2024-01-01", amount: 1_100 },
+    ])).toBeCloseTo(10, 8);
+  });
+
+  it("discounts every flow to a zero present value", () => {
+    const flows = [
+      { date: "2023-01-01", amount: -1_000 },
+      { date: "2023-04-15", amount: -500 },
+      { date: "2023-09-30", amount: 300 },
+      { date: "2024-06-30", amount: 1_400 },
+    ];
+    const rate = xirr(flows)! / 100;
+    const presentValue = flows.reduce(
+      (sum, flow) => sum + flow.amount / Math.pow(1 + rate, (Date.parse(flow.date) - Date.parse(flows[0].date)) / (365 * 86_400_000)),
+      0
+    );
+
+    expect(presentValue).toBeCloseTo(0, 6);
+  });
+
+  it("finds steep annualized losses", () => {
+    // 40% lost in a month
+    expect(xirr([
+      { date: "2023-01-01", amount: -1_000 },
+      { date: "2023-02-01", amount: 600 },
+    ])).toBeCloseTo((Math.pow(0.6, 365 / 31) - 1) * 100, 6);
+  });
+
+  it("is null when the flows never change sign", () => {
+    expect(xirr([
+      { date: "2023-01-01", amount: -1_000 },
+      { date: "2023-06-01", amount: -1_000 },
+    ])).toBeNull();
+    expect(xirr([])).toBeNull();
+  });
+});
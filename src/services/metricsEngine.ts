@@ -0,0 +1,227 @@
+
+import { differenceInCalendarDays, endOfMonth, format, parseISO } from "date-fns";
+
+export type ReturnFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annual';
+
+export const PERIODS_PER_YEAR: Record<ReturnFrequency, number> = {
+  daily: 252,
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4,
+  annual: 1,
+};
+
+// Whether a statistic estimates the population from a sample (dividing by
+// n − 1) or describes the observations themselves (dividing by n)
+export type Estimator = 'sample' | 'population';
+
+/**
+ * Periodic returns, as percentages, oldest first, each dated at the end of
+ * its period
+ */
+export interface ReturnSeries {
+  frequency: ReturnFrequency;
+  dates: string[];
+  returns: number[];
+}
+
+/**
+ * The risk-free rate: a constant annual rate (%), or a series of monthly
+ * returns as fractions keyed by month end, such as a T-bill index imported as
+ * a benchmark
+ */
+export type RiskFreeRate =
+  | { type: 'constant'; annualRate: number }
+  | { type: 'series'; name: string; returns: Record<string, number> };
+
+export const DEFAULT_RISK_FREE_RATE: RiskFreeRate = { type: 'constant', annualRate: 2 };
+
+/**
+ * Make a return series, working out its frequency from the spacing of its
+ * dates when not given
+ */
+export function toReturnSeries(
+  observations: { date: string; return: number }[],
+  frequency?: ReturnFrequency
+): ReturnSeries {
+  const sorted = [...observations].sort((a, b) => a.date.localeCompare(b.date));
+  const dates = sorted.map(observation => observation.date);
+  return {
+    frequency: frequency ?? inferFrequency(dates),
+    dates,
+    returns: sorted.map(observation => observation.return),
+  };
+}
+
+/**
+ * The frequency whose period is closest to the median gap between dates.
+ * Monthly when there are too few dates to tell.
+ */
+export function inferFrequency(dates: string[]): ReturnFrequency {
+  if (dates.length < 2) return 'monthly';
+
+  const gaps = dates
+    .slice(1)
+    .map((date, i) => differenceInCalendarDays(parseISO(date), parseISO(dates[i])))
+    .sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)];
+
+  const periodDays: [ReturnFrequency, number][] = [
+    ['daily', 1.4],
+    ['weekly', 7],
+    ['monthly', 30.4],
+    ['quarterly', 91.3],
+    ['annual', 365.25],
+  ];
+  return periodDays.reduce((best, candidate) =>
+    Math.abs(Math.log(median / candidate[1])) < Math.abs(Math.log(median / best[1])) ? candidate : best
+  )[0];
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Covariance of two equally long series; NaN when there are too few values
+ * for the estimator
+ */
+export function covariance(a: number[], b: number[], estimator: Estimator): number {
+  const n = Math.min(a.length, b.length);
+  const divisor = estimator === 'sample' ? n - 1 : n;
+  if (divisor <= 0) return NaN;
+
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / divisor;
+}
+
+export function variance(values: number[], estimator: Estimator): number {
+  return covariance(values, values, estimator);
+}
+
+export function standardDeviation(values: number[], estimator: Estimator): number {
+  return Math.sqrt(variance(values, estimator));
+}
+
+/**
+ * Compound annual growth rate of the series, %
+ */
+export function annualizeReturn(series: ReturnSeries): number | null {
+  if (!series.returns.length) return null;
+
+  const growth = series.returns.reduce((factor, r) => factor * (1 + r / 100), 1);
+  const years = series.returns.length / PERIODS_PER_YEAR[series.frequency];
+  return (Math.pow(growth, 1 / years) - 1) * 100;
+}
+
+/**
+ * Standard deviation of the periodic returns scaled to a year by the square
+ * root of the number of periods in a year, %
+ */
+export function annualizeVolatility(series: ReturnSeries, estimator: Estimator = 'sample'): number | null {
+  const deviation = standardDeviation(series.returns, estimator);
+  return isNaN(deviation) ? null : deviation * Math.sqrt(PERIODS_PER_YEAR[series.frequency]);
+}
+
+/**
+ * The risk-free return for each period of the series, %. A series rate is
+ * looked up by month end and converted to the series' frequency; periods
+ * before or after it, or in a gap, take the nearest earlier rate (or the
+ * first one).
+ */
+export function riskFreeReturns(series: ReturnSeries, riskFree: RiskFreeRate): number[] {
+  const periodsPerYear = PERIODS_PER_YEAR[series.frequency];
+
+  if (riskFree.type === 'constant') {
+    const periodic = (Math.pow(1 + riskFree.annualRate / 100, 1 / periodsPerYear) - 1) * 100;
+    return series.returns.map(() => periodic);
+  }
+
+  const monthEnds = Object.keys(riskFree.returns).sort();
+  if (!monthEnds.length) return series.returns.map(() => 0);
+
+  return series.dates.map(date => {
+    const monthEnd = format(endOfMonth(parseISO(date)), "yyyy-MM-dd");
+    const known = monthEnds.filter(candidate => candidate <= monthEnd);
+    const monthly = riskFree.returns[known.length ? known[known.length - 1] : monthEnds[0]];
+    return (Math.pow(1 + monthly, 12 / periodsPerYear) - 1) * 100;
+  });
+}
+
+/**
+ * The average risk-free rate over the series, annualized, %
+ */
+export function annualizeRiskFreeRate(series: ReturnSeries, riskFree: RiskFreeRate): number | null {
+  return annualizeReturn({ ...series, returns: riskFreeReturns(series, riskFree) });
+}
+
+/**
+ * Annualized Sharpe ratio: the mean periodic return over the risk-free rate,
+ * divided by its standard deviation, scaled by √(periods per year)
+ */
+export function sharpeRatio(
+  series: ReturnSeries,
+  riskFree: RiskFreeRate = DEFAULT_RISK_FREE_RATE,
+  estimator: Estimator = 'sample'
+): number | null {
+  const riskFreeByPeriod = riskFreeReturns(series, riskFree);
+  const excess = series.returns.map((r, i) => r - riskFreeByPeriod[i]);
+  const deviation = standardDeviation(excess, estimator);
+  if (isNaN(deviation) || deviation === 0) return null;
+
+  return (mean(excess) / deviation) * Math.sqrt(PERIODS_PER_YEAR[series.frequency]);
+}
+
+// A dated cash flow from the investor's side: money paid in is negative,
+// money taken out (or still held at the end) positive
+export interface DatedCashFlow {
+  date: string;
+  amount: number;
+}
+
+/**
+ * Money-weighted return: the annual rate, %, at which the cash flows'
+ * present value is zero, counting actual days over a 365-day year. Null
+ * when the flows never change sign or no rate can be found.
+ */
+export function xirr(cashFlows: DatedCashFlow[]): number | null {
+  const flows = cashFlows.filter(flow => flow.amount !== 0);
+  if (!flows.some(flow => flow.amount > 0) || !flows.some(flow => flow.amount < 0)) return null;
+
+  const start = parseISO(flows.reduce((first, flow) => (flow.date < first ? flow.date : first), flows[0].date));
+  const years = flows.map(flow => differenceInCalendarDays(parseISO(flow.date), start) / 365);
+  const presentValue = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+  const derivative = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum - (years[i] * flow.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  // Newton's method converges quickly from a sensible guess...
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const slope = derivative(rate);
+    if (!slope || !isFinite(slope)) break;
+    const next = rate - presentValue(rate) / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next * 100;
+    rate = next;
+  }
+
+  // ...and bisection finds the rate when it doesn't
+  let low = -0.9999;
+  let high = 10;
+  if (Math.sign(presentValue(low)) === Math.sign(presentValue(high))) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(presentValue(mid)) === Math.sign(presentValue(low))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return ((low + high) / 2) * 100;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { buildNavImportPreview, importableNavRows, NavImportOptions } from "@/services/navImportService";
+import { makeNav } from "@/test/fixtures";
+
+const mapping = { month_end_date: 0, total_nav: 1, monthly_return: 2, management_fees: 3 };
+const options: NavImportOptions = { dateFormat: "dd/MM/yyyy", returnsAsFractions: false };
+const headers = ["Date", "NAV", "Return", "Fees"];
+
+describe("buildNavImportPreview", () => {
+  it("parses valid rows, numbering them as in the file", () => {
+    const [row] = buildNavImportPreview({ headers, rows: [["31/01/2024", "1,000,000", "1.5%", "1,666.67"]] }, mapping, options, []);
+
+    expect(row).toEqual({
+      rowNumber: 2,
+      values: {
+        month_end_date: "2024-01-31",
+        total_nav: 1_000_000,
+        monthly_return: 1.5,
+        aum_change: null,
+        management_fees: 1_666.67,
+      },
+      errors: [],
+      duplicateOf: null,
+    });
+  });
+
+  it("converts returns given as fractions to percentages", () => {
+    const [row] = buildNavImportPreview(
+      { headers, rows: [["31/01/2024", 1_000_000, 0.015, null]] },
+      mapping,
+      { ...options, returnsAsFractions: true },
+      []
+    );
+
+    expect(row.values?.monthly_return).toBeCloseTo(1.5);
+  });
+
+  it("reports every problem with a row", () => {
+    const rows = buildNavImportPreview(
+      {
+        headers,
+        rows: [
+          ["15/01/2024", "-5", "abc", "-1"],
+          [null, null, null, null],
+          ["31/02/2024", "lots", null, null],
+        ],
+      },
+      mapping,
+      options,
+      []
+    );
+
+    expect(rows.map(row => row.errors)).toEqual([
+      ["2024-01-15 is not a month end", "Total NAV must be positive", "Monthly return is not a number", "Management fees cannot be negative"],
+      ["Month end date is missing", "Total NAV is missing"],
+      ["Month end date is not a valid date", "Total NAV is not a number"],
+    ]);
+    expect(rows.every(row => row.values === null)).toBe(true);
+  });
+
+  it("flags months already recorded or repeated in the file, and leaves them out", () => {
+    const preview = buildNavImportPreview(
+      {
+        headers,
+        rows: [
+          ["31/01/2024", "1000000", null, null],
+          ["29/02/2024", "1100000", null, null],
+          ["29/02/2024", "1100001", null, null],
+        ],
+      },
+      mapping,
+      options,
+      [makeNav(1, "2024-01-31", 1_000_000)]
+    );
+
+    expect(preview.map(row => row.duplicateOf)).toEqual(["existing", null, "file"]);
+    expect(importableNavRows(preview).map(row => row.total_nav)).toEqual([1_100_000]);
+  });
+});
@@ -0,0 +1,163 @@
+
+import { endOfMonth, format, parseISO } from "date-fns";
+import { BackendError, FundScopedInsert, getAllNavData, insertMonthlyNavs, MonthlyNav } from "@/repositories";
+import { rebuildUnitLedger } from "@/services/unitLedgerService";
+import {
+  ColumnMapping,
+  ImportDateFormat,
+  ImportField,
+  ImportTable,
+  mappedCell,
+  parseImportDate,
+  parseImportNumber,
+} from "@/utils/importUtils";
+
+export type NavImportField = 'month_end_date' | 'total_nav' | 'monthly_return' | 'aum_change' | 'management_fees';
+
+export const NAV_IMPORT_FIELDS: ImportField<NavImportField>[] = [
+  { field: 'month_end_date', label: 'Month end date', required: true, aliases: ['month_end_date', 'month end', 'date', 'month', 'period end'] },
+  { field: 'total_nav', label: 'Total NAV', required: true, aliases: ['total_nav', 'nav', 'net asset value', 'total nav'] },
+  { field: 'monthly_return', label: 'Monthly return', required: false, aliases: ['monthly_return', 'return', 'monthly return', 'return %', 'performance'] },
+  { field: 'aum_change', label: 'AUM change', required: false, aliases: ['aum_change', 'aum change', 'net flows', 'flows'] },
+  { field: 'management_fees', label: 'Management fees', required: false, aliases: ['management_fees', 'management fees', 'mgmt fees', 'fees'] },
+];
+
+export type NavColumnMapping = ColumnMapping<NavImportField>;
+
+export interface NavImportOptions {
+  dateFormat: ImportDateFormat;
+  // Returns given as fractions (0.012) rather than percentages (1.2)
+  returnsAsFractions: boolean;
+}
+
+export interface NavImportRow {
+  // Row number in the file, counting the header as row 1
+  rowNumber: number;
+  values: FundScopedInsert<"monthly_nav"> | null;
+  errors: string[];
+  // Set when the month is already in monthly_nav, or earlier in the file
+  duplicateOf: 'existing' | 'file' | null;
+}
+
+export interface ManagementFeeDifference {
+  month_end_date: string;
+  imported: number;
+  accrued: number;
+}
+
+/**
+ * Parse and validate every row of the file under a column mapping, flagging
+ * months that are already recorded or repeated in the file
+ */
+export function buildNavImportPreview(
+  table: ImportTable,
+  mapping: NavColumnMapping,
+  options: NavImportOptions,
+  existing: MonthlyNav[]
+): NavImportRow[] {
+  const existingMonths = new Set(existing.map(nav => nav.month_end_date));
+  const seenMonths = new Set<string>();
+
+  return table.rows.map((cells, index) => {
+    const errors: string[] = [];
+    const cell = (field: NavImportField) => mappedCell(cells, mapping, field);
+
+    const number = (field: NavImportField, label: string) => {
+      const value = parseImportNumber(cell(field));
+      if (value !== null && isNaN(value)) {
+        errors.push(`${label} is not a number`);
+        return null;
+      }
+      return value;
+    };
+
+    const monthEndDate = parseImportDate(cell('month_end_date'), options.dateFormat);
+    if (!monthEndDate) {
+      errors.push(cell('month_end_date') === null ? "Month end date is missing" : "Month end date is not a valid date");
+    } else if (format(endOfMonth(parseISO(monthEndDate)), 'yyyy-MM-dd') !== monthEndDate) {
+      errors.push(`${monthEndDate} is not a month end`);
+    }
+
+    const totalNav = number('total_nav', "Total NAV");
+    if (totalNav === null) {
+      if (!errors.some(error => error.startsWith("Total NAV"))) errors.push("Total NAV is missing");
+    } else if (totalNav <= 0) {
+      errors.push("Total NAV must be positive");
+    }
+
+    const rawReturn = number('monthly_return', "Monthly return");
+    const aumChange = number('aum_change', "AUM change");
+    const managementFees = number('management_fees', "Management fees");
+    if (managementFees !== null && managementFees < 0) {
+      errors.push("Management fees cannot be negative");
+    }
+
+    let duplicateOf: NavImportRow['duplicateOf'] = null;
+    if (monthEndDate && existingMonths.has(monthEndDate)) {
+      duplicateOf = 'existing';
+    } else if (monthEndDate && seenMonths.has(monthEndDate)) {
+      duplicateOf = 'file';
+    }
+    if (monthEndDate) seenMonths.add(monthEndDate);
+
+    return {
+      rowNumber: index + 2,
+      values: errors.length
+        ? null
+        : {
+            month_end_date: monthEndDate!,
+            total_nav: totalNav!,
+            monthly_return: rawReturn === null ? null : options.returnsAsFractions ? rawReturn * 100 : rawReturn,
+            aum_change: aumChange,
+            management_fees: managementFees,
+          },
+      errors,
+      duplicateOf,
+    };
+  });
+}
+
+/**
+ * The rows that can be imported: valid and not already recorded
+ */
+export function importableNavRows(preview: NavImportRow[]): FundScopedInsert<"monthly_nav">[] {
+  return preview
+    .filter(row => row.values !== null && row.duplicateOf === null)
+    .map(row => row.values!);
+}
+
+/**
+ * Save imported NAV entries in one batch, so either every month is saved or
+ * none is, then rebuild the ledger. Management fees are then rolled up from the
+ * fees accrued on investors' rates; months where the imported figure differs
+ * are reported back.
+ */
+export async function importMonthlyNav(
+  rows: FundScopedInsert<"monthly_nav">[],
+  fileName: string
+): Promise<{ success: boolean; error?: BackendError; imported?: number; feeDifferences?: ManagementFeeDifference[]; ledgerError?: BackendError }> {
+  const { error } = await insertMonthlyNavs(rows, { reason: `Imported from ${fileName}` });
+
+  if (error) {
+    console.error("Error importing monthly NAV:", error);
+    return { success: false, error };
+  }
+
+  const rebuild = await rebuildUnitLedger();
+
+  const imported = new Map(
+    rows
+      .filter(row => row.management_fees !== null && row.management_fees !== undefined)
+      .map(row => [row.month_end_date, Number(row.management_fees)])
+  );
+  const feeDifferences = (await getAllNavData())
+    .filter(nav => imported.has(nav.month_end_date))
+    .map(nav => ({
+      month_end_date: nav.month_end_date,
+      imported: imported.get(nav.month_end_date)!,
+      accrued: Number(nav.management_fees ?? 0),
+    }))
+    .filter(difference => Math.abs(difference.imported - difference.accrued) >= 0.01);
+
+  return { success: true, imported: rows.length, feeDifferences, ledgerError: rebuild.error };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { deriveMonthlyReturn, netFlowsForMonth } from "@/services/navRestatementService";
+import { makeDealingFlow, makeNav } from "@/test/fixtures";
+
+describe("deriveMonthlyReturn", () => {
+  it("takes the month's net subscriptions out of the change in NAV", () => {
+    expect(deriveMonthlyReturn(1_000_000, 1_100_000, 0)).toBeCloseTo(10);
+    expect(deriveMonthlyReturn(1_000_000, 1_300_000, 100_000)).toBeCloseTo(20);
+    // A redemption lowers the NAV without being a loss
+    expect(deriveMonthlyReturn(1_000_000, 950_000, -50_000)).toBeCloseTo(0);
+  });
+
+  it("has no return without a previous NAV", () => {
+    expect(deriveMonthlyReturn(0, 1_000_000, 1_000_000)).toBeNull();
+  });
+});
+
+describe("restating a NAV", () => {
+  const navData = [
+    makeNav(1, "2024-01-31", 1_000_000),
+    makeNav(2, "2024-02-29", 1_100_000, { monthly_return: 10 }),
+    makeNav(3, "2024-03-31", 1_300_000, { monthly_return: 100 / 11 }),
+  ];
+  const flows = [
+    makeDealingFlow("a", "2024-01-31", 1_000_000),
+    makeDealingFlow("b", "2024-03-01", 150_000),
+    makeDealingFlow("a", "2024-03-31", 50_000, "redemption"),
+    // Deals at the April month end
+    makeDealingFlow("c", "2024-04-01", 80_000),
+  ];
+
+  it("nets the flows dealt after the previous month end, up to its own", () => {
+    expect(netFlowsForMonth(navData, 0, flows)).toBe(1_000_000);
+    expect(netFlowsForMonth(navData, 1, flows)).toBe(0);
+    expect(netFlowsForMonth(navData, 2, flows)).toBe(100_000);
+  });
+
+  it("recomputes the following month's return from the restated NAV, net of its flows", () => {
+    // February restated from 1.1m to 1m: March grew 200k once the 100k net
+    // subscribed is taken out
+    const restated = 1_000_000;
+
+    expect(deriveMonthlyReturn(1_000_000, restated, netFlowsForMonth(navData, 1, flows))).toBeCloseTo(0);
+    expect(deriveMonthlyReturn(restated, navData[2].total_nav, netFlowsForMonth(navData, 2, flows))).toBeCloseTo(20);
+  });
+});
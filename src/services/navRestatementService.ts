@@ -0,0 +1,161 @@
+
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  BackendError,
+  fetchAllCapitalFlows,
+  fetchAllInvestors,
+  fetchAllNavData,
+  getBackend,
+  MonthlyNav,
+  updateMonthlyNav,
+} from "@/repositories";
+import { getFundSettings } from "@/services/settingsService";
+import { DealingFlow, rebuildUnitLedger, toDealingFlows } from "@/services/unitLedgerService";
+
+export type NavVersion = Tables<"monthly_nav_versions">;
+
+export interface NavRestatement {
+  total_nav: number;
+  // Left out to recompute the return from the restated NAV
+  monthly_return?: number;
+  aum_change?: number | null;
+}
+
+export interface NavVersionChange {
+  field: 'total_nav' | 'monthly_return' | 'aum_change';
+  before: number | null;
+  after: number | null;
+}
+
+/**
+ * Fetch the superseded versions of NAV entries, newest first
+ */
+export async function getNavVersions(monthlyNavId?: number): Promise<NavVersion[]> {
+  const { data, error } = await getBackend().select("monthly_nav_versions", {
+    filters: monthlyNavId !== undefined
+      ? [{ column: "monthly_nav_id", operator: "eq", value: monthlyNavId }]
+      : [],
+    order: [{ column: "version", ascending: false }],
+  });
+
+  if (error) {
+    console.error("Error fetching NAV versions:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * The fields that differ between a superseded version and the version that
+ * replaced it
+ */
+export function diffNavVersions(
+  previous: Pick<NavVersion, 'total_nav' | 'monthly_return' | 'aum_change'>,
+  current: Pick<MonthlyNav, 'total_nav' | 'monthly_return' | 'aum_change'>
+): NavVersionChange[] {
+  const fields: NavVersionChange['field'][] = ['total_nav', 'monthly_return', 'aum_change'];
+  const toNumber = (value: number | null) => (value === null ? null : Number(value));
+
+  return fields
+    .map(field => ({ field, before: toNumber(previous[field]), after: toNumber(current[field]) }))
+    .filter(change => change.before !== change.after);
+}
+
+/**
+ * A month's return in percent: the change in NAV after taking out the month's
+ * net subscriptions, over the previous month's NAV
+ */
+export function deriveMonthlyReturn(previousNav: number, nav: number, netFlows: number): number | null {
+  if (previousNav <= 0) return null;
+  return ((nav - netFlows - previousNav) / previousNav) * 100;
+}
+
+/**
+ * Net subscriptions dealt in the month ending at navData[index], i.e. after
+ * the previous month end and up to this one
+ */
+export function netFlowsForMonth(navData: MonthlyNav[], index: number, flows: DealingFlow[]): number {
+  const monthEnd = new Date(navData[index].month_end_date);
+  const previousMonthEnd = index > 0 ? new Date(navData[index - 1].month_end_date) : null;
+  return flows
+    .filter(flow => {
+      const flowDate = new Date(flow.deal_from);
+      return flowDate <= monthEnd && (previousMonthEnd === null || flowDate > previousMonthEnd);
+    })
+    .reduce((sum, flow) => sum + (flow.type === 'subscription' ? flow.amount : -flow.amount), 0);
+}
+
+/**
+ * Restate a month's NAV. The database keeps the version being replaced; the
+ * restated month's return (unless given) and the following month's return are
+ * recomputed from the NAVs, then the unit ledger is rebuilt so that investor
+ * values follow.
+ */
+export async function restateMonthlyNav(
+  nav: MonthlyNav,
+  restatement: NavRestatement,
+  reason: string
+): Promise<{ success: boolean; error?: BackendError; ledgerError?: BackendError }> {
+  const [navResult, investorsResult, flowsResult, settings] = await Promise.all([
+    fetchAllNavData(),
+    fetchAllInvestors(),
+    fetchAllCapitalFlows(),
+    getFundSettings(),
+  ]);
+
+  const fetchError = navResult.error || investorsResult.error || flowsResult.error;
+  if (fetchError) {
+    console.error("Error fetching data to restate NAV:", fetchError);
+    return { success: false, error: fetchError };
+  }
+
+  const navData = navResult.data;
+  const flows = toDealingFlows(investorsResult.data, flowsResult.data, settings.dealing_cutoff_days);
+  const index = navData.findIndex(row => row.id === nav.id);
+  if (index === -1) {
+    return { success: false, error: new Error(`NAV for ${nav.month_end_date} no longer exists`) };
+  }
+  const previous = navData[index - 1];
+  const next = navData[index + 1];
+
+  const monthlyReturn = restatement.monthly_return
+    ?? (previous
+      ? deriveMonthlyReturn(Number(previous.total_nav), restatement.total_nav, netFlowsForMonth(navData, index, flows))
+      : nav.monthly_return);
+
+  const { error } = await updateMonthlyNav(nav.id, {
+    total_nav: restatement.total_nav,
+    monthly_return: monthlyReturn,
+    aum_change: restatement.aum_change === undefined ? nav.aum_change : restatement.aum_change,
+  }, { reason });
+
+  if (error) {
+    console.error(`Error restating NAV for ${nav.month_end_date}:`, error);
+    return { success: false, error };
+  }
+
+  // The following month's return was measured from the NAV just restated
+  if (next) {
+    const nextReturn = deriveMonthlyReturn(restatement.total_nav, Number(next.total_nav), netFlowsForMonth(navData, index + 1, flows));
+    if (nextReturn !== null && nextReturn !== next.monthly_return) {
+      const monthLabel = format(new Date(nav.month_end_date), 'MMM yyyy');
+      const { error: nextError } = await updateMonthlyNav(
+        next.id,
+        { monthly_return: nextReturn },
+        { reason: `Return recomputed after restating ${monthLabel}`, recomputed: true }
+      );
+
+      if (nextError) {
+        console.error(`Error recomputing the return for ${next.month_end_date}:`, nextError);
+        return { success: false, error: nextError };
+      }
+    }
+  }
+
+  // Reprice every dealing from the restated month on
+  const rebuild = await rebuildUnitLedger();
+
+  return { success: true, ledgerError: rebuild.error };
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateDrawdowns,
+  calculateMaxDrawdown,
+  calculateRelativeStatistics,
+  calculateRiskStatistics,
+  calculateRollingMetrics,
+  calculateValueAtRisk,
+  GrowthPoint,
+  navReturnIndex,
+} from "@/services/performanceService";
+import { BenchmarkSeries } from "@/services/benchmarkService";
+import { makeNav } from "@/test/fixtures";
+
+const index = (values: number[]): GrowthPoint[] =>
+  values.map((value, i) => ({ date: `2024-${String(i + 1).padStart(2, "0")}-28`, index: value }));
+
+describe("navReturnIndex", () => {
+  it("compounds monthly returns and ignores flows in the total NAV", () => {
+    const points = navReturnIndex([
+      makeNav(2, "2024-02-29", 2_000_000, { monthly_return: 10 }),
+      makeNav(1, "2024-01-31", 1_000_000, { monthly_return: 3 }),
+      // A large redemption halves the NAV in a flat month
+      makeNav(3, "2024-03-31", 1_000_000, { monthly_return: 0 }),
+      makeNav(4, "2024-04-30", 900_000, { monthly_return: null }),
+    ]);
+
+    // The first month is the base, so its own return isn't applied
+    expect(points.map(point => point.date)).toEqual(["2024-01-31", "2024-02-29", "2024-03-31", "2024-04-30"]);
+    expect(points.map(point => point.index)).toEqual([100, 110, 110, 110].map(value => expect.closeTo(value, 9)));
+  });
+});
+
+describe("calculateDrawdowns", () => {
+  it("measures each episode from peak to trough to recovery", () => {
+    const { episodes, underwater } = calculateDrawdowns(index([100, 120, 90, 108, 125, 100]));
+
+    expect(episodes).toEqual([
+      {
+        peakDate: "2024-05-28",
+        troughDate: "2024-06-28",
+        recoveryDate: null,
+        depth: 20,
+        length: 1,
+        timeToTrough: 1,
+        timeToRecover: null,
+        open: true,
+      },
+      {
+        peakDate: "2024-02-28",
+        troughDate: "2024-03-28",
+        recoveryDate: "2024-05-28",
+        depth: 25,
+        length: 3,
+        timeToTrough: 1,
+        timeToRecover: 2,
+        open: false,
+      },
+    ]);
+    expect(underwater.map(point => point.drawdown)).toEqual([0, 0, -25, -10, 0, -20]);
+  });
+
+  it("finds no episodes in a rising index", () => {
+    const { episodes, underwater } = calculateDrawdowns(index([100, 101, 101, 105]));
+
+    expect(episodes).toEqual([]);
+    expect(underwater.every(point => point.drawdown === 0)).toBe(true);
+  });
+});
+
+describe("calculateMaxDrawdown", () => {
+  it("takes the deepest episode, recovered or not", () => {
+    expect(calculateMaxDrawdown(index([100, 120, 90, 108, 125, 100]))).toEqual({
+      percentage: 25,
+      startDate: "2024-02-28",
+      endDate: "2024-03-28",
+    });
+  });
+
+  it("is zero, dated at the start, when the index never fell", () => {
+    expect(calculateMaxDrawdown(index([100, 110]))).toEqual({
+      percentage: 0,
+      startDate: "2024-01-28",
+      endDate: "2024-01-28",
+    });
+  });
+
+  it("needs at least two months", () => {
+    expect(calculateMaxDrawdown(index([100]))).toBeNull();
+  });
+});
+
+describe("calculateRelativeStatistics", () => {
+  // The fund returns twice the benchmark plus 1% a month
+  const pair = {
+    dates: ["2024-01-31", "2024-02-29", "2024-03-31", "2024-04-30"],
+    fund: [5, -3, 5, -3],
+    benchmark: [2, -2, 2, -2],
+  };
+
+  it("measures beta, tracking error and capture on a known pair", () => {
+    const stats = calculateRelativeStatistics(pair, { type: "constant", annualRate: 0 });
+
+    expect(stats?.months).toBe(4);
+    expect(stats?.beta).toBeCloseTo(2);
+    expect(stats?.correlation).toBeCloseTo(1);
+    expect(stats?.rSquared).toBeCloseTo(1);
+    // Excess returns of 3, -1, 3, -1: a sample deviation of √(16/3), times √12
+    expect(stats?.trackingError).toBeCloseTo(8);
+    expect(stats?.informationRatio).toBeCloseTo(12 / 8);
+    expect(stats?.upCapture).toBeCloseTo(250);
+    expect(stats?.downCapture).toBeCloseTo(150);
+    expect(stats?.alpha).toBeCloseTo(12);
+  });
+
+  it("takes alpha over the risk-free rate", () => {
+    // 0.5% a month: (1 - 0.5) - 2 × (0 - 0.5) = 1.5% a month
+    const stats = calculateRelativeStatistics(pair, { type: "series", name: "T-bill", returns: { "2024-01-31": 0.005 } });
+
+    expect(stats?.alpha).toBeCloseTo(18);
+    expect(stats?.beta).toBeCloseTo(2);
+  });
+
+  it("needs at least two months", () => {
+    expect(calculateRelativeStatistics({ dates: ["2024-01-31"], fund: [1], benchmark: [1] })).toBeNull();
+  });
+});
+
+describe("calculateValueAtRisk", () => {
+  // A mean of 0 and a sample standard deviation of √10
+  const returns = [2, -4, 0, 4, -2];
+
+  it("interpolates the historical quantile and averages the tail beyond it", () => {
+    // The 5% quantile sits a fifth of the way from -4 to -2, the 1% one a twenty-fifth
+    expect(calculateValueAtRisk(returns, 95)).toMatchObject({
+      historical: expect.closeTo(3.6, 9),
+      historicalCvar: 4,
+    });
+    expect(calculateValueAtRisk(returns, 99)).toMatchObject({
+      historical: expect.closeTo(3.92, 9),
+      historicalCvar: 4,
+    });
+  });
+
+  it("takes parametric figures from the normal distribution", () => {
+    // z × σ, and σ × φ(z) / 5% for the expected shortfall
+    const { parametric, parametricCvar } = calculateValueAtRisk(returns, 95)!;
+
+    expect(parametric).toBeCloseTo(5.2015, 4);
+    expect(parametricCvar).toBeCloseTo(6.5229, 4);
+  });
+
+  it("needs at least two returns", () => {
+    expect(calculateValueAtRisk([1], 95)).toBeNull();
+  });
+});
+
+describe("calculateRiskStatistics", () => {
+  it("measures downside and distribution statistics", () => {
+    const stats = calculateRiskStatistics(
+      { frequency: "monthly", dates: [], returns: [2, -4, 0, 4, -2] },
+      12,
+      -8
+    );
+
+    // Downside deviation √((16 + 4) / 5) × √12 = 4√3
+    expect(stats.sortinoRatio).toBeCloseTo(12 / (4 * Math.sqrt(3)));
+    expect(stats.calmarRatio).toBeCloseTo(1.5);
+    expect(stats.omegaRatio).toBeCloseTo(1);
+    expect(stats.skewness).toBeCloseTo(0);
+    // 1.25 × 5.44 - 8 for a sample of five
+    expect(stats.excessKurtosis).toBeCloseTo(-1.2);
+    expect(stats.valueAtRisk.map(item => item.confidence)).toEqual([95, 99]);
+  });
+});
+
+describe("calculateRollingMetrics", () => {
+  const series = {
+    frequency: "monthly" as const,
+    dates: ["2024-01-31", "2024-02-29", "2024-03-31", "2024-04-30"],
+    returns: [1, 2, 3, 4],
+  };
+  // Half the fund's return, for January and February only
+  const benchmark: BenchmarkSeries = {
+    benchmark: { id: 7, name: "Index", kind: "return", source_file: null, created_at: null },
+    returns: { "2024-01-31": 0.005, "2024-02-29": 0.01 },
+    selected: true,
+  };
+
+  it("annualizes each full window", () => {
+    const points = calculateRollingMetrics(series, 3, { type: "constant", annualRate: 0 });
+
+    expect(points.map(point => point.date)).toEqual(["2024-03-31", "2024-04-30"]);
+    // Three months compounded, to the fourth power for a year
+    expect(points[0].return).toBeCloseTo((Math.pow(1.01 * 1.02 * 1.03, 4) - 1) * 100);
+    expect(points[1].return).toBeCloseTo((Math.pow(1.02 * 1.03 * 1.04, 4) - 1) * 100);
+    // A standard deviation of 1% a month in both windows
+    expect(points.map(point => point.volatility)).toEqual([Math.sqrt(12), Math.sqrt(12)].map(value => expect.closeTo(value, 9)));
+    expect(points[0].sharpe).toBeCloseTo(2 * Math.sqrt(12));
+    expect(points[1].sharpe).toBeCloseTo(3 * Math.sqrt(12));
+  });
+
+  it("takes beta from the months in the window with a benchmark return", () => {
+    const points = calculateRollingMetrics(series, 3, { type: "constant", annualRate: 0 }, [benchmark]);
+
+    expect(points[0].betas[7]).toBeCloseTo(2);
+    // February is the only month of the second window with one
+    expect(points[1].betas[7]).toBeNull();
+  });
+
+  it("has no points until the window is full", () => {
+    expect(calculateRollingMetrics(series, 5)).toEqual([]);
+  });
+});
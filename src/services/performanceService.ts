@@ -1,7 +1,26 @@
 
-import { format } from "date-fns";
-import { MonthlyNav } from "./dataService";
-import { formatCurrency, formatToMillion } from "@/utils/formatters";
+import { differenceInCalendarMonths, format, parseISO, startOfMonth } from "date-fns";
+import { MonthlyNav } from "@/repositories";
+import { benchmarkReturnFor, BenchmarkSeries, excessReturn, rebaseBenchmark } from "@/services/benchmarkService";
+import {
+  annualizeReturn,
+  annualizeVolatility,
+  covariance,
+  DEFAULT_RISK_FREE_RATE,
+  Estimator,
+  mean,
+  PERIODS_PER_YEAR,
+  ReturnFrequency,
+  ReturnSeries,
+  RiskFreeRate,
+  riskFreeReturns,
+  sharpeRatio,
+  standardDeviation,
+  toReturnSeries,
+  variance,
+} from "@/services/metricsEngine";
+import { fiscalQuarterStart, fiscalYearStart } from "@/services/settingsService";
+import { formatCurrency } from "@/utils/formatters";
 
 /**
  * Calculate YTD return based on year-start NAV and latest NAV
@@ -19,63 +38,186 @@ export function calculateYTDReturn(
 }
 
 /**
- * Calculate annualized return from a series of monthly returns
- * @param monthlyReturns Array of monthly return percentages
- * @param yearsCount Number of years (can be fractional)
+ * The fund's monthly returns as a return series, skipping months without one
  */
-export function calculateAnnualizedReturn(
-  monthlyReturns: number[],
-  yearsCount: number
-): number | null {
-  if (!monthlyReturns.length || yearsCount <= 0) return null;
-  
-  // Convert percentages to decimal factors (e.g., 5% → 1.05)
-  const returnFactors = monthlyReturns.map(r => 1 + (r / 100));
-  
-  // Calculate the cumulative return factor by multiplying all monthly factors
-  const cumulativeReturn = returnFactors.reduce((acc, factor) => acc * factor, 1);
-  
-  // Calculate annualized return
-  const annualizedReturn = Math.pow(cumulativeReturn, 1 / yearsCount) - 1;
-  
-  // Convert back to percentage
-  return annualizedReturn * 100;
+export function navReturnSeries(navData: MonthlyNav[]): ReturnSeries {
+  return toReturnSeries(
+    navData
+      .filter(nav => nav.monthly_return !== null)
+      .map(nav => ({ date: nav.month_end_date, return: Number(nav.monthly_return) })),
+    'monthly'
+  );
+}
+
+export interface GrowthPoint {
+  date: string;
+  // Growth of 100 from the start of the series
+  index: number;
 }
 
 /**
- * Calculate volatility (standard deviation) of returns
- * @param returns Array of return percentages
+ * Growth of 100 at the first month end, compounding the fund's monthly
+ * returns. Unlike total NAV it doesn't move with subscriptions and
+ * redemptions; a month without a return is carried flat.
  */
-export function calculateVolatility(returns: number[]): number | null {
-  if (!returns.length) return null;
-  
-  // Calculate mean
-  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-  
-  // Calculate sum of squared differences
-  const squaredDiffs = returns.map(r => Math.pow(r - mean, 2));
-  const sumSquaredDiffs = squaredDiffs.reduce((sum, diff) => sum + diff, 0);
-  
-  // Calculate standard deviation
-  const volatility = Math.sqrt(sumSquaredDiffs / returns.length);
-  
-  return volatility;
+export function navReturnIndex(navData: Pick<MonthlyNav, 'month_end_date' | 'monthly_return'>[]): GrowthPoint[] {
+  const sorted = [...navData].sort((a, b) => a.month_end_date.localeCompare(b.month_end_date));
+  let index = 100;
+  return sorted.map((nav, i) => {
+    if (i > 0 && nav.monthly_return !== null) index *= 1 + Number(nav.monthly_return) / 100;
+    return { date: nav.month_end_date, index };
+  });
 }
 
 /**
- * Calculate Sharpe ratio
- * @param annualizedReturn Annualized return percentage
- * @param volatility Standard deviation of returns
- * @param riskFreeRate Risk-free rate (default: 2%)
+ * Calculate the compound annual return of a return series
+ */
+export function calculateAnnualizedReturn(series: ReturnSeries): number | null {
+  return annualizeReturn(series);
+}
+
+/**
+ * Calculate annualized volatility: the standard deviation of the periodic
+ * returns scaled by √(periods per year)
+ */
+export function calculateVolatility(series: ReturnSeries, estimator: Estimator = 'sample'): number | null {
+  return annualizeVolatility(series, estimator);
+}
+
+/**
+ * Calculate the annualized Sharpe ratio over a risk-free rate, constant or a
+ * series
  */
 export function calculateSharpeRatio(
-  annualizedReturn: number | null, 
-  volatility: number | null, 
-  riskFreeRate: number = 2
+  series: ReturnSeries,
+  riskFree: RiskFreeRate = DEFAULT_RISK_FREE_RATE,
+  estimator: Estimator = 'sample'
 ): number | null {
-  if (annualizedReturn === null || volatility === null || volatility === 0) return null;
-  
-  return (annualizedReturn - riskFreeRate) / volatility;
+  return sharpeRatio(series, riskFree, estimator);
+}
+
+// One-tailed standard normal quantiles for the VaR confidence levels
+const NORMAL_QUANTILES = { 95: 1.6448536, 99: 2.3263479 } as const;
+
+export type VarConfidence = keyof typeof NORMAL_QUANTILES;
+
+export interface ValueAtRisk {
+  confidence: VarConfidence;
+  // One-period losses, as positive percentages
+  historical: number;
+  parametric: number;
+  historicalCvar: number;
+  parametricCvar: number;
+}
+
+export interface RiskStatistics {
+  sortinoRatio: number | null;
+  calmarRatio: number | null;
+  omegaRatio: number | null;
+  valueAtRisk: ValueAtRisk[];
+  skewness: number | null;
+  // Kurtosis in excess of the normal distribution's 3
+  excessKurtosis: number | null;
+}
+
+/**
+ * The p-quantile of a series, interpolating between the nearest observations
+ */
+function quantile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Historical and parametric (normal) one-period value at risk and conditional
+ * value at risk (expected shortfall) of periodic percentage returns
+ */
+export function calculateValueAtRisk(
+  returns: number[],
+  confidence: VarConfidence,
+  estimator: Estimator = 'sample'
+): ValueAtRisk | null {
+  if (returns.length < 2) return null;
+
+  const tail = 1 - confidence / 100;
+  const cutoff = quantile(returns, tail);
+  const tailReturns = returns.filter(r => r <= cutoff);
+
+  const average = mean(returns);
+  const deviation = standardDeviation(returns, estimator);
+  const z = NORMAL_QUANTILES[confidence];
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+
+  return {
+    confidence,
+    historical: -cutoff,
+    parametric: -(average - z * deviation),
+    historicalCvar: -mean(tailReturns),
+    parametricCvar: -(average - deviation * density / tail),
+  };
+}
+
+/**
+ * Skewness and excess kurtosis of returns: bias-adjusted for a sample, plain
+ * moments for a population
+ */
+function higherMoments(returns: number[], estimator: Estimator): { skewness: number | null; excessKurtosis: number | null } {
+  const n = returns.length;
+  const deviation = standardDeviation(returns, estimator);
+  if (!(deviation > 0)) return { skewness: null, excessKurtosis: null };
+
+  const average = mean(returns);
+  const standardized = (power: number) =>
+    returns.reduce((sum, r) => sum + Math.pow((r - average) / deviation, power), 0);
+
+  if (estimator === 'population') {
+    return { skewness: standardized(3) / n, excessKurtosis: standardized(4) / n - 3 };
+  }
+  return {
+    skewness: n > 2 ? (n / ((n - 1) * (n - 2))) * standardized(3) : null,
+    excessKurtosis: n > 3
+      ? ((n * (n + 1)) / ((n - 1) * (n - 2) * (n - 3))) * standardized(4) - (3 * Math.pow(n - 1, 2)) / ((n - 2) * (n - 3))
+      : null,
+  };
+}
+
+/**
+ * Downside-risk and distribution statistics of a return series. The Sortino
+ * and Omega ratios use 0% as the minimum acceptable return; VaR and CVaR are
+ * for one period of the series.
+ * @param annualizedReturn Annualized return percentage, for Sortino and Calmar
+ * @param maxDrawdown Maximum drawdown percentage, for Calmar
+ */
+export function calculateRiskStatistics(
+  series: ReturnSeries,
+  annualizedReturn: number | null,
+  maxDrawdown: number | null,
+  estimator: Estimator = 'sample'
+): RiskStatistics {
+  const { returns } = series;
+  const n = returns.length;
+
+  // Root mean square of the returns below 0%, annualized
+  const downsideDeviation = n
+    ? Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(Math.min(0, r), 2), 0) / n) *
+      Math.sqrt(PERIODS_PER_YEAR[series.frequency])
+    : 0;
+
+  const gains = returns.reduce((sum, r) => sum + Math.max(0, r), 0);
+  const losses = returns.reduce((sum, r) => sum + Math.max(0, -r), 0);
+
+  return {
+    sortinoRatio: annualizedReturn !== null && downsideDeviation > 0 ? annualizedReturn / downsideDeviation : null,
+    calmarRatio: annualizedReturn !== null && maxDrawdown ? annualizedReturn / Math.abs(maxDrawdown) : null,
+    omegaRatio: losses > 0 ? gains / losses : null,
+    valueAtRisk: ([95, 99] as VarConfidence[])
+      .map(confidence => calculateValueAtRisk(returns, confidence, estimator))
+      .filter((item): item is ValueAtRisk => item !== null),
+    ...higherMoments(returns, estimator),
+  };
 }
 
 /**
@@ -121,54 +263,302 @@ export function findWorstMonth(navData: MonthlyNav[]): { month: string; return:
 }
 
 /**
- * Calculate maximum drawdown from a series of NAV values
- * @param navData Array of monthly NAV data, sorted by date ascending
+ * The deepest drawdown in a return index, from its peak to its trough. Zero,
+ * dated at the start, when the index never fell.
  */
-export function calculateMaxDrawdown(navData: MonthlyNav[]): { 
-  percentage: number; 
-  startDate: string; 
+export function calculateMaxDrawdown(points: GrowthPoint[]): {
+  percentage: number;
+  startDate: string;
   endDate: string;
 } | null {
-  if (navData.length < 2) return null;
-  
-  let maxDrawdown = 0;
-  let maxNavValue = navData[0].total_nav;
-  let drawdownStartDate = navData[0].month_end_date;
-  let drawdownEndDate = navData[0].month_end_date;
-  let currentDrawdownStart = navData[0].month_end_date;
-  
-  for (let i = 1; i < navData.length; i++) {
-    const currentNav = navData[i].total_nav;
-    
-    // Update max NAV if we have a new high
-    if (currentNav > maxNavValue) {
-      maxNavValue = currentNav;
-      currentDrawdownStart = navData[i].month_end_date;
-    } 
-    // Calculate current drawdown
-    else {
-      const currentDrawdown = (maxNavValue - currentNav) / maxNavValue;
-      
-      // Update max drawdown if current drawdown is larger
-      if (currentDrawdown > maxDrawdown) {
-        maxDrawdown = currentDrawdown;
-        drawdownStartDate = currentDrawdownStart;
-        drawdownEndDate = navData[i].month_end_date;
-      }
+  if (points.length < 2) return null;
+
+  const deepest = calculateDrawdowns(points).episodes
+    .reduce<DrawdownEpisode | null>((max, episode) => (!max || episode.depth > max.depth ? episode : max), null);
+  const start = [...points].sort((a, b) => a.date.localeCompare(b.date))[0].date;
+
+  return {
+    percentage: deepest?.depth ?? 0,
+    startDate: deepest?.peakDate ?? start,
+    endDate: deepest?.troughDate ?? start,
+  };
+}
+
+/**
+ * A fall of the return index from a high until it is regained. Depth is a positive
+ * percentage of the peak; lengths are in months.
+ */
+export interface DrawdownEpisode {
+  peakDate: string;
+  troughDate: string;
+  // Null while the index is still below the peak
+  recoveryDate: string | null;
+  depth: number;
+  // Peak to recovery, or to the latest month when still open
+  length: number;
+  timeToTrough: number;
+  // Trough to recovery
+  timeToRecover: number | null;
+  open: boolean;
+}
+
+export interface UnderwaterPoint {
+  date: string;
+  // Percentage below the running high, zero or negative
+  drawdown: number;
+}
+
+/**
+ * Every drawdown in a return index, most recent first, with the underwater
+ * curve: how far each month's index is below the highest before it
+ */
+export function calculateDrawdowns(points: GrowthPoint[]): {
+  episodes: DrawdownEpisode[];
+  underwater: UnderwaterPoint[];
+} {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  const months = (from: string, to: string) => differenceInCalendarMonths(parseISO(to), parseISO(from));
+
+  const episodes: DrawdownEpisode[] = [];
+  const underwater: UnderwaterPoint[] = [];
+  let peak: (typeof sorted)[number] | null = null;
+  let trough: (typeof sorted)[number] | null = null;
+
+  const closeEpisode = (recovery: (typeof sorted)[number] | null) => {
+    if (!peak || !trough) return;
+    const end = recovery ?? sorted[sorted.length - 1];
+    episodes.push({
+      peakDate: peak.date,
+      troughDate: trough.date,
+      recoveryDate: recovery?.date ?? null,
+      depth: ((peak.index - trough.index) / peak.index) * 100,
+      length: months(peak.date, end.date),
+      timeToTrough: months(peak.date, trough.date),
+      timeToRecover: recovery ? months(trough.date, recovery.date) : null,
+      open: !recovery,
+    });
+  };
+
+  sorted.forEach(point => {
+    if (!peak || point.index >= peak.index) {
+      closeEpisode(point);
+      peak = point;
+      trough = null;
+    } else if (!trough || point.index < trough.index) {
+      trough = point;
     }
-  }
-  
+
+    underwater.push({
+      date: point.date,
+      drawdown: peak === point ? 0 : ((point.index - peak.index) / peak.index) * 100,
+    });
+  });
+  closeEpisode(null);
+
+  return { episodes: episodes.reverse(), underwater };
+}
+
+export interface PeriodReturns {
+  mtd: number | null;
+  qtd: number | null;
+  ytd: number | null;
+  itd: number | null;
+}
+
+/**
+ * Compounded month-, quarter- and year-to-date and since-inception returns of
+ * a monthly return series, as at a month end. Quarters and years follow the
+ * fiscal year. A period without returns in the series (e.g. after a full
+ * redemption) has none.
+ */
+export function calculatePeriodReturns(series: ReturnSeries, asOf: string, fiscalYearEndMonth = 12): PeriodReturns {
+  const periodReturn = (from: string) => {
+    const returns = series.returns.filter((_, i) => series.dates[i] >= from && series.dates[i] <= asOf);
+    if (!returns.length) return null;
+    return (returns.reduce((factor, r) => factor * (1 + r / 100), 1) - 1) * 100;
+  };
+  const date = parseISO(asOf);
+
   return {
-    percentage: maxDrawdown * 100,
-    startDate: drawdownStartDate,
-    endDate: drawdownEndDate
+    mtd: periodReturn(format(startOfMonth(date), "yyyy-MM-dd")),
+    qtd: periodReturn(format(fiscalQuarterStart(date, fiscalYearEndMonth), "yyyy-MM-dd")),
+    ytd: periodReturn(format(fiscalYearStart(date, fiscalYearEndMonth), "yyyy-MM-dd")),
+    itd: periodReturn(""),
   };
 }
 
+export interface RelativeStatistics {
+  // Months in which both the fund and the benchmark have a return
+  months: number;
+  // Annualized return not explained by the benchmark (Jensen's alpha), %
+  alpha: number | null;
+  beta: number | null;
+  correlation: number | null;
+  rSquared: number | null;
+  // Annualized standard deviation of the monthly excess returns, %
+  trackingError: number | null;
+  informationRatio: number | null;
+  // Fund's return as a share of the benchmark's in up and down months, %
+  upCapture: number | null;
+  downCapture: number | null;
+}
+
+export interface AlignedReturns {
+  // Month end of each pair of returns
+  dates: string[];
+  fund: number[];
+  benchmark: number[];
+}
+
+/**
+ * Pair the fund's monthly returns with the benchmark's, keeping only months
+ * where both have one. Returns are percentages.
+ */
+export function alignWithBenchmark(navData: MonthlyNav[], benchmark: BenchmarkSeries): AlignedReturns {
+  const dates: string[] = [];
+  const fund: number[] = [];
+  const benchmarkReturns: number[] = [];
+  [...navData]
+    .sort((a, b) => a.month_end_date.localeCompare(b.month_end_date))
+    .forEach(nav => {
+      const benchmarkReturn = benchmarkReturnFor(benchmark, nav.month_end_date);
+      if (nav.monthly_return === null || benchmarkReturn === null) return;
+      dates.push(nav.month_end_date);
+      fund.push(Number(nav.monthly_return));
+      benchmarkReturns.push(benchmarkReturn);
+    });
+  return { dates, fund, benchmark: benchmarkReturns };
+}
+
+// Geometric average periodic return, as a fraction
+const geometricMean = (returns: number[]) =>
+  Math.pow(returns.reduce((factor, r) => factor * (1 + r / 100), 1), 1 / returns.length) - 1;
+
 /**
- * Format NAV data for table display
+ * The fund's up or down capture: its geometric average return over
+ * the benchmark's up (or down) months, relative to the benchmark's own
  */
-export function formatNavDataForTable(navData: MonthlyNav[]): {
+function captureRatio(fund: number[], benchmark: number[], up: boolean): number | null {
+  const months = benchmark
+    .map((b, i) => ({ f: fund[i], b }))
+    .filter(({ b }) => (up ? b > 0 : b < 0));
+  if (!months.length) return null;
+
+  const benchmarkMean = geometricMean(months.map(({ b }) => b));
+  if (benchmarkMean === 0) return null;
+  return (geometricMean(months.map(({ f }) => f)) / benchmarkMean) * 100;
+}
+
+/**
+ * Statistics of the fund's returns against a benchmark's, from the periods
+ * both have a return for. Alpha is over the risk-free rate for each period.
+ * Periodic figures are annualized by the periods per year (alpha) or its
+ * square root (tracking error).
+ */
+export function calculateRelativeStatistics(
+  { dates, fund, benchmark }: AlignedReturns,
+  riskFree: RiskFreeRate = DEFAULT_RISK_FREE_RATE,
+  frequency: ReturnFrequency = 'monthly',
+  estimator: Estimator = 'sample'
+): RelativeStatistics | null {
+  const months = Math.min(fund.length, benchmark.length);
+  if (months < 2) return null;
+
+  const periodsPerYear = PERIODS_PER_YEAR[frequency];
+  const f = fund.slice(0, months);
+  const b = benchmark.slice(0, months);
+  const rf = riskFreeReturns({ frequency, dates: dates.slice(0, months), returns: f }, riskFree);
+  const varianceFund = variance(f, estimator);
+  const varianceBenchmark = variance(b, estimator);
+  const cov = covariance(f, b, estimator);
+
+  const beta = varianceBenchmark > 0 ? cov / varianceBenchmark : null;
+  const correlation = varianceFund > 0 && varianceBenchmark > 0
+    ? cov / Math.sqrt(varianceFund * varianceBenchmark)
+    : null;
+
+  const excess = f.map((value, i) => value - b[i]);
+  const trackingError = standardDeviation(excess, estimator) * Math.sqrt(periodsPerYear);
+
+  return {
+    months,
+    alpha: beta === null
+      ? null
+      : (mean(f.map((value, i) => value - rf[i])) - beta * mean(b.map((value, i) => value - rf[i]))) * periodsPerYear,
+    beta,
+    correlation,
+    rSquared: correlation === null ? null : correlation * correlation,
+    trackingError,
+    informationRatio: trackingError > 0 ? (mean(excess) * periodsPerYear) / trackingError : null,
+    upCapture: captureRatio(f, b, true),
+    downCapture: captureRatio(f, b, false),
+  };
+}
+
+export interface RollingMetricsPoint {
+  // Month end closing the window
+  date: string;
+  // Annualized over the window, %
+  return: number | null;
+  volatility: number | null;
+  sharpe: number | null;
+  // Beta over the window against each benchmark, by benchmark id
+  betas: Record<number, number | null>;
+}
+
+/**
+ * Metrics over a trailing window of periods, one point per period once the
+ * window is full. Beta needs at least two periods in the window with a
+ * benchmark return.
+ */
+export function calculateRollingMetrics(
+  series: ReturnSeries,
+  window: number,
+  riskFree: RiskFreeRate = DEFAULT_RISK_FREE_RATE,
+  benchmarks: BenchmarkSeries[] = []
+): RollingMetricsPoint[] {
+  const points: RollingMetricsPoint[] = [];
+
+  for (let end = window; end <= series.returns.length; end++) {
+    const slice: ReturnSeries = {
+      ...series,
+      dates: series.dates.slice(end - window, end),
+      returns: series.returns.slice(end - window, end),
+    };
+
+    const betas = Object.fromEntries(
+      benchmarks.map(benchmark => {
+        const pairs = slice.dates
+          .map((date, i) => ({ fund: slice.returns[i], benchmark: benchmarkReturnFor(benchmark, date) }))
+          .filter((pair): pair is { fund: number; benchmark: number } => pair.benchmark !== null);
+        if (pairs.length < 2) return [benchmark.benchmark.id, null];
+
+        const benchmarkVariance = variance(pairs.map(pair => pair.benchmark), 'sample');
+        return [
+          benchmark.benchmark.id,
+          benchmarkVariance > 0
+            ? covariance(pairs.map(pair => pair.fund), pairs.map(pair => pair.benchmark), 'sample') / benchmarkVariance
+            : null,
+        ];
+      })
+    );
+
+    points.push({
+      date: slice.dates[slice.dates.length - 1],
+      return: annualizeReturn(slice),
+      volatility: annualizeVolatility(slice),
+      sharpe: sharpeRatio(slice, riskFree),
+      betas,
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Format NAV data for table display, with amounts in the given currency
+ */
+export function formatNavDataForTable(navData: MonthlyNav[], currency: string): {
   month: string;
   navValue: string;
   monthlyReturn: string;
@@ -203,7 +593,7 @@ export function formatNavDataForTable(navData: MonthlyNav[]): {
     
     return {
       month: format(navDate, 'MMM yyyy'),
-      navValue: formatCurrency(nav.total_nav),
+      navValue: formatCurrency(nav.total_nav, currency),
       monthlyReturn: nav.monthly_return !== null 
         ? `${nav.monthly_return.toFixed(2)}%` 
         : 'N/A',
@@ -213,12 +603,15 @@ export function formatNavDataForTable(navData: MonthlyNav[]): {
 }
 
 /**
- * Format NAV data for heat map visualization
+ * Format NAV data for heat map visualization, with each month's return over
+ * the benchmark when one is given
  */
-export function formatNavDataForHeatMap(navData: MonthlyNav[]): {
+export function formatNavDataForHeatMap(navData: MonthlyNav[], benchmark: BenchmarkSeries | null = null): {
   year: number;
   month: number;
   return: number | null;
+  benchmarkReturn?: number | null;
+  excessReturn?: number | null;
 }[] {
   if (!navData.length) return [];
   
@@ -227,65 +620,42 @@ export function formatNavDataForHeatMap(navData: MonthlyNav[]): {
     return {
       year: date.getFullYear(),
       month: date.getMonth(),
-      return: nav.monthly_return
+      return: nav.monthly_return,
+      ...(benchmark && {
+        benchmarkReturn: benchmarkReturnFor(benchmark, nav.month_end_date),
+        excessReturn: excessReturn(nav, benchmark),
+      }),
     };
   });
 }
 
 /**
- * Calculate investor values based on ownership percentage
+ * Format a return series for the heat map, such as an investor's own returns
  */
-export async function calculateInvestorValues(
-  investors: any[],
-  latestNav: MonthlyNav | null
-): Promise<{
-  id: string;
-  name: string;
-  initialInvestment: number;
-  currentValue: number;
-  return: number;
-  status: string;
-  mgmtFeeRate: number;
-  perfFeeRate: number;
-  startDate: string;
-}[]> {
-  if (!investors.length || !latestNav) return [];
-  
-  // Calculate total initial investment
-  const totalInitialInvestment = investors.reduce(
-    (sum, investor) => sum + Number(investor.initial_investment),
-    0
-  );
-  
-  // Calculate each investor's values
-  return investors.map(investor => {
-    // Calculate ownership percentage based on initial investment
-    const ownershipPercentage = Number(investor.initial_investment) / totalInitialInvestment;
-    
-    // Calculate current value based on ownership percentage of latest NAV
-    const currentValue = Number(latestNav.total_nav) * ownershipPercentage;
-    
-    // Calculate return percentage
-    const returnPercentage = ((currentValue - Number(investor.initial_investment)) / Number(investor.initial_investment)) * 100;
-    
+export function formatReturnSeriesForHeatMap(series: ReturnSeries): {
+  year: number;
+  month: number;
+  return: number | null;
+}[] {
+  return series.dates.map((monthEnd, i) => {
+    const date = new Date(monthEnd);
     return {
-      id: investor.id,
-      name: investor.name,
-      initialInvestment: Number(investor.initial_investment),
-      currentValue,
-      return: returnPercentage,
-      status: investor.status,
-      mgmtFeeRate: Number(investor.mgmt_fee_rate),
-      perfFeeRate: Number(investor.performance_fee_rate),
-      startDate: investor.start_date,
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      return: series.returns[i],
     };
   });
 }
 
 /**
- * Prepare NAV data for chart display
+ * Prepare NAV data for chart display. Total NAV moves with subscriptions and
+ * redemptions, so benchmarks are set against the fund's growth of 100 instead:
+ * both start at 100 at the first month shown, and benchmarks are keyed by id.
  */
-export function prepareChartData(navData: MonthlyNav[], benchmark?: any[]) {
+export function prepareChartData(
+  navData: Pick<MonthlyNav, 'month_end_date' | 'total_nav' | 'monthly_return'>[],
+  benchmarks: BenchmarkSeries[] = []
+) {
   if (!navData.length) return [];
 
   // Sort by date
@@ -293,17 +663,19 @@ export function prepareChartData(navData: MonthlyNav[], benchmark?: any[]) {
     (a, b) => new Date(a.month_end_date).getTime() - new Date(b.month_end_date).getTime()
   );
 
-  return sortedData.map((nav) => {
+  const monthEnds = sortedData.map(nav => nav.month_end_date);
+  const growth = navReturnIndex(sortedData);
+  const rebased = benchmarks.map(series => rebaseBenchmark(series, monthEnds, 100));
+
+  return sortedData.map((nav, index) => {
     const date = new Date(nav.month_end_date);
     return {
       date: format(date, "MMM yyyy"),
       nav: Number(nav.total_nav),
-      // Add benchmark data if available
-      benchmark: benchmark 
-        ? benchmark.find(b => 
-            format(new Date(b.date), "MMM yyyy") === format(date, "MMM yyyy")
-          )?.value 
-        : undefined,
+      growth: growth[index].index,
+      benchmarks: Object.fromEntries(
+        benchmarks.map((series, i) => [series.benchmark.id, rebased[i][index]])
+      ) as Record<number, number | undefined>,
     };
   });
 }
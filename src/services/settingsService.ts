@@ -0,0 +1,104 @@
+import { addMonths } from "date-fns";
+import { TablesUpdate } from "@/integrations/supabase/types";
+import { BackendError, fetchFundSettings, FundSettingsRow, getDataMode, upsertFundSettings } from "@/repositories";
+import { BenchmarkSeries } from "@/services/benchmarkService";
+import { RiskFreeRate } from "@/services/metricsEngine";
+import { rebuildUnitLedger } from "@/services/unitLedgerService";
+
+export type FundSettings = Omit<FundSettingsRow, "id" | "fund_id">;
+export type FundSettingsPatch = Omit<TablesUpdate<"fund_settings">, "id" | "fund_id" | "updated_at">;
+
+// Used until the settings are loaded, or when they can't be; the same as the
+// column defaults in the database
+export const DEFAULT_FUND_SETTINGS: FundSettings = {
+  logo_url: null,
+  base_currency: "USD",
+  fiscal_year_end_month: 12,
+  default_mgmt_fee_rate: 2,
+  default_performance_fee_rate: 20,
+  default_crystallization_frequency: "annual",
+  default_hurdle_type: "none",
+  default_hurdle_rate: 0,
+  default_catch_up_rate: 100,
+  risk_free_rate: 2,
+  risk_free_benchmark: null,
+  reconciliation_tolerance: 0.01,
+  dealing_cutoff_days: 0,
+  updated_at: null,
+};
+
+// Shown in the app and on statements when no logo URL is set
+export const DEFAULT_LOGO_URL = "/lovable-uploads/89bff80d-5482-4dde-9dcf-f38b43a488b6.png";
+
+export const SETTINGS_OFFLINE_ERROR = { message: "Settings can only be changed while online" };
+
+/**
+ * The current fund's (or the given fund's) settings, or the defaults when
+ * they can't be fetched
+ */
+export async function getFundSettings(fundId?: number): Promise<FundSettings> {
+  const { data, error } = await fetchFundSettings(fundId);
+
+  if (error) {
+    console.error("Error fetching fund settings:", error);
+    return DEFAULT_FUND_SETTINGS;
+  }
+
+  return data[0] ? { ...DEFAULT_FUND_SETTINGS, ...data[0] } : DEFAULT_FUND_SETTINGS;
+}
+
+/**
+ * Save changes to the current fund's settings. Changing the dealing cutoff
+ * moves flows between months, so the fund's unit ledger is rebuilt.
+ */
+export async function saveFundSettings(patch: FundSettingsPatch): Promise<{ success: boolean; error?: BackendError }> {
+  if (getDataMode() === 'offline') return { success: false, error: SETTINGS_OFFLINE_ERROR };
+
+  const current = await getFundSettings();
+  const { error } = await upsertFundSettings({ ...patch, updated_at: new Date().toISOString() });
+
+  if (error) {
+    console.error("Error saving fund settings:", error);
+    return { success: false, error };
+  }
+
+  if (patch.dealing_cutoff_days !== undefined && patch.dealing_cutoff_days !== current.dealing_cutoff_days) {
+    await rebuildUnitLedger();
+  }
+
+  return { success: true };
+}
+
+/**
+ * The first day of the fiscal year a date falls in, for a fiscal year ending
+ * in the given month (1–12)
+ */
+export function fiscalYearStart(date: Date, fiscalYearEndMonth: number): Date {
+  const startMonth = fiscalYearEndMonth % 12;
+  const year = date.getMonth() >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, startMonth, 1);
+}
+
+/**
+ * The first day of the fiscal quarter a date falls in, counting quarters from
+ * the start of the fiscal year
+ */
+export function fiscalQuarterStart(date: Date, fiscalYearEndMonth: number): Date {
+  const yearStart = fiscalYearStart(date, fiscalYearEndMonth);
+  const monthsIn = (date.getFullYear() - yearStart.getFullYear()) * 12 + date.getMonth() - yearStart.getMonth();
+  return addMonths(yearStart, monthsIn - (monthsIn % 3));
+}
+
+/**
+ * The risk-free rate the settings choose: the named benchmark's returns when
+ * it exists, otherwise the constant rate
+ */
+export function riskFreeRateFromSettings(settings: FundSettings, benchmarks: BenchmarkSeries[]): RiskFreeRate {
+  const series = settings.risk_free_benchmark
+    ? benchmarks.find(item => item.benchmark.name === settings.risk_free_benchmark)
+    : undefined;
+
+  return series
+    ? { type: 'series', name: series.benchmark.name, returns: series.returns }
+    : { type: 'constant', annualRate: Number(settings.risk_free_rate) };
+}
@@ -0,0 +1,204 @@
+
+import { format, parseISO } from "date-fns";
+import JSZip from "jszip";
+import { getAllFunds, getAllInvestors, getAllNavData, getCurrentFundId, Investor, MonthlyNav } from "@/repositories";
+import { CapitalAccountPeriod, getCapitalAccount, summarizeCapitalAccount } from "@/services/capitalAccountService";
+import { getHighWaterMarks } from "@/services/feeService";
+import { DEFAULT_LOGO_URL, fiscalQuarterStart, fiscalYearStart, getFundSettings } from "@/services/settingsService";
+import { getNavPerUnitHistory, getUnitLedger, NavPerUnit, UnitLedgerEntry } from "@/services/unitLedgerService";
+import { renderStatementPdf } from "@/utils/statementPdf";
+
+// Number of months of fund returns shown on a statement
+const STATEMENT_RETURN_MONTHS = 12;
+
+/**
+ * Everything printed on an investor's statement for a month end
+ */
+export interface InvestorStatement {
+  fundName: string;
+  baseCurrency: string;
+  logoDataUrl: string | null;
+  generatedAt: string;
+  monthEndDate: string;
+  investor: Investor;
+  units: number;
+  navPerUnit: number;
+  accruedIncentiveFee: number;
+  closingBalance: number;
+  fundMonthReturn: number | null;
+  fundYtdReturn: number | null;
+  // Month, quarter to date, year to date and since inception
+  rollforward: (CapitalAccountPeriod | null)[];
+  fundReturns: MonthlyNav[];
+  transactions: UnitLedgerEntry[];
+}
+
+/**
+ * Fund-level data shared by every statement for a month end
+ */
+interface StatementContext {
+  monthEndDate: string;
+  fundName: string;
+  baseCurrency: string;
+  fiscalYearEndMonth: number;
+  logoDataUrl: string | null;
+  navHistory: MonthlyNav[];
+  navPerUnit: NavPerUnit | null;
+}
+
+/**
+ * Load the fund logo as a data URL so it can be embedded in the PDF
+ */
+async function loadLogo(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(typeof reader.result === "string" ? reader.result : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    console.error("Error loading statement logo:", error);
+    return null;
+  }
+}
+
+async function loadStatementContext(monthEndDate: string): Promise<StatementContext> {
+  const settings = await getFundSettings();
+  const [logoDataUrl, navData, prices, funds] = await Promise.all([
+    loadLogo(settings.logo_url || DEFAULT_LOGO_URL),
+    getAllNavData(),
+    getNavPerUnitHistory(),
+    getAllFunds(),
+  ]);
+  // Statements are issued by the investor's fund, under the firm's logo
+  const fund = funds.find(item => item.id === getCurrentFundId());
+
+  return {
+    monthEndDate,
+    fundName: fund?.name ?? "",
+    baseCurrency: settings.base_currency,
+    fiscalYearEndMonth: settings.fiscal_year_end_month,
+    logoDataUrl,
+    navHistory: navData
+      .filter(nav => nav.month_end_date <= monthEndDate)
+      .sort((a, b) => a.month_end_date.localeCompare(b.month_end_date)),
+    navPerUnit: prices.find(price => price.month_end_date === monthEndDate) ?? null,
+  };
+}
+
+/**
+ * Compound the fund's monthly returns for the fiscal year up to the month end
+ */
+function yearToDateReturn(navHistory: MonthlyNav[], monthEndDate: string, fiscalYearEndMonth: number): number | null {
+  const yearStart = format(fiscalYearStart(parseISO(monthEndDate), fiscalYearEndMonth), "yyyy-MM-dd");
+  const returns = navHistory
+    .filter(nav => nav.month_end_date >= yearStart && nav.monthly_return !== null)
+    .map(nav => Number(nav.monthly_return));
+
+  if (!returns.length) return null;
+  return (returns.reduce((growth, monthly) => growth * (1 + monthly / 100), 1) - 1) * 100;
+}
+
+async function buildStatement(investor: Investor, context: StatementContext): Promise<InvestorStatement> {
+  const { monthEndDate, navHistory, fiscalYearEndMonth } = context;
+
+  const [months, entries, marks] = await Promise.all([
+    getCapitalAccount(investor.id),
+    getUnitLedger(investor.id),
+    getHighWaterMarks(monthEndDate, investor.id),
+  ]);
+
+  const monthEnd = parseISO(monthEndDate);
+  const toDate = months.filter(month => month.endDate <= monthEndDate);
+  const quarterStart = fiscalQuarterStart(monthEnd, fiscalYearEndMonth);
+  const yearStart = fiscalYearStart(monthEnd, fiscalYearEndMonth);
+  const since = (start: Date) => toDate.filter(month => month.endDate >= format(start, "yyyy-MM-dd"));
+
+  const current = toDate.find(month => month.endDate === monthEndDate) ?? null;
+  const latest = toDate.length ? toDate[toDate.length - 1] : null;
+  const monthNav = navHistory.find(nav => nav.month_end_date === monthEndDate);
+
+  return {
+    fundName: context.fundName,
+    baseCurrency: context.baseCurrency,
+    logoDataUrl: context.logoDataUrl,
+    generatedAt: new Date().toISOString(),
+    monthEndDate,
+    investor,
+    units: latest?.endingUnits ?? 0,
+    navPerUnit: context.navPerUnit ? Number(context.navPerUnit.nav_per_unit) : 0,
+    accruedIncentiveFee: marks.length ? Number(marks[0].accrued_fee) : 0,
+    closingBalance: current?.endingBalance ?? 0,
+    fundMonthReturn: monthNav?.monthly_return ?? null,
+    fundYtdReturn: yearToDateReturn(navHistory, monthEndDate, fiscalYearEndMonth),
+    rollforward: [
+      current,
+      summarizeCapitalAccount(since(quarterStart)),
+      summarizeCapitalAccount(since(yearStart)),
+      summarizeCapitalAccount(toDate),
+    ],
+    fundReturns: navHistory.slice(-STATEMENT_RETURN_MONTHS),
+    transactions: entries.filter(entry => entry.dealing_date <= monthEndDate),
+  };
+}
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/(^-|-$)/g, "");
+
+/**
+ * File name for an investor's statement. The investor's id keeps investors
+ * with the same name from overwriting each other's statements in a zip.
+ */
+function statementFilename(fundName: string, investor: Investor, monthEndDate: string): string {
+  return `${slugify(fundName)}-statement-${slugify(investor.name)}-${investor.id}-${monthEndDate}.pdf`;
+}
+
+/**
+ * Generate an investor's PDF statement for a month end
+ */
+export async function generateInvestorStatement(
+  investor: Investor,
+  monthEndDate: string
+): Promise<{ blob: Blob; filename: string }> {
+  const context = await loadStatementContext(monthEndDate);
+  const statement = await buildStatement(investor, context);
+
+  return {
+    blob: renderStatementPdf(statement).output("blob"),
+    filename: statementFilename(context.fundName, investor, monthEndDate),
+  };
+}
+
+/**
+ * Generate a statement for every active investor for a month end and bundle
+ * them into a zip
+ */
+export async function generateStatementBatch(
+  monthEndDate: string,
+  onProgress?: (completed: number, total: number) => void
+): Promise<{ blob: Blob; filename: string; count: number }> {
+  const [context, investors] = await Promise.all([
+    loadStatementContext(monthEndDate),
+    getAllInvestors(),
+  ]);
+
+  const activeInvestors = investors.filter(
+    investor => investor.status === "active" && investor.start_date <= monthEndDate
+  );
+  const zip = new JSZip();
+
+  for (let i = 0; i < activeInvestors.length; i++) {
+    const statement = await buildStatement(activeInvestors[i], context);
+    zip.file(statementFilename(context.fundName, activeInvestors[i], monthEndDate), renderStatementPdf(statement).output("arraybuffer"));
+    onProgress?.(i + 1, activeInvestors.length);
+  }
+
+  return {
+    blob: await zip.generateAsync({ type: "blob" }),
+    filename: `${slugify(context.fundName)}-statements-${monthEndDate}.zip`,
+    count: activeInvestors.length,
+  };
+}
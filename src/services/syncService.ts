@@ -0,0 +1,208 @@
+
+import { BackendError, Filter, getDataMode, setDataMode } from "@/repositories";
+import {
+  completePendingChange,
+  deletePendingChange,
+  getPendingChanges,
+  LOCAL_TABLES,
+  LocalRow,
+  LocalTable,
+  PendingChange,
+  replaceLocalTables,
+  savePendingChange,
+  SyncedTable,
+} from "@/repositories/localDatabase";
+import { supabaseBackend } from "@/repositories/supabaseBackend";
+import { rebuildStaleLedgers } from "@/services/unitLedgerService";
+
+export type { PendingChange };
+export { getPendingChanges, subscribeToPendingChanges } from "@/repositories/localDatabase";
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+}
+
+// Columns that refer to other synced rows, with the table they refer to,
+// rewritten in the queue once those rows have been given their Supabase ids
+const REFERENCE_COLUMNS: Partial<Record<SyncedTable, Record<string, SyncedTable>>> = {
+  capital_flows: { reverses_flow_id: "capital_flows", corrects_flow_id: "capital_flows" },
+};
+
+// Postgres and PostgREST report a rejected write with an error code; without
+// one, Supabase could not be reached
+const isServerRejection = (error: BackendError) => /^([0-9A-Z]{5}|PGRST\d+)$/.test(error.code ?? "");
+
+const isLocalId = (id: unknown) => typeof id === "number" && id < 0;
+
+const sameValue = (a: unknown, b: unknown) =>
+  (a ?? null) === (b ?? null) || (a !== null && b !== null && Number(a) === Number(b) && !isNaN(Number(a)));
+
+/**
+ * Download everything from Supabase and switch to working on the local copy.
+ * Changes from an earlier offline session must have been synced or discarded.
+ */
+export async function goOffline(): Promise<{ success: boolean; error?: BackendError }> {
+  const pending = await getPendingChanges();
+  if (pending.length) {
+    return { success: false, error: new Error(`${pending.length} offline changes have not been synced yet`) };
+  }
+
+  const snapshot: Partial<Record<LocalTable, LocalRow[]>> = {};
+  for (const table of LOCAL_TABLES) {
+    const { data, error } = await supabaseBackend.select(table);
+    if (error) {
+      console.error(`Error downloading ${table} for offline use:`, error);
+      return { success: false, error };
+    }
+    snapshot[table] = data as unknown as LocalRow[];
+  }
+
+  await replaceLocalTables(snapshot);
+  setDataMode("offline");
+
+  return { success: true };
+}
+
+/**
+ * Switch back to Supabase and send it the changes made offline, oldest first.
+ * Changes Supabase rejects, or that clash with edits made there in the
+ * meantime, are kept as conflicts to resolve; the ledgers of the funds the
+ * synced changes touched are then rebuilt.
+ */
+export async function goOnline(): Promise<{ success: boolean; error?: BackendError; result?: SyncResult }> {
+  const wasOffline = getDataMode() === "offline";
+  setDataMode("online");
+
+  const { error, result } = await syncPendingChanges();
+  if (error) {
+    // Still unreachable: carry on with the local copy
+    if (wasOffline) setDataMode("offline");
+    return { success: false, error };
+  }
+
+  if (result.synced > 0) {
+    await rebuildStaleLedgers();
+  }
+
+  return { success: true, result };
+}
+
+/**
+ * Send pending changes to Supabase. Stops at the first change that could not
+ * be sent at all, leaving it and the rest queued. Once a row created offline
+ * is synced, the changes still queued are rewritten to use its Supabase id,
+ * so a later sync can carry on where this one stopped.
+ */
+export async function syncPendingChanges(): Promise<{ error: BackendError | null; result: SyncResult }> {
+  const result: SyncResult = { synced: 0, conflicts: 0 };
+  let lastId = -Infinity;
+
+  // Reread the queue each time, as syncing a change rewrites those after it
+  for (;;) {
+    const change = (await getPendingChanges()).find(queued => queued.id > lastId);
+    if (!change) break;
+    lastId = change.id;
+
+    if (refersToUnsyncedRow(change)) {
+      await savePendingChange({ ...change, conflict: "Depends on an offline change that has not been synced" });
+      result.conflicts++;
+      continue;
+    }
+
+    const outcome = await pushChange(change);
+
+    if (outcome.error && !isServerRejection(outcome.error)) {
+      console.error("Error syncing offline changes:", outcome.error);
+      return { error: outcome.error, result };
+    }
+
+    if (outcome.error || outcome.conflict) {
+      await savePendingChange({ ...change, conflict: outcome.conflict ?? outcome.error?.message });
+      result.conflicts++;
+      continue;
+    }
+
+    const syncedId = outcome.id;
+    await completePendingChange(change.id, queued =>
+      isLocalId(change.rowId) && syncedId !== undefined
+        ? withSyncedId(queued, change.table, change.rowId, syncedId)
+        : queued
+    );
+    result.synced++;
+  }
+
+  return { error: null, result };
+}
+
+/**
+ * Whether a change still refers to a row created offline that has not been
+ * synced. Inserts keep their own local id until Supabase assigns one.
+ */
+function refersToUnsyncedRow(change: PendingChange): boolean {
+  if (change.action === 'update' && isLocalId(change.rowId)) return true;
+  return Object.keys(REFERENCE_COLUMNS[change.table] ?? {}).some(column => isLocalId(change.values[column]));
+}
+
+/**
+ * Point a queued change at the Supabase id of a row created offline, wherever
+ * it refers to the row's local id
+ */
+function withSyncedId<T extends SyncedTable>(
+  change: PendingChange<T>,
+  table: SyncedTable,
+  localId: number | string,
+  id: number | string
+): PendingChange<T> {
+  const synced = structuredClone(change);
+  const values: Record<string, unknown> = synced.values;
+  for (const [column, referenced] of Object.entries(REFERENCE_COLUMNS[change.table] ?? {})) {
+    if (referenced === table && values[column] === localId) values[column] = id;
+  }
+
+  if (synced.table === table && synced.rowId === localId) synced.rowId = id;
+  return synced;
+}
+
+async function pushChange<T extends SyncedTable>(
+  change: PendingChange<T>
+): Promise<{ id?: number | string; conflict?: string; error?: BackendError | null }> {
+  const options = { reason: change.reason, recomputed: change.recomputed };
+
+  if (change.action === 'update') {
+    const byId: Filter<T>[] = [{ column: "id", operator: "eq", value: change.rowId }];
+    const { data: current, error: fetchError } = await supabaseBackend.select(change.table, { filters: byId });
+    if (fetchError) return { error: fetchError };
+    if (!current.length) return { conflict: "The row no longer exists in Supabase" };
+
+    const server = current[0] as unknown as Record<string, unknown>;
+    const changedThere = Object.keys(change.base).filter(column => !sameValue(server[column], change.base[column]));
+    if (changedThere.length && !change.force) {
+      return { conflict: `Changed in Supabase since it was downloaded: ${changedThere.join(", ")}` };
+    }
+
+    const { error } = await supabaseBackend.update(change.table, byId, change.values, options);
+    return { id: change.rowId, error };
+  }
+
+  const { data, error } = change.action === 'upsert'
+    ? await supabaseBackend.upsert(change.table, [change.values], change.onConflict, options)
+    : await supabaseBackend.insert(change.table, [change.values], options);
+
+  return { id: data[0]?.id, error };
+}
+
+/**
+ * Drop an offline change instead of syncing it
+ */
+export async function discardPendingChange(change: PendingChange): Promise<void> {
+  await deletePendingChange(change.id);
+}
+
+/**
+ * Sync an update on the next attempt even though the row has since changed in
+ * Supabase, overwriting those edits
+ */
+export async function overwriteOnSync(change: PendingChange): Promise<void> {
+  await savePendingChange({ ...change, force: true, conflict: undefined });
+}
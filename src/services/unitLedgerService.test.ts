@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { buildUnitLedger, INITIAL_UNIT_PRICE, toDealingFlows } from "@/services/unitLedgerService";
+import { makeCapitalFlow, makeDealingFlow as flow, makeInvestor, makeNav as nav } from "@/test/fixtures";
+
+describe("buildUnitLedger", () => {
+  it("issues the first units at the initial price", () => {
+    const { navPerUnit, entries } = buildUnitLedger(
+      [nav(1, "2024-01-31", 1_000_000)],
+      [flow("a", "2024-01-15", 1_000_000, "subscription")]
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ investor_id: "a", dealing_date: "2024-01-31", nav_per_unit: INITIAL_UNIT_PRICE });
+    expect(entries[0].units).toBeCloseTo(1_000);
+    expect(navPerUnit[0]).toMatchObject({ nav_per_unit: INITIAL_UNIT_PRICE, units_issued: 1_000 });
+  });
+
+  it("strikes the price on the NAV before the month's flows", () => {
+    const { navPerUnit, entries } = buildUnitLedger(
+      [
+        nav(1, "2024-01-31", 1_000_000),
+        nav(2, "2024-02-29", 1_100_000),
+        // 10% growth on 1.1m, plus a 550k subscription received in March
+        nav(3, "2024-03-31", 1_760_000),
+      ],
+      [
+        flow("a", "2024-01-15", 1_000_000, "subscription"),
+        flow("b", "2024-03-10", 550_000, "subscription"),
+      ]
+    );
+
+    expect(navPerUnit.map(row => row.nav_per_unit)).toEqual([1_000, 1_100, 1_210].map(value => expect.closeTo(value, 6)));
+    const subscription = entries.find(entry => entry.investor_id === "b");
+    expect(subscription?.nav_per_unit).toBeCloseTo(1_210);
+    expect(subscription?.units).toBeCloseTo(550_000 / 1_210);
+  });
+
+  it("redeems units and keeps units × NAV per unit equal to the total NAV", () => {
+    const navHistory = [
+      nav(1, "2024-01-31", 1_000_000),
+      nav(2, "2024-02-29", 1_200_000),
+      // Flat month, with 300k paid out
+      nav(3, "2024-03-31", 900_000),
+    ];
+    const { navPerUnit, entries } = buildUnitLedger(navHistory, [
+      flow("a", "2024-01-02", 600_000, "subscription"),
+      flow("b", "2024-01-20", 400_000, "subscription"),
+      flow("a", "2024-03-15", 300_000, "redemption"),
+    ]);
+
+    const redemption = entries.find(entry => entry.type === "redemption");
+    expect(redemption?.nav_per_unit).toBeCloseTo(1_200);
+    expect(redemption?.units).toBeCloseTo(-250);
+    expect(navPerUnit[2].units_redeemed).toBeCloseTo(250);
+    navPerUnit.forEach((row, index) => {
+      expect(row.units_outstanding * row.nav_per_unit).toBeCloseTo(navHistory[index].total_nav, 4);
+    });
+  });
+
+  it("leaves flows after the latest NAV undealt", () => {
+    const { entries } = buildUnitLedger(
+      [nav(1, "2024-01-31", 1_000_000)],
+      [flow("a", "2024-01-15", 1_000_000, "subscription"), flow("b", "2024-02-03", 50_000, "subscription")]
+    );
+
+    expect(entries.map(entry => entry.investor_id)).toEqual(["a"]);
+  });
+});
+
+describe("toDealingFlows", () => {
+  it("deals initial investments and capital flows, withdrawals as redemptions", () => {
+    const flows = toDealingFlows(
+      [
+        makeInvestor("a", { start_date: "2024-01-05", initial_investment: 100_000 }),
+        makeInvestor("b", { start_date: "2024-01-05" }),
+      ],
+      [makeCapitalFlow(7, "a", "2024-02-10", 20_000, "withdrawal")]
+    );
+
+    expect(flows).toEqual([
+      { investor_id: "a", capital_flow_id: null, date: "2024-01-05", deal_from: "2024-01-05", amount: 100_000, type: "subscription" },
+      { investor_id: "a", capital_flow_id: 7, date: "2024-02-10", deal_from: "2024-02-10", amount: 20_000, type: "redemption" },
+    ]);
+  });
+
+  it("moves flows within the dealing cutoff to the next month end", () => {
+    const [dealing] = toDealingFlows([], [makeCapitalFlow(1, "a", "2024-01-29", 10_000)], 5);
+    const { entries } = buildUnitLedger(
+      [nav(1, "2024-01-31", 0), nav(2, "2024-02-29", 10_000)],
+      [dealing]
+    );
+
+    expect(dealing.deal_from).toBe("2024-02-03");
+    expect(entries[0]).toMatchObject({ flow_date: "2024-01-29", dealing_date: "2024-02-29" });
+  });
+});
@@ -0,0 +1,542 @@
+import { addDays, format, parseISO } from "date-fns";
+
+import { Tables } from "@/integrations/supabase/types";
+import {
+  BackendError,
+  CapitalFlow,
+  fetchAllCapitalFlows,
+  fetchAllFunds,
+  fetchAllInvestors,
+  fetchAllNavData,
+  fetchFund,
+  Fund,
+  FundScopedInsert,
+  getCurrentFundId,
+  Investor,
+  MonthlyNav,
+  NO_FUND_ERROR,
+  replaceFundLedger,
+  selectInFund,
+} from "@/repositories";
+import {
+  getCrystallizationDates,
+  getHighWaterMarks,
+  HighWaterMark,
+  managementFeeCalculator,
+  managementFeeTotals,
+  performanceFeeCalculator,
+} from "@/services/feeService";
+import { getHurdleBenchmarkReturns } from "@/services/benchmarkService";
+import { getFundSettings } from "@/services/settingsService";
+
+export type NavPerUnit = Tables<"nav_per_unit">;
+export type UnitLedgerEntry = Tables<"unit_ledger">;
+
+// Price at which the very first units of the fund are issued
+export const INITIAL_UNIT_PRICE = 1000;
+
+export type DealingType = 'subscription' | 'redemption' | 'management_fee' | 'performance_fee';
+export type FeePosting = FundScopedInsert<"fee_transactions">;
+
+/**
+ * A subscription or redemption waiting to be dealt at a month-end NAV per unit.
+ * The investor's initial investment is dealt as a subscription without a capital flow.
+ */
+export interface DealingFlow {
+  investor_id: string;
+  capital_flow_id: number | null;
+  date: string;
+  // The date that decides which month end the flow deals at: its own date, or
+  // later when it arrives within the dealing cutoff of a month end
+  deal_from: string;
+  amount: number;
+  type: 'subscription' | 'redemption';
+}
+
+/**
+ * Everything a fee calculator needs to know about a month before it is priced
+ */
+export interface MonthDealing {
+  nav: MonthlyNav;
+  // Exclusive start of the dealing period (the previous month end)
+  periodStart: Date;
+  periodEnd: Date;
+  openingNavPerUnit: number;
+  // Units held by each investor before this month's dealing
+  holdings: Record<string, number>;
+  // Subscriptions and redemptions dealt this month
+  flows: DealingFlow[];
+}
+
+/**
+ * Calculates the fees charged to investors for a month. Fees are paid out of
+ * the fund, so they are dealt like redemptions at the month's NAV per unit.
+ */
+export type FeeCalculator = (month: MonthDealing) => FeePosting[];
+
+export type HighWaterMarkPosting = FundScopedInsert<"high_water_marks">;
+
+/**
+ * Calculates performance fees, which depend on the NAV per unit they are
+ * themselves deducted from. The ledger asks for the fee accrued at a trial
+ * price until the price settles, then settles the month at the final price.
+ */
+export interface IncentiveFeeCalculator {
+  // Total fee accrued on investors' opening units at a trial NAV per unit
+  accrue: (month: MonthDealing, navPerUnit: number) => number;
+  // Fees to post (crystallized) and each investor's mark at the final price
+  settle: (
+    month: MonthDealing,
+    navPerUnit: number,
+    redeemedUnits: Record<string, number>
+  ) => { postings: FeePosting[]; marks: Omit<HighWaterMarkPosting, "units">[] };
+}
+
+export interface InvestorUnitPosition {
+  investorId: string;
+  units: number;
+  navPerUnit: number;
+  value: number;
+  asOf: string | null;
+  highWaterMark: number | null;
+  accruedIncentiveFee: number;
+}
+
+/**
+ * Turn investors' initial investments and capital flows into dealing flows.
+ * Flows dated within cutoffDays of a month end deal at the next month end.
+ */
+export function toDealingFlows(investors: Investor[], flows: CapitalFlow[], cutoffDays = 0): DealingFlow[] {
+  const dealFrom = (date: string) => format(addDays(parseISO(date), cutoffDays), "yyyy-MM-dd");
+
+  const initialSubscriptions: DealingFlow[] = investors
+    .filter(investor => Number(investor.initial_investment) > 0)
+    .map(investor => ({
+      investor_id: investor.id,
+      capital_flow_id: null,
+      date: investor.start_date,
+      deal_from: dealFrom(investor.start_date),
+      amount: Number(investor.initial_investment),
+      type: 'subscription',
+    }));
+
+  const flowDealings: DealingFlow[] = flows.map(flow => ({
+    investor_id: flow.investor_id,
+    capital_flow_id: flow.id,
+    date: flow.date,
+    deal_from: dealFrom(flow.date),
+    amount: Number(flow.amount),
+    type: flow.type === 'withdrawal' ? 'redemption' : 'subscription',
+  }));
+
+  return [...initialSubscriptions, ...flowDealings];
+}
+
+/**
+ * Build the unit ledger from the NAV history and the dealing flows.
+ *
+ * Flows dealing from within a month (after the previous month end, up to and
+ * including this month end) deal at this month's NAV per unit. The month-end total NAV
+ * already includes that money and is net of fees, so the price is struck on the
+ * NAV before flows and fees: (total_nav - net flows + fees) / units outstanding
+ * before dealing. Performance fees are deducted from the price they depend on,
+ * so that price is found by iterating until it settles. At launch there are no
+ * units yet, so the first subscriptions deal at INITIAL_UNIT_PRICE. Units times
+ * NAV per unit, less performance fees accrued but not yet crystallized, equals
+ * total_nav exactly. Flows dated after the latest NAV are left undealt until
+ * that month's NAV is published.
+ */
+export function buildUnitLedger(
+  navHistory: MonthlyNav[],
+  dealingFlows: DealingFlow[],
+  feeCalculators: FeeCalculator[] = [],
+  incentiveFeeCalculator?: IncentiveFeeCalculator
+): {
+  navPerUnit: FundScopedInsert<"nav_per_unit">[];
+  entries: FundScopedInsert<"unit_ledger">[];
+  fees: FeePosting[];
+  highWaterMarks: HighWaterMarkPosting[];
+} {
+  const sortedNav = [...navHistory].sort(
+    (a, b) => new Date(a.month_end_date).getTime() - new Date(b.month_end_date).getTime()
+  );
+  const sortedFlows = [...dealingFlows].sort(
+    (a, b) => new Date(a.deal_from).getTime() - new Date(b.deal_from).getTime()
+  );
+
+  const navPerUnit: FundScopedInsert<"nav_per_unit">[] = [];
+  const entries: FundScopedInsert<"unit_ledger">[] = [];
+  const fees: FeePosting[] = [];
+  const highWaterMarks: HighWaterMarkPosting[] = [];
+  const holdings: Record<string, number> = {};
+
+  let unitsOutstanding = 0;
+  let lastNavPerUnit = INITIAL_UNIT_PRICE;
+  let previousMonthEnd: Date | null = null;
+
+  for (const nav of sortedNav) {
+    const monthEnd = new Date(nav.month_end_date);
+    const dealt = sortedFlows.filter(flow => {
+      const flowDate = new Date(flow.deal_from);
+      return flowDate <= monthEnd && (previousMonthEnd === null || flowDate > previousMonthEnd);
+    });
+
+    // The first month's period starts at the end of the previous calendar month
+    const periodStart = previousMonthEnd
+      ?? new Date(Date.UTC(monthEnd.getUTCFullYear(), monthEnd.getUTCMonth(), 0));
+
+    const month: MonthDealing = {
+      nav,
+      periodStart,
+      periodEnd: monthEnd,
+      openingNavPerUnit: lastNavPerUnit,
+      holdings: { ...holdings },
+      flows: dealt,
+    };
+
+    const monthFees = feeCalculators
+      .flatMap(calculator => calculator(month))
+      .filter(fee => fee.amount > 0);
+
+    const netFlows = dealt.reduce(
+      (sum, flow) => sum + (flow.type === 'subscription' ? flow.amount : -flow.amount),
+      0
+    ) - monthFees.reduce((sum, fee) => sum + fee.amount, 0);
+
+    // Strike the price on the NAV before this month's dealing, grossed up for
+    // the performance fee accrued at that same price
+    let price = lastNavPerUnit;
+    if (unitsOutstanding > 0) {
+      const navBeforeFlows = Number(nav.total_nav) - netFlows;
+      if (navBeforeFlows > 0) {
+        price = navBeforeFlows / unitsOutstanding;
+        if (incentiveFeeCalculator) {
+          for (let i = 0; i < 100; i++) {
+            const nextPrice = (navBeforeFlows + incentiveFeeCalculator.accrue(month, price)) / unitsOutstanding;
+            const settled = Math.abs(nextPrice - price) < 1e-9;
+            price = nextPrice;
+            if (settled) break;
+          }
+        }
+      }
+    }
+
+    let unitsIssued = 0;
+    let unitsRedeemed = 0;
+    const redeemedUnits: Record<string, number> = {};
+
+    for (const flow of dealt) {
+      const units = flow.amount / price;
+      const signedUnits = flow.type === 'subscription' ? units : -units;
+      if (flow.type === 'subscription') {
+        unitsIssued += units;
+      } else {
+        unitsRedeemed += units;
+        redeemedUnits[flow.investor_id] = (redeemedUnits[flow.investor_id] ?? 0) + units;
+      }
+      holdings[flow.investor_id] = (holdings[flow.investor_id] ?? 0) + signedUnits;
+
+      entries.push({
+        investor_id: flow.investor_id,
+        capital_flow_id: flow.capital_flow_id,
+        flow_date: flow.date,
+        dealing_date: nav.month_end_date,
+        type: flow.type,
+        amount: flow.amount,
+        units: signedUnits,
+        nav_per_unit: price,
+      });
+    }
+
+    const incentive = incentiveFeeCalculator
+      ? incentiveFeeCalculator.settle(month, price, redeemedUnits)
+      : { postings: [], marks: [] };
+
+    for (const fee of [...monthFees, ...incentive.postings.filter(fee => fee.amount > 0)]) {
+      const units = fee.amount / price;
+      unitsRedeemed += units;
+      holdings[fee.investor_id] = (holdings[fee.investor_id] ?? 0) - units;
+
+      fees.push({ ...fee, units, nav_per_unit: price });
+      entries.push({
+        investor_id: fee.investor_id,
+        capital_flow_id: null,
+        flow_date: nav.month_end_date,
+        dealing_date: nav.month_end_date,
+        type: `${fee.fee_type}_fee` as DealingType,
+        amount: fee.amount,
+        units: -units,
+        nav_per_unit: price,
+      });
+    }
+
+    for (const mark of incentive.marks) {
+      highWaterMarks.push({ ...mark, units: holdings[mark.investor_id] ?? 0 });
+    }
+
+    unitsOutstanding += unitsIssued - unitsRedeemed;
+
+    // Value the units at month end, gross of the performance fee still accrued;
+    // this only differs from the dealing price when there were no units in
+    // issue before dealing (e.g. at launch)
+    const outstandingAccruals = incentive.marks.reduce((sum, mark) => sum + (mark.accrued_fee ?? 0), 0);
+    const monthEndPrice = unitsOutstanding > 0
+      ? (Number(nav.total_nav) + outstandingAccruals) / unitsOutstanding
+      : price;
+    lastNavPerUnit = monthEndPrice;
+    previousMonthEnd = monthEnd;
+
+    navPerUnit.push({
+      monthly_nav_id: nav.id,
+      month_end_date: nav.month_end_date,
+      nav_per_unit: monthEndPrice,
+      units_outstanding: unitsOutstanding,
+      units_issued: unitsIssued,
+      units_redeemed: unitsRedeemed,
+    });
+  }
+
+  return { navPerUnit, entries, fees, highWaterMarks };
+}
+
+/**
+ * Recompute a fund's unit ledger from monthly_nav, investors and
+ * capital_flows, charging fees as it goes, and replace its persisted
+ * nav_per_unit, unit_ledger, fee_transactions and high_water_marks rows
+ */
+async function rebuildLedger(fundId: number): Promise<{ success: boolean; error?: BackendError }> {
+  // Read the version first: anything written while rebuilding leaves the
+  // ledger marked out of date rather than silently missing from it
+  const fundResult = await fetchFund(fundId);
+  if (fundResult.error || !fundResult.data) {
+    console.error("Error fetching fund for unit ledger:", fundResult.error);
+    return { success: false, error: fundResult.error ?? NO_FUND_ERROR };
+  }
+  const sourceVersion = fundResult.data.ledger_source_version;
+
+  const [navResult, investorsResult, flowsResult, crystallizationDates, benchmarkReturns, settings] = await Promise.all([
+    fetchAllNavData(fundId),
+    fetchAllInvestors(fundId),
+    fetchAllCapitalFlows(fundId),
+    getCrystallizationDates(fundId),
+    getHurdleBenchmarkReturns(),
+    getFundSettings(fundId),
+  ]);
+
+  const fetchError = navResult.error || investorsResult.error || flowsResult.error;
+  if (fetchError) {
+    console.error("Error fetching data for unit ledger:", fetchError);
+    return { success: false, error: fetchError };
+  }
+
+  const investors = investorsResult.data;
+  const { navPerUnit, entries, fees, highWaterMarks } = buildUnitLedger(
+    navResult.data,
+    toDealingFlows(investors, flowsResult.data, settings.dealing_cutoff_days),
+    [managementFeeCalculator(investors)],
+    performanceFeeCalculator(investors, crystallizationDates, benchmarkReturns, settings.fiscal_year_end_month)
+  );
+
+  // Nothing is written when a rebuild from newer data got there first
+  const { error } = await replaceFundLedger(fundId, sourceVersion, {
+    navPerUnit,
+    entries,
+    fees,
+    highWaterMarks,
+    managementFees: managementFeeTotals(navResult.data, fees),
+  });
+  if (error) {
+    console.error("Error saving unit ledger:", error);
+    return { success: false, error };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Rebuild the current fund's (or the given fund's) unit ledger, telling anyone
+ * watching the ledger's status how it went
+ */
+export async function rebuildUnitLedger(
+  fundId: number | null = getCurrentFundId()
+): Promise<{ success: boolean; error?: BackendError }> {
+  const result = fundId === null ? { success: false, error: NO_FUND_ERROR } : await rebuildLedger(fundId);
+  ledgerListeners.forEach(listener => listener(result.error ?? null));
+  return result;
+}
+
+/**
+ * Rebuild every fund's ledger that is out of date, e.g. after offline changes
+ * are synced or a benchmark that hurdles track changes
+ */
+export async function rebuildStaleLedgers(): Promise<{ success: boolean; error?: BackendError }> {
+  const { data: funds, error } = await fetchAllFunds();
+
+  if (error) {
+    console.error("Error fetching funds to rebuild:", error);
+    return { success: false, error };
+  }
+
+  let firstError: BackendError | undefined;
+  for (const fund of funds.filter(isLedgerStale)) {
+    const result = await rebuildUnitLedger(fund.id);
+    if (!firstError) firstError = result.error;
+  }
+
+  return firstError ? { success: false, error: firstError } : { success: true };
+}
+
+// Sources have changed since the ledger was last built, or it never was
+function isLedgerStale(fund: Fund): boolean {
+  return fund.ledger_built_version === null || fund.ledger_built_version < fund.ledger_source_version;
+}
+
+export interface LedgerStatus {
+  // Sources have changed since the ledger was last built
+  stale: boolean;
+  builtAt: string | null;
+}
+
+/**
+ * Whether the current fund's (or the given fund's) persisted ledger reflects
+ * its latest NAV, investors, capital flows and crystallization runs. Reading
+ * it never rebuilds.
+ */
+export async function getLedgerStatus(
+  fundId: number | null = getCurrentFundId()
+): Promise<LedgerStatus | null> {
+  if (fundId === null) return null;
+
+  const { data: fund, error } = await fetchFund(fundId);
+
+  if (error || !fund) {
+    console.error("Error checking unit ledger:", error);
+    return null;
+  }
+
+  return {
+    stale: isLedgerStale(fund),
+    builtAt: fund.ledger_built_at,
+  };
+}
+
+type LedgerListener = (error: BackendError | null) => void;
+const ledgerListeners = new Set<LedgerListener>();
+
+/**
+ * Be told whenever a ledger rebuild finishes, with its error if it failed
+ */
+export function subscribeToLedgerRebuilds(listener: LedgerListener): () => void {
+  ledgerListeners.add(listener);
+  return () => {
+    ledgerListeners.delete(listener);
+  };
+}
+
+/**
+ * Fetch the current fund's NAV per unit history, ordered by date
+ */
+export async function getNavPerUnitHistory(): Promise<NavPerUnit[]> {
+  const { data, error } = await selectInFund("nav_per_unit", {
+    order: [{ column: "month_end_date", ascending: true }],
+  });
+
+  if (error) {
+    console.error("Error fetching NAV per unit history:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Fetch the current fund's unit ledger, optionally for a single investor,
+ * ordered by dealing date
+ */
+export async function getUnitLedger(investorId?: string): Promise<UnitLedgerEntry[]> {
+  const { data, error } = await selectInFund("unit_ledger", {
+    filters: investorId ? [{ column: "investor_id", operator: "eq", value: investorId }] : [],
+    order: [
+      { column: "dealing_date", ascending: true },
+      { column: "id", ascending: true },
+    ],
+  });
+
+  if (error) {
+    console.error("Error fetching unit ledger:", error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Sum each investor's units and value them at the latest NAV per unit, less
+ * any performance fee accrued against them but not yet crystallized
+ */
+export function calculateUnitPositions(
+  entries: UnitLedgerEntry[],
+  latestPrice: NavPerUnit | null,
+  marks: HighWaterMark[] = []
+): Record<string, InvestorUnitPosition> {
+  const navPerUnit = latestPrice ? Number(latestPrice.nav_per_unit) : 0;
+  const positions: Record<string, InvestorUnitPosition> = {};
+
+  for (const entry of entries) {
+    if (!positions[entry.investor_id]) {
+      positions[entry.investor_id] = {
+        investorId: entry.investor_id,
+        units: 0,
+        navPerUnit,
+        value: 0,
+        asOf: latestPrice?.month_end_date ?? null,
+        highWaterMark: null,
+        accruedIncentiveFee: 0,
+      };
+    }
+    positions[entry.investor_id].units += Number(entry.units);
+  }
+
+  for (const mark of marks) {
+    const position = positions[mark.investor_id];
+    if (!position) continue;
+    position.highWaterMark = Number(mark.high_water_mark);
+    position.accruedIncentiveFee = Number(mark.accrued_fee);
+  }
+
+  for (const position of Object.values(positions)) {
+    position.value = position.units * navPerUnit - position.accruedIncentiveFee;
+  }
+
+  return positions;
+}
+
+/**
+ * Fetch the unit positions of all investors as of the latest NAV
+ */
+export async function getInvestorUnitPositions(): Promise<Record<string, InvestorUnitPosition>> {
+  const [history, entries] = await Promise.all([getNavPerUnitHistory(), getUnitLedger()]);
+  const latestPrice = history.length ? history[history.length - 1] : null;
+  const marks = latestPrice ? await getHighWaterMarks(latestPrice.month_end_date) : [];
+
+  return calculateUnitPositions(entries, latestPrice, marks);
+}
+
+/**
+ * Fetch a single investor's unit position as of the latest NAV
+ */
+export async function getInvestorUnitPosition(investorId: string): Promise<InvestorUnitPosition> {
+  const [history, entries] = await Promise.all([getNavPerUnitHistory(), getUnitLedger(investorId)]);
+  const latestPrice = history.length ? history[history.length - 1] : null;
+  const marks = latestPrice ? await getHighWaterMarks(latestPrice.month_end_date) : [];
+
+  return calculateUnitPositions(entries, latestPrice, marks)[investorId] ?? {
+    investorId,
+    units: 0,
+    navPerUnit: latestPrice ? Number(latestPrice.nav_per_unit) : 0,
+    value: 0,
+    asOf: latestPrice?.month_end_date ?? null,
+    highWaterMark: null,
+    accruedIncentiveFee: 0,
+  };
+}
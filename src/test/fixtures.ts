@@ -0,0 +1,83 @@
+import { CapitalFlow, Investor, MonthlyNav } from "@/repositories";
+import { DealingFlow } from "@/services/unitLedgerService";
+
+/**
+ * A NAV row in fund 1, with only the month end and total NAV filled in
+ */
+export function makeNav(id: number, month_end_date: string, total_nav: number, patch: Partial<MonthlyNav> = {}): MonthlyNav {
+  return {
+    id,
+    fund_id: 1,
+    month_end_date,
+    total_nav,
+    aum_change: null,
+    created_at: null,
+    management_fees: null,
+    month_start_date: null,
+    monthly_return: null,
+    restated_at: null,
+    start_nav: null,
+    version: 1,
+    ...patch,
+  };
+}
+
+/**
+ * An active investor in fund 1 paying no fees unless the patch sets them
+ */
+export function makeInvestor(id: string, patch: Partial<Investor> = {}): Investor {
+  return {
+    id,
+    fund_id: 1,
+    name: id,
+    start_date: "2024-01-01",
+    initial_investment: 0,
+    status: "active",
+    mgmt_fee_rate: 0,
+    performance_fee_rate: 0,
+    crystallization_frequency: "annual",
+    hurdle_type: "none",
+    hurdle_rate: 0,
+    hurdle_benchmark: null,
+    catch_up_rate: 100,
+    external_id: null,
+    created_at: null,
+    ...patch,
+  };
+}
+
+/**
+ * A capital flow in fund 1
+ */
+export function makeCapitalFlow(
+  id: number,
+  investor_id: string,
+  date: string,
+  amount: number,
+  type = "contribution"
+): CapitalFlow {
+  return {
+    id,
+    fund_id: 1,
+    investor_id,
+    investor_name: investor_id,
+    date,
+    amount,
+    type,
+    corrects_flow_id: null,
+    reverses_flow_id: null,
+    created_at: null,
+  };
+}
+
+/**
+ * A subscription or redemption dealing from its own date
+ */
+export function makeDealingFlow(
+  investor_id: string,
+  date: string,
+  amount: number,
+  type: DealingFlow["type"] = "subscription"
+): DealingFlow {
+  return { investor_id, capital_flow_id: null, date, deal_from: date, amount, type };
+}
@@ -36,13 +36,23 @@ export const exportToCSV = <T extends Record<string, any>>(
   const csvContent = csvRows.join('\n');
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   
+  downloadBlob(blob, `${filename}.csv`);
+};
+
+/**
+ * Helper function to trigger a download of a generated file
+ * @param blob File contents
+ * @param filename Name of the file to download, including its extension
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
   // Create a download link and trigger the download
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.setAttribute('href', url);
-  link.setAttribute('download', `${filename}.csv`);
+  link.setAttribute('download', filename);
   link.style.visibility = 'hidden';
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 };
@@ -1,21 +1,24 @@
 
 /**
- * Formats a number as currency (USD)
+ * Formats a number as currency (the fund's base currency)
  */
-export const formatCurrency = (value: number) => {
+export const formatCurrency = (value: number, currency = 'USD') => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(value);
 };
 
 /**
- * Formats a number as millions (e.g. $1.23M)
+ * Formats a number as millions in the base currency (e.g. $1.23M)
  */
-export const formatToMillion = (value: number) => {
-  return `$${(value / 1000000).toFixed(2)}M`;
+export const formatToMillion = (value: number, currency = 'USD') => {
+  const symbol = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value ?? '';
+  return `${symbol}${(value / 1000000).toFixed(2)}M`;
 };
 
 /**
@@ -50,6 +53,14 @@ export const getValueColorClass = (value: number | null) => {
   return value >= 0 ? 'text-green-500' : 'text-red-500';
 };
 
+/**
+ * Line color for the nth benchmark overlaid on a chart
+ */
+export const getBenchmarkColor = (index: number) => {
+  const colors = ['#F4B86A', '#C39BF4', '#7BE0A4', '#F48FB1'];
+  return colors[index % colors.length];
+};
+
 /**
  * Format number with commas (1000 -> 1,000)
  */
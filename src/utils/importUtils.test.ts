@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { guessColumnMapping, parseCsv, parseImportDate, parseImportNumber } from "@/utils/importUtils";
+
+describe("parseCsv", () => {
+  it("splits on the header's delimiter and honours quoted cells", () => {
+    const text = '\uFEFFDate;Name;Amount\r\n2024-01-31;"Smith; J.";"1.000,50"\n2024-02-29;"Say ""hi""\nthere";2\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["Date", "Name", "Amount"],
+      ["2024-01-31", "Smith; J.", "1.000,50"],
+      ["2024-02-29", 'Say "hi"\nthere', "2"],
+    ]);
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("matches headers to fields ignoring case and punctuation", () => {
+    const fields = [
+      { field: "month_end_date", label: "Month end", required: true, aliases: ["month end", "date"] },
+      { field: "total_nav", label: "Total NAV", required: true, aliases: ["total nav", "nav"] },
+      { field: "aum_change", label: "AUM change", required: false, aliases: ["aum change"] },
+    ];
+
+    expect(guessColumnMapping(fields, ["NAV", "Month-End"])).toEqual({
+      month_end_date: 1,
+      total_nav: 0,
+      aum_change: undefined,
+    });
+  });
+});
+
+describe("parseImportDate", () => {
+  it("reads text in the chosen format, falling back to ISO", () => {
+    expect(parseImportDate("31/01/2024", "dd/MM/yyyy")).toBe("2024-01-31");
+    expect(parseImportDate("01/31/2024", "MM/dd/yyyy")).toBe("2024-01-31");
+    expect(parseImportDate("2024-01-31", "dd/MM/yyyy")).toBe("2024-01-31");
+  });
+
+  it("reads spreadsheet dates and serial numbers", () => {
+    expect(parseImportDate(new Date(Date.UTC(2024, 0, 31)), "yyyy-MM-dd")).toBe("2024-01-31");
+    expect(parseImportDate(45322, "yyyy-MM-dd")).toBe("2024-01-31");
+  });
+
+  it("rejects blanks and text that isn't a date", () => {
+    expect(parseImportDate("  ", "yyyy-MM-dd")).toBeNull();
+    expect(parseImportDate("31/01/2024", "MM/dd/yyyy")).toBeNull();
+    expect(parseImportDate("soon", "yyyy-MM-dd")).toBeNull();
+  });
+});
+
+describe("parseImportNumber", () => {
+  it("accepts currency, separators, percentages and accounting negatives", () => {
+    expect(parseImportNumber("$1,234,567.89")).toBeCloseTo(1_234_567.89);
+    expect(parseImportNumber("1.234.567,89 €")).toBeCloseTo(1_234_567.89);
+    expect(parseImportNumber("1,5%")).toBeCloseTo(1.5);
+    expect(parseImportNumber("1,500")).toBe(1_500);
+    expect(parseImportNumber("(2,000.50)")).toBeCloseTo(-2_000.5);
+    expect(parseImportNumber("(2,500)")).toBe(-2_500);
+    expect(parseImportNumber(42)).toBe(42);
+  });
+
+  it("is null for blanks and NaN for anything else", () => {
+    expect(parseImportNumber("")).toBeNull();
+    expect(parseImportNumber(null)).toBeNull();
+    expect(parseImportNumber("n/a")).toBeNaN();
+    expect(parseImportNumber(true)).toBeNaN();
+  });
+});
@@ -0,0 +1,204 @@
+
+import { format, isValid, parse } from "date-fns";
+import readXlsxFile from "read-excel-file";
+
+export type ImportCell = string | number | boolean | Date | null;
+
+export interface ImportTable {
+  headers: string[];
+  rows: ImportCell[][];
+}
+
+// A field the rows of an import file can be mapped to
+export interface ImportField<F extends string> {
+  field: F;
+  label: string;
+  required: boolean;
+  // Headers the field is recognised by
+  aliases: string[];
+}
+
+// Column index in the file of each field
+export type ColumnMapping<F extends string> = Partial<Record<F, number>>;
+
+export type ImportDateFormat = 'yyyy-MM-dd' | 'dd/MM/yyyy' | 'MM/dd/yyyy';
+
+export const IMPORT_DATE_FORMATS: { value: ImportDateFormat; label: string }[] = [
+  { value: 'yyyy-MM-dd', label: 'YYYY-MM-DD' },
+  { value: 'dd/MM/yyyy', label: 'DD/MM/YYYY' },
+  { value: 'MM/dd/yyyy', label: 'MM/DD/YYYY' },
+];
+
+// Excel stores dates as days since 30 Dec 1899
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells that contain the
+ * delimiter, line breaks or escaped quotes. The delimiter (comma, semicolon
+ * or tab) is taken from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const headerLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const isBlank = (cell: ImportCell) => cell === null || (typeof cell === "string" && cell.trim() === "");
+
+/**
+ * Read the first sheet of an XLSX file, or a CSV file, into a header row and
+ * data rows, dropping blank rows
+ */
+export async function readImportFile(file: File): Promise<ImportTable> {
+  const isExcel = /\.xlsx$/i.test(file.name);
+  const rows: ImportCell[][] = isExcel
+    ? ((await readXlsxFile(file)) as unknown as ImportCell[][])
+    : parseCsv(await file.text());
+
+  const [header = [], ...data] = rows.filter(row => !row.every(isBlank));
+  return {
+    headers: header.map((cell, index) => (isBlank(cell) ? `Column ${index + 1}` : String(cell).trim())),
+    rows: data,
+  };
+}
+
+/**
+ * The index of the first header matching one of the aliases, ignoring case,
+ * spaces and punctuation
+ */
+export function guessColumn(headers: string[], aliases: string[]): number | undefined {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const wanted = aliases.map(normalize);
+  const index = headers.findIndex(header => wanted.includes(normalize(header)));
+  return index === -1 ? undefined : index;
+}
+
+/**
+ * Map each field to the first column whose header looks like it
+ */
+export function guessColumnMapping<F extends string>(fields: ImportField<F>[], headers: string[]): ColumnMapping<F> {
+  return Object.fromEntries(
+    fields.map(({ field, aliases }) => [field, guessColumn(headers, aliases)])
+  ) as ColumnMapping<F>;
+}
+
+/**
+ * The mapped cell of a row, or null when the field is not in the file
+ */
+export function mappedCell<F extends string>(cells: ImportCell[], mapping: ColumnMapping<F>, field: F): ImportCell {
+  const index = mapping[field];
+  return index === undefined ? null : cells[index] ?? null;
+}
+
+/**
+ * Parse a date cell to yyyy-MM-dd: spreadsheet dates and serial numbers as
+ * they are, text in the given format or ISO
+ */
+export function parseImportDate(cell: ImportCell, dateFormat: ImportDateFormat): string | null {
+  if (isBlank(cell)) return null;
+
+  // Spreadsheet dates are read as midnight UTC
+  if (cell instanceof Date) {
+    return isValid(cell) ? cell.toISOString().slice(0, 10) : null;
+  }
+  if (typeof cell === "number") {
+    return new Date(EXCEL_EPOCH + Math.round(cell) * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  const text = String(cell).trim();
+  for (const pattern of [dateFormat, 'yyyy-MM-dd']) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) {
+      return format(date, 'yyyy-MM-dd');
+    }
+  }
+  return null;
+}
+
+/**
+ * Drop thousands separators and make the decimal separator a point. Where
+ * both appear the last is the decimal separator; a lone comma is one unless
+ * exactly three digits follow it.
+ */
+function normalizeSeparators(text: string): string {
+  const lastComma = text.lastIndexOf(",");
+  const lastPoint = text.lastIndexOf(".");
+  const commas = text.split(",").length - 1;
+  const points = text.split(".").length - 1;
+
+  const commaIsDecimal = lastComma > -1 && (
+    lastPoint > -1
+      ? lastComma > lastPoint
+      : commas === 1 && !/,\d{3}$/.test(text)
+  );
+  if (commaIsDecimal) {
+    return text.replace(/\./g, "").replace(",", ".");
+  }
+  if (lastComma === -1 && points > 1) {
+    return text.replace(/\./g, "");
+  }
+  return text.replace(/,/g, "");
+}
+
+/**
+ * Parse a number cell, accepting currency symbols, thousands separators,
+ * decimal commas, a trailing percent sign and accounting-style negatives in
+ * parentheses
+ */
+export function parseImportNumber(cell: ImportCell): number | null {
+  if (isBlank(cell)) return null;
+  if (typeof cell === "number") return cell;
+  if (typeof cell !== "string") return NaN;
+
+  let text = cell.trim().replace(/[$€£\s%]/g, "");
+  const negative = /^\(.*\)$/.test(text);
+  if (negative) text = text.slice(1, -1);
+  text = normalizeSeparators(text);
+  if (text === "") return NaN;
+
+  const value = Number(text);
+  return negative ? -value : value;
+}
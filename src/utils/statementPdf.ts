@@ -0,0 +1,192 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import { formatCurrency } from "@/utils/formatters";
+import type { InvestorStatement } from "@/services/statementService";
+
+// Brand colours, matching the dashboard theme
+const BRAND_NAVY: [number, number, number] = [28, 26, 75];
+const BRAND_BLUE: [number, number, number] = [151, 222, 244];
+const TEXT_MUTED: [number, number, number] = [110, 112, 122];
+
+const MARGIN = 40;
+
+const LEDGER_TYPE_LABELS: Record<string, string> = {
+  subscription: "Subscription",
+  redemption: "Redemption",
+  management_fee: "Management fee",
+  performance_fee: "Performance fee",
+};
+
+/**
+ * Bottom of the table most recently drawn by autoTable
+ */
+const lastTableBottom = (doc: jsPDF) =>
+  (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+/**
+ * Header cell for a right-aligned (numeric) column
+ */
+const numericHeader = (title: string) => ({ content: title, styles: { halign: "right" as const } });
+
+const formatReturn = (value: number | null) => (value === null ? "N/A" : `${value.toFixed(2)}%`);
+
+/**
+ * Draw a section heading and return the y position below it
+ */
+function sectionHeading(doc: jsPDF, title: string, y: number): number {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.setTextColor(...BRAND_NAVY);
+  doc.text(title, MARGIN, y);
+  return y + 8;
+}
+
+/**
+ * Render an investor statement as a PDF document
+ */
+export function renderStatementPdf(statement: InvestorStatement): jsPDF {
+  const formatAmount = (value: number) => formatCurrency(value, statement.baseCurrency);
+  // Amounts leaving the account are shown in brackets (a negative outflow, such
+  // as a reversed fee accrual, is shown as a credit)
+  const formatOutflow = (value: number) => (value > 0 ? `(${formatAmount(value)})` : formatAmount(Math.abs(value)));
+
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const monthEnd = new Date(statement.monthEndDate);
+
+  // Letterhead
+  doc.setFillColor(...BRAND_NAVY);
+  doc.rect(0, 0, pageWidth, 80, "F");
+  if (statement.logoDataUrl) {
+    doc.addImage(statement.logoDataUrl, "PNG", MARGIN, 12, 56, 56);
+  }
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text(`${statement.fundName} — Investor Statement`, statement.logoDataUrl ? MARGIN + 70 : MARGIN, 38);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(`For the period ended ${format(monthEnd, "d MMMM yyyy")}`, statement.logoDataUrl ? MARGIN + 70 : MARGIN, 56);
+
+  // Investor details
+  let y = 110;
+  doc.setTextColor(0, 0, 0);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(13);
+  doc.text(statement.investor.name, MARGIN, y);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT_MUTED);
+  doc.text(
+    `Investor since ${format(new Date(statement.investor.start_date), "MMMM yyyy")} · ` +
+      `Management fee ${Number(statement.investor.mgmt_fee_rate).toFixed(2)}% · ` +
+      `Performance fee ${Number(statement.investor.performance_fee_rate).toFixed(2)}%`,
+    MARGIN,
+    y + 14
+  );
+
+  // Period summary
+  y = sectionHeading(doc, "Period Summary", y + 44);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    theme: "plain",
+    styles: { fontSize: 10, cellPadding: 4 },
+    columnStyles: { 1: { halign: "right", fontStyle: "bold" } },
+    body: [
+      ["Units held", statement.units.toFixed(4)],
+      ["NAV per unit", statement.navPerUnit.toFixed(4)],
+      ["Accrued performance fee", formatOutflow(statement.accruedIncentiveFee)],
+      ["Closing balance (net of fees)", formatAmount(statement.closingBalance)],
+      ["Fund return, month", formatReturn(statement.fundMonthReturn)],
+      ["Fund return, year to date", formatReturn(statement.fundYtdReturn)],
+    ],
+  });
+
+  // Capital account rollforward
+  y = sectionHeading(doc, "Capital Account", lastTableBottom(doc) + 24);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    headStyles: { fillColor: BRAND_NAVY, textColor: 255 },
+    styles: { fontSize: 9, cellPadding: 4 },
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" } },
+    head: [["", ...["Month", "Quarter to date", "Year to date", "Since inception"].map(numericHeader)]],
+    body: [
+      ["Beginning balance", ...statement.rollforward.map(line => (line ? formatAmount(line.beginningBalance) : "—"))],
+      ["Contributions", ...statement.rollforward.map(line => (line ? formatAmount(line.contributions) : "—"))],
+      ["Withdrawals", ...statement.rollforward.map(line => (line ? formatOutflow(line.withdrawals) : "—"))],
+      ["Gross P&L", ...statement.rollforward.map(line => (line ? formatAmount(line.grossPnl) : "—"))],
+      ["Management fees", ...statement.rollforward.map(line => (line ? formatOutflow(line.managementFees) : "—"))],
+      ["Performance fees", ...statement.rollforward.map(line => (line ? formatOutflow(line.performanceFees) : "—"))],
+      [
+        { content: "Ending balance", styles: { fontStyle: "bold" } },
+        ...statement.rollforward.map(line => ({
+          content: line ? formatAmount(line.endingBalance) : "—",
+          styles: { fontStyle: "bold" as const },
+        })),
+      ],
+    ],
+  });
+
+  // Fund monthly returns
+  y = sectionHeading(doc, "Fund Monthly Returns", lastTableBottom(doc) + 24);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    headStyles: { fillColor: BRAND_NAVY, textColor: 255 },
+    alternateRowStyles: { fillColor: [240, 250, 254] },
+    styles: { fontSize: 9, cellPadding: 4 },
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" } },
+    head: [["Month", numericHeader("Fund NAV"), numericHeader("Return")]],
+    body: statement.fundReturns.map(nav => [
+      format(new Date(nav.month_end_date), "MMM yyyy"),
+      formatAmount(Number(nav.total_nav)),
+      formatReturn(nav.monthly_return),
+    ]),
+  });
+
+  // Transactions
+  y = sectionHeading(doc, "Transactions", lastTableBottom(doc) + 24);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN },
+    headStyles: { fillColor: BRAND_NAVY, textColor: 255 },
+    alternateRowStyles: { fillColor: [240, 250, 254] },
+    styles: { fontSize: 9, cellPadding: 4 },
+    columnStyles: { 3: { halign: "right" }, 4: { halign: "right" }, 5: { halign: "right" } },
+    head: [["Date", "Dealt", "Type", ...["Amount", "Units", "NAV per unit"].map(numericHeader)]],
+    body: statement.transactions.length
+      ? statement.transactions.map(entry => [
+          format(new Date(entry.flow_date), "d MMM yyyy"),
+          format(new Date(entry.dealing_date), "d MMM yyyy"),
+          LEDGER_TYPE_LABELS[entry.type] ?? entry.type,
+          Number(entry.units) < 0 ? formatOutflow(Number(entry.amount)) : formatAmount(Number(entry.amount)),
+          Number(entry.units).toFixed(4),
+          Number(entry.nav_per_unit).toFixed(4),
+        ])
+      : [[{ content: "No transactions", colSpan: 6, styles: { halign: "center" } }]],
+  });
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    const pageHeight = doc.internal.pageSize.getHeight();
+    doc.setDrawColor(...BRAND_BLUE);
+    doc.line(MARGIN, pageHeight - 36, pageWidth - MARGIN, pageHeight - 36);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.text(
+      `${statement.fundName} · Generated ${format(new Date(statement.generatedAt), "d MMM yyyy")} · ` +
+        "Values are unaudited and net of fees.",
+      MARGIN,
+      pageHeight - 22
+    );
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 22, { align: "right" });
+  }
+
+  return doc;
+}
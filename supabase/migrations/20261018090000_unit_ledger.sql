@@ -0,0 +1,29 @@
+-- Unitized share accounting: NAV per unit for every dealing month and the
+-- ledger of units issued / redeemed against each investor.
+
+create table if not exists public.nav_per_unit (
+  id bigint generated by default as identity primary key,
+  monthly_nav_id bigint references public.monthly_nav (id) on delete cascade,
+  month_end_date date not null unique,
+  nav_per_unit numeric not null,
+  units_outstanding numeric not null,
+  units_issued numeric not null default 0,
+  units_redeemed numeric not null default 0,
+  created_at timestamptz default now()
+);
+
+create table if not exists public.unit_ledger (
+  id bigint generated by default as identity primary key,
+  investor_id uuid not null references public.investors (id) on delete cascade,
+  capital_flow_id bigint references public.capital_flows (id) on delete cascade,
+  flow_date date not null,
+  dealing_date date not null,
+  type text not null check (type in ('subscription', 'redemption')),
+  amount numeric not null,
+  units numeric not null,
+  nav_per_unit numeric not null,
+  created_at timestamptz default now()
+);
+
+create index if not exists unit_ledger_investor_id_idx on public.unit_ledger (investor_id);
+create index if not exists unit_ledger_dealing_date_idx on public.unit_ledger (dealing_date);
@@ -0,0 +1,24 @@
+-- Fee postings produced by the fee engine. Each posting redeems units from the
+-- investor at the month's NAV per unit, so investor values are net of fees.
+
+create table if not exists public.fee_transactions (
+  id bigint generated by default as identity primary key,
+  investor_id uuid not null references public.investors (id) on delete cascade,
+  fee_type text not null check (fee_type in ('management', 'performance')),
+  period_start date not null,
+  period_end date not null,
+  rate numeric not null,
+  fee_basis numeric not null,
+  days integer not null,
+  amount numeric not null,
+  units numeric,
+  nav_per_unit numeric,
+  created_at timestamptz default now()
+);
+
+create index if not exists fee_transactions_investor_id_idx on public.fee_transactions (investor_id);
+create index if not exists fee_transactions_period_end_idx on public.fee_transactions (period_end);
+
+alter table public.unit_ledger drop constraint if exists unit_ledger_type_check;
+alter table public.unit_ledger add constraint unit_ledger_type_check
+  check (type in ('subscription', 'redemption', 'management_fee', 'performance_fee'));
@@ -0,0 +1,29 @@
+-- Performance (incentive) fees: per-investor high-water marks, accruals and
+-- crystallization runs.
+
+alter table public.investors
+  add column if not exists crystallization_frequency text not null default 'annual'
+  check (crystallization_frequency in ('monthly', 'quarterly', 'annual'));
+
+-- One row per crystallization run. Investors whose crystallization period ends
+-- on this month end have their accrued performance fee posted and their
+-- high-water mark reset.
+create table if not exists public.performance_fee_crystallizations (
+  id bigint generated by default as identity primary key,
+  crystallization_date date not null unique,
+  created_at timestamptz default now()
+);
+
+-- Each investor's high-water mark (per unit) and outstanding accrual, per month
+create table if not exists public.high_water_marks (
+  id bigint generated by default as identity primary key,
+  investor_id uuid not null references public.investors (id) on delete cascade,
+  month_end_date date not null,
+  high_water_mark numeric not null,
+  nav_per_unit numeric not null,
+  units numeric not null,
+  accrued_fee numeric not null default 0,
+  crystallized_fee numeric not null default 0,
+  created_at timestamptz default now(),
+  unique (investor_id, month_end_date)
+);
@@ -0,0 +1,19 @@
+-- Hurdle and catch-up terms for performance fees, and the per-month breakdown
+-- of how each investor's fee was arrived at.
+
+-- hurdle_type: 'none', 'hard' (fee only on the gain above the hurdle) or
+-- 'soft' (fee on the whole gain once the hurdle is cleared, subject to the
+-- catch-up). hurdle_rate is an annual %; when hurdle_benchmark is set the
+-- hurdle is the benchmark's return plus hurdle_rate.
+alter table public.investors
+  add column if not exists hurdle_type text not null default 'none'
+    check (hurdle_type in ('none', 'hard', 'soft')),
+  add column if not exists hurdle_rate numeric not null default 0,
+  add column if not exists hurdle_benchmark text,
+  add column if not exists catch_up_rate numeric not null default 100
+    check (catch_up_rate > 0 and catch_up_rate <= 100);
+
+alter table public.high_water_marks
+  add column if not exists hurdle_nav_per_unit numeric,
+  add column if not exists gross_gain numeric not null default 0,
+  add column if not exists hurdle_amount numeric not null default 0;
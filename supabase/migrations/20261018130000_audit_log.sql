@@ -0,0 +1,113 @@
+-- Append-only audit trail of every insert, update and delete to monthly_nav,
+-- investors and capital_flows.
+--
+-- Rows are written by a trigger, so changes made outside the dashboard are
+-- captured too. The actor comes from the request's JWT; the reason is sent by
+-- the dashboard in the x-audit-reason header (base64-encoded UTF-8).
+
+create table if not exists public.audit_log (
+  id bigint generated by default as identity primary key,
+  occurred_at timestamptz not null default now(),
+  actor_id uuid,
+  actor_email text,
+  table_name text not null,
+  record_id text not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[] not null default '{}',
+  reason text
+);
+
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id, occurred_at);
+create index if not exists audit_log_occurred_at_idx on public.audit_log (occurred_at);
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  new_row jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  changed text[] := '{}';
+  claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+  encoded_reason text := nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-audit-reason';
+  decoded_reason text;
+begin
+  if tg_op = 'UPDATE' then
+    -- Columns passed as trigger arguments are derived data and not audited
+    select coalesce(array_agg(key order by key), '{}') into changed
+    from jsonb_each(new_row) as n(key, value)
+    where n.value is distinct from old_row -> n.key
+      and not (n.key = any (tg_argv));
+
+    if cardinality(changed) = 0 then
+      return new;
+    end if;
+  end if;
+
+  if encoded_reason is not null then
+    begin
+      decoded_reason := convert_from(decode(encoded_reason, 'base64'), 'UTF8');
+    exception when others then
+      decoded_reason := encoded_reason;
+    end;
+  end if;
+
+  insert into public.audit_log (
+    actor_id, actor_email, table_name, record_id, action, old_data, new_data, changed_fields, reason
+  ) values (
+    nullif(claims ->> 'sub', '')::uuid,
+    claims ->> 'email',
+    tg_table_name,
+    coalesce(new_row ->> 'id', old_row ->> 'id'),
+    lower(tg_op),
+    old_row,
+    new_row,
+    changed,
+    decoded_reason
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists audit_monthly_nav on public.monthly_nav;
+create trigger audit_monthly_nav
+  after insert or update or delete on public.monthly_nav
+  for each row execute function public.audit_row_change('management_fees');
+
+drop trigger if exists audit_investors on public.investors;
+create trigger audit_investors
+  after insert or update or delete on public.investors
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists audit_capital_flows on public.capital_flows;
+create trigger audit_capital_flows
+  after insert or update or delete on public.capital_flows
+  for each row execute function public.audit_row_change();
+
+-- The log itself can only ever be appended to
+create or replace function public.prevent_audit_log_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only
+  before update or delete on public.audit_log
+  for each row execute function public.prevent_audit_log_change();
+
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Audit log is readable" on public.audit_log;
+create policy "Audit log is readable" on public.audit_log
+  for select using (true);
+
+revoke insert, update, delete, truncate on public.audit_log from anon, authenticated;
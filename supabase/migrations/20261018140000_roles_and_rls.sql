@@ -0,0 +1,146 @@
+-- Sign-in and role-based access.
+--
+-- Every dashboard user has one role:
+--   admin      - edits investors and their fee terms, publishes NAV, runs
+--                performance fee crystallization and manages roles
+--   operations - enters capital flows
+--   read_only  - views everything (e.g. auditors)
+-- Users without a role can sign in but see no data. The first admin has to be
+-- granted from the SQL editor:
+--   insert into public.user_roles (user_id, role) values ('<auth user id>', 'admin');
+
+create table if not exists public.user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role text not null check (role in ('admin', 'operations', 'read_only')),
+  created_at timestamptz default now()
+);
+
+-- The signed-in user's role, or null
+create or replace function public.current_app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.user_roles where user_id = auth.uid();
+$$;
+
+create or replace function public.has_app_role(roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.current_app_role() = any (roles), false);
+$$;
+
+-- Any signed-in user with a role can read every table
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'monthly_nav', 'investors', 'capital_flows', 'nav_per_unit', 'unit_ledger',
+    'fee_transactions', 'high_water_marks', 'performance_fee_crystallizations', 'audit_log'
+  ] loop
+    execute format('alter table public.%I enable row level security', t);
+    execute format('drop policy if exists "Roles can read" on public.%I', t);
+    execute format(
+      'create policy "Roles can read" on public.%I for select to authenticated using (public.has_app_role(array[''admin'', ''operations'', ''read_only'']))',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- The audit log was readable by anyone; it now follows the same rule
+drop policy if exists "Audit log is readable" on public.audit_log;
+
+-- NAV is published by admins
+drop policy if exists "Admins write NAV" on public.monthly_nav;
+create policy "Admins write NAV" on public.monthly_nav
+  for all to authenticated
+  using (public.has_app_role(array['admin']))
+  with check (public.has_app_role(array['admin']));
+
+-- Operations users rebuild the unit ledger when they enter flows, which rolls
+-- management fees up onto monthly_nav; that is the only NAV column they touch
+drop policy if exists "Operations roll up fees" on public.monthly_nav;
+create policy "Operations roll up fees" on public.monthly_nav
+  for update to authenticated
+  using (public.has_app_role(array['operations']))
+  with check (public.has_app_role(array['operations']));
+
+create or replace function public.guard_monthly_nav_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null
+    and not public.has_app_role(array['admin'])
+    and (to_jsonb(new) - 'management_fees') is distinct from (to_jsonb(old) - 'management_fees') then
+    raise exception 'Only admins can change published NAV';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_monthly_nav_update on public.monthly_nav;
+create trigger guard_monthly_nav_update
+  before update on public.monthly_nav
+  for each row execute function public.guard_monthly_nav_update();
+
+-- Investors and their fee terms are maintained by admins
+drop policy if exists "Admins write investors" on public.investors;
+create policy "Admins write investors" on public.investors
+  for all to authenticated
+  using (public.has_app_role(array['admin']))
+  with check (public.has_app_role(array['admin']));
+
+-- Capital flows are entered by operations (and admins)
+drop policy if exists "Operations write capital flows" on public.capital_flows;
+create policy "Operations write capital flows" on public.capital_flows
+  for all to authenticated
+  using (public.has_app_role(array['admin', 'operations']))
+  with check (public.has_app_role(array['admin', 'operations']));
+
+-- Crystallization runs are made by admins
+drop policy if exists "Admins write crystallizations" on public.performance_fee_crystallizations;
+create policy "Admins write crystallizations" on public.performance_fee_crystallizations
+  for all to authenticated
+  using (public.has_app_role(array['admin']))
+  with check (public.has_app_role(array['admin']));
+
+-- The unit ledger and everything derived from it is rebuilt after any write
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['nav_per_unit', 'unit_ledger', 'fee_transactions', 'high_water_marks'] loop
+    execute format('drop policy if exists "Writers rebuild ledger" on public.%I', t);
+    execute format(
+      'create policy "Writers rebuild ledger" on public.%I for all to authenticated using (public.has_app_role(array[''admin'', ''operations''])) with check (public.has_app_role(array[''admin'', ''operations'']))',
+      t
+    );
+  end loop;
+end;
+$$;
+
+alter table public.user_roles enable row level security;
+
+drop policy if exists "Users read their own role" on public.user_roles;
+create policy "Users read their own role" on public.user_roles
+  for select to authenticated
+  using (user_id = auth.uid() or public.has_app_role(array['admin']));
+
+drop policy if exists "Admins manage roles" on public.user_roles;
+create policy "Admins manage roles" on public.user_roles
+  for all to authenticated
+  using (public.has_app_role(array['admin']))
+  with check (public.has_app_role(array['admin']));
+
+revoke all on public.monthly_nav, public.investors, public.capital_flows, public.nav_per_unit,
+  public.unit_ledger, public.fee_transactions, public.high_water_marks,
+  public.performance_fee_crystallizations, public.audit_log, public.user_roles from anon;
@@ -0,0 +1,65 @@
+-- Corrections to capital flows are posted as linked entries rather than
+-- overwriting or deleting the original:
+--   reversal   - same investor, date and type as the original with the amount
+--                negated, so the two net to nothing in the unit ledger
+--   correction - the corrected flow, posted alongside the reversal of the
+--                flow it replaces
+alter table public.capital_flows
+  add column if not exists reverses_flow_id bigint references public.capital_flows (id),
+  add column if not exists corrects_flow_id bigint references public.capital_flows (id);
+
+alter table public.capital_flows
+  drop constraint if exists capital_flows_single_link,
+  add constraint capital_flows_single_link check (reverses_flow_id is null or corrects_flow_id is null);
+
+-- A flow can only be reversed once
+create unique index if not exists capital_flows_reverses_flow_id_key
+  on public.capital_flows (reverses_flow_id)
+  where reverses_flow_id is not null;
+
+create index if not exists capital_flows_corrects_flow_id_idx
+  on public.capital_flows (corrects_flow_id)
+  where corrects_flow_id is not null;
+
+create or replace function public.validate_capital_flow_link()
+returns trigger
+language plpgsql
+as $$
+declare
+  original public.capital_flows;
+begin
+  if new.reverses_flow_id is null then
+    if new.amount <= 0 then
+      raise exception 'Capital flow amounts must be positive; post a reversal to undo a flow';
+    end if;
+    return new;
+  end if;
+
+  select * into original from public.capital_flows where id = new.reverses_flow_id;
+
+  if original.reverses_flow_id is not null then
+    raise exception 'Capital flow % is itself a reversal and cannot be reversed', original.id;
+  end if;
+
+  if new.investor_id <> original.investor_id
+    or new.date <> original.date
+    or new.type <> original.type
+    or new.amount <> -original.amount then
+    raise exception 'A reversal must match capital flow % with the amount negated', original.id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists validate_capital_flow_link on public.capital_flows;
+create trigger validate_capital_flow_link
+  before insert on public.capital_flows
+  for each row execute function public.validate_capital_flow_link();
+
+-- Posted flows can no longer be changed or deleted, only reversed
+drop policy if exists "Operations write capital flows" on public.capital_flows;
+drop policy if exists "Operations post capital flows" on public.capital_flows;
+create policy "Operations post capital flows" on public.capital_flows
+  for insert to authenticated
+  with check (public.has_app_role(array['admin', 'operations']));
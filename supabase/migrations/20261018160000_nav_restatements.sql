@@ -0,0 +1,88 @@
+-- NAV restatements. Editing a published month keeps the values it replaces:
+-- the row in monthly_nav always holds the current version, and every earlier
+-- version is copied to monthly_nav_versions before it is overwritten.
+alter table public.monthly_nav
+  add column if not exists version integer not null default 1,
+  add column if not exists restated_at timestamptz;
+
+create table if not exists public.monthly_nav_versions (
+  id bigint generated by default as identity primary key,
+  monthly_nav_id bigint not null references public.monthly_nav (id) on delete cascade,
+  version integer not null,
+  month_end_date date not null,
+  total_nav numeric not null,
+  monthly_return numeric,
+  aum_change numeric,
+  -- When this version was entered, and when and why it was replaced
+  recorded_at timestamptz,
+  superseded_at timestamptz not null default now(),
+  superseded_by uuid,
+  reason text,
+  unique (monthly_nav_id, version)
+);
+
+create index if not exists monthly_nav_versions_monthly_nav_id_idx
+  on public.monthly_nav_versions (monthly_nav_id, version desc);
+
+create or replace function public.version_monthly_nav()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+  encoded_reason text := nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-audit-reason';
+  decoded_reason text;
+begin
+  -- Only published values make a new version; derived columns such as
+  -- management_fees are rewritten on every ledger rebuild
+  if (new.month_end_date, new.total_nav, new.monthly_return, new.aum_change)
+    is not distinct from (old.month_end_date, old.total_nav, old.monthly_return, old.aum_change) then
+    return new;
+  end if;
+
+  if encoded_reason is not null then
+    begin
+      decoded_reason := convert_from(decode(encoded_reason, 'base64'), 'UTF8');
+    exception when others then
+      decoded_reason := encoded_reason;
+    end;
+  end if;
+
+  insert into public.monthly_nav_versions (
+    monthly_nav_id, version, month_end_date, total_nav, monthly_return, aum_change,
+    recorded_at, superseded_by, reason
+  ) values (
+    old.id,
+    old.version,
+    old.month_end_date,
+    old.total_nav,
+    old.monthly_return,
+    old.aum_change,
+    coalesce(old.restated_at, old.created_at),
+    nullif(claims ->> 'sub', '')::uuid,
+    decoded_reason
+  );
+
+  new.version := old.version + 1;
+  new.restated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists version_monthly_nav on public.monthly_nav;
+create trigger version_monthly_nav
+  before update on public.monthly_nav
+  for each row execute function public.version_monthly_nav();
+
+-- Versions are written by the trigger only
+alter table public.monthly_nav_versions enable row level security;
+
+drop policy if exists "Roles can read" on public.monthly_nav_versions;
+create policy "Roles can read" on public.monthly_nav_versions
+  for select to authenticated
+  using (public.has_app_role(array['admin', 'operations', 'read_only']));
+
+revoke insert, update, delete, truncate on public.monthly_nav_versions from anon, authenticated;
+revoke select on public.monthly_nav_versions from anon;
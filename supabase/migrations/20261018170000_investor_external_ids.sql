@@ -0,0 +1,9 @@
+-- The identifier the fund administrator uses for each investor, so their
+-- subscription and redemption reports can be matched to investors without
+-- relying on names
+alter table public.investors
+  add column if not exists external_id text;
+
+create unique index if not exists investors_external_id_key
+  on public.investors (external_id)
+  where external_id is not null;
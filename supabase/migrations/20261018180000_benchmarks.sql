@@ -0,0 +1,47 @@
+-- Benchmarks the fund is compared against. Each benchmark is a monthly series
+-- of either returns (%) or index levels, imported from a file. Selected
+-- benchmarks are overlaid on the fund's performance charts, and investors'
+-- hurdles can be tied to any benchmark by name.
+create table if not exists public.benchmarks (
+  id bigint generated by default as identity primary key,
+  name text not null unique,
+  kind text not null check (kind in ('return', 'level')),
+  selected boolean not null default false,
+  source_file text,
+  created_at timestamptz default now()
+);
+
+-- One value per month end: the month's return for a return series, or the
+-- closing level for a level series
+create table if not exists public.benchmark_values (
+  id bigint generated by default as identity primary key,
+  benchmark_id bigint not null references public.benchmarks (id) on delete cascade,
+  month_end_date date not null,
+  value numeric not null,
+  unique (benchmark_id, month_end_date)
+);
+
+alter table public.benchmarks enable row level security;
+alter table public.benchmark_values enable row level security;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['benchmarks', 'benchmark_values'] loop
+    execute format('drop policy if exists "Roles can read" on public.%I', t);
+    execute format(
+      'create policy "Roles can read" on public.%I for select to authenticated using (public.has_app_role(array[''admin'', ''operations'', ''read_only'']))',
+      t
+    );
+    -- Benchmarks are maintained by admins
+    execute format('drop policy if exists "Admins write benchmarks" on public.%I', t);
+    execute format(
+      'create policy "Admins write benchmarks" on public.%I for all to authenticated using (public.has_app_role(array[''admin''])) with check (public.has_app_role(array[''admin'']))',
+      t
+    );
+  end loop;
+end;
+$$;
+
+revoke all on public.benchmarks, public.benchmark_values from anon;
@@ -0,0 +1,51 @@
+-- Fund-wide configuration, kept in a single row. Services read it for the
+-- fund's branding and currency, the fiscal year used for year-to-date figures,
+-- fee terms offered to new investors, the risk-free rate, how closely investor
+-- values must reconcile to the NAV, and when capital flows are dealt.
+create table if not exists public.fund_settings (
+  id smallint primary key default 1 check (id = 1),
+  fund_name text not null default 'Dasein',
+  logo_url text,
+  base_currency text not null default 'USD' check (base_currency ~ '^[A-Z]{3}$'),
+  -- Month the fiscal year ends in; 12 for calendar years
+  fiscal_year_end_month smallint not null default 12 check (fiscal_year_end_month between 1 and 12),
+  default_mgmt_fee_rate numeric not null default 2,
+  default_performance_fee_rate numeric not null default 20,
+  default_crystallization_frequency text not null default 'annual'
+    check (default_crystallization_frequency in ('monthly', 'quarterly', 'annual')),
+  default_hurdle_type text not null default 'none' check (default_hurdle_type in ('none', 'soft', 'hard')),
+  default_hurdle_rate numeric not null default 0,
+  default_catch_up_rate numeric not null default 100,
+  -- Annual %, unless a benchmark is named to use as the risk-free series
+  risk_free_rate numeric not null default 2,
+  risk_free_benchmark text,
+  -- Largest gap between the NAV and the sum of investor values, as % of NAV,
+  -- still treated as reconciled
+  reconciliation_tolerance numeric not null default 0.01 check (reconciliation_tolerance >= 0),
+  -- Flows dated within this many days of a month end are dealt at the next
+  -- month end instead
+  dealing_cutoff_days integer not null default 0 check (dealing_cutoff_days between 0 and 27),
+  updated_at timestamptz default now()
+);
+
+insert into public.fund_settings (id) values (1) on conflict (id) do nothing;
+
+alter table public.fund_settings enable row level security;
+
+drop policy if exists "Roles can read" on public.fund_settings;
+create policy "Roles can read" on public.fund_settings
+  for select to authenticated
+  using (public.has_app_role(array['admin', 'operations', 'read_only']));
+
+drop policy if exists "Admins write settings" on public.fund_settings;
+create policy "Admins write settings" on public.fund_settings
+  for all to authenticated
+  using (public.has_app_role(array['admin']))
+  with check (public.has_app_role(array['admin']));
+
+revoke all on public.fund_settings from anon;
+
+drop trigger if exists audit_fund_settings on public.fund_settings;
+create trigger audit_fund_settings
+  after insert or update or delete on public.fund_settings
+  for each row execute function public.audit_row_change('updated_at');
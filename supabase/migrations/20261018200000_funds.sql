@@ -0,0 +1,81 @@
+-- Several funds (vehicles) managed side by side. NAV, investors and capital
+-- flows belong to a fund, and so does everything the ledger rebuild derives
+-- from them, so each fund is priced and charged fees on its own. Existing rows
+-- move to a first fund named after the configured fund name.
+create table if not exists public.funds (
+  id bigint generated by default as identity primary key,
+  name text not null unique,
+  created_at timestamptz default now()
+);
+
+insert into public.funds (name)
+select coalesce((select fund_name from public.fund_settings where id = 1), 'Dasein')
+where not exists (select 1 from public.funds);
+
+do $$
+declare
+  t text;
+  first_fund bigint := (select min(id) from public.funds);
+begin
+  foreach t in array array[
+    'monthly_nav', 'investors', 'capital_flows', 'nav_per_unit', 'unit_ledger',
+    'fee_transactions', 'high_water_marks', 'performance_fee_crystallizations'
+  ] loop
+    -- Filling existing rows through the column default fires no triggers, so
+    -- the move isn't recorded as an edit of every row
+    execute format(
+      'alter table public.%I add column if not exists fund_id bigint not null default %s references public.funds (id)',
+      t, first_fund
+    );
+    execute format('alter table public.%I alter column fund_id drop default', t);
+    execute format('create index if not exists %I on public.%I (fund_id)', t || '_fund_id_idx', t);
+  end loop;
+end;
+$$;
+
+-- Month ends and crystallization runs are unique within a fund, not overall
+alter table public.monthly_nav drop constraint if exists monthly_nav_month_end_date_key;
+alter table public.monthly_nav
+  drop constraint if exists monthly_nav_fund_month_key,
+  add constraint monthly_nav_fund_month_key unique (fund_id, month_end_date);
+
+alter table public.nav_per_unit drop constraint if exists nav_per_unit_month_end_date_key;
+alter table public.nav_per_unit
+  drop constraint if exists nav_per_unit_fund_month_key,
+  add constraint nav_per_unit_fund_month_key unique (fund_id, month_end_date);
+
+alter table public.performance_fee_crystallizations
+  drop constraint if exists performance_fee_crystallizations_crystallization_date_key;
+alter table public.performance_fee_crystallizations
+  drop constraint if exists performance_fee_crystallizations_fund_date_key,
+  add constraint performance_fee_crystallizations_fund_date_key unique (fund_id, crystallization_date);
+
+-- A capital flow belongs to its investor's fund
+alter table public.investors
+  drop constraint if exists investors_id_fund_key,
+  add constraint investors_id_fund_key unique (id, fund_id);
+
+alter table public.capital_flows
+  drop constraint if exists capital_flows_investor_fund_fkey,
+  add constraint capital_flows_investor_fund_fkey
+    foreign key (investor_id, fund_id) references public.investors (id, fund_id);
+
+alter table public.funds enable row level security;
+
+drop policy if exists "Roles can read" on public.funds;
+create policy "Roles can read" on public.funds
+  for select to authenticated
+  using (public.has_app_role(array['admin', 'operations', 'read_only']));
+
+drop policy if exists "Admins write funds" on public.funds;
+create policy "Admins write funds" on public.funds
+  for all to authenticated
+  using (public.has_app_role(array['admin']))
+  with check (public.has_app_role(array['admin']));
+
+revoke all on public.funds from anon;
+
+drop trigger if exists audit_funds on public.funds;
+create trigger audit_funds
+  after insert or update or delete on public.funds
+  for each row execute function public.audit_row_change();
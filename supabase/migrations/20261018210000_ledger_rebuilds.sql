@@ -0,0 +1,152 @@
+-- Unit ledger rebuilds. The ledger is derived from a fund's NAV, investors,
+-- capital flows and crystallization runs. Each fund counts the changes made to
+-- those sources, and records the count its ledger was last built from, so a
+-- stale ledger can be detected without rebuilding it on every read. A rebuild
+-- replaces the derived rows in a single transaction.
+alter table public.funds
+  add column if not exists ledger_source_version bigint not null default 0,
+  -- Null until the ledger has been built through replace_fund_ledger
+  add column if not exists ledger_built_version bigint,
+  add column if not exists ledger_built_at timestamptz;
+
+-- The counters change on every write to the sources; they are not edits to
+-- the fund
+drop trigger if exists audit_funds on public.funds;
+create trigger audit_funds
+  after insert or update or delete on public.funds
+  for each row execute function public.audit_row_change('ledger_source_version', 'ledger_built_version', 'ledger_built_at');
+
+create or replace function public.bump_ledger_source(p_fund_id bigint)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.funds set ledger_source_version = ledger_source_version + 1 where id = p_fund_id;
+$$;
+
+create or replace function public.ledger_source_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.bump_ledger_source(new.fund_id);
+  elsif tg_op = 'DELETE' then
+    perform public.bump_ledger_source(old.fund_id);
+  -- management_fees is written by the rebuild itself
+  elsif (to_jsonb(new) - 'management_fees') is distinct from (to_jsonb(old) - 'management_fees') then
+    perform public.bump_ledger_source(new.fund_id);
+    if new.fund_id is distinct from old.fund_id then
+      perform public.bump_ledger_source(old.fund_id);
+    end if;
+  end if;
+  return null;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['monthly_nav', 'investors', 'capital_flows', 'performance_fee_crystallizations'] loop
+    execute format('drop trigger if exists ledger_source_changed on public.%I', t);
+    execute format(
+      'create trigger ledger_source_changed after insert or update or delete on public.%I for each row execute function public.ledger_source_changed()',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- Replace a fund's NAV per unit history, unit ledger, fee postings and
+-- high-water marks with a rebuilt set, rolling management fees up onto its NAV, and record the source
+-- version it was built from. Rebuilds of a fund run one
+-- at a time, and one built from older sources than the stored ledger is
+-- dropped (returning false) rather than overwriting it.
+create or replace function public.replace_fund_ledger(
+  p_fund_id bigint,
+  p_source_version bigint,
+  p_nav_per_unit jsonb,
+  p_unit_ledger jsonb,
+  p_fee_transactions jsonb,
+  p_high_water_marks jsonb,
+  -- Each NAV row's id and the management fees charged that month
+  p_management_fees jsonb
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  built_version bigint;
+begin
+  if not public.has_app_role(array['admin', 'operations']) then
+    raise exception 'Only admins and operations can rebuild the unit ledger' using errcode = '42501';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('replace_fund_ledger'), p_fund_id::integer);
+
+  select ledger_built_version into built_version from public.funds where id = p_fund_id;
+  if not found then
+    raise exception 'Fund % does not exist', p_fund_id using errcode = 'P0002';
+  end if;
+  if built_version > p_source_version then
+    return false;
+  end if;
+
+  delete from public.unit_ledger where fund_id = p_fund_id;
+  delete from public.nav_per_unit where fund_id = p_fund_id;
+  delete from public.fee_transactions where fund_id = p_fund_id;
+  delete from public.high_water_marks where fund_id = p_fund_id;
+
+  insert into public.nav_per_unit (
+    fund_id, monthly_nav_id, month_end_date, nav_per_unit, units_outstanding, units_issued, units_redeemed
+  )
+  select p_fund_id, r.monthly_nav_id, r.month_end_date, r.nav_per_unit, r.units_outstanding,
+    r.units_issued, r.units_redeemed
+  from jsonb_populate_recordset(null::public.nav_per_unit, p_nav_per_unit) as r;
+
+  insert into public.unit_ledger (
+    fund_id, investor_id, capital_flow_id, flow_date, dealing_date, type, amount, units, nav_per_unit
+  )
+  select p_fund_id, r.investor_id, r.capital_flow_id, r.flow_date, r.dealing_date, r.type, r.amount,
+    r.units, r.nav_per_unit
+  from jsonb_populate_recordset(null::public.unit_ledger, p_unit_ledger) as r;
+
+  insert into public.fee_transactions (
+    fund_id, investor_id, fee_type, period_start, period_end, rate, fee_basis, days, amount, units, nav_per_unit
+  )
+  select p_fund_id, r.investor_id, r.fee_type, r.period_start, r.period_end, r.rate, r.fee_basis, r.days,
+    r.amount, r.units, r.nav_per_unit
+  from jsonb_populate_recordset(null::public.fee_transactions, p_fee_transactions) as r;
+
+  insert into public.high_water_marks (
+    fund_id, investor_id, month_end_date, high_water_mark, nav_per_unit, units, accrued_fee, crystallized_fee,
+    hurdle_nav_per_unit, gross_gain, hurdle_amount
+  )
+  select p_fund_id, r.investor_id, r.month_end_date, r.high_water_mark, r.nav_per_unit, r.units,
+    coalesce(r.accrued_fee, 0), coalesce(r.crystallized_fee, 0), r.hurdle_nav_per_unit,
+    coalesce(r.gross_gain, 0), coalesce(r.hurdle_amount, 0)
+  from jsonb_populate_recordset(null::public.high_water_marks, p_high_water_marks) as r;
+
+  update public.monthly_nav as m
+  set management_fees = r.management_fees
+  from jsonb_to_recordset(p_management_fees) as r(id bigint, management_fees numeric)
+  where m.id = r.id
+    and m.fund_id = p_fund_id
+    and m.management_fees is distinct from r.management_fees;
+
+  update public.funds
+  set ledger_built_version = p_source_version, ledger_built_at = now()
+  where id = p_fund_id;
+
+  return true;
+end;
+$$;
+
+revoke all on function public.replace_fund_ledger(bigint, bigint, jsonb, jsonb, jsonb, jsonb, jsonb) from public, anon;
+grant execute on function public.replace_fund_ledger(bigint, bigint, jsonb, jsonb, jsonb, jsonb, jsonb) to authenticated;
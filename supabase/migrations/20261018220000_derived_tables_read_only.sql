@@ -0,0 +1,17 @@
+-- The unit ledger and everything derived from it is written only by
+-- replace_fund_ledger, which checks the caller's role itself. Users keep read
+-- access but can no longer insert, edit or delete derived rows directly.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['nav_per_unit', 'unit_ledger', 'fee_transactions', 'high_water_marks'] loop
+    execute format('drop policy if exists "Writers rebuild ledger" on public.%I', t);
+    execute format('revoke insert, update, delete, truncate on public.%I from anon, authenticated', t);
+  end loop;
+end;
+$$;
+
+-- Management fees are rolled up onto monthly_nav by replace_fund_ledger too,
+-- so operations users no longer update NAV at all
+drop policy if exists "Operations roll up fees" on public.monthly_nav;
@@ -0,0 +1,59 @@
+-- Restating a month recomputes the following month's return, which was
+-- measured from the restated NAV. That update is sent with an x-recomputed
+-- header, and only changes monthly_return, so it no longer makes the following
+-- month a new version or marks it restated.
+create or replace function public.version_monthly_nav()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+  headers jsonb := nullif(current_setting('request.headers', true), '')::jsonb;
+  encoded_reason text := headers ->> 'x-audit-reason';
+  decoded_reason text;
+begin
+  -- Only published values make a new version; derived columns such as
+  -- management_fees are rewritten on every ledger rebuild
+  if (new.month_end_date, new.total_nav, new.monthly_return, new.aum_change)
+    is not distinct from (old.month_end_date, old.total_nav, old.monthly_return, old.aum_change) then
+    return new;
+  end if;
+
+  -- A return recomputed because the month before was restated is not a
+  -- restatement of this month
+  if headers ->> 'x-recomputed' = 'true'
+    and (new.month_end_date, new.total_nav, new.aum_change)
+      is not distinct from (old.month_end_date, old.total_nav, old.aum_change) then
+    return new;
+  end if;
+
+  if encoded_reason is not null then
+    begin
+      decoded_reason := convert_from(decode(encoded_reason, 'base64'), 'UTF8');
+    exception when others then
+      decoded_reason := encoded_reason;
+    end;
+  end if;
+
+  insert into public.monthly_nav_versions (
+    monthly_nav_id, version, month_end_date, total_nav, monthly_return, aum_change,
+    recorded_at, superseded_by, reason
+  ) values (
+    old.id,
+    old.version,
+    old.month_end_date,
+    old.total_nav,
+    old.monthly_return,
+    old.aum_change,
+    coalesce(old.restated_at, old.created_at),
+    nullif(claims ->> 'sub', '')::uuid,
+    decoded_reason
+  );
+
+  new.version := old.version + 1;
+  new.restated_at := now();
+  return new;
+end;
+$$;
@@ -0,0 +1,193 @@
+-- Settings and chart benchmarks belong to a fund. Each fund gets its own
+-- settings row, starting from the settings so far, and chooses its own
+-- benchmarks to overlay; the benchmarks themselves stay shared. Changes that
+-- move a fund's ledger (its dealing cutoff, or the values of a benchmark its
+-- investors' hurdles track) mark the ledger out of date.
+alter table public.fund_settings drop constraint if exists fund_settings_id_check;
+alter table public.fund_settings alter column id drop default;
+alter table public.fund_settings alter column id set data type bigint;
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'fund_settings' and column_name = 'id' and is_identity = 'YES'
+  ) then
+    alter table public.fund_settings alter column id add generated by default as identity;
+    perform setval(
+      pg_get_serial_sequence('public.fund_settings', 'id'),
+      coalesce((select max(id) from public.fund_settings), 0) + 1,
+      false
+    );
+  end if;
+end;
+$$;
+
+alter table public.fund_settings
+  add column if not exists fund_id bigint references public.funds (id) on delete cascade;
+
+update public.fund_settings set fund_id = (select min(id) from public.funds) where fund_id is null;
+
+insert into public.fund_settings (
+  fund_id, logo_url, base_currency, fiscal_year_end_month,
+  default_mgmt_fee_rate, default_performance_fee_rate, default_crystallization_frequency,
+  default_hurdle_type, default_hurdle_rate, default_catch_up_rate,
+  risk_free_rate, risk_free_benchmark, reconciliation_tolerance, dealing_cutoff_days
+)
+select
+  f.id, s.logo_url, s.base_currency, s.fiscal_year_end_month,
+  s.default_mgmt_fee_rate, s.default_performance_fee_rate, s.default_crystallization_frequency,
+  s.default_hurdle_type, s.default_hurdle_rate, s.default_catch_up_rate,
+  s.risk_free_rate, s.risk_free_benchmark, s.reconciliation_tolerance, s.dealing_cutoff_days
+from public.funds f
+cross join (select * from public.fund_settings order by id limit 1) s
+where not exists (select 1 from public.fund_settings existing where existing.fund_id = f.id);
+
+alter table public.fund_settings alter column fund_id set not null;
+-- The fund's name is the one in funds, which the switcher and statements show
+alter table public.fund_settings drop column if exists fund_name;
+alter table public.fund_settings
+  drop constraint if exists fund_settings_fund_key,
+  add constraint fund_settings_fund_key unique (fund_id);
+
+-- A new fund starts with default settings
+create or replace function public.create_fund_settings()
+returns trigger
+language plpgsql
+as $$
+begin
+  insert into public.fund_settings (fund_id) values (new.id)
+  on conflict (fund_id) do nothing;
+  return null;
+end;
+$$;
+
+drop trigger if exists create_fund_settings on public.funds;
+create trigger create_fund_settings
+  after insert on public.funds
+  for each row execute function public.create_fund_settings();
+
+-- Flows are dealt by the cutoff, so changing it moves them between months
+create or replace function public.dealing_cutoff_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.dealing_cutoff_days is distinct from old.dealing_cutoff_days then
+    perform public.bump_ledger_source(new.fund_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists dealing_cutoff_changed on public.fund_settings;
+create trigger dealing_cutoff_changed
+  after update on public.fund_settings
+  for each row execute function public.dealing_cutoff_changed();
+
+-- The benchmarks overlaid on each fund's charts
+create table if not exists public.fund_benchmarks (
+  id bigint generated by default as identity primary key,
+  fund_id bigint not null references public.funds (id) on delete cascade,
+  benchmark_id bigint not null references public.benchmarks (id) on delete cascade,
+  unique (fund_id, benchmark_id)
+);
+
+create index if not exists fund_benchmarks_fund_id_idx on public.fund_benchmarks (fund_id);
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'benchmarks' and column_name = 'selected'
+  ) then
+    insert into public.fund_benchmarks (fund_id, benchmark_id)
+    select f.id, b.id from public.funds f cross join public.benchmarks b where b.selected
+    on conflict (fund_id, benchmark_id) do nothing;
+  end if;
+end;
+$$;
+
+alter table public.benchmarks drop column if exists selected;
+
+alter table public.fund_benchmarks enable row level security;
+
+drop policy if exists "Roles can read" on public.fund_benchmarks;
+create policy "Roles can read" on public.fund_benchmarks
+  for select to authenticated
+  using (public.has_app_role(array['admin', 'operations', 'read_only']));
+
+drop policy if exists "Admins write benchmarks" on public.fund_benchmarks;
+create policy "Admins write benchmarks" on public.fund_benchmarks
+  for all to authenticated
+  using (public.has_app_role(array['admin']))
+  with check (public.has_app_role(array['admin']));
+
+revoke all on public.fund_benchmarks from anon;
+
+-- Hurdles tied to a benchmark follow its returns, so any change to a
+-- benchmark's values, name or kind moves the ledgers of the funds whose
+-- investors track it by name
+create or replace function public.bump_hurdle_benchmark_funds(p_benchmark_name text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.funds set ledger_source_version = ledger_source_version + 1
+  where id in (
+    select fund_id from public.investors
+    where hurdle_type <> 'none' and hurdle_benchmark = p_benchmark_name
+  );
+$$;
+
+-- Only the triggers move the counters
+revoke all on function public.bump_hurdle_benchmark_funds(text) from public, anon, authenticated;
+
+create or replace function public.benchmark_values_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Values deleted along with their benchmark find it gone; its own trigger
+  -- covers them
+  if tg_op <> 'DELETE' then
+    perform public.bump_hurdle_benchmark_funds(name) from public.benchmarks where id = new.benchmark_id;
+  end if;
+  if tg_op = 'DELETE' or (tg_op = 'UPDATE' and new.benchmark_id is distinct from old.benchmark_id) then
+    perform public.bump_hurdle_benchmark_funds(name) from public.benchmarks where id = old.benchmark_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists benchmark_values_changed on public.benchmark_values;
+create trigger benchmark_values_changed
+  after insert or update or delete on public.benchmark_values
+  for each row execute function public.benchmark_values_changed();
+
+create or replace function public.benchmark_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform public.bump_hurdle_benchmark_funds(old.name);
+  elsif new.name is distinct from old.name or new.kind is distinct from old.kind then
+    perform public.bump_hurdle_benchmark_funds(old.name);
+    perform public.bump_hurdle_benchmark_funds(new.name);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists benchmark_changed on public.benchmarks;
+create trigger benchmark_changed
+  after update or delete on public.benchmarks
+  for each row execute function public.benchmark_changed();